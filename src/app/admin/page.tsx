@@ -4,6 +4,14 @@ import React, { useState, useEffect, useMemo } from 'react';
 import axios from 'axios';
 import clsx from 'clsx';
 import { VideoData } from '@/types';
+import { AnalysisJobWithProgress } from '@/types/analysisJobs';
+import { AnalysisCacheSyncDirection, AnalysisCacheSyncResult } from '@/types/analysisCache';
+import { ActivityLogEntry, AnalysisChangeSummary, ReceivedWebhook } from '@/types/analysisChanges';
+import { BrandEntry } from '@/types/brandRegistry';
+import { PromptTemplate, PromptTemplateSummary } from '@/types/promptTemplates';
+
+// How often to poll the active bulk analysis job
+const JOB_POLL_INTERVAL_MS = 3000;
 
 type AdminVideo = {
   _id: string;
@@ -13,17 +21,74 @@ type AdminVideo = {
   user_metadata?: Record<string, unknown>;
 };
 
+// Prompt template editor fields; lists are comma-separated and the schema is JSON text
+type TemplateForm = {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+  outputSchema: string;
+  tones: string;
+  styles: string;
+  isNew: boolean;
+};
+
+const EMPTY_TEMPLATE_FORM: TemplateForm = {
+  id: '',
+  name: '',
+  description: '',
+  body: '{{scope}}\n\nRespond with ONLY a valid JSON object matching this JSON Schema:\n\n{{outputSchema}}\n\nTones (pick 1–3): {{tones}}\nStyles (pick 1–3): {{styles}}\n',
+  outputSchema: '{\n  "type": "object",\n  "properties": {\n    "products": { "type": "array", "items": { "type": "object", "required": ["brand", "product_name", "timeline"] } }\n  }\n}',
+  tones: '',
+  styles: '',
+  isNew: true,
+};
+
+// Webhook settings form; the secret is only sent when typed in
+type WebhookForm = {
+  enabled: boolean;
+  url: string;
+  secret: string;
+  hasSecret: boolean;
+};
+
+// Change banner entries shown before collapsing into a count
+const MAX_BANNER_ENTRIES = 5;
+
+// One-line description of how a re-analysis changed a video's brands
+const describeChanges = (changes: AnalysisChangeSummary): string => {
+  const addedOrRemoved = new Set([...changes.brandsAdded, ...changes.brandsRemoved]);
+  return [
+    ...changes.brandsAdded.map((brand) => `+${brand}`),
+    ...changes.brandsRemoved.map((brand) => `−${brand}`),
+    ...changes.exposureChanges
+      .filter((change) => !addedOrRemoved.has(change.brand))
+      .map((change) => `${change.brand} ${change.deltaSec > 0 ? '+' : ''}${change.deltaSec}s`),
+  ].join(' · ');
+};
+
 export default function AdminPage() {
   const [analyzingVideoId, setAnalyzingVideoId] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isBulkAnalyzing, setIsBulkAnalyzing] = useState(false);
-  const [bulkProgress, setBulkProgress] = useState({ current: 0, total: 0 });
+  const [bulkJob, setBulkJob] = useState<AnalysisJobWithProgress | null>(null);
   const [videos, setVideos] = useState<AdminVideo[]>([]);
   const [filter, setFilter] = useState<'all' | 'brand' | 'creator'>('all');
   const [search, setSearch] = useState('');
   const [brandEdits, setBrandEdits] = useState<Record<string, string>>({});
   const [savingBrandId, setSavingBrandId] = useState<string | null>(null);
+  const [registry, setRegistry] = useState<BrandEntry[]>([]);
+  const [registryForm, setRegistryForm] = useState({ id: '', canonicalName: '', aliases: '', parentCompany: '' });
+  const [isSavingRegistry, setIsSavingRegistry] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [templateForm, setTemplateForm] = useState<TemplateForm | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [cacheSyncDirection, setCacheSyncDirection] = useState<AnalysisCacheSyncDirection | null>(null);
+  const [changeEntries, setChangeEntries] = useState<ActivityLogEntry[]>([]);
+  const [webhookForm, setWebhookForm] = useState<WebhookForm>({ enabled: false, url: '', secret: '', hasSecret: false });
+  const [isSavingWebhook, setIsSavingWebhook] = useState(false);
+  const [receivedWebhooks, setReceivedWebhooks] = useState<ReceivedWebhook[]>([]);
 
   const brandIndexId = process.env.NEXT_PUBLIC_BRAND_INDEX_ID || '';
   const creatorIndexId = process.env.NEXT_PUBLIC_CREATOR_INDEX_ID || '';
@@ -93,9 +158,13 @@ export default function AdminPage() {
         indexId: useIndexId,
         force: true,
         segmentAnalysis: true,
+        templateId: selectedTemplateId || undefined,
       });
       if (response.data) {
-        setMessage('Analysis triggered successfully.');
+        const changes = response.data.changes as AnalysisChangeSummary | undefined;
+        const description = changes ? describeChanges(changes) : '';
+        setMessage(description ? `Analysis complete. Brand results changed: ${description}` : 'Analysis triggered successfully.');
+        fetchChangeEntries();
       } else {
         setMessage('Analysis request completed, but no response payload was returned.');
       }
@@ -106,6 +175,42 @@ export default function AdminPage() {
     }
   };
 
+  const isBulkAnalyzing = bulkJob?.status === 'queued' || bulkJob?.status === 'running';
+
+  // Pick up the most recent bulk job so progress survives a page reload
+  useEffect(() => {
+    const fetchLatestJob = async () => {
+      try {
+        const res = await axios.get('/api/brand-mentions/jobs');
+        const jobs = (res.data?.jobs as AnalysisJobWithProgress[]) || [];
+        if (jobs.length > 0) setBulkJob(jobs[0]);
+      } catch (err) {
+        console.error('❌ Failed to fetch analysis jobs:', err);
+      }
+    };
+    fetchLatestJob();
+  }, []);
+
+  // Poll the active job until it finishes
+  useEffect(() => {
+    if (!bulkJob || !isBulkAnalyzing) return;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await axios.get(`/api/brand-mentions/jobs/${bulkJob.id}`);
+        const job = res.data?.job as AnalysisJobWithProgress | undefined;
+        if (!job) return;
+        setBulkJob(job);
+        fetchChangeEntries();
+        if (job.status === 'completed' || job.status === 'failed') {
+          setMessage(`Bulk analysis ${job.status}: ${job.progress.succeeded} succeeded, ${job.progress.partial} partial, ${job.progress.failed} failed.`);
+        }
+      } catch (err) {
+        console.error('❌ Failed to poll analysis job:', err);
+      }
+    }, JOB_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [bulkJob, isBulkAnalyzing]);
+
   const triggerBulkAnalyze = async () => {
     if (!creatorIndexId) {
       setMessage('Creator index ID is not configured.');
@@ -118,37 +223,266 @@ export default function AdminPage() {
       return;
     }
 
-    setIsBulkAnalyzing(true);
-    setBulkProgress({ current: 0, total: creatorVideos.length });
     setMessage(null);
 
     try {
-      for (let i = 0; i < creatorVideos.length; i++) {
-        const video = creatorVideos[i];
-        setBulkProgress({ current: i + 1, total: creatorVideos.length });
-
-        try {
-          await axios.post('/api/brand-mentions/analyze', {
-            videoId: video._id,
-            indexId: video.index_id,
-            force: true,
-            segmentAnalysis: true,
-          });
-        } catch (error) {
-          console.error(`❌ Failed to analyze video ${video._id}:`, error);
-          // Continue with next video instead of stopping
+      const res = await axios.post('/api/brand-mentions/jobs', {
+        indexId: creatorIndexId,
+        videoIds: creatorVideos.map(v => v._id),
+        segmentAnalysis: true,
+        templateId: selectedTemplateId || undefined,
+      });
+      setBulkJob(res.data?.job ?? null);
+      setMessage(`Queued ${creatorVideos.length} creator videos. Analysis continues on the server if you close this tab.`);
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : 'Failed to queue bulk analysis');
+    }
+  };
+
+  const updateBulkJob = async (action: 'cancel' | 'retry') => {
+    if (!bulkJob) return;
+    try {
+      const res = await axios.post(`/api/brand-mentions/jobs/${bulkJob.id}/${action}`);
+      setBulkJob(res.data?.job ?? bulkJob);
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : `Failed to ${action} bulk analysis`);
+    }
+  };
+
+  const syncAnalysisCache = async (direction: AnalysisCacheSyncDirection) => {
+    if (!creatorIndexId) {
+      setMessage('Creator index ID is not configured.');
+      return;
+    }
+
+    setCacheSyncDirection(direction);
+    setMessage(null);
+
+    try {
+      const res = await axios.post('/api/brand-mentions/cache/sync', { indexId: creatorIndexId, direction });
+      const result = res.data?.result as AnalysisCacheSyncResult;
+      setMessage(
+        `${direction === 'pull' ? 'Pulled' : 'Pushed'} ${result.updated} of ${result.scanned} videos` +
+        (result.failed.length > 0 ? ` (${result.failed.length} failed)` : '')
+      );
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : 'Failed to sync analysis cache');
+    } finally {
+      setCacheSyncDirection(null);
+    }
+  };
+
+  // Load re-analysis changes nobody has dismissed yet
+  const fetchChangeEntries = async () => {
+    try {
+      const res = await axios.get('/api/brand-mentions/activity', { params: { unacknowledged: true } });
+      setChangeEntries((res.data?.entries as ActivityLogEntry[]) || []);
+    } catch (err) {
+      console.error('❌ Failed to fetch activity log:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchChangeEntries();
+  }, []);
+
+  const dismissChanges = async (ids?: string[]) => {
+    try {
+      await axios.post('/api/brand-mentions/activity', { ids });
+      setChangeEntries(prev => (ids ? prev.filter(e => !ids.includes(e.id)) : []));
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : 'Failed to dismiss changes');
+    }
+  };
+
+  // Load the webhook settings and what the local test receiver got
+  const fetchReceivedWebhooks = async () => {
+    try {
+      const res = await axios.get('/api/brand-mentions/webhook/receiver');
+      setReceivedWebhooks((res.data?.received as ReceivedWebhook[]) || []);
+    } catch (err) {
+      console.error('❌ Failed to fetch received webhooks:', err);
+    }
+  };
+
+  useEffect(() => {
+    const fetchWebhookSettings = async () => {
+      try {
+        const res = await axios.get('/api/brand-mentions/webhook');
+        const settings = res.data?.settings;
+        if (settings) {
+          setWebhookForm({ enabled: settings.enabled, url: settings.url, secret: '', hasSecret: settings.hasSecret });
         }
+      } catch (err) {
+        console.error('❌ Failed to fetch webhook settings:', err);
+      }
+    };
+    fetchWebhookSettings();
+    fetchReceivedWebhooks();
+  }, []);
+
+  const saveWebhookSettings = async () => {
+    setIsSavingWebhook(true);
+    setMessage(null);
+    try {
+      const res = await axios.put('/api/brand-mentions/webhook', {
+        enabled: webhookForm.enabled,
+        url: webhookForm.url.trim(),
+        secret: webhookForm.secret || undefined,
+      });
+      const settings = res.data?.settings;
+      setWebhookForm({ enabled: settings.enabled, url: settings.url, secret: '', hasSecret: settings.hasSecret });
+      setMessage('Webhook settings saved');
+    } catch (err: unknown) {
+      setMessage(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to save webhook settings');
+    } finally {
+      setIsSavingWebhook(false);
+    }
+  };
 
-        // Add a small delay to avoid overwhelming the API
-        await new Promise(resolve => setTimeout(resolve, 1000));
+  const sendTestWebhook = async () => {
+    setMessage(null);
+    try {
+      const res = await axios.post('/api/brand-mentions/webhook');
+      const delivery = res.data?.delivery;
+      setMessage(delivery?.delivered
+        ? `Test notification delivered (${delivery.status})`
+        : `Test notification failed: ${delivery?.error || `status ${delivery?.status}`}`);
+      fetchReceivedWebhooks();
+    } catch (err: unknown) {
+      setMessage(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to send test notification');
+    }
+  };
+
+  // Load the brand registry
+  useEffect(() => {
+    const fetchRegistry = async () => {
+      try {
+        const res = await axios.get('/api/brand-mentions/brands');
+        setRegistry((res.data?.brands as BrandEntry[]) || []);
+      } catch (err) {
+        console.error('❌ Failed to fetch brand registry:', err);
       }
+    };
+    fetchRegistry();
+  }, []);
+
+  const resetRegistryForm = () => setRegistryForm({ id: '', canonicalName: '', aliases: '', parentCompany: '' });
+
+  const editRegistryEntry = (entry: BrandEntry) => {
+    setRegistryForm({
+      id: entry.id,
+      canonicalName: entry.canonicalName,
+      aliases: entry.aliases.join(', '),
+      parentCompany: entry.parentCompany || '',
+    });
+  };
+
+  const saveRegistryEntry = async () => {
+    if (!registryForm.canonicalName.trim()) {
+      setMessage('Please enter a canonical brand name');
+      return;
+    }
+    setIsSavingRegistry(true);
+    setMessage(null);
+    try {
+      const res = await axios.post('/api/brand-mentions/brands', {
+        id: registryForm.id || undefined,
+        canonicalName: registryForm.canonicalName.trim(),
+        aliases: registryForm.aliases.split(',').map(a => a.trim()).filter(Boolean),
+        parentCompany: registryForm.parentCompany.trim() || undefined,
+      });
+      const saved = res.data?.brand as BrandEntry;
+      setRegistry(prev => [...prev.filter(b => b.id !== saved.id), saved].sort((a, b) => a.canonicalName.localeCompare(b.canonicalName)));
+      resetRegistryForm();
+      setMessage(`Saved brand ${saved.canonicalName}`);
+    } catch (err: unknown) {
+      setMessage(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to save brand');
+    } finally {
+      setIsSavingRegistry(false);
+    }
+  };
+
+  const deleteRegistryEntry = async (id: string) => {
+    setMessage(null);
+    try {
+      await axios.delete('/api/brand-mentions/brands', { params: { id } });
+      setRegistry(prev => prev.filter(b => b.id !== id));
+      if (registryForm.id === id) resetRegistryForm();
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : 'Failed to delete brand');
+    }
+  };
 
-      setMessage(`Bulk analysis completed! Processed ${creatorVideos.length} creator videos.`);
+  // Load prompt templates
+  const fetchTemplates = async () => {
+    try {
+      const res = await axios.get('/api/brand-mentions/prompts');
+      setTemplates((res.data?.templates as PromptTemplateSummary[]) || []);
+    } catch (err) {
+      console.error('❌ Failed to fetch prompt templates:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const editTemplate = async (id?: string) => {
+    setMessage(null);
+    if (!id) {
+      setTemplateForm({ ...EMPTY_TEMPLATE_FORM });
+      return;
+    }
+    try {
+      const res = await axios.get('/api/brand-mentions/prompts', { params: { id } });
+      const template = res.data?.template as PromptTemplate;
+      setTemplateForm({
+        id: template.id,
+        name: template.name,
+        description: template.description || '',
+        body: template.body,
+        outputSchema: JSON.stringify(template.outputSchema, null, 2),
+        tones: template.tones.join(', '),
+        styles: template.styles.join(', '),
+        isNew: false,
+      });
+    } catch (err: unknown) {
+      setMessage(err instanceof Error ? err.message : 'Failed to load template');
+    }
+  };
+
+  const saveTemplate = async () => {
+    if (!templateForm) return;
+
+    let outputSchema: unknown;
+    try {
+      outputSchema = JSON.parse(templateForm.outputSchema);
+    } catch {
+      setMessage('Output schema must be valid JSON');
+      return;
+    }
+
+    setIsSavingTemplate(true);
+    setMessage(null);
+    try {
+      const res = await axios.post('/api/brand-mentions/prompts', {
+        id: templateForm.id.trim(),
+        name: templateForm.name.trim(),
+        description: templateForm.description.trim() || undefined,
+        body: templateForm.body,
+        outputSchema,
+        tones: templateForm.tones.split(',').map(t => t.trim()).filter(Boolean),
+        styles: templateForm.styles.split(',').map(s => s.trim()).filter(Boolean),
+      });
+      const saved = res.data?.template as PromptTemplate;
+      setTemplateForm(null);
+      await fetchTemplates();
+      setMessage(`Saved template ${saved.name} as version ${saved.version}`);
     } catch (err: unknown) {
-      setMessage(err instanceof Error ? err.message : 'Failed to complete bulk analysis');
+      setMessage(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to save template');
     } finally {
-      setIsBulkAnalyzing(false);
-      setBulkProgress({ current: 0, total: 0 });
+      setIsSavingTemplate(false);
     }
   };
 
@@ -173,14 +507,17 @@ export default function AdminPage() {
         headers: { 'Content-Type': 'application/json' },
       });
       if (res.data?.success) {
+        // The server resolves the override to its canonical registry name
+        const savedName = res.data?.user_metadata?.brand_override || brandName;
         setVideos(prev => prev.map(v => v._id === videoId ? {
           ...v,
           user_metadata: {
             ...(v.user_metadata || {}),
-            brand_override: brandName,
+            brand_override: savedName,
           },
         } : v));
-        setMessage('Brand override saved');
+        setBrandEdits(prev => ({ ...prev, [videoId]: savedName }));
+        setMessage(savedName === brandName ? 'Brand override saved' : `Brand override saved as ${savedName}`);
       } else {
         setMessage(res.data?.error || 'Failed to save brand override');
       }
@@ -196,6 +533,47 @@ export default function AdminPage() {
       <main className="container mx-auto px-4 py-8">
         <h1 className="text-2xl font-bold mb-6">Admin</h1>
 
+        {/* Re-analysis change banner */}
+        {changeEntries.length > 0 && (
+          <div className="mb-6 p-4 border border-amber-300 rounded-lg bg-amber-50" role="status">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-sm font-semibold text-amber-900">
+                Re-analysis changed brand results for {changeEntries.length} video{changeEntries.length === 1 ? '' : 's'}
+              </h2>
+              <button
+                onClick={() => dismissChanges()}
+                className="px-2 py-1 text-xs rounded bg-white border hover:bg-gray-100"
+              >
+                Dismiss all
+              </button>
+            </div>
+            <ul className="space-y-1 text-sm text-amber-900">
+              {changeEntries.slice(0, MAX_BANNER_ENTRIES).map((entry) => (
+                <li key={entry.id} className="flex items-start justify-between gap-2">
+                  <span>
+                    <span className="font-medium">{entry.changes.creator || entry.changes.videoId}</span>
+                    {' '}({new Date(entry.createdAt).toLocaleString()}): {describeChanges(entry.changes)}
+                    {entry.webhook && !entry.webhook.delivered && (
+                      <span className="text-red-600"> · webhook failed</span>
+                    )}
+                  </span>
+                  <button
+                    onClick={() => dismissChanges([entry.id])}
+                    className="text-xs text-amber-800 underline flex-shrink-0"
+                  >
+                    Dismiss
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {changeEntries.length > MAX_BANNER_ENTRIES && (
+              <div className="text-xs text-amber-800 mt-1">
+                and {changeEntries.length - MAX_BANNER_ENTRIES} more
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Bulk Analysis Section */}
         <div className="mb-6 p-4 border rounded-lg bg-blue-50">
           <div className="flex items-center justify-between">
@@ -204,33 +582,353 @@ export default function AdminPage() {
               <p className="text-sm text-gray-600">
                 Re-analyze all creator videos to get updated location data
               </p>
-              {isBulkAnalyzing && (
+              {bulkJob && (
                 <div className="mt-2">
                   <div className="text-sm text-blue-600">
-                    Progress: {bulkProgress.current} / {bulkProgress.total} videos
+                    {isBulkAnalyzing ? 'Progress' : `Last run (${bulkJob.status})`}: {bulkJob.progress.completed} / {bulkJob.progress.total} videos
+                    {bulkJob.progress.failed > 0 && (
+                      <span className="text-red-600"> · {bulkJob.progress.failed} failed</span>
+                    )}
+                    {bulkJob.progress.partial > 0 && (
+                      <span className="text-amber-600"> · {bulkJob.progress.partial} partial</span>
+                    )}
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
                     <div
                       className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${(bulkProgress.current / bulkProgress.total) * 100}%` }}
+                      style={{ width: `${bulkJob.progress.percent}%` }}
                     ></div>
                   </div>
+                  <div className="flex gap-2 mt-2">
+                    {isBulkAnalyzing && (
+                      <button
+                        onClick={() => updateBulkJob('cancel')}
+                        disabled={bulkJob.cancelRequested}
+                        className="px-2 py-1 text-xs rounded bg-white border hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        {bulkJob.cancelRequested ? 'Cancelling...' : 'Cancel'}
+                      </button>
+                    )}
+                    {(bulkJob.status === 'failed' || bulkJob.status === 'cancelled') && (
+                      <button
+                        onClick={() => updateBulkJob('retry')}
+                        className="px-2 py-1 text-xs rounded bg-white border hover:bg-gray-100"
+                      >
+                        Retry failed
+                      </button>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
+            <div className="flex flex-col items-end gap-2">
+              <select
+                value={selectedTemplateId}
+                onChange={(e) => setSelectedTemplateId(e.target.value)}
+                className="px-2 py-1 text-sm border rounded bg-white"
+                title="Prompt template used for analysis"
+              >
+                <option value="">Default prompt</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name} (v{t.version})</option>
+                ))}
+              </select>
+              <button
+                onClick={triggerBulkAnalyze}
+                disabled={isBulkAnalyzing || !creatorIndexId}
+                className={clsx(
+                  'px-4 py-2 rounded font-medium',
+                  isBulkAnalyzing || !creatorIndexId
+                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                )}
+              >
+                {isBulkAnalyzing ? 'Analyzing...' : 'Re-analyze All Creators'}
+            </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Analysis Cache Section */}
+        <div className="mb-6 p-4 border rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold mb-2">Analysis Cache</h2>
+              <p className="text-sm text-gray-600">
+                Sync the server-side analysis cache of creator videos with their Twelve Labs metadata
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {(['pull', 'push'] as const).map((direction) => (
+                <button
+                  key={direction}
+                  onClick={() => syncAnalysisCache(direction)}
+                  disabled={cacheSyncDirection !== null || !creatorIndexId}
+                  className="px-3 py-2 text-sm rounded bg-white border hover:bg-gray-100 disabled:opacity-50"
+                >
+                  {cacheSyncDirection === direction
+                    ? 'Syncing...'
+                    : direction === 'pull' ? 'Pull from metadata' : 'Push to metadata'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Change Notifications Section */}
+        <div className="mb-6 p-4 border rounded-lg bg-gray-50">
+          <h2 className="text-lg font-semibold mb-2">Change Notifications</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            When a re-analysis adds or removes a brand or changes its screen time, the change is posted to this webhook.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={webhookForm.enabled}
+                onChange={(e) => setWebhookForm(prev => ({ ...prev, enabled: e.target.checked }))}
+              />
+              Enabled
+            </label>
+            <input
+              type="text"
+              value={webhookForm.url}
+              onChange={(e) => setWebhookForm(prev => ({ ...prev, url: e.target.value }))}
+              placeholder="https://example.com/webhook"
+              className="flex-1 min-w-[240px] px-2 py-1 text-sm border rounded"
+            />
+            <input
+              type="password"
+              value={webhookForm.secret}
+              onChange={(e) => setWebhookForm(prev => ({ ...prev, secret: e.target.value }))}
+              placeholder={webhookForm.hasSecret ? 'Secret (unchanged)' : 'Signing secret (optional)'}
+              className="px-2 py-1 text-sm border rounded"
+            />
+            <button
+              onClick={saveWebhookSettings}
+              disabled={isSavingWebhook}
+              className="px-3 py-1 text-sm rounded bg-black text-white hover:bg-gray-800 disabled:opacity-50"
+            >
+              {isSavingWebhook ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={sendTestWebhook}
+              className="px-3 py-1 text-sm rounded bg-white border hover:bg-gray-100"
+            >
+              Send test
+            </button>
             <button
-              onClick={triggerBulkAnalyze}
-              disabled={isBulkAnalyzing || !creatorIndexId}
+              onClick={() => setWebhookForm(prev => ({ ...prev, url: `${window.location.origin}/api/brand-mentions/webhook/receiver` }))}
+              className="px-3 py-1 text-sm rounded bg-white border hover:bg-gray-100"
+              title="Send notifications to this server's test receiver"
+            >
+              Use local test receiver
+            </button>
+          </div>
+          <div className="mt-3">
+            <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+              Local test receiver: {receivedWebhooks.length} request{receivedWebhooks.length === 1 ? '' : 's'} received
+              <button onClick={fetchReceivedWebhooks} className="underline">Refresh</button>
+            </div>
+            {receivedWebhooks.slice(0, 5).map((received, idx) => (
+              <div key={`${received.receivedAt}-${idx}`} className="text-xs text-gray-700 font-mono truncate">
+                {received.receivedAt}
+                {received.signatureValid === false && <span className="text-red-600"> [bad signature]</span>}
+                {' '}{JSON.stringify(received.payload)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Prompt Templates Section */}
+        <div className="mb-6 p-4 border rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-lg font-semibold">Prompt Templates</h2>
+            {!templateForm && (
+              <button onClick={() => editTemplate()} className="px-2 py-1 text-xs rounded bg-black text-white hover:bg-gray-800">
+                New template
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mb-3">
+            Analyze prompts by category. Saving creates a new version; the version used is stored with each video&apos;s events.
+          </p>
+          {templateForm ? (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  value={templateForm.id}
+                  onChange={(e) => setTemplateForm(prev => prev && ({ ...prev, id: e.target.value }))}
+                  disabled={!templateForm.isNew}
+                  placeholder="id (e.g. beauty-products)"
+                  className="px-2 py-1 text-sm border rounded disabled:bg-gray-100"
+                />
+                <input
+                  type="text"
+                  value={templateForm.name}
+                  onChange={(e) => setTemplateForm(prev => prev && ({ ...prev, name: e.target.value }))}
+                  placeholder="Name"
+                  className="px-2 py-1 text-sm border rounded"
+                />
+                <input
+                  type="text"
+                  value={templateForm.description}
+                  onChange={(e) => setTemplateForm(prev => prev && ({ ...prev, description: e.target.value }))}
+                  placeholder="Description (optional)"
+                  className="flex-1 min-w-[200px] px-2 py-1 text-sm border rounded"
+                />
+              </div>
+              <label className="block text-xs text-gray-500">
+                Prompt body — placeholders: {'{{scope}}'}, {'{{outputSchema}}'}, {'{{tones}}'}, {'{{styles}}'}
+              </label>
+              <textarea
+                value={templateForm.body}
+                onChange={(e) => setTemplateForm(prev => prev && ({ ...prev, body: e.target.value }))}
+                rows={14}
+                className="w-full px-2 py-1 text-xs font-mono border rounded"
+              />
+              <label className="block text-xs text-gray-500">Output schema (JSON Schema of the response)</label>
+              <textarea
+                value={templateForm.outputSchema}
+                onChange={(e) => setTemplateForm(prev => prev && ({ ...prev, outputSchema: e.target.value }))}
+                rows={8}
+                className="w-full px-2 py-1 text-xs font-mono border rounded"
+              />
+              <input
+                type="text"
+                value={templateForm.tones}
+                onChange={(e) => setTemplateForm(prev => prev && ({ ...prev, tones: e.target.value }))}
+                placeholder="Allowed tones, comma-separated"
+                className="w-full px-2 py-1 text-sm border rounded"
+              />
+              <input
+                type="text"
+                value={templateForm.styles}
+                onChange={(e) => setTemplateForm(prev => prev && ({ ...prev, styles: e.target.value }))}
+                placeholder="Allowed styles, comma-separated"
+                className="w-full px-2 py-1 text-sm border rounded"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={saveTemplate}
+                  disabled={isSavingTemplate}
+                  className={clsx(
+                    'px-2 py-1 text-xs rounded',
+                    isSavingTemplate ? 'bg-gray-300 text-gray-600 cursor-wait' : 'bg-black text-white hover:bg-gray-800'
+                  )}
+                >
+                  {isSavingTemplate ? 'Saving...' : 'Save new version'}
+                </button>
+                <button onClick={() => setTemplateForm(null)} className="px-2 py-1 text-xs rounded border hover:bg-gray-100">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-sm text-gray-500">No templates available.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-1">Template</th>
+                  <th className="py-1">Id</th>
+                  <th className="py-1">Latest</th>
+                  <th className="py-1">Updated</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map((t) => (
+                  <tr key={t.id} className="border-t">
+                    <td className="py-1">
+                      <div className="font-medium">{t.name}</div>
+                      {t.description && <div className="text-xs text-gray-500">{t.description}</div>}
+                    </td>
+                    <td className="py-1 text-gray-600 font-mono text-xs">{t.id}</td>
+                    <td className="py-1 text-gray-600">v{t.version}{t.versions.length > 1 ? ` (${t.versions.length} versions)` : ''}</td>
+                    <td className="py-1 text-gray-600">{new Date(t.updatedAt).toLocaleDateString()}</td>
+                    <td className="py-1 text-right">
+                      <button onClick={() => editTemplate(t.id)} className="text-xs text-blue-600 hover:underline">Edit</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Brand Registry Section */}
+        <div className="mb-6 p-4 border rounded-lg bg-gray-50">
+          <h2 className="text-lg font-semibold mb-2">Brand Registry</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            Canonical brand names and the aliases they are detected under. Analysis results and brand overrides are resolved against this list.
+          </p>
+          <div className="flex flex-wrap gap-2 items-center mb-3">
+            <input
+              type="text"
+              value={registryForm.canonicalName}
+              onChange={(e) => setRegistryForm(prev => ({ ...prev, canonicalName: e.target.value }))}
+              placeholder="Canonical name (e.g. Nike)"
+              className="px-2 py-1 text-sm border rounded"
+            />
+            <input
+              type="text"
+              value={registryForm.aliases}
+              onChange={(e) => setRegistryForm(prev => ({ ...prev, aliases: e.target.value }))}
+              placeholder="Aliases, comma-separated"
+              className="flex-1 min-w-[200px] px-2 py-1 text-sm border rounded"
+            />
+            <input
+              type="text"
+              value={registryForm.parentCompany}
+              onChange={(e) => setRegistryForm(prev => ({ ...prev, parentCompany: e.target.value }))}
+              placeholder="Parent company (optional)"
+              className="px-2 py-1 text-sm border rounded"
+            />
+            <button
+              onClick={saveRegistryEntry}
+              disabled={isSavingRegistry}
               className={clsx(
-                'px-4 py-2 rounded font-medium',
-                isBulkAnalyzing || !creatorIndexId
-                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                  : 'bg-blue-600 text-white hover:bg-blue-700'
+                'px-2 py-1 text-xs rounded',
+                isSavingRegistry ? 'bg-gray-300 text-gray-600 cursor-wait' : 'bg-black text-white hover:bg-gray-800'
               )}
             >
-              {isBulkAnalyzing ? 'Analyzing...' : 'Re-analyze All Creators'}
+              {isSavingRegistry ? 'Saving...' : registryForm.id ? 'Update' : 'Add'}
             </button>
+            {registryForm.id && (
+              <button onClick={resetRegistryForm} className="px-2 py-1 text-xs rounded border hover:bg-gray-100">
+                Cancel
+              </button>
+            )}
           </div>
+          {registry.length === 0 ? (
+            <div className="text-sm text-gray-500">No brands registered yet.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-1">Brand</th>
+                  <th className="py-1">Aliases</th>
+                  <th className="py-1">Parent</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {registry.map((entry) => (
+                  <tr key={entry.id} className="border-t">
+                    <td className="py-1 font-medium">{entry.canonicalName}</td>
+                    <td className="py-1 text-gray-600">{entry.aliases.join(', ') || '—'}</td>
+                    <td className="py-1 text-gray-600">{entry.parentCompany || '—'}</td>
+                    <td className="py-1 text-right space-x-2">
+                      <button onClick={() => editRegistryEntry(entry)} className="text-xs text-blue-600 hover:underline">Edit</button>
+                      <button onClick={() => deleteRegistryEntry(entry.id)} className="text-xs text-red-600 hover:underline">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
         </div>
 
         {/* Message */}
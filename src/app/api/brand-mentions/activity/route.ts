@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { acknowledgeActivity, listActivity } from '@/utils/activityLog';
+
+// Entries returned when the caller does not ask for a number
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+interface AcknowledgeRequest {
+  ids?: string[];
+}
+
+/**
+ * GET handler for the activity log, newest first
+ * Query params: unacknowledged (optional) - 'true' for entries nobody dismissed yet
+ *               limit (optional) - maximum number of entries, default 50
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const unacknowledged = searchParams.get('unacknowledged') === 'true';
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const entries = await listActivity(unacknowledged, limit);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('❌ Error loading activity log:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for acknowledging activity log entries
+ * Body: { ids?: string[] } - all entries when ids is omitted
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { ids }: AcknowledgeRequest = await request.json();
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'ids must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    const acknowledged = await acknowledgeActivity(ids);
+    return NextResponse.json({ acknowledged });
+  } catch (error) {
+    console.error('❌ Error acknowledging activity:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalyzeError, analyzeVideo } from '@/utils/brandAnalysis';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET handler for streaming brand-mention analysis over Server-Sent Events
+ * Query params: videoId, indexId (required), segmentAnalysis, templateId, templateVersion (optional)
+ *
+ * Events sent:
+ * - start: { videoId }
+ * - product: a provisional ProductEvent, sent as soon as it is detected
+ * - complete: { status, events, analysis, promptVersion, failedWindows? } - the final, saved result that replaces
+ *   provisional events; status is 'partial' with failedWindows when some segment windows failed
+ * - failed: { error, status } - status 422 with rawText when the Analyze output could not be parsed
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const videoId = searchParams.get('videoId');
+  const indexId = searchParams.get('indexId');
+  const segmentAnalysis = searchParams.get('segmentAnalysis') === 'true';
+  const templateId = searchParams.get('templateId') || undefined;
+  const templateVersionParam = searchParams.get('templateVersion');
+  const templateVersion = templateVersionParam ? Number(templateVersionParam) : undefined;
+
+  // Validate required parameters
+  if (!videoId || !indexId) {
+    return NextResponse.json(
+      { error: 'videoId and indexId are required query parameters' },
+      { status: 400 }
+    );
+  }
+
+  if (templateVersion !== undefined && !(Number.isInteger(templateVersion) && templateVersion > 0)) {
+    return NextResponse.json(
+      { error: 'templateVersion must be a positive integer' },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // Client went away; the analysis still finishes and saves its result
+          closed = true;
+        }
+      };
+
+      send('start', { videoId });
+
+      try {
+        const result = await analyzeVideo(
+          { videoId, indexId, segmentAnalysis, templateId, templateVersion },
+          (event) => send('product', event)
+        );
+        if (result.status === 'parse_failed') {
+          send('failed', {
+            error: `Failed to parse Analyze output: ${result.parseError}`,
+            status: 422,
+            rawText: result.rawText,
+          });
+        } else {
+          send('complete', result);
+        }
+      } catch (error) {
+        console.error('❌ Error in streaming brand mention analysis:', error);
+        send('failed', {
+          error: error instanceof Error ? error.message : 'Internal Server Error',
+          status: error instanceof AnalyzeError ? error.status : 500,
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteBrandEntry, loadBrandRegistry, resolveBrandName, upsertBrandEntry } from '@/utils/brandRegistry';
+import { BrandEntryInputSchema } from '@/types/brandRegistry';
+
+/**
+ * GET handler for the brand registry
+ * Query params: resolve (optional) - a raw brand name to resolve to its canonical name
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const resolve = searchParams.get('resolve');
+    const brands = await loadBrandRegistry();
+
+    if (resolve) {
+      return NextResponse.json({ resolution: resolveBrandName(resolve, brands) });
+    }
+
+    return NextResponse.json({ brands });
+  } catch (error) {
+    console.error('❌ Error loading brand registry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for creating or updating a brand registry entry
+ * Body: { id?: string, canonicalName: string, aliases?: string[], parentCompany?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = BrandEntryInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid brand entry: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await upsertBrandEntry(parsed.data);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ brand: result.entry });
+  } catch (error) {
+    console.error('❌ Error saving brand registry entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for removing a brand registry entry
+ * Query params: id (required)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id is a required query parameter' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteBrandEntry(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: `Brand ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error deleting brand registry entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CacheSyncRequestSchema } from '@/types/analysisCache';
+import { syncAnalysisCache } from '@/utils/analysisCacheSync';
+
+/**
+ * POST handler for syncing the local analysis cache with user_metadata
+ * Body: { indexId: string, direction: 'pull' | 'push' }
+ * - pull: backfill the cache from user_metadata where the metadata is newer
+ * - push: write cached analyses to user_metadata where the cache is newer
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = CacheSyncRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid cache sync request: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { indexId, direction } = parsed.data;
+    const result = await syncAnalysisCache(indexId, direction);
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('❌ Error syncing analysis cache:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProductEvent, ProductEventSchema } from '@/types/brandMentions';
+import { cacheAnalysis, queueAnalysisEdit } from '@/utils/analysisCache';
+import { pushAnalysisMetadata } from '@/utils/brandAnalysis';
+import { createManualEvent, withEventIds } from '@/utils/eventReview';
+import { loadVideoAnalysis } from '@/utils/indexVideos';
+
+const ManualEventSchema = ProductEventSchema.pick({
+  brand: true,
+  product_name: true,
+  timeline_start: true,
+  timeline_end: true,
+  location: true,
+  description: true
+});
+
+interface ManualEventRequest {
+  indexId: string;
+  videoId: string;
+  event: unknown;
+  note?: string;
+}
+
+/**
+ * POST handler for adding a placement the model missed
+ * Body: { indexId, videoId, note?: string,
+ *         event: { brand, product_name, timeline_start, timeline_end, location?, description? } }
+ * The event is saved with source 'manual' next to the analyzed events, in the analysis cache
+ * and the video's user_metadata, so it counts in every heatmap, metric and export.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { indexId, videoId, event, note }: ManualEventRequest = await request.json();
+
+    if (!indexId || !videoId) {
+      return NextResponse.json(
+        { error: 'indexId and videoId are required' },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      return NextResponse.json(
+        { error: 'note must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const parsedEvent = ManualEventSchema.safeParse(event);
+    if (!parsedEvent.success) {
+      return NextResponse.json(
+        { error: `Invalid event: ${parsedEvent.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    let manualEvent: ProductEvent;
+    try {
+      manualEvent = createManualEvent(videoId, parsedEvent.data, note);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid event' },
+        { status: 400 }
+      );
+    }
+
+    return await queueAnalysisEdit(indexId, videoId, async () => {
+      const saved = await loadVideoAnalysis(indexId, videoId);
+      if (!saved) {
+        return NextResponse.json(
+          { error: `Video ${videoId} has no saved analysis; analyze it before adding events` },
+          { status: 404 }
+        );
+      }
+
+      // IDs are given before the new event is appended so existing events keep theirs
+      const events = withEventIds([...withEventIds(saved.events), manualEvent]);
+
+      const entry = {
+        videoId,
+        indexId,
+        events,
+        analysis: saved.analysis,
+        analyzedAt: saved.analyzedAt,
+        source: saved.source,
+        promptVersion: saved.promptVersion,
+      };
+
+      await cacheAnalysis(entry);
+      const metadataSaved = await pushAnalysisMetadata(entry);
+      if (!metadataSaved) {
+        console.warn(`⚠️ Manual event for video ${videoId} saved to the analysis cache only`);
+      }
+
+      return NextResponse.json({ event: events[events.length - 1], metadataSaved });
+    });
+  } catch (error) {
+    console.error('❌ Error adding manual event:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
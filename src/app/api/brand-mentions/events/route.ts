@@ -1,18 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ProductEvent, ProductEventArraySchema, VideoAnalysisMetadata } from '@/types/brandMentions';
-
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+import { VideoData } from '@/types';
+import {
+  EventFilters,
+  EventFiltersSchema,
+  EventsBatchLine,
+  EventsBatchSummary,
+  MergeOptions,
+  MergeStrategy,
+  ProductEvent,
+  VideoAnalysisMetadata
+} from '@/types/brandMentions';
+import { CachedAnalysis } from '@/types/analysisCache';
+import { mergeEvents, parseMergeOptions } from '@/utils/eventMerging';
+import { canonicalizeEvents, loadBrandRegistry } from '@/utils/brandRegistry';
+import { BrandEntry } from '@/types/brandRegistry';
+import {
+  analysisFromMetadata,
+  cacheAnalysis,
+  getCachedAnalysis,
+  isAnalysisStale
+} from '@/utils/analysisCache';
+import { applyEventFilters, needsVideoMetadata, parseEventFiltersParams } from '@/utils/eventFilters';
+import { withEventIds } from '@/utils/eventReview';
+import { fetchIndexVideo, listIndexVideos, videoCreator, videoFormat } from '@/utils/indexVideos';
 
 interface EventsPostRequest {
   videoIds: string[];
   indexId: string;
   force?: boolean;
+  merge?: MergeStrategy;
+  gapSec?: number;
+  stream?: boolean;
+  concurrency?: number;
+  timeoutSec?: number;
+  filters?: EventFilters;
 }
 
+type LoadedVideoEvents = {
+  events: ProductEvent[];
+  analysis: VideoAnalysisMetadata;
+  filteredOut?: boolean; // excluded by a video-level filter
+};
+
+// Videos loaded at the same time by the batch POST handler
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const MAX_BATCH_CONCURRENCY = 10;
+// Per-video limit for the metadata lookup plus any re-analysis
+const DEFAULT_VIDEO_TIMEOUT_SEC = 300;
+
 /**
  * GET handler for retrieving brand mention events for a single video
- * Query params: videoId (required), indexId (required), force (optional)
+ * Query params: videoId (required), indexId (required), force (optional),
+ * merge (optional: raw | overlap | gap, default raw), gapSec (optional, for merge=gap),
+ * EventFilters as params (optional): brands, products, creators, region, styles, tones, safetyExclude (comma-separated),
+ * durationMinSec, minConfidence, start, end, positionStart, positionEnd, format, safetyMinSeverity, safetyScreenedOnly
+ * Stored events stay raw; the merge strategy and filters only shape the response.
+ * A video excluded by a video-level filter is returned with no events and filteredOut: true.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -29,41 +72,48 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // First try to get events from video metadata
+    const mergeResult = parseMergeOptions(searchParams.get('merge'), searchParams.get('gapSec'));
+    if ('error' in mergeResult) {
+      return NextResponse.json({ error: mergeResult.error }, { status: 400 });
+    }
+    const mergeOptions = mergeResult.options;
+
+    const filterResult = parseEventFiltersParams(searchParams);
+    if ('error' in filterResult) {
+      return NextResponse.json({ error: filterResult.error }, { status: 400 });
+    }
+    const filters = filterResult.filters;
+    const registry = await loadBrandRegistry();
+
+    let loaded: { events: ProductEvent[], analysis: VideoAnalysisMetadata } | null = null;
+
+    // First try the saved analysis (local cache, then video metadata)
     if (!force) {
       try {
-        const { events, analysis } = await getEventsFromMetadata(videoId, indexId);
-        if (events && events.length > 0) {
-          return NextResponse.json({ events, analysis });
-        }
+        loaded = await getSavedAnalysis(videoId, indexId);
       } catch (error) {
-        console.warn(`⚠️ Failed to retrieve cached events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        console.warn(`⚠️ Failed to retrieve saved events: ${error instanceof Error ? error.message : 'Unknown error'}`);
         // Continue to analyze if cached events retrieval fails
       }
     }
 
     // If no cached events or force=true, call analyze endpoint
-    const analyzeResponse = await fetch(new URL('/api/brand-mentions/analyze', request.url).toString(), {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    if (!loaded) {
+      const analyzeResult = await requestAnalysis(
+        new URL('/api/brand-mentions/analyze', request.url).toString(),
         videoId,
-        indexId,
-        force: true
-      })
-    });
-
-    if (!analyzeResponse.ok) {
-      const error = await analyzeResponse.text();
-      throw new Error(`Failed to analyze video: ${error}`);
+        indexId
+      );
+      loaded = { events: analyzeResult.events || [], analysis: analyzeResult.analysis || {} };
     }
 
-    const analyzeResult = await analyzeResponse.json();
+    const video = needsVideoMetadata(filters) ? await fetchIndexVideo(indexId, videoId) : undefined;
+    const events = prepareEvents(loaded, registry, filters, mergeOptions, video);
+
     return NextResponse.json({
-      events: analyzeResult.events,
-      analysis: analyzeResult.analysis || {}
+      events: events ?? [],
+      analysis: loaded.analysis,
+      ...(events ? {} : { filteredOut: true })
     });
   } catch (error) {
     console.error('❌ Error retrieving brand mention events:', error);
@@ -76,12 +126,25 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST handler for retrieving brand mention events for multiple videos
- * Body: { videoIds: string[], indexId: string, force?: boolean }
+ * Body: { videoIds: string[], indexId: string, force?: boolean, merge?: 'raw' | 'overlap' | 'gap', gapSec?: number,
+ *         stream?: boolean, concurrency?: number, timeoutSec?: number, filters?: EventFilters }
+ * At most `concurrency` videos are loaded (or re-analyzed) at once, each within `timeoutSec`.
+ * With stream=true the response is NDJSON: one line per video as it completes, then a summary line.
  */
 export async function POST(request: NextRequest) {
   try {
     const body: EventsPostRequest = await request.json();
-    const { videoIds, indexId, force = false } = body;
+    const {
+      videoIds,
+      indexId,
+      force = false,
+      merge,
+      gapSec,
+      stream = false,
+      concurrency = DEFAULT_BATCH_CONCURRENCY,
+      timeoutSec = DEFAULT_VIDEO_TIMEOUT_SEC,
+      filters = {},
+    } = body;
 
     // Validate required parameters
     if (!videoIds || !Array.isArray(videoIds) || videoIds.length === 0) {
@@ -98,56 +161,120 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Process each video
-    const results: Record<string, { events: ProductEvent[], analysis: VideoAnalysisMetadata }> = {};
-    const errors: Record<string, string> = {};
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+      return NextResponse.json(
+        { error: `concurrency must be an integer between 1 and ${MAX_BATCH_CONCURRENCY}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof timeoutSec !== 'number' || !(timeoutSec > 0)) {
+      return NextResponse.json(
+        { error: 'timeoutSec must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const mergeResult = parseMergeOptions(merge, gapSec);
+    if ('error' in mergeResult) {
+      return NextResponse.json({ error: mergeResult.error }, { status: 400 });
+    }
+    const mergeOptions = mergeResult.options;
+
+    const parsedFilters = EventFiltersSchema.safeParse(filters);
+    if (!parsedFilters.success) {
+      return NextResponse.json(
+        { error: `Invalid filters: ${parsedFilters.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    const registry = await loadBrandRegistry();
+    // One paginated listing instead of a detail request per video
+    const videosById = needsVideoMetadata(parsedFilters.data)
+      ? new Map((await listIndexVideos(indexId)).map((video) => [video._id, video]))
+      : null;
+    const analyzeUrl = new URL('/api/brand-mentions/analyze', request.url).toString();
+    const uniqueVideoIds = Array.from(new Set(videoIds));
+
+    const loadVideo = async (videoId: string, signal: AbortSignal): Promise<LoadedVideoEvents> => {
+      let loaded: { events: ProductEvent[], analysis: VideoAnalysisMetadata } | null = null;
+
+      // Try the saved analysis first
+      if (!force) {
+        try {
+          loaded = await getSavedAnalysis(videoId, indexId, signal);
+        } catch {
+          // Continue to analyze if cached events retrieval fails
+        }
+      }
+
+      // If no cached events or force=true, call analyze endpoint
+      if (!loaded) {
+        const analyzeResult = await requestAnalysis(analyzeUrl, videoId, indexId, signal);
+        loaded = { events: analyzeResult.events || [], analysis: analyzeResult.analysis || {} };
+      }
+
+      const events = prepareEvents(loaded, registry, parsedFilters.data, mergeOptions, videosById?.get(videoId));
+      return events
+        ? { events, analysis: loaded.analysis }
+        : { events: [], analysis: loaded.analysis, filteredOut: true };
+    };
+
+    if (stream) {
+      const encoder = new TextEncoder();
+      let closed = false;
+
+      const ndjson = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const write = (line: EventsBatchLine) => {
+            if (closed) return;
+            try {
+              controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+            } catch {
+              // Client went away; remaining videos are not started
+              closed = true;
+            }
+          };
 
-    await Promise.all(videoIds.map(async (videoId) => {
-      try {
-        // Try to get events from metadata first
-        if (!force) {
           try {
-            const { events, analysis } = await getEventsFromMetadata(videoId, indexId);
-            if (events && events.length > 0) {
-              results[videoId] = { events, analysis };
-              return;
+            const summary = await runEventsBatch(uniqueVideoIds, concurrency, timeoutSec, loadVideo, write, () => closed);
+            write({ type: 'summary', ...summary });
+          } finally {
+            if (!closed) {
+              closed = true;
+              controller.close();
             }
-          } catch {
-            // Continue to analyze if cached events retrieval fails
           }
-        }
+        },
+        cancel() {
+          closed = true;
+        },
+      });
 
-        // If no cached events or force=true, call analyze endpoint
-        const analyzeResponse = await fetch(new URL('/api/brand-mentions/analyze', request.url).toString(), {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            videoId,
-            indexId,
-            force: true
-          })
-        });
+      return new Response(ndjson, {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+        },
+      });
+    }
 
-        if (!analyzeResponse.ok) {
-          const error = await analyzeResponse.text();
-          throw new Error(`Failed to analyze video: ${error}`);
-        }
+    const results: Record<string, LoadedVideoEvents> = {};
+    const errors: Record<string, string> = {};
 
-        const analyzeResult = await analyzeResponse.json();
-        results[videoId] = {
-          events: analyzeResult.events,
-          analysis: analyzeResult.analysis || {}
-        };
-      } catch (error) {
-        errors[videoId] = error instanceof Error ? error.message : 'Unknown error';
+    const summary = await runEventsBatch(uniqueVideoIds, concurrency, timeoutSec, loadVideo, (line) => {
+      if (line.type === 'result') {
+        results[line.videoId] = { events: line.events, analysis: line.analysis, filteredOut: line.filteredOut };
+      } else if (line.type === 'error') {
+        errors[line.videoId] = line.error;
       }
-    }));
+    });
 
     return NextResponse.json({
       results,
-      errors: Object.keys(errors).length > 0 ? errors : undefined
+      errors: Object.keys(errors).length > 0 ? errors : undefined,
+      summary
     });
   } catch (error) {
     console.error('❌ Error retrieving brand mention events for multiple videos:', error);
@@ -159,67 +286,181 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Helper function to retrieve brand mention events and analysis from video metadata
+ * Loads events for a batch of videos with at most `concurrency` in flight, reporting each video as it completes
+ * @param load Loads one video; the signal aborts once the video's time limit is reached
+ * @param onLine Receives a result or error line per video
+ * @param isCancelled Stops starting new videos once it returns true
+ * @returns Totals for the batch
  */
-async function getEventsFromMetadata(videoId: string, indexId: string): Promise<{ events: ProductEvent[], analysis: VideoAnalysisMetadata }> {
-  // Fetch video details using existing API route
-  const videoDetailUrl = `${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos/${videoId}`;
+async function runEventsBatch(
+  videoIds: string[],
+  concurrency: number,
+  timeoutSec: number,
+  load: (videoId: string, signal: AbortSignal) => Promise<LoadedVideoEvents>,
+  onLine: (line: EventsBatchLine) => void,
+  isCancelled: () => boolean = () => false
+): Promise<EventsBatchSummary> {
+  const startedAt = Date.now();
+  const summary: EventsBatchSummary = {
+    total: videoIds.length,
+    succeeded: 0,
+    failed: 0,
+    timedOut: 0,
+    eventCount: 0,
+    durationMs: 0,
+  };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < videoIds.length && !isCancelled()) {
+      const videoId = videoIds[next++];
+      const signal = AbortSignal.timeout(timeoutSec * 1000);
+
+      try {
+        const { events, analysis, filteredOut } = await load(videoId, signal);
+        summary.succeeded++;
+        summary.eventCount += events.length;
+        onLine({ type: 'result', videoId, events, analysis, filteredOut });
+      } catch (error) {
+        // A timed-out re-analysis keeps running in the analyze route and is saved for the next request
+        const timedOut = signal.aborted;
+        summary.failed++;
+        if (timedOut) summary.timedOut++;
+        onLine({
+          type: 'error',
+          videoId,
+          error: timedOut
+            ? `Timed out after ${timeoutSec}s`
+            : error instanceof Error ? error.message : 'Unknown error',
+          timedOut,
+        });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, videoIds.length) }, worker));
+  summary.durationMs = Date.now() - startedAt;
+  return summary;
+}
 
-  const response = await fetch(videoDetailUrl, {
+/**
+ * Runs a fresh analysis of a video through the analyze endpoint
+ */
+async function requestAnalysis(
+  analyzeUrl: string,
+  videoId: string,
+  indexId: string,
+  signal?: AbortSignal
+): Promise<{ events?: ProductEvent[], analysis?: VideoAnalysisMetadata }> {
+  const analyzeResponse = await fetch(analyzeUrl, {
+    method: 'POST',
     headers: {
-      'Accept': 'application/json',
-      'x-api-key': API_KEY || '',
+      'Content-Type': 'application/json',
     },
+    body: JSON.stringify({
+      videoId,
+      indexId,
+      force: true
+    }),
+    signal
   });
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch video details: ${response.statusText}`);
+  if (!analyzeResponse.ok) {
+    const error = await analyzeResponse.text();
+    throw new Error(`Failed to analyze video: ${error}`);
   }
 
-  const videoDetail = await response.json();
+  return analyzeResponse.json();
+}
 
-  // Check if brand_product_events exists in user_metadata
-  if (videoDetail.user_metadata?.brand_product_events) {
-    try {
-      const events = JSON.parse(videoDetail.user_metadata.brand_product_events);
+/**
+ * Shapes stored events for a response: review IDs and canonical brand names first, then the filters,
+ * then the requested merge strategy. Filters see the raw events, so confidence and review status are
+ * those of each detection rather than of a merged run.
+ * @returns The events, or null when the video itself is filtered out
+ */
+function prepareEvents(
+  loaded: { events: ProductEvent[], analysis: VideoAnalysisMetadata },
+  registry: BrandEntry[],
+  filters: EventFilters,
+  mergeOptions: MergeOptions,
+  video?: VideoData
+): ProductEvent[] | null {
+  const events = filterVideoEvents(canonicalizeEvents(withEventIds(loaded.events), registry), loaded.analysis, filters, video);
+  return events && mergeEvents(events, mergeOptions);
+}
 
-      // Validate events with schema
-      const validationResult = ProductEventArraySchema.safeParse(events);
-      if (validationResult.success) {
-        // Extract analysis data from metadata
-        const analysis: VideoAnalysisMetadata = {};
+/**
+ * Retrieves a video's saved events and analysis.
+ * Reads the local analysis cache first; on a miss or a stale entry falls back to
+ * the video's user_metadata and backfills the cache from it. A saved analysis with no
+ * events counts as analyzed in both stores, so it is not re-analyzed.
+ * @returns The saved analysis, or null when the video needs (re-)analysis
+ */
+async function getSavedAnalysis(
+  videoId: string,
+  indexId: string,
+  signal?: AbortSignal
+): Promise<{ events: ProductEvent[], analysis: VideoAnalysisMetadata } | null> {
+  const cached = await getCachedAnalysis(indexId, videoId);
+  if (cached && !isAnalysisStale(cached.analyzedAt)) {
+    return cached;
+  }
 
-        if (videoDetail.user_metadata.video_tones) {
-          try {
-            analysis.tones = JSON.parse(videoDetail.user_metadata.video_tones);
-          } catch {
-            console.warn('⚠️ Failed to parse video_tones from metadata');
-          }
-        }
+  const stored = await getAnalysisFromMetadata(videoId, indexId, signal);
+  if (!stored || isAnalysisStale(stored.analyzedAt)) {
+    return null;
+  }
 
-        if (videoDetail.user_metadata.video_styles) {
-          try {
-            analysis.styles = JSON.parse(videoDetail.user_metadata.video_styles);
-          } catch {
-            console.warn('⚠️ Failed to parse video_styles from metadata');
-          }
-        }
+  try {
+    await cacheAnalysis(stored);
+  } catch (error) {
+    console.warn(`⚠️ Failed to cache analysis for video ${videoId}:`, error);
+  }
 
-        if (videoDetail.user_metadata.video_creator) {
-          analysis.creator = videoDetail.user_metadata.video_creator;
-        }
+  return stored;
+}
 
-        return { events: validationResult.data, analysis };
-      } else {
-        console.warn('⚠️ Invalid events format in metadata, will reanalyze');
-        throw new Error('Invalid events format in metadata');
-      }
-    } catch (error) {
-      console.warn('⚠️ Failed to parse events from metadata:', error);
-      throw new Error('Failed to parse events from metadata');
-    }
-  }
+/**
+ * Applies EventFilters to a video's events, reading creator, format and region from
+ * the video's metadata when given and from its analysis otherwise; the duration comes from the metadata only
+ * @returns The remaining events, or null when the video itself is filtered out
+ */
+function filterVideoEvents(
+  events: ProductEvent[],
+  analysis: VideoAnalysisMetadata,
+  filters: EventFilters,
+  video?: VideoData
+): ProductEvent[] | null {
+  return applyEventFilters(
+    {
+      creator: video ? videoCreator(video, analysis) : analysis.creator || 'Unknown',
+      format: video ? videoFormat(video) : undefined,
+      region: typeof video?.user_metadata?.region === 'string' ? video.user_metadata.region : undefined,
+      styles: analysis.styles,
+      tones: analysis.tones,
+      safety: analysis.safety,
+      duration: video?.system_metadata?.duration,
+    },
+    events,
+    filters
+  );
+}
 
-  // No events found in metadata
-  return { events: [], analysis: {} };
+/**
+ * Helper function to retrieve the analysis stored in a video's user_metadata
+ */
+async function getAnalysisFromMetadata(
+  videoId: string,
+  indexId: string,
+  signal?: AbortSignal
+): Promise<Omit<CachedAnalysis, 'cachedAt'> | null> {
+  const videoDetail = await fetchIndexVideo(indexId, videoId, signal);
+
+  try {
+    return analysisFromMetadata(videoId, indexId, videoDetail.user_metadata);
+  } catch (error) {
+    console.warn('⚠️ Failed to parse events from metadata, will reanalyze:', error);
+    throw error;
+  }
 }
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EventFilters, EventFiltersSchema } from '@/types/brandMentions';
+import { ExportFormat, ExportSheet, ExportVideo } from '@/types/brandExport';
+import { canonicalizeEvents, loadBrandRegistry } from '@/utils/brandRegistry';
+import { renderExport } from '@/utils/brandExport';
+import { filterEvents, matchesVideoFilters } from '@/utils/eventFilters';
+import { loadIndexAnalyses, videoCreator, videoFormat } from '@/utils/indexVideos';
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+interface ExportRequest {
+  indexId: string;
+  format: ExportFormat;
+  sheet?: ExportSheet;
+  videoIds?: string[];
+  filters?: EventFilters;
+}
+
+/**
+ * POST handler for downloading filtered brand mention events with a per-brand summary
+ * Body: { indexId: string, format: 'csv' | 'xlsx' | 'json', sheet?: 'events' | 'summary' (CSV only),
+ *         videoIds?: string[], filters?: EventFilters }
+ * XLSX and JSON contain both the events and the summary; CSV contains the requested sheet.
+ * Videos are scoped as in the metrics endpoint: those without the selected brands stay in,
+ * so summary percentages are relative to every matching video.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { indexId, format, sheet = 'events', videoIds, filters = {} }: ExportRequest = await request.json();
+
+    if (!indexId) {
+      return NextResponse.json(
+        { error: 'indexId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (sheet !== 'events' && sheet !== 'summary') {
+      return NextResponse.json(
+        { error: 'sheet must be "events" or "summary"' },
+        { status: 400 }
+      );
+    }
+
+    if (videoIds !== undefined && !Array.isArray(videoIds)) {
+      return NextResponse.json(
+        { error: 'videoIds must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const parsedFilters = EventFiltersSchema.safeParse(filters);
+    if (!parsedFilters.success) {
+      return NextResponse.json(
+        { error: `Invalid filters: ${parsedFilters.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    const registry = await loadBrandRegistry();
+    const analyses = await loadIndexAnalyses(indexId, videoIds);
+
+    const videos: ExportVideo[] = analyses
+      .map(({ video, events, analysis }) => ({
+        video,
+        analysis,
+        creator: videoCreator(video, analysis),
+        events,
+      }))
+      .filter(({ video, analysis, creator }) => matchesVideoFilters(
+        {
+          creator,
+          format: videoFormat(video),
+          region: typeof video.user_metadata?.region === 'string' ? video.user_metadata.region : undefined,
+          styles: analysis.styles,
+          tones: analysis.tones,
+          safety: analysis.safety,
+        },
+        parsedFilters.data
+      ))
+      .map(({ video, creator, events }) => ({
+        videoId: video._id,
+        title: video.system_metadata?.video_title || video.system_metadata?.filename,
+        creator,
+        duration: video.system_metadata?.duration ?? 0,
+        events: filterEvents(canonicalizeEvents(events, registry), parsedFilters.data, video.system_metadata?.duration),
+      }));
+
+    const file = renderExport(format, videos, sheet);
+    const date = new Date().toISOString().slice(0, 10);
+    const fileName = `brand-mentions${format === 'csv' && sheet === 'summary' ? '-summary' : ''}-${date}.${file.extension}`;
+
+    return new Response(typeof file.body === 'string' ? file.body : new Uint8Array(file.body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error exporting brand mentions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HistoryDiffQuerySchema } from '@/types/analysisHistory';
+import { diffEventVersions, findVersion, loadVideoHistory } from '@/utils/analysisHistory';
+
+/**
+ * GET handler for comparing two analysis versions of a video
+ * Query params: videoId, indexId, from, to (required) - version numbers to compare
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = HistoryDiffQuerySchema.safeParse({
+      videoId: searchParams.get('videoId') ?? undefined,
+      indexId: searchParams.get('indexId') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid query parameters: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { videoId, indexId, from, to } = parsed.data;
+
+    const history = await loadVideoHistory(indexId, videoId);
+    const fromVersion = findVersion(history, from);
+    const toVersion = findVersion(history, to);
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: `Version ${!fromVersion ? from : to} not found for video ${videoId}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ diff: diffEventVersions(fromVersion, toVersion) });
+  } catch (error) {
+    console.error('❌ Error diffing analysis versions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
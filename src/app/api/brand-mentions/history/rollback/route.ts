@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RollbackRequestSchema } from '@/types/analysisHistory';
+import { cacheAnalysis, getCachedAnalysis, queueAnalysisEdit, removeCachedAnalysis } from '@/utils/analysisCache';
+import { findVersion, loadVideoHistory, setActiveVersion } from '@/utils/analysisHistory';
+import { saveAnalysisMetadata, withPreviousReviews } from '@/utils/brandAnalysis';
+
+/**
+ * POST handler for making a stored analysis version active again
+ * Writes the version's events back to the video's user_metadata, keeping reviewed events.
+ * The version only becomes active once that write succeeded; when it fails or throws, the cached
+ * analysis is put back (or removed when there was none), so a failed rollback changes nothing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = RollbackRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid rollback request: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { videoId, indexId, version } = parsed.data;
+
+    const target = findVersion(await loadVideoHistory(indexId, videoId), version);
+    if (!target) {
+      return NextResponse.json(
+        { error: `Version ${version} not found for video ${videoId}` },
+        { status: 404 }
+      );
+    }
+
+    const { events, saved } = await queueAnalysisEdit(indexId, videoId, async () => {
+      const previous = await getCachedAnalysis(indexId, videoId);
+      let written = false;
+      try {
+        const restored = await withPreviousReviews(videoId, indexId, target.events);
+        written = await saveAnalysisMetadata(videoId, indexId, restored, target.analysis, target.promptVersion);
+        return { events: restored, saved: written };
+      } finally {
+        if (!written) {
+          await (previous ? cacheAnalysis(previous) : removeCachedAnalysis(indexId, videoId));
+        }
+      }
+    });
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Failed to write the restored version to video metadata' },
+        { status: 502 }
+      );
+    }
+
+    await setActiveVersion(indexId, videoId, version);
+
+    return NextResponse.json({
+      activeVersion: target.version,
+      events,
+      analysis: target.analysis,
+    });
+  } catch (error) {
+    console.error('❌ Error rolling back analysis version:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HistoryQuerySchema } from '@/types/analysisHistory';
+import { findVersion, loadVideoHistory, summarizeVersions } from '@/utils/analysisHistory';
+
+/**
+ * GET handler for a video's analysis history
+ * Query params: videoId, indexId (required), version (optional) - returns that version's full events
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = HistoryQuerySchema.safeParse({
+      videoId: searchParams.get('videoId') ?? undefined,
+      indexId: searchParams.get('indexId') ?? undefined,
+      version: searchParams.get('version') || undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid query parameters: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { videoId, indexId, version: versionNumber } = parsed.data;
+
+    const history = await loadVideoHistory(indexId, videoId);
+
+    if (versionNumber !== undefined) {
+      const version = findVersion(history, versionNumber);
+      if (!version) {
+        return NextResponse.json(
+          { error: `Version ${versionNumber} not found for video ${videoId}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ version });
+    }
+
+    return NextResponse.json({
+      videoId,
+      indexId,
+      activeVersion: history.activeVersion,
+      versions: summarizeVersions(history),
+      lastParseFailure: history.lastParseFailure ?? null,
+    });
+  } catch (error) {
+    console.error('❌ Error loading analysis history:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { cancelAnalysisJob, getAnalysisJob, isJobFinished } from '@/utils/analysisJobs';
+
+/**
+ * POST handler for cancelling an analysis job
+ * A running job stops after the video currently being analyzed
+ */
+export async function POST(
+  _request: Request,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await context.params;
+
+  try {
+    const existing = await getAnalysisJob(jobId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: `Job ${jobId} not found` },
+        { status: 404 }
+      );
+    }
+
+    if (isJobFinished(existing)) {
+      return NextResponse.json(
+        { error: `Job ${jobId} is already ${existing.status}` },
+        { status: 409 }
+      );
+    }
+
+    const job = await cancelAnalysisJob(jobId);
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`❌ Error cancelling analysis job ${jobId}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getAnalysisJob, retryAnalysisJob } from '@/utils/analysisJobs';
+
+/**
+ * POST handler for re-queueing the failed and cancelled videos of a job
+ */
+export async function POST(
+  _request: Request,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await context.params;
+
+  try {
+    const existing = await getAnalysisJob(jobId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: `Job ${jobId} not found` },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== 'failed' && existing.status !== 'cancelled') {
+      return NextResponse.json(
+        { error: `Only failed or cancelled jobs can be retried (job is ${existing.status})` },
+        { status: 409 }
+      );
+    }
+
+    const job = await retryAnalysisJob(jobId);
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error(`❌ Error retrying analysis job ${jobId}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
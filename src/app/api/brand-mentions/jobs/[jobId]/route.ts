@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getAnalysisJob } from '@/utils/analysisJobs';
+
+/**
+ * GET handler for a single analysis job's status and per-video progress
+ */
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await context.params;
+
+  try {
+    const job = await getAnalysisJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job ${jobId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`❌ Error fetching analysis job ${jobId}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
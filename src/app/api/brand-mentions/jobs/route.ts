@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EnqueueJobRequestSchema } from '@/types/analysisJobs';
+import { enqueueAnalysisJob, listAnalysisJobs } from '@/utils/analysisJobs';
+import { getPromptTemplate } from '@/utils/promptTemplates';
+
+/**
+ * GET handler for listing background analysis jobs, newest first
+ */
+export async function GET() {
+  try {
+    const jobs = await listAnalysisJobs();
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('❌ Error listing analysis jobs:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for enqueueing a background analysis job
+ * Body: { indexId: string, videoIds: string[], segmentAnalysis?: boolean, templateId?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = EnqueueJobRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid job request: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { indexId, videoIds, segmentAnalysis, templateId } = parsed.data;
+
+    if (templateId && !(await getPromptTemplate(templateId))) {
+      return NextResponse.json(
+        { error: `Prompt template ${templateId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const job = await enqueueAnalysisJob(indexId, videoIds, segmentAnalysis, templateId);
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('❌ Error enqueueing analysis job:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
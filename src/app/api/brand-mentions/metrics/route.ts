@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EventFilters, EventFiltersSchema } from '@/types/brandMentions';
+import { MetricsVideo } from '@/types/brandMetrics';
+import { canonicalizeEvents, loadBrandRegistry } from '@/utils/brandRegistry';
+import { computeBrandMetrics } from '@/utils/brandMetrics';
+import { filterEvents, matchesVideoFilters } from '@/utils/eventFilters';
+import { loadIndexAnalyses, videoCreator, videoFormat } from '@/utils/indexVideos';
+
+interface MetricsRequest {
+  indexId: string;
+  videoIds?: string[];
+  filters?: EventFilters;
+}
+
+/**
+ * POST handler for per-brand exposure metrics
+ * Body: { indexId: string, videoIds?: string[], filters?: EventFilters }
+ * Uses saved analyses only; videos that were never analyzed are left out.
+ * Videos without the selected brands stay in scope so percentages are relative to every matching video.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { indexId, videoIds, filters = {} }: MetricsRequest = await request.json();
+
+    if (!indexId) {
+      return NextResponse.json(
+        { error: 'indexId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (videoIds !== undefined && !Array.isArray(videoIds)) {
+      return NextResponse.json(
+        { error: 'videoIds must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const parsedFilters = EventFiltersSchema.safeParse(filters);
+    if (!parsedFilters.success) {
+      return NextResponse.json(
+        { error: `Invalid filters: ${parsedFilters.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    const registry = await loadBrandRegistry();
+    const analyses = await loadIndexAnalyses(indexId, videoIds);
+
+    const videos: MetricsVideo[] = analyses
+      .map(({ video, events, analysis }) => ({
+        video,
+        analysis,
+        creator: videoCreator(video, analysis),
+        events,
+      }))
+      .filter(({ video, analysis, creator }) => matchesVideoFilters(
+        {
+          creator,
+          format: videoFormat(video),
+          region: typeof video.user_metadata?.region === 'string' ? video.user_metadata.region : undefined,
+          styles: analysis.styles,
+          tones: analysis.tones,
+          safety: analysis.safety,
+        },
+        parsedFilters.data
+      ))
+      .map(({ video, creator, events }) => ({
+        videoId: video._id,
+        duration: video.system_metadata?.duration ?? 0,
+        creator,
+        events: filterEvents(canonicalizeEvents(events, registry), parsedFilters.data, video.system_metadata?.duration),
+      }));
+
+    return NextResponse.json({ metrics: computeBrandMetrics(videos) });
+  } catch (error) {
+    console.error('❌ Error computing brand metrics:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
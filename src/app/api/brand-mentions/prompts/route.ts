@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPromptTemplate, listPromptTemplates, savePromptTemplate } from '@/utils/promptTemplates';
+import { PromptTemplateInput } from '@/types/promptTemplates';
+
+/**
+ * GET handler for prompt templates
+ * Query params: id (optional) - returns that template in full; version (optional) - a specific version of it
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const versionParam = searchParams.get('version');
+
+    if (!id) {
+      return NextResponse.json({ templates: await listPromptTemplates() });
+    }
+
+    const version = versionParam ? parseInt(versionParam, 10) : undefined;
+    if (version !== undefined && Number.isNaN(version)) {
+      return NextResponse.json(
+        { error: 'version must be a number' },
+        { status: 400 }
+      );
+    }
+
+    const template = await getPromptTemplate(id, version);
+    if (!template) {
+      return NextResponse.json(
+        { error: `Prompt template ${id}${version ? ` v${version}` : ''} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('❌ Error loading prompt templates:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for saving a prompt template as a new version
+ * Body: { id, name, description?, body, outputSchema, tones, styles }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: PromptTemplateInput = await request.json();
+
+    const result = await savePromptTemplate(body);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ template: result.template });
+  } catch (error) {
+    console.error('❌ Error saving prompt template:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EventFilters, EventFiltersSchema } from '@/types/brandMentions';
+import { ReportVideo } from '@/types/sponsorReport';
+import { canonicalizeEvents, loadBrandRegistry } from '@/utils/brandRegistry';
+import { filterEvents, matchesVideoFilters } from '@/utils/eventFilters';
+import { loadIndexAnalyses, videoCreator, videoFormat } from '@/utils/indexVideos';
+import { placementThumbnailUrl, renderSponsorReport } from '@/utils/sponsorReport';
+
+// Thumbnails fetched per report, and at once
+const MAX_THUMBNAILS = 200;
+const THUMBNAIL_CONCURRENCY = 4;
+const THUMBNAIL_TIMEOUT_MS = 10_000;
+
+interface ReportRequest {
+  indexId: string;
+  videoIds?: string[];
+  brands?: string[];
+  title?: string;
+  filters?: EventFilters;
+}
+
+/**
+ * Downloads thumbnail images; failed downloads are left out and drawn as empty frames
+ * @returns Image data by URL
+ */
+async function fetchThumbnails(urls: string[]): Promise<Record<string, Buffer>> {
+  const thumbnails: Record<string, Buffer> = {};
+  const queue = urls.slice(0, MAX_THUMBNAILS);
+
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(THUMBNAIL_TIMEOUT_MS) });
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+        thumbnails[url] = Buffer.from(await response.arrayBuffer());
+      } catch (error) {
+        console.warn(`⚠️ Could not fetch thumbnail ${url}:`, error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: THUMBNAIL_CONCURRENCY }, worker));
+  return thumbnails;
+}
+
+/**
+ * POST handler for the PDF sponsor report
+ * Body: { indexId: string, videoIds?: string[], brands?: string[], title?: string, filters?: EventFilters }
+ * Uses saved analyses only. As with the metrics endpoint, videos without the selected brands
+ * stay in the report so percentages are relative to every selected video.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { indexId, videoIds, brands, title, filters = {} }: ReportRequest = await request.json();
+
+    if (!indexId) {
+      return NextResponse.json(
+        { error: 'indexId is required' },
+        { status: 400 }
+      );
+    }
+
+    if ((videoIds !== undefined && !Array.isArray(videoIds)) || (brands !== undefined && !Array.isArray(brands))) {
+      return NextResponse.json(
+        { error: 'videoIds and brands must be arrays' },
+        { status: 400 }
+      );
+    }
+
+    const parsedFilters = EventFiltersSchema.safeParse(filters);
+    if (!parsedFilters.success) {
+      return NextResponse.json(
+        { error: `Invalid filters: ${parsedFilters.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    const eventFilters: EventFilters = brands && brands.length > 0
+      ? { ...parsedFilters.data, brandAsset: { ...parsedFilters.data.brandAsset, brands } }
+      : parsedFilters.data;
+
+    const registry = await loadBrandRegistry();
+    const analyses = await loadIndexAnalyses(indexId, videoIds);
+
+    const videos: ReportVideo[] = analyses
+      .map(({ video, events, analysis }) => ({
+        video,
+        analysis,
+        creator: videoCreator(video, analysis),
+        events,
+      }))
+      .filter(({ video, analysis, creator }) => matchesVideoFilters(
+        {
+          creator,
+          format: videoFormat(video),
+          region: typeof video.user_metadata?.region === 'string' ? video.user_metadata.region : undefined,
+          styles: analysis.styles,
+          tones: analysis.tones,
+          safety: analysis.safety,
+        },
+        eventFilters
+      ))
+      .map(({ video, creator, events }) => ({
+        videoId: video._id,
+        title: video.system_metadata?.video_title || video.system_metadata?.filename,
+        creator,
+        duration: video.system_metadata?.duration ?? 0,
+        events: filterEvents(canonicalizeEvents(events, registry), eventFilters, video.system_metadata?.duration),
+        thumbnailUrls: video.hls?.thumbnail_urls,
+      }));
+
+    const thumbnailUrls = new Set<string>();
+    videos.forEach((video) => video.events.forEach((event) => {
+      const url = placementThumbnailUrl(video, event);
+      if (url) thumbnailUrls.add(url);
+    }));
+
+    const pdf = renderSponsorReport({
+      title,
+      brands: eventFilters.brandAsset?.brands,
+      videos,
+      thumbnails: await fetchThumbnails(Array.from(thumbnailUrls)),
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="sponsor-report-${date}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error generating sponsor report:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProductEventSchema } from '@/types/brandMentions';
+import { cacheAnalysis, queueAnalysisEdit } from '@/utils/analysisCache';
+import { pushAnalysisMetadata } from '@/utils/brandAnalysis';
+import { ReviewAction, applyReview, withEventIds } from '@/utils/eventReview';
+import { loadVideoAnalysis } from '@/utils/indexVideos';
+
+const REVIEW_ACTIONS: ReviewAction['action'][] = ['accept', 'reject', 'edit', 'reset'];
+
+const ReviewChangesSchema = ProductEventSchema.pick({
+  brand: true,
+  product_name: true,
+  timeline_start: true,
+  timeline_end: true,
+  location: true
+}).partial();
+
+interface ReviewRequest {
+  indexId: string;
+  videoId: string;
+  eventId: string;
+  action: ReviewAction['action'];
+  note?: string;
+  changes?: unknown;
+}
+
+/**
+ * POST handler for reviewing one detected event
+ * Body: { indexId, videoId, eventId, action: 'accept' | 'reject' | 'edit' | 'reset', note?: string,
+ *         changes?: { brand?, product_name?, timeline_start?, timeline_end?, location? } (edit only) }
+ * The review is stored on the event in the analysis cache and the video's user_metadata;
+ * the analyzed-at time is kept, so a review does not make an analysis look fresher.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { indexId, videoId, eventId, action, note, changes }: ReviewRequest = await request.json();
+
+    if (!indexId || !videoId || !eventId) {
+      return NextResponse.json(
+        { error: 'indexId, videoId and eventId are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${REVIEW_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      return NextResponse.json(
+        { error: 'note must be a string' },
+        { status: 400 }
+      );
+    }
+
+    let review: ReviewAction;
+    if (action === 'edit') {
+      const parsedChanges = ReviewChangesSchema.safeParse(changes ?? {});
+      if (!parsedChanges.success) {
+        return NextResponse.json(
+          { error: `Invalid changes: ${parsedChanges.error.message}` },
+          { status: 400 }
+        );
+      }
+      review = { action, note, changes: parsedChanges.data };
+    } else {
+      review = action === 'reset' ? { action } : { action, note };
+    }
+
+    return await queueAnalysisEdit(indexId, videoId, async () => {
+      const saved = await loadVideoAnalysis(indexId, videoId);
+      const events = saved ? withEventIds(saved.events) : [];
+      const index = events.findIndex((event) => event.event_id === eventId);
+      if (!saved || index < 0) {
+        return NextResponse.json(
+          { error: `Event ${eventId} not found for video ${videoId}` },
+          { status: 404 }
+        );
+      }
+
+      try {
+        events[index] = applyReview(events[index], review);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid review' },
+          { status: 400 }
+        );
+      }
+
+      const entry = {
+        videoId,
+        indexId,
+        events,
+        analysis: saved.analysis,
+        analyzedAt: saved.analyzedAt,
+        source: saved.source,
+        promptVersion: saved.promptVersion,
+      };
+
+      await cacheAnalysis(entry);
+      const metadataSaved = await pushAnalysisMetadata(entry);
+      if (!metadataSaved) {
+        console.warn(`⚠️ Review of event ${eventId} saved to the analysis cache only`);
+      }
+
+      return NextResponse.json({ event: events[index], metadataSaved });
+    });
+  } catch (error) {
+    console.error('❌ Error reviewing event:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BrandSafetyFlag } from '@/types/brandSafety';
+import { loadIndexAnalyses } from '@/utils/indexVideos';
+
+interface SafetyRequest {
+  indexId: string;
+  videoIds?: string[];
+}
+
+/**
+ * POST handler for the brand-safety flags of an index's videos
+ * Body: { indexId: string, videoIds?: string[] }
+ * Uses saved analyses only; videos that were never screened are left out of the response.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { indexId, videoIds }: SafetyRequest = await request.json();
+
+    if (!indexId) {
+      return NextResponse.json(
+        { error: 'indexId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (videoIds !== undefined && !Array.isArray(videoIds)) {
+      return NextResponse.json(
+        { error: 'videoIds must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const analyses = await loadIndexAnalyses(indexId, videoIds);
+    const safety: Record<string, BrandSafetyFlag[]> = {};
+    analyses.forEach(({ video, analysis }) => {
+      if (analysis.safety) {
+        safety[video._id] = analysis.safety;
+      }
+    });
+
+    return NextResponse.json({ safety });
+  } catch (error) {
+    console.error('❌ Error loading brand-safety flags:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
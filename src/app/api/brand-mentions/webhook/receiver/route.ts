@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SIGNATURE_HEADER, listReceivedWebhooks, recordReceivedWebhook } from '@/utils/webhooks';
+
+/**
+ * GET handler for the requests the local test receiver got, newest first
+ */
+export async function GET() {
+  try {
+    const received = await listReceivedWebhooks();
+    return NextResponse.json({ received });
+  } catch (error) {
+    console.error('❌ Error listing received webhooks:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler acting as a local webhook receiver for testing the change notifications
+ * Stores each request and whether its signature matches the configured secret.
+ * Point the webhook url at /api/brand-mentions/webhook/receiver on this server to use it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const received = await recordReceivedWebhook(await request.text(), request.headers.get(SIGNATURE_HEADER));
+    if (received.signatureValid === false) {
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('❌ Error receiving webhook:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
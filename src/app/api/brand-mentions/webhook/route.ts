@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookSettingsSchema } from '@/types/analysisChanges';
+import { loadWebhookSettings, saveWebhookSettings, sendWebhook } from '@/utils/webhooks';
+
+/**
+ * GET handler for the change-notification webhook settings
+ * The secret is never returned; hasSecret tells whether one is set.
+ */
+export async function GET() {
+  try {
+    const { secret, ...settings } = await loadWebhookSettings();
+    return NextResponse.json({ settings: { ...settings, hasSecret: !!secret } });
+  } catch (error) {
+    console.error('❌ Error loading webhook settings:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT handler for saving the webhook settings
+ * Body: { enabled: boolean, url: string, secret?: string } - an omitted secret keeps the current one,
+ * an empty secret removes it
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const parsed = WebhookSettingsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Invalid webhook settings: ${parsed.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.enabled && !parsed.data.url) {
+      return NextResponse.json(
+        { error: 'url is required to enable the webhook' },
+        { status: 400 }
+      );
+    }
+
+    const current = await loadWebhookSettings();
+    const secret = parsed.data.secret === undefined ? current.secret : parsed.data.secret || undefined;
+    await saveWebhookSettings({ enabled: parsed.data.enabled, url: parsed.data.url, secret });
+
+    return NextResponse.json({ settings: { enabled: parsed.data.enabled, url: parsed.data.url, hasSecret: !!secret } });
+  } catch (error) {
+    console.error('❌ Error saving webhook settings:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for sending a test notification to the configured webhook
+ */
+export async function POST() {
+  try {
+    const delivery = await sendWebhook({ type: 'test', sentAt: new Date().toISOString() });
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'The webhook is disabled or has no url' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error('❌ Error sending test webhook:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { canonicalizeBrandOverride, loadBrandRegistry } from "@/utils/brandRegistry";
 
 const API_KEY = process.env.TWELVELABS_API_KEY;
 const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
@@ -157,7 +158,11 @@ export async function GET(
     }
 
     if (typedVideoData.user_metadata) {
-      responseData.user_metadata = typedVideoData.user_metadata;
+      // Brand overrides saved before their registry entry or alias existed are shown canonical
+      responseData.user_metadata = canonicalizeBrandOverride(
+        typedVideoData.user_metadata,
+        await loadBrandRegistry()
+      );
     }
 
     if (typedVideoData.source) {
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { canonicalizeBrandOverride, loadBrandRegistry } from '@/utils/brandRegistry';
 
 const API_KEY = process.env.TWELVELABS_API_KEY;
 const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
@@ -17,6 +18,7 @@ type TwelveLabsVideoItem = {
     size?: number;
     model_names?: string[];
   };
+  user_metadata?: Record<string, unknown>;
   hls?: {
     video_url?: string;
     thumbnail_urls?: string[];
@@ -82,10 +84,14 @@ export async function GET(request: NextRequest) {
     }
 
     const data = await response.json() as TwelveLabsApiResponse;
+    const registry = await loadBrandRegistry();
 
-    // Format response to match expected structure
+    // Format response to match expected structure; brand overrides are shown canonical
     const formattedData = {
-      data: data.data,
+      data: data.data.map((video) => ({
+        ...video,
+        user_metadata: canonicalizeBrandOverride(video.user_metadata, registry),
+      })),
       page_info: {
         page: parseInt(page),
         total_page: data.page_info.total_page,
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { loadBrandRegistry, resolveBrandName } from '@/utils/brandRegistry';
+import { updateCachedAnalysis } from '@/utils/analysisCache';
 
 const API_KEY = process.env.TWELVELABS_API_KEY;
 const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
@@ -42,6 +44,12 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Store brand overrides under their canonical registry name
+    if (typeof user_metadata.brand_override === 'string' && user_metadata.brand_override.trim()) {
+      const registry = await loadBrandRegistry();
+      user_metadata.brand_override = resolveBrandName(user_metadata.brand_override, registry).canonicalName;
+    }
+
     // Prepare API request
     const url = `${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos/${videoId}`;
 
@@ -70,11 +78,21 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Keep the local analysis cache in line with creator edits
+    if (typeof user_metadata.video_creator === 'string') {
+      try {
+        await updateCachedAnalysis(indexId, videoId, { creator: user_metadata.video_creator || undefined });
+      } catch (error) {
+        console.warn(`⚠️ Failed to update cached analysis for video ${videoId}:`, error);
+      }
+    }
+
     // For 204 No Content response, don't try to parse JSON
     if (response.status === 204) {
       return NextResponse.json({
         success: true,
-        message: 'Video metadata updated successfully'
+        message: 'Video metadata updated successfully',
+        user_metadata
       });
     }
 
@@ -84,12 +102,14 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'Video metadata updated successfully',
+        user_metadata,
         data: responseData
       });
     } catch (parseError) {
       return NextResponse.json({
         success: true,
-        message: 'Video metadata updated successfully'
+        message: 'Video metadata updated successfully',
+        user_metadata
       });
     }
   } catch (error) {
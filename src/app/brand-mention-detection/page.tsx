@@ -1,13 +1,53 @@
 "use client";
 
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import axios from "axios";
 import clsx from "clsx";
 import { VideoData } from "@/types";
-import { ProductEvent } from "@/types/brandMentions";
-import { aggregatePerVideo, aggregateLibrary } from "@/utils/heatmap";
-import Heatmap from "@/components/Heatmap";
+import {
+  EventFilters,
+  EventsBatchLine,
+  HeatmapColorScale,
+  HeatmapMeasure,
+  PositionSegment,
+  HeatmapWindow,
+  ProductEvent,
+  ReviewStatus,
+} from "@/types/brandMentions";
+import { ExportFormat } from "@/types/brandExport";
+import { BrandSafetyFilter, BrandSafetyFlag } from "@/types/brandSafety";
+import { BrandPair, CoOccurrenceMeasure } from "@/types/coOccurrence";
+import { filterEvents, matchesVideoFilters } from "@/utils/eventFilters";
+import { reviewStatusOf } from "@/utils/eventReview";
+import { summarizeBrandSafety } from "@/utils/brandSafety";
+import { COLOR_SCALES } from "@/utils/colorScales";
+import {
+  coOccurringWith,
+  computeCoOccurrence,
+  DEFAULT_CO_OCCURRENCE_WINDOW_SEC,
+  pairValue,
+} from "@/utils/coOccurrence";
+import {
+  aggregateBrandPositions,
+  aggregateLibrary,
+  aggregateLibraryTotal,
+  aggregatePerVideo,
+  aggregateVideoTotal,
+  eventsInRange,
+  FULL_WINDOW,
+  POSITION_SEGMENTS,
+  thumbnailAt,
+} from "@/utils/heatmap";
+import Heatmap, { HeatmapCellEvent } from "@/components/Heatmap";
 import VideoModalSimple from "@/components/VideoModalSimple";
+import EventReviewPanel from "@/components/EventReviewPanel";
+import CoOccurrenceMatrix, {
+  formatPairValue,
+} from "@/components/CoOccurrenceMatrix";
+import CoOccurrenceGraph from "@/components/CoOccurrenceGraph";
+import BrandSafetyFilterPanel, {
+  CATEGORY_LABELS,
+} from "@/components/BrandSafetyFilterPanel";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import ErrorFallback from "@/components/ErrorFallback";
 import { ErrorBoundary } from "react-error-boundary";
@@ -21,11 +61,67 @@ import {
 // Number of time buckets for heatmap visualization
 const NUM_BUCKETS = 50; // Increased for better granularity
 
+// Events are loaded with every review status so rejected ones can be reviewed again;
+// the heatmaps drop them through the event filters
+const ALL_REVIEW_STATUSES: ReviewStatus[] = [
+  "pending",
+  "accepted",
+  "edited",
+  "rejected",
+];
+
+// Heatmap measures offered in the "Show" selector
+const MEASURE_LABELS: Record<HeatmapMeasure, string> = {
+  seconds: "Seconds on screen",
+  percent: "% of bucket",
+  events: "Event count",
+  brands: "Distinct brands",
+};
+
+// Narrowest heatmap zoom, in percent of the timeline
+const MIN_ZOOM_SPAN = 1;
+
+// Columns of the brand position table
+const SEGMENT_LABELS: Record<PositionSegment, string> = {
+  intro: "Intro",
+  middle: "Middle",
+  outro: "Outro",
+};
+
+// Co-occurrence measures offered in the "Count" selector
+const CO_OCCURRENCE_LABELS: Record<CoOccurrenceMeasure, string> = {
+  videos: "Same video",
+  window: "Same time window",
+  overlap: "Seconds on screen together",
+};
+
+// Brands shown in the co-occurrence matrix and graph, by number of videos
+const MAX_CO_OCCURRENCE_BRANDS = 20;
+
+// Map a 0-1 detection confidence to the modal's high/medium/low tag
+function confidenceLabel(confidence?: number): string | undefined {
+  if (confidence === undefined) return undefined;
+  if (confidence >= 0.8) return "high";
+  if (confidence >= 0.5) return "medium";
+  return "low";
+}
+
+// Notice for a segmented re-analysis in which some windows failed
+function partialAnalysisMessage(
+  failedWindows: { start: number; end: number }[] = []
+): string {
+  const ranges = failedWindows
+    .map((window) => `${Math.round(window.start)}s–${Math.round(window.end)}s`)
+    .join(", ");
+  return `Analysis partly failed: ${ranges || "some segments"} could not be analyzed, so their earlier detections were kept. Re-analyze to try again.`;
+}
+
 // Minimal shape we read from analysis payload
 type VideoAnalysis = {
   tones?: string[];
   styles?: string[];
   creator?: string;
+  safety?: BrandSafetyFlag[];
   // allow forward-compat extra data
   [key: string]: unknown;
 };
@@ -58,13 +154,41 @@ export default function BrandMentionDetectionPage() {
   const [selectedTones, setSelectedTones] = useState<string[]>([]);
   const [selectedBrands, setSelectedBrands] = useState<string[]>([]);
   const [durationThreshold, setDurationThreshold] = useState<number>(0.5); // seconds
+  const [minConfidence, setMinConfidence] = useState<number>(0); // 0-1
+  const [verifiedOnly, setVerifiedOnly] = useState<boolean>(false);
+  const [safetyFilter, setSafetyFilter] = useState<BrandSafetyFilter>({});
   const [timeWindow, setTimeWindow] = useState<{
     start: number;
     end: number | null;
   }>({ start: 0, end: null });
+  // Part of every video by relative position (0-100), set from a heatmap selection
+  const [positionWindow, setPositionWindow] = useState<HeatmapWindow | null>(
+    null
+  );
 
   // UI state
   const [viewMode, setViewMode] = useState<"library" | "per-video">("library");
+  const [heatmapMeasure, setHeatmapMeasure] =
+    useState<HeatmapMeasure>("seconds");
+  const [heatmapColorScale, setHeatmapColorScale] =
+    useState<HeatmapColorScale>("zinc");
+  const [heatmapNormalize, setHeatmapNormalize] = useState<"row" | "grid">(
+    "row"
+  );
+  const [librarySubview, setLibrarySubview] = useState<
+    "videos" | "brands" | "co-occurrence"
+  >("videos");
+  const [segmentByCreator, setSegmentByCreator] = useState<boolean>(false);
+  const [segmentAnalysis, setSegmentAnalysis] = useState<boolean>(false); // re-analyze long videos in windows
+  const [coOccurrenceMeasure, setCoOccurrenceMeasure] =
+    useState<CoOccurrenceMeasure>("videos");
+  const [coOccurrenceWindowSec, setCoOccurrenceWindowSec] = useState<number>(
+    DEFAULT_CO_OCCURRENCE_WINDOW_SEC
+  );
+  const [focusBrand, setFocusBrand] = useState<string | null>(null);
+  const [selectedPair, setSelectedPair] = useState<BrandPair | null>(null);
+  const [zoom, setZoom] = useState<HeatmapWindow>(FULL_WINDOW);
+  const [brushRange, setBrushRange] = useState<HeatmapWindow | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isEventsLoading, setIsEventsLoading] = useState<boolean>(false);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
@@ -73,6 +197,15 @@ export default function BrandMentionDetectionPage() {
   const [editingCreator, setEditingCreator] = useState<string>("");
   const [isUpdatingCreator, setIsUpdatingCreator] = useState<boolean>(false);
   const [isFiltersExpanded, setIsFiltersExpanded] = useState<boolean>(false);
+  const [isReviewMode, setIsReviewMode] = useState<boolean>(false);
+  const [exportingFormat, setExportingFormat] = useState<
+    ExportFormat | "pdf" | null
+  >(null);
+  const [eventsProgress, setEventsProgress] = useState<{
+    loaded: number;
+    total: number;
+  } | null>(null);
+  const analysisStreamRef = useRef<EventSource | null>(null);
 
   // Modal state
   const [modalVideo, setModalVideo] = useState<{
@@ -83,6 +216,8 @@ export default function BrandMentionDetectionPage() {
     end: number;
     description?: string;
     location?: string;
+    confidence?: string;
+    event?: ProductEvent;
   } | null>(null);
 
   // Derived data
@@ -143,6 +278,39 @@ export default function BrandMentionDetectionPage() {
     return Array.from(brands).sort();
   }, [eventsByVideo]);
 
+  // Active filters in the shape the server-side filter engine uses
+  const eventFilters = useMemo<EventFilters>(
+    () => ({
+      creators: selectedCreators,
+      format: selectedFormats.length === 1 ? selectedFormats[0] : "any",
+      styles: selectedStyles,
+      tones: selectedTones,
+      brandAsset: { brands: selectedBrands },
+      durationMinSec: durationThreshold,
+      minConfidence,
+      timeWindow: {
+        start: timeWindow.start,
+        end: timeWindow.end ?? undefined,
+      },
+      positionWindow: positionWindow ?? undefined,
+      reviewStatus: verifiedOnly ? ["accepted", "edited"] : undefined,
+      safety: safetyFilter,
+    }),
+    [
+      selectedCreators,
+      selectedFormats,
+      selectedStyles,
+      selectedTones,
+      selectedBrands,
+      durationThreshold,
+      minConfidence,
+      timeWindow,
+      positionWindow,
+      verifiedOnly,
+      safetyFilter,
+    ]
+  );
+
   // Filtered videos based on selected filters
   const filteredVideos = useMemo(() => {
     return videos.filter((video) => {
@@ -151,77 +319,27 @@ export default function BrandMentionDetectionPage() {
         video.user_metadata?.video_creator ||
         video.user_metadata?.creator_id ||
         "Unknown";
+      const videoAnalysis = analysisByVideo[video._id];
 
-      // Filter by creator
-      if (selectedCreators.length > 0) {
-        if (!selectedCreators.includes(creator.toString())) {
-          return false;
-        }
-      }
-
-      // Filter by format
-      if (selectedFormats.length > 0) {
-        if (video.system_metadata?.width && video.system_metadata?.height) {
-          const format =
-            video.system_metadata.width >= video.system_metadata.height
-              ? "horizontal"
-              : "vertical";
-          if (!selectedFormats.includes(format)) {
-            return false;
-          }
-        } else if (selectedFormats.length > 0) {
-          // If we can't determine format but formats are selected, exclude
-          return false;
-        }
-      }
-
-      // Filter by styles
-      if (selectedStyles.length > 0) {
-        const videoAnalysis = analysisByVideo[video._id];
-        const videoStyles = videoAnalysis?.styles || [];
-        const hasMatchingStyle = selectedStyles.some((style) =>
-          videoStyles.includes(style)
-        );
-        if (!hasMatchingStyle) {
-          return false;
-        }
-      }
-
-      // Filter by tones
-      if (selectedTones.length > 0) {
-        const videoAnalysis = analysisByVideo[video._id];
-        const videoTones = videoAnalysis?.tones || [];
-        const hasMatchingTone = selectedTones.some((tone) =>
-          videoTones.includes(tone)
-        );
-        if (!hasMatchingTone) {
-          return false;
-        }
-      }
-
-      // Filter by brands - only show videos that have events with selected brands
-      if (selectedBrands.length > 0) {
-        const videoEvents = eventsByVideo[video._id] || [];
-        const hasMatchingBrand = videoEvents.some((event) =>
-          selectedBrands.includes(event.brand)
-        );
-        if (!hasMatchingBrand) {
-          return false;
-        }
-      }
-
-      return true;
+      return matchesVideoFilters(
+        {
+          creator: creator.toString(),
+          format:
+            video.system_metadata?.width && video.system_metadata?.height
+              ? video.system_metadata.width >= video.system_metadata.height
+                ? "horizontal"
+                : "vertical"
+              : undefined,
+          styles: videoAnalysis?.styles,
+          tones: videoAnalysis?.tones,
+          safety: videoAnalysis?.safety,
+          // Only videos that have events with selected brands
+          brands: (eventsByVideo[video._id] || []).map((event) => event.brand),
+        },
+        eventFilters
+      );
     });
-  }, [
-    videos,
-    selectedCreators,
-    selectedFormats,
-    selectedStyles,
-    selectedTones,
-    selectedBrands,
-    analysisByVideo,
-    eventsByVideo,
-  ]);
+  }, [videos, eventFilters, analysisByVideo, eventsByVideo]);
 
   // Filtered events based on selected filters and thresholds
   const filteredEvents = useMemo(() => {
@@ -233,46 +351,18 @@ export default function BrandMentionDetectionPage() {
         return;
       }
 
-      // Apply filters to events
-      const filtered = events.filter((event) => {
-        // Filter by brand (only if brands are selected)
-        if (
-          selectedBrands.length > 0 &&
-          !selectedBrands.includes(event.brand)
-        ) {
-          return false;
-        }
-
-        // Filter by duration threshold
-        const duration = event.timeline_end - event.timeline_start;
-        if (duration < durationThreshold) {
-          return false;
-        }
-
-        // Filter by time window
-        if (timeWindow.start > 0 && event.timeline_end < timeWindow.start) {
-          return false;
-        }
-        if (timeWindow.end !== null && event.timeline_start > timeWindow.end) {
-          return false;
-        }
-
-        return true;
-      });
-
+      const filtered = filterEvents(
+        events,
+        eventFilters,
+        videoDurations[videoId]
+      );
       if (filtered.length > 0) {
         result[videoId] = filtered;
       }
     });
 
     return result;
-  }, [
-    eventsByVideo,
-    filteredVideos,
-    selectedBrands,
-    durationThreshold,
-    timeWindow,
-  ]);
+  }, [eventsByVideo, filteredVideos, eventFilters, videoDurations]);
 
   // Fetch videos on mount
   useEffect(() => {
@@ -324,86 +414,216 @@ export default function BrandMentionDetectionPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [creatorIndexId]);
 
-  // Fetch events for multiple videos
+  // Fetch events for multiple videos, adding each video's events as its NDJSON line arrives
   async function fetchEventsForVideos(videoIds: string[]) {
     if (!creatorIndexId || videoIds.length === 0) return;
 
     setIsEventsLoading(true);
+    setEventsProgress({ loaded: 0, total: videoIds.length });
 
     try {
-      const response = await axios.post("/api/brand-mentions/events", {
-        videoIds,
-        indexId: creatorIndexId,
+      const response = await fetch("/api/brand-mentions/events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          videoIds,
+          indexId: creatorIndexId,
+          stream: true,
+          filters: { reviewStatus: ALL_REVIEW_STATUSES },
+        }),
       });
 
-      if (response.data && response.data.results) {
-        const newEvents: Record<string, ProductEvent[]> = {};
-        const newAnalysis: Record<string, VideoAnalysis> = {};
+      if (!response.ok || !response.body) {
+        throw new Error(`Events request failed with status ${response.status}`);
+      }
 
-        const results = response.data.results as Record<
-          string,
-          { events?: ProductEvent[]; analysis?: VideoAnalysis }
-        >;
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
 
-        Object.entries(results).forEach(([videoId, result]) => {
-          newEvents[videoId] = result.events ?? [];
-          newAnalysis[videoId] = result.analysis ?? {};
-        });
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const message = JSON.parse(line) as EventsBatchLine;
 
-        setEventsByVideo((prevEvents) => ({
-          ...prevEvents,
-          ...newEvents,
-        }));
+        if (message.type === "result") {
+          setEventsByVideo((prevEvents) => ({
+            ...prevEvents,
+            [message.videoId]: message.events ?? [],
+          }));
+          setAnalysisByVideo((prevAnalysis) => ({
+            ...prevAnalysis,
+            [message.videoId]: (message.analysis ?? {}) as VideoAnalysis,
+          }));
+        } else if (message.type === "error") {
+          console.error(
+            `Error fetching events for video ${message.videoId}:`,
+            message.error
+          );
+        }
 
-        setAnalysisByVideo((prevAnalysis) => ({
-          ...prevAnalysis,
-          ...newAnalysis,
-        }));
+        if (message.type !== "summary") {
+          setEventsProgress((prev) =>
+            prev ? { ...prev, loaded: prev.loaded + 1 } : prev
+          );
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.forEach(handleLine);
       }
+      handleLine(buffer + decoder.decode());
     } catch (error) {
       console.error("Error fetching brand mention events:", error);
       // Don't set global error, just log it
     } finally {
       setIsEventsLoading(false);
+      setEventsProgress(null);
     }
   }
 
-  // Fetch events for a single video
-  async function fetchEventsForVideo(videoId: string) {
+  // Re-analyze a single video with a regular request, for when streaming is unavailable
+  async function analyzeVideoWithoutStream(videoId: string) {
     if (!creatorIndexId) return;
 
-    setIsEventsLoading(true);
+    setIsAnalyzing(true);
 
     try {
-      const response = await axios.get("/api/brand-mentions/events", {
-        params: {
-          videoId,
-          indexId: creatorIndexId,
-          force: true, // Force reanalysis to get fresh data
-        },
+      const response = await axios.post("/api/brand-mentions/analyze", {
+        videoId,
+        indexId: creatorIndexId,
+        segmentAnalysis,
       });
 
-      if (response.data && response.data.events) {
-        setEventsByVideo((prevEvents) => ({
-          ...prevEvents,
-          [videoId]: response.data.events,
+      setEventsByVideo((prevEvents) => ({
+        ...prevEvents,
+        [videoId]: response.data.events || [],
+      }));
+      if (response.data.analysis) {
+        setAnalysisByVideo((prevAnalysis) => ({
+          ...prevAnalysis,
+          [videoId]: response.data.analysis as VideoAnalysis,
         }));
-
-        if (response.data.analysis) {
-          setAnalysisByVideo((prevAnalysis) => ({
-            ...prevAnalysis,
-            [videoId]: response.data.analysis as VideoAnalysis,
-          }));
-        }
+      }
+      if (response.data.status === "partial") {
+        setError(partialAnalysisMessage(response.data.failedWindows));
       }
     } catch (error) {
-      console.error(`Error fetching events for video ${videoId}:`, error);
-      // Don't set global error, just log it
+      console.error(`Error analyzing video ${videoId}:`, error);
+      setError(
+        `Analysis failed: ${
+          axios.isAxiosError(error)
+            ? error.response?.data?.error || error.message
+            : "Unknown error"
+        }`
+      );
     } finally {
-      setIsEventsLoading(false);
+      setIsAnalyzing(false);
     }
   }
 
+  // Close an in-flight analysis stream when leaving the page
+  useEffect(() => {
+    return () => analysisStreamRef.current?.close();
+  }, []);
+
+  // Re-analyze a video, drawing heatmap cells as detections stream in
+  function reanalyzeVideo(videoId: string) {
+    if (!creatorIndexId) return;
+
+    // Browsers without EventSource use the regular request
+    if (typeof EventSource === "undefined") {
+      analyzeVideoWithoutStream(videoId);
+      return;
+    }
+
+    analysisStreamRef.current?.close();
+    setIsAnalyzing(true);
+    setError(null);
+    setEventsByVideo((prevEvents) => ({ ...prevEvents, [videoId]: [] }));
+
+    const params = new URLSearchParams({
+      videoId,
+      indexId: creatorIndexId,
+      segmentAnalysis: String(segmentAnalysis),
+    });
+    const source = new EventSource(
+      `/api/brand-mentions/analyze/stream?${params.toString()}`
+    );
+    analysisStreamRef.current = source;
+    let opened = false;
+    let finished = false;
+
+    const finish = () => {
+      finished = true;
+      source.close();
+      analysisStreamRef.current = null;
+      setIsAnalyzing(false);
+    };
+
+    // Provisional detections, replaced by the final events on completion
+    source.addEventListener("product", (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as ProductEvent;
+      setEventsByVideo((prevEvents) => ({
+        ...prevEvents,
+        [videoId]: [...(prevEvents[videoId] || []), event],
+      }));
+    });
+
+    source.addEventListener("complete", (e) => {
+      const result = JSON.parse((e as MessageEvent).data) as {
+        status: string;
+        events: ProductEvent[];
+        analysis: VideoAnalysis;
+        failedWindows?: { start: number; end: number }[];
+      };
+      setEventsByVideo((prevEvents) => ({
+        ...prevEvents,
+        [videoId]: result.events,
+      }));
+      setAnalysisByVideo((prevAnalysis) => ({
+        ...prevAnalysis,
+        [videoId]: result.analysis,
+      }));
+      if (result.status === "partial") {
+        setError(partialAnalysisMessage(result.failedWindows));
+      }
+      finish();
+    });
+
+    source.addEventListener("failed", (e) => {
+      const { error } = JSON.parse((e as MessageEvent).data) as {
+        error: string;
+      };
+      setError(`Analysis failed: ${error}`);
+      finish();
+    });
+
+    source.onopen = () => {
+      opened = true;
+    };
+
+    // The stream failed before a result arrived. If it never opened, nothing was started
+    // and the regular request can run instead; otherwise the analysis keeps running on the
+    // server and saves its result, so running it again would only duplicate the work.
+    source.onerror = () => {
+      if (finished) return;
+      finish();
+      if (opened) {
+        setError(
+          "Lost the connection to the analysis. It keeps running on the server; reload the page in a few minutes to see the result."
+        );
+      } else {
+        analyzeVideoWithoutStream(videoId);
+      }
+    };
+  }
+
   // Update creator for a video
   async function updateVideoCreator(videoId: string, newCreator: string) {
     if (!creatorIndexId) {
@@ -498,6 +718,62 @@ export default function BrandMentionDetectionPage() {
     }
   }
 
+  // Download the filtered events of the videos on screen with a per-brand summary,
+  // or the PDF sponsor report for them
+  async function exportEvents(format: ExportFormat | "pdf") {
+    if (!creatorIndexId) return;
+
+    const videoIds =
+      viewMode === "per-video" && selectedVideoId
+        ? [selectedVideoId]
+        : filteredVideos.map((video) => video._id);
+
+    setExportingFormat(format);
+
+    try {
+      const response = await fetch(
+        format === "pdf"
+          ? "/api/brand-mentions/report"
+          : "/api/brand-mentions/export",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            indexId: creatorIndexId,
+            ...(format === "pdf" ? {} : { format }),
+            videoIds,
+            filters: eventFilters,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Export failed with status ${response.status}`);
+      }
+
+      const fileName =
+        response.headers
+          .get("Content-Disposition")
+          ?.match(/filename="([^"]+)"/)?.[1] ?? `brand-mentions.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting brand mentions:", error);
+      setError(
+        `Failed to export: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setExportingFormat(null);
+    }
+  }
+
   // (Removed) createEventBasedBuckets: not used
 
   // Handle cell click in heatmap
@@ -513,7 +789,9 @@ export default function BrandMentionDetectionPage() {
     const video = videos.find((v) => v._id === selectedVideoId);
     if (!video || !video.hls?.video_url) return;
 
-    const events = eventsByVideo[selectedVideoId!] || [];
+    const events = (eventsByVideo[selectedVideoId!] || []).filter(
+      (e) => reviewStatusOf(e) !== "rejected"
+    );
     const normalizedRowId = (rowId || "").toString().trim().toLowerCase();
     let brandEvents = events.filter(
       (e) => (e.brand || "").toString().trim().toLowerCase() === normalizedRowId
@@ -532,98 +810,72 @@ export default function BrandMentionDetectionPage() {
     }
     if (brandEvents.length === 0) return;
 
-    // Find the event that corresponds to this column
     const duration = videoDurations[selectedVideoId!] || 0;
-    if (duration <= 0) return;
-
-    // Find the event that was actually assigned to this colIndex bucket in the heatmap
-    // Use the same logic as heatmap generation to ensure consistency
-
-    // Recreate the bucket structure used in heatmap generation
-    const bucketDurationSec = duration / NUM_BUCKETS;
-    const buckets = Array.from({ length: NUM_BUCKETS }, (_, i) => ({
-      startSec: i * bucketDurationSec,
-      endSec: (i + 1) * bucketDurationSec,
-      startPct: ((i * bucketDurationSec) / duration) * 100,
-      endPct: (((i + 1) * bucketDurationSec) / duration) * 100,
-    }));
-
-    // Use the EXACT same logic as heatmap generation to find which event was assigned to this bucket
-    // First, create the event-to-bucket mapping exactly like in heatmap.ts
-    const eventToBucketMap = new Map<number, number>(); // eventIndex -> bucketIndex
-
-    brandEvents.forEach((event, eventIndex) => {
-      let bestBucketIndex = -1;
-      let bestOverlap = 0;
-
-      buckets.forEach((bucket, bucketIndex) => {
-        const overlap = Math.max(
-          0,
-          Math.min(event.timeline_end, bucket.endSec) -
-            Math.max(event.timeline_start, bucket.startSec)
-        );
-
-        if (overlap > bestOverlap) {
-          bestOverlap = overlap;
-          bestBucketIndex = bucketIndex;
-        }
-      });
+    const bucket = heatmapData.find((row) => row.id === rowId)?.buckets[
+      colIndex
+    ];
+    if (duration <= 0 || !bucket) return;
 
-      if (bestBucketIndex >= 0) {
-        eventToBucketMap.set(eventIndex, bestBucketIndex);
-      }
-    });
-
-    // Now find which event was assigned to the clicked bucket
-    let assignedEvent: ProductEvent | null = null;
-    brandEvents.forEach((event, eventIndex) => {
-      if (eventToBucketMap.get(eventIndex) === colIndex) {
-        assignedEvent = event;
-      }
-    });
-
-    // Use the clicked bucket boundaries
-    const correctedBucketStartSec = buckets[colIndex].startSec;
-    const correctedBucketEndSec = buckets[colIndex].endSec;
-    const correctedBucketCenter =
-      (correctedBucketStartSec + correctedBucketEndSec) / 2;
-
-    // Use the assigned event directly (no need for complex selection logic)
-    if (!assignedEvent) return;
-    const event: ProductEvent = assignedEvent;
-
-    // Create a more precise segment based on the bucket
-    // const preciseStart = Math.max(event.timeline_start, correctedBucketStartSec);
-    // const preciseEnd = Math.min(event.timeline_end, correctedBucketEndSec);
-
-    // Determine the best segment to play
-    const bucketDuration = correctedBucketEndSec - correctedBucketStartSec;
-    const eventDuration = event.timeline_end - event.timeline_start;
-
-    let finalStart = event.timeline_start;
-    let finalEnd = event.timeline_end;
-
-    // If the event spans the entire video (or most of it), use a reasonable segment
-    if (eventDuration > duration * 0.8) {
-      // For events that span most of the video, use a 10-second segment around the bucket center
-      finalStart = Math.max(0, correctedBucketCenter - 5);
-      finalEnd = Math.min(duration, correctedBucketCenter + 5);
-    } else if (bucketDuration < eventDuration * 0.3) {
-      // For very small buckets compared to event, use bucket boundaries
-      finalStart = correctedBucketStartSec;
-      finalEnd = correctedBucketEndSec;
-    }
-    // Otherwise, use the full event duration
+    // Play from the start of the clicked bucket through the event that overlaps it the most
+    const bucketStartSec = (bucket.start / 100) * duration;
+    const bucketEndSec = (bucket.end / 100) * duration;
+    const event = eventsInRange(brandEvents, bucketStartSec, bucketEndSec)[0];
+    if (!event) return;
 
     setModalVideo({
       videoId: selectedVideoId!,
       videoUrl: video.hls.video_url,
       title: `${event.brand}: ${event.product_name}`,
-      start: finalStart,
-      end: finalEnd,
+      start: bucketStartSec,
+      end: Math.max(event.timeline_end, bucketEndSec),
       description: event.description,
       location: event.location,
+      confidence: confidenceLabel(event.confidence),
+      event,
+    });
+  }
+
+  // Open the selected video in the modal to mark a placement the model missed
+  function openManualEventModal() {
+    const video = videos.find((v) => v._id === selectedVideoId);
+    if (!video || !video.hls?.video_url) return;
+
+    setModalVideo({
+      videoId: video._id,
+      videoUrl: video.hls.video_url,
+      title:
+        video.system_metadata?.video_title ||
+        video.system_metadata?.filename ||
+        `Video ${video._id}`,
+      start: 0,
+      end: 0,
+    });
+  }
+
+  // Add a new event or replace a reviewed one in the video's events
+  function handleEventSaved(videoId: string, saved: ProductEvent) {
+    setEventsByVideo((prev) => {
+      const events = prev[videoId] || [];
+      const exists = events.some((event) => event.event_id === saved.event_id);
+      return {
+        ...prev,
+        [videoId]: exists
+          ? events.map((event) =>
+              event.event_id === saved.event_id ? saved : event
+            )
+          : [...events, saved],
+      };
     });
+    setModalVideo((prev) =>
+      prev?.event && prev.event.event_id === saved.event_id
+        ? {
+            ...prev,
+            event: saved,
+            start: saved.timeline_start,
+            end: saved.timeline_end,
+          }
+        : prev
+    );
   }
 
   // Toggle filter selection
@@ -669,9 +921,52 @@ export default function BrandMentionDetectionPage() {
     setSelectedTones([]);
     setSelectedBrands([]);
     setDurationThreshold(0.5);
+    setMinConfidence(0);
+    setVerifiedOnly(false);
+    setSafetyFilter({});
     setTimeWindow({ start: 0, end: null });
+    setPositionWindow(null);
   }
 
+  // Brand-centric library rows: each brand across the filtered videos, by relative position
+  const brandPositions = useMemo(() => {
+    if (viewMode !== "library" || librarySubview !== "brands") return [];
+
+    const creators = segmentByCreator
+      ? Object.fromEntries(
+          videos.map((video) => [
+            video._id,
+            String(
+              video.user_metadata?.creator ||
+                video.user_metadata?.video_creator ||
+                video.user_metadata?.creator_id ||
+                "Unknown Creator"
+            ),
+          ])
+        )
+      : undefined;
+
+    return aggregateBrandPositions(
+      videoDurations,
+      filteredEvents,
+      NUM_BUCKETS,
+      selectedBrands.length > 0 ? selectedBrands : undefined,
+      heatmapMeasure,
+      zoom,
+      creators
+    );
+  }, [
+    viewMode,
+    librarySubview,
+    segmentByCreator,
+    videos,
+    videoDurations,
+    filteredEvents,
+    selectedBrands,
+    heatmapMeasure,
+    zoom,
+  ]);
+
   // Prepare heatmap data based on view mode
   const heatmapData = useMemo(() => {
     if (viewMode === "library") {
@@ -680,7 +975,9 @@ export default function BrandMentionDetectionPage() {
         videoDurations,
         filteredEvents,
         NUM_BUCKETS,
-        selectedBrands.length > 0 ? selectedBrands : undefined
+        selectedBrands.length > 0 ? selectedBrands : undefined,
+        heatmapMeasure,
+        zoom
       );
 
       // map TwelveLabs rows to UI-friendly rows
@@ -702,16 +999,13 @@ export default function BrandMentionDetectionPage() {
         };
       });
 
-      // compute total exposure buckets across all uiRows
-      const totalBuckets = Array.from({ length: NUM_BUCKETS }, (_, idx) => {
-        const template = uiRows[0]?.buckets[idx] ?? {
-          start: (idx / NUM_BUCKETS) * 100,
-          end: ((idx + 1) / NUM_BUCKETS) * 100,
-          value: 0,
-        };
-        const value = uiRows.reduce((sum, r) => sum + r.buckets[idx].value, 0);
-        return { ...template, value };
-      });
+      // compute total exposure buckets across all videos
+      const totalBuckets = aggregateLibraryTotal(
+        libraryRows,
+        NUM_BUCKETS,
+        heatmapMeasure,
+        zoom
+      );
 
       const totalRow = {
         id: "__TOTAL__",
@@ -720,6 +1014,17 @@ export default function BrandMentionDetectionPage() {
         videoDuration: undefined, // Total row doesn't have a specific video duration
       };
 
+      if (librarySubview === "brands") {
+        // Brand view: brands (or brand and creator) as rows, same total row
+        const brandRows = brandPositions.map((row) => ({
+          id: row.key,
+          label: row.creator ? `${row.brand} · ${row.creator}` : row.brand,
+          buckets: row.buckets,
+          videoDuration: undefined,
+        }));
+        return brandRows.length > 0 ? [totalRow, ...brandRows] : [];
+      }
+
       return [totalRow, ...uiRows];
     } else if (selectedVideoId) {
       // Per-video view: brands as rows, time buckets as columns
@@ -729,7 +1034,9 @@ export default function BrandMentionDetectionPage() {
         events,
         NUM_BUCKETS,
         "brand",
-        videoDuration
+        videoDuration,
+        heatmapMeasure,
+        zoom
       );
 
       // Log the actual heatmap data for Emirates
@@ -750,14 +1057,14 @@ export default function BrandMentionDetectionPage() {
       }));
 
       if (rowsWithTotal.length > 0) {
-        // compute total exposure row
-        const totalBuckets = rowsWithTotal[0].buckets.map((b, idx) => ({
-          ...b,
-          value: rowsWithTotal.reduce(
-            (sum, r) => sum + r.buckets[idx].value,
-            0
-          ),
-        }));
+        // compute total exposure row over all of the video's events
+        const totalBuckets = aggregateVideoTotal(
+          events,
+          NUM_BUCKETS,
+          videoDuration,
+          heatmapMeasure,
+          zoom
+        );
         rowsWithTotal.unshift({
           id: "__TOTAL__",
           label: "Total Exposure",
@@ -777,8 +1084,191 @@ export default function BrandMentionDetectionPage() {
     videos,
     videoDurations,
     selectedBrands,
+    heatmapMeasure,
+    zoom,
+    librarySubview,
+    brandPositions,
   ]);
 
+  // Brand co-occurrence across the filtered library
+  const coOccurrence = useMemo(
+    () => computeCoOccurrence(filteredEvents, coOccurrenceWindowSec),
+    [filteredEvents, coOccurrenceWindowSec]
+  );
+
+  // A selected pair is only valid for the report it was picked from
+  useEffect(() => {
+    setSelectedPair(null);
+  }, [coOccurrence]);
+
+  // Most widespread brands, keeping the focus brand in view
+  const coOccurrenceBrands = useMemo(() => {
+    const brands = coOccurrence.brands
+      .slice(0, MAX_CO_OCCURRENCE_BRANDS)
+      .map((entry) => entry.brand);
+    return focusBrand &&
+      !brands.includes(focusBrand) &&
+      coOccurrence.brands.some((entry) => entry.brand === focusBrand)
+      ? [...brands, focusBrand]
+      : brands;
+  }, [coOccurrence, focusBrand]);
+
+  // A zoom or selection belongs to the timeline it was made on
+  useEffect(() => {
+    setZoom(FULL_WINDOW);
+    setBrushRange(null);
+  }, [viewMode, selectedVideoId]);
+
+  // Zoom in around the middle of the current window, halving its span
+  function zoomIn() {
+    const span = Math.max(MIN_ZOOM_SPAN, (zoom.end - zoom.start) / 2);
+    const center = (zoom.start + zoom.end) / 2;
+    const start = Math.min(Math.max(0, center - span / 2), 100 - span);
+    setZoom({ start, end: start + span });
+    setBrushRange(null);
+  }
+
+  // Zoom out around the middle of the current window, doubling its span
+  function zoomOut() {
+    const span = Math.min(100, (zoom.end - zoom.start) * 2);
+    const center = (zoom.start + zoom.end) / 2;
+    const start = Math.min(Math.max(0, center - span / 2), 100 - span);
+    setZoom({ start, end: start + span });
+    setBrushRange(null);
+  }
+
+  // Columns dragged across on the heatmap, as a share of the timeline
+  function handleHeatmapRangeSelect(fromCol: number, toCol: number) {
+    const buckets = heatmapData[0]?.buckets;
+    if (!buckets || !buckets[fromCol] || !buckets[toCol]) return;
+    setBrushRange({ start: buckets[fromCol].start, end: buckets[toCol].end });
+  }
+
+  function zoomToSelection() {
+    if (!brushRange) return;
+    const span = Math.max(MIN_ZOOM_SPAN, brushRange.end - brushRange.start);
+    const start = Math.min(brushRange.start, 100 - span);
+    setZoom({ start, end: start + span });
+    setBrushRange(null);
+  }
+
+  // Filter every video to the same relative part of its timeline; converted to seconds per video
+  function filterToSelection() {
+    if (!brushRange) return;
+    setPositionWindow(brushRange);
+    setBrushRange(null);
+  }
+
+  // Columns of the current selection, for highlighting on the heatmap
+  const selectedColumns = useMemo((): [number, number] | null => {
+    const buckets = heatmapData[0]?.buckets;
+    if (!brushRange || !buckets) return null;
+    const columns = buckets
+      .map((bucket, index) => ({ bucket, index }))
+      .filter(
+        ({ bucket }) =>
+          bucket.end > brushRange.start && bucket.start < brushRange.end
+      )
+      .map(({ index }) => index);
+    return columns.length > 0
+      ? [columns[0], columns[columns.length - 1]]
+      : null;
+  }, [brushRange, heatmapData]);
+
+  // Events in a heatmap cell, with the frame nearest the middle of each overlap
+  function getHeatmapCellEvents(
+    rowId: string,
+    colIndex: number
+  ): HeatmapCellEvent[] {
+    if (viewMode === "library" && librarySubview === "brands") {
+      return getBrandPositionCellEvents(rowId, colIndex);
+    }
+
+    const videoId = viewMode === "library" ? rowId : selectedVideoId;
+    if (!videoId || videoId === "__TOTAL__") return [];
+
+    const duration = videoDurations[videoId] || 0;
+    const bucket = heatmapData.find((row) => row.id === rowId)?.buckets[
+      colIndex
+    ];
+    if (duration <= 0 || !bucket) return [];
+
+    const events = (filteredEvents[videoId] || []).filter((event) =>
+      viewMode === "library"
+        ? selectedBrands.length === 0 || selectedBrands.includes(event.brand)
+        : rowId === "__TOTAL__" || event.brand === rowId
+    );
+    const startSec = (bucket.start / 100) * duration;
+    const endSec = (bucket.end / 100) * duration;
+    const thumbnails = videos.find((v) => v._id === videoId)?.hls
+      ?.thumbnail_urls;
+
+    return eventsInRange(events, startSec, endSec).map((event, index) => ({
+      key: event.event_id ?? `${event.brand}-${event.timeline_start}-${index}`,
+      label: `${event.brand}: ${event.product_name}`,
+      start: event.timeline_start,
+      end: event.timeline_end,
+      thumbnailUrl: thumbnailAt(
+        thumbnails,
+        duration,
+        (Math.max(event.timeline_start, startSec) +
+          Math.min(event.timeline_end, endSec)) /
+          2
+      ),
+      manual: event.source === "manual",
+    }));
+  }
+
+  // Events of a brand row's cell: the brand's events in that share of each of its videos
+  function getBrandPositionCellEvents(
+    rowId: string,
+    colIndex: number
+  ): HeatmapCellEvent[] {
+    const row = brandPositions.find((r) => r.key === rowId);
+    const bucket = heatmapData.find((r) => r.id === rowId)?.buckets[colIndex];
+    if (!row || !bucket) return [];
+
+    return Object.entries(filteredEvents).flatMap(([videoId, events]) => {
+      const video = videos.find((v) => v._id === videoId);
+      const duration = videoDurations[videoId] || 0;
+      const creator = String(
+        video?.user_metadata?.creator ||
+          video?.user_metadata?.video_creator ||
+          video?.user_metadata?.creator_id ||
+          "Unknown Creator"
+      );
+      if (duration <= 0 || (row.creator && row.creator !== creator)) return [];
+
+      const startSec = (bucket.start / 100) * duration;
+      const endSec = (bucket.end / 100) * duration;
+      const title =
+        video?.system_metadata?.video_title ||
+        video?.system_metadata?.filename ||
+        `Video ${videoId}`;
+
+      return eventsInRange(
+        events.filter((event) => event.brand === row.brand),
+        startSec,
+        endSec
+      ).map((event, index) => ({
+        key: `${videoId}-${
+          event.event_id ?? `${event.timeline_start}-${index}`
+        }`,
+        label: `${event.product_name} · ${title}`,
+        start: event.timeline_start,
+        end: event.timeline_end,
+        thumbnailUrl: thumbnailAt(
+          video?.hls?.thumbnail_urls,
+          duration,
+          (Math.max(event.timeline_start, startSec) +
+            Math.min(event.timeline_end, endSec)) /
+            2
+        ),
+        manual: event.source === "manual",
+      }));
+    });
+  }
+
   return (
     <div className="bg-zinc-100">
       <main className="container mx-auto px-4 pb-6">
@@ -815,6 +1305,64 @@ export default function BrandMentionDetectionPage() {
                     </button>
                   </div>
                 )}
+                {viewMode === "per-video" && selectedVideoId && (
+                  <div className="flex items-center gap-2">
+                    {isAnalyzing && (
+                      <span className="text-xs text-gray-500">
+                        Analyzing… {eventsByVideo[selectedVideoId]?.length || 0}{" "}
+                        detections so far
+                      </span>
+                    )}
+                    <label
+                      className="flex items-center gap-1 text-xs text-gray-700"
+                      title="Analyze long videos in overlapping 5-minute windows"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={segmentAnalysis}
+                        onChange={(e) => setSegmentAnalysis(e.target.checked)}
+                        disabled={isAnalyzing}
+                        className="accent-gray-700"
+                      />
+                      Segmented
+                    </label>
+                    <button
+                      onClick={() => reanalyzeVideo(selectedVideoId)}
+                      disabled={isAnalyzing || isEventsLoading}
+                      className={clsx(
+                        "h-7 px-3 text-xs rounded-lg border border-1",
+                        isAnalyzing || isEventsLoading
+                          ? "border-gray-300 text-gray-400 cursor-not-allowed"
+                          : "border-gray-700 text-gray-700 hover:bg-gray-100"
+                      )}
+                    >
+                      {isAnalyzing ? "Analyzing..." : "Re-analyze"}
+                    </button>
+                    <button
+                      onClick={() => setIsReviewMode((prev) => !prev)}
+                      className={clsx(
+                        "h-7 px-3 text-xs rounded-lg border border-1",
+                        isReviewMode
+                          ? "border-gray-700 bg-[#1D1C1B] text-white"
+                          : "border-gray-700 text-gray-700 hover:bg-gray-100"
+                      )}
+                    >
+                      {isReviewMode ? "Exit review" : "Review events"}
+                    </button>
+                    <button
+                      onClick={openManualEventModal}
+                      disabled={isAnalyzing || isEventsLoading}
+                      className={clsx(
+                        "h-7 px-3 text-xs rounded-lg border border-1",
+                        isAnalyzing || isEventsLoading
+                          ? "border-gray-300 text-gray-400 cursor-not-allowed"
+                          : "border-gray-700 text-gray-700 hover:bg-gray-100"
+                      )}
+                    >
+                      Add event
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Error message */}
@@ -1024,6 +1572,60 @@ export default function BrandMentionDetectionPage() {
                           )}
                         </div>
                       </div>
+
+                      {/* Brand Safety */}
+                      <div className="flex flex-col gap-[10px]">
+                        <h4 className="text-black text-xs font-normal font-['Milling']">
+                          Brand Safety
+                        </h4>
+                        <div className="flex flex-wrap gap-2">
+                          {(() => {
+                            const flags =
+                              analysisByVideo[selectedVideoId]?.safety;
+                            if (!flags) {
+                              return (
+                                <span className="text-sm text-gray-500">
+                                  Not screened
+                                </span>
+                              );
+                            }
+                            const summary = summarizeBrandSafety(flags);
+                            const categories = Object.keys(
+                              summary
+                            ) as (keyof typeof summary)[];
+                            if (categories.length === 0) {
+                              return (
+                                <span className="text-sm text-gray-500">
+                                  Nothing flagged
+                                </span>
+                              );
+                            }
+                            return categories.map((category) => (
+                              <span
+                                key={category}
+                                title={flags
+                                  .filter((flag) => flag.category === category)
+                                  .map(
+                                    (flag) =>
+                                      `${Math.round(flag.timeline_start)}s–${Math.round(flag.timeline_end)}s (${flag.severity})${flag.description ? `: ${flag.description}` : ""}`
+                                  )
+                                  .join("\n")}
+                                className={clsx(
+                                  "h-7 px-2 py-1.5 rounded-full inline-flex justify-center items-center gap-1 text-xs font-normal font-['Milling']",
+                                  summary[category] === "high"
+                                    ? "bg-red-100 text-red-800"
+                                    : summary[category] === "medium"
+                                      ? "bg-amber-100 text-amber-800"
+                                      : "bg-gray-100 text-gray-700"
+                                )}
+                              >
+                                {CATEGORY_LABELS[category]} ·{" "}
+                                {summary[category]}
+                              </span>
+                            ));
+                          })()}
+                        </div>
+                      </div>
                     </div>
                   </div>
 
@@ -1252,8 +1854,25 @@ export default function BrandMentionDetectionPage() {
                       </div>
                     </div>
 
-                    {/* Duration and time window filters */}
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                    {/* Brand safety filter */}
+                    <div className="mt-4">
+                      <h4 className="text-sm font-medium mb-2">
+                        Brand Safety
+                      </h4>
+                      <BrandSafetyFilterPanel
+                        filter={safetyFilter}
+                        onChange={setSafetyFilter}
+                        screenedCount={
+                          videos.filter(
+                            (video) => analysisByVideo[video._id]?.safety
+                          ).length
+                        }
+                        totalCount={videos.length}
+                      />
+                    </div>
+
+                    {/* Duration, confidence and time window filters */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
                       <div>
                         <h4 className="text-sm font-medium mb-2">
                           Duration Threshold: {durationThreshold}s
@@ -1271,6 +1890,36 @@ export default function BrandMentionDetectionPage() {
                         />
                       </div>
 
+                      <div>
+                        <h4 className="text-sm font-medium mb-2">
+                          Min Confidence: {Math.round(minConfidence * 100)}%
+                        </h4>
+                        <input
+                          type="range"
+                          min="0"
+                          max="1"
+                          step="0.05"
+                          value={minConfidence}
+                          onChange={(e) =>
+                            setMinConfidence(parseFloat(e.target.value))
+                          }
+                          className="w-full accent-gray-700"
+                        />
+                      </div>
+
+                      <div>
+                        <h4 className="text-sm font-medium mb-2">Review</h4>
+                        <label className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={verifiedOnly}
+                            onChange={(e) => setVerifiedOnly(e.target.checked)}
+                            className="accent-gray-700"
+                          />
+                          Verified events only
+                        </label>
+                      </div>
+
                       <div>
                         <h4 className="text-sm font-medium mb-2">
                           Time Window: {timeWindow.start}s -{" "}
@@ -1318,53 +1967,585 @@ export default function BrandMentionDetectionPage() {
                             className="w-20 px-2 py-1 border border-gray-300 rounded-xl"
                           />
                         </div>
+                        {positionWindow && (
+                          <div className="flex items-center gap-2 mt-2 text-sm">
+                            <span>
+                              Position: {Math.round(positionWindow.start)}–
+                              {Math.round(positionWindow.end)}% of each video
+                            </span>
+                            <button
+                              onClick={() => setPositionWindow(null)}
+                              className="px-2 py-0.5 border border-gray-300 rounded-xl hover:bg-gray-100"
+                            >
+                              Clear
+                            </button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
                 </div>
               )}
 
-              {/* Heatmap visualization */}
-              <div className="mb-8">
-                {isEventsLoading ? (
-                  <div className="flex justify-center items-center h-64">
-                    <LoadingSpinner size="md" />
+              {/* Library subview toggle */}
+              {viewMode === "library" && (
+                <div className="flex items-center gap-2 ml-3 mb-4">
+                  {(["videos", "brands", "co-occurrence"] as const).map(
+                    (subview) => (
+                      <button
+                        key={subview}
+                        onClick={() => setLibrarySubview(subview)}
+                        className={clsx(
+                          "h-7 px-3 text-xs rounded-lg border border-1",
+                          librarySubview === subview
+                            ? "border-gray-700 bg-[#1D1C1B] text-white"
+                            : "border-gray-700 text-gray-700 hover:bg-gray-100"
+                        )}
+                      >
+                        {subview === "videos"
+                          ? "By video"
+                          : subview === "brands"
+                          ? "By brand"
+                          : "Co-occurrence"}
+                      </button>
+                    )
+                  )}
+                </div>
+              )}
+
+              {/* Brand co-occurrence (library view) */}
+              {viewMode === "library" && librarySubview === "co-occurrence" ? (
+                <div className="mb-8">
+                  <div className="flex flex-wrap items-center gap-4 ml-3 mb-5">
+                    <h3 className="text-xl text-black font-normal">
+                      Brand Co-occurrence
+                    </h3>
+                    <label className="flex items-center gap-2 text-sm text-gray-500">
+                      Count
+                      <select
+                        value={coOccurrenceMeasure}
+                        onChange={(e) =>
+                          setCoOccurrenceMeasure(
+                            e.target.value as CoOccurrenceMeasure
+                          )
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-xl text-sm text-gray-800"
+                      >
+                        {(
+                          Object.keys(
+                            CO_OCCURRENCE_LABELS
+                          ) as CoOccurrenceMeasure[]
+                        ).map((measure) => (
+                          <option key={measure} value={measure}>
+                            {CO_OCCURRENCE_LABELS[measure]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {coOccurrenceMeasure === "window" && (
+                      <label className="flex items-center gap-2 text-sm text-gray-500">
+                        Window
+                        <input
+                          type="number"
+                          min="1"
+                          value={coOccurrenceWindowSec}
+                          onChange={(e) =>
+                            setCoOccurrenceWindowSec(
+                              Math.max(1, parseInt(e.target.value) || 1)
+                            )
+                          }
+                          className="w-16 px-2 py-1 border border-gray-300 rounded-xl text-sm text-gray-800"
+                        />
+                        s
+                      </label>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-500">
+                      Check brand
+                      <select
+                        value={focusBrand ?? ""}
+                        onChange={(e) => {
+                          setFocusBrand(e.target.value || null);
+                          setSelectedPair(null);
+                        }}
+                        className="px-2 py-1 border border-gray-300 rounded-xl text-sm text-gray-800"
+                      >
+                        <option value="">All brands</option>
+                        {coOccurrence.brands.map(({ brand }) => (
+                          <option key={brand} value={brand}>
+                            {brand}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
                   </div>
-                ) : heatmapData.length === 0 ? (
-                  <div className="bg-gray-50 p-8 rounded-lg text-center text-gray-500">
-                    {viewMode === "library" ? (
-                      <p>No videos match the selected filters.</p>
-                    ) : (
+
+                  {isEventsLoading && (
+                    <p className="text-sm text-gray-500 ml-3 mb-3">
+                      Counting the videos loaded so far…
+                    </p>
+                  )}
+
+                  {coOccurrence.pairs.length === 0 ? (
+                    <div className="bg-gray-50 p-8 rounded-lg text-center text-gray-500">
                       <p>
-                        No brand mentions found for this video with the current
+                        No two brands appear in the same video with the current
                         filters.
                       </p>
-                    )}
-                  </div>
-                ) : (
-                  <>
-                    <h3 className="text-xl text-black font-normal ml-3 mb-5">
-                      {viewMode === "library"
-                        ? `Brand Mention Heatmap`
-                        : "Brand Mentions"}
-                    </h3>
-                    <div className="overflow-x-auto">
-                      <Heatmap
-                        rows={heatmapData}
-                        columns={NUM_BUCKETS}
-                        onCellClick={handleHeatmapCellClick}
-                        className="mb-4"
-                        videoDuration={
-                          viewMode === "per-video" && selectedVideoId
-                            ? videoDurations[selectedVideoId]
-                            : undefined
-                        }
-                        viewMode={viewMode}
-                      />
                     </div>
-                  </>
-                )}
-              </div>
+                  ) : (
+                    <div className="flex flex-col gap-6">
+                      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                        <CoOccurrenceMatrix
+                          report={coOccurrence}
+                          measure={coOccurrenceMeasure}
+                          brands={coOccurrenceBrands}
+                          focusBrand={focusBrand}
+                          selectedPair={selectedPair}
+                          onPairSelect={setSelectedPair}
+                        />
+                        <CoOccurrenceGraph
+                          report={coOccurrence}
+                          measure={coOccurrenceMeasure}
+                          brands={coOccurrenceBrands}
+                          focusBrand={focusBrand}
+                          onBrandSelect={(brand) => {
+                            setFocusBrand((prev) =>
+                              prev === brand ? null : brand
+                            );
+                            setSelectedPair(null);
+                          }}
+                          onPairSelect={setSelectedPair}
+                        />
+                      </div>
+
+                      {/* Competitive-conflict check */}
+                      {focusBrand && (
+                        <div className="py-4 px-6 rounded-[20px] outline outline-1 outline-offset-[-1px] outline-gray-300">
+                          <h4 className="font-semibold mb-3">
+                            Brands appearing with {focusBrand}
+                          </h4>
+                          {coOccurringWith(
+                            coOccurrence,
+                            focusBrand,
+                            coOccurrenceMeasure
+                          ).length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                              {focusBrand} never appears with another brand
+                              {coOccurrenceMeasure === "videos"
+                                ? "."
+                                : " for this count."}
+                            </p>
+                          ) : (
+                            <div className="flex flex-wrap gap-2">
+                              {coOccurringWith(
+                                coOccurrence,
+                                focusBrand,
+                                coOccurrenceMeasure
+                              ).map(({ brand, pair }) => (
+                                <button
+                                  key={brand}
+                                  onClick={() => setSelectedPair(pair)}
+                                  className={clsx(
+                                    "px-2 py-1 text-xs rounded-full",
+                                    selectedPair === pair
+                                      ? "bg-amber-100 text-amber-800"
+                                      : "bg-gray-200 text-gray-800 hover:bg-gray-300"
+                                  )}
+                                >
+                                  {brand} ·{" "}
+                                  {formatPairValue(
+                                    pairValue(pair, coOccurrenceMeasure),
+                                    coOccurrenceMeasure
+                                  )}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Videos of the selected pair */}
+                      {selectedPair && (
+                        <div className="py-4 px-6 rounded-[20px] outline outline-1 outline-offset-[-1px] outline-gray-300">
+                          <div className="flex justify-between items-center mb-3">
+                            <h4 className="font-semibold">
+                              {selectedPair.a} + {selectedPair.b}
+                            </h4>
+                            <button
+                              onClick={() => setSelectedPair(null)}
+                              className="text-gray-500 hover:text-gray-700"
+                            >
+                              ✕
+                            </button>
+                          </div>
+                          <p className="text-sm text-gray-500 mb-3">
+                            {formatPairValue(selectedPair.videoCount, "videos")}
+                            , {formatPairValue(selectedPair.windowCount, "window")}{" "}
+                            of {coOccurrence.windowSec}s,{" "}
+                            {formatPairValue(selectedPair.overlapSec, "overlap")}
+                          </p>
+                          <ul className="flex flex-col gap-1 text-sm">
+                            {selectedPair.videoIds.map((videoId) => {
+                              const video = videos.find(
+                                (v) => v._id === videoId
+                              );
+                              return (
+                                <li key={videoId}>
+                                  <button
+                                    onClick={() => {
+                                      setSelectedVideoId(videoId);
+                                      setViewMode("per-video");
+                                    }}
+                                    className="text-left text-gray-800 underline hover:text-gray-600"
+                                  >
+                                    {video?.system_metadata?.video_title ||
+                                      video?.system_metadata?.filename ||
+                                      `Video ${videoId}`}
+                                  </button>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="mb-8">
+                  {eventsProgress && eventsProgress.loaded > 0 && (
+                    <p className="text-sm text-gray-500 ml-3 mb-3">
+                      Loading brand mentions… {eventsProgress.loaded} of{" "}
+                      {eventsProgress.total} videos
+                    </p>
+                  )}
+                  {isEventsLoading &&
+                  (!eventsProgress || eventsProgress.loaded === 0) ? (
+                    <div className="flex justify-center items-center h-64">
+                      <LoadingSpinner size="md" />
+                    </div>
+                  ) : heatmapData.length === 0 ? (
+                    <div className="bg-gray-50 p-8 rounded-lg text-center text-gray-500">
+                      {viewMode === "library" && isEventsLoading ? (
+                        <p>No brand mentions in the videos loaded so far.</p>
+                      ) : viewMode === "library" ? (
+                        <p>No videos match the selected filters.</p>
+                      ) : isAnalyzing ? (
+                        <p>
+                          Analyzing video… detections will appear here as they
+                          arrive.
+                        </p>
+                      ) : (
+                        <p>
+                          No brand mentions found for this video with the current
+                          filters.
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between ml-3 mb-5">
+                        <div className="flex items-center gap-4">
+                          <h3 className="text-xl text-black font-normal">
+                            {viewMode === "library" &&
+                            librarySubview === "brands"
+                              ? "Brand Position Across Videos"
+                              : viewMode === "library"
+                              ? `Brand Mention Heatmap`
+                              : "Brand Mentions"}
+                          </h3>
+                          <label className="flex items-center gap-2 text-sm text-gray-500">
+                            Show
+                            <select
+                              value={heatmapMeasure}
+                              onChange={(e) =>
+                                setHeatmapMeasure(
+                                  e.target.value as HeatmapMeasure
+                                )
+                              }
+                              className="px-2 py-1 border border-gray-300 rounded-xl text-sm text-gray-800"
+                            >
+                              {(
+                                Object.keys(
+                                  MEASURE_LABELS
+                                ) as HeatmapMeasure[]
+                              ).map((measure) => (
+                                <option key={measure} value={measure}>
+                                  {MEASURE_LABELS[measure]}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-gray-500">
+                            Colours
+                            <select
+                              value={heatmapColorScale}
+                              onChange={(e) =>
+                                setHeatmapColorScale(
+                                  e.target.value as HeatmapColorScale
+                                )
+                              }
+                              className="px-2 py-1 border border-gray-300 rounded-xl text-sm text-gray-800"
+                            >
+                              {(
+                                Object.keys(
+                                  COLOR_SCALES
+                                ) as HeatmapColorScale[]
+                              ).map((scale) => (
+                                <option key={scale} value={scale}>
+                                  {COLOR_SCALES[scale].label}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-gray-500">
+                            Relative to
+                            <select
+                              value={heatmapNormalize}
+                              onChange={(e) =>
+                                setHeatmapNormalize(
+                                  e.target.value as "row" | "grid"
+                                )
+                              }
+                              className="px-2 py-1 border border-gray-300 rounded-xl text-sm text-gray-800"
+                            >
+                              <option value="row">Each row&apos;s peak</option>
+                              <option value="grid">All rows</option>
+                            </select>
+                          </label>
+                          {viewMode === "library" &&
+                            librarySubview === "brands" && (
+                              <label className="flex items-center gap-2 text-sm text-gray-500">
+                                <input
+                                  type="checkbox"
+                                  checked={segmentByCreator}
+                                  onChange={(e) =>
+                                    setSegmentByCreator(e.target.checked)
+                                  }
+                                  className="accent-gray-700"
+                                />
+                                Segment by creator
+                              </label>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-500">Export</span>
+                          {(["csv", "xlsx", "json", "pdf"] as const).map(
+                            (format) => (
+                              <button
+                                key={format}
+                                onClick={() => exportEvents(format)}
+                                disabled={exportingFormat !== null}
+                                className="px-3 py-1 text-sm border border-gray-300 rounded-xl hover:bg-gray-100 disabled:opacity-50"
+                              >
+                                {exportingFormat === format
+                                  ? "Exporting..."
+                                  : format === "pdf"
+                                  ? "PDF report"
+                                  : format.toUpperCase()}
+                              </button>
+                            )
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 ml-3 mb-3 text-sm">
+                        <span className="text-gray-500">Zoom</span>
+                        <button
+                          onClick={zoomIn}
+                          disabled={zoom.end - zoom.start <= MIN_ZOOM_SPAN}
+                          className="px-3 py-1 border border-gray-300 rounded-xl hover:bg-gray-100 disabled:opacity-50"
+                          aria-label="Zoom in"
+                        >
+                          +
+                        </button>
+                        <button
+                          onClick={zoomOut}
+                          disabled={zoom.end - zoom.start >= 100}
+                          className="px-3 py-1 border border-gray-300 rounded-xl hover:bg-gray-100 disabled:opacity-50"
+                          aria-label="Zoom out"
+                        >
+                          −
+                        </button>
+                        <button
+                          onClick={() => {
+                            setZoom(FULL_WINDOW);
+                            setBrushRange(null);
+                          }}
+                          disabled={zoom.end - zoom.start >= 100}
+                          className="px-3 py-1 border border-gray-300 rounded-xl hover:bg-gray-100 disabled:opacity-50"
+                        >
+                          Reset
+                        </button>
+                        <span className="text-gray-500">
+                          {zoom.end - zoom.start >= 100
+                            ? "Drag across the heatmap to select a range"
+                            : `Showing ${Math.round(zoom.start * 10) / 10}–${
+                                Math.round(zoom.end * 10) / 10
+                              }% of the timeline`}
+                        </span>
+                        {brushRange && (
+                          <>
+                            <span className="ml-4 text-gray-800">
+                              Selected{" "}
+                              {viewMode === "per-video" && selectedVideoId
+                                ? `${Math.floor(
+                                    (brushRange.start / 100) *
+                                      (videoDurations[selectedVideoId] || 0)
+                                  )}s–${Math.ceil(
+                                    (brushRange.end / 100) *
+                                      (videoDurations[selectedVideoId] || 0)
+                                  )}s`
+                                : `${Math.round(brushRange.start)}–${Math.round(
+                                    brushRange.end
+                                  )}%`}
+                            </span>
+                            <button
+                              onClick={zoomToSelection}
+                              className="px-3 py-1 border border-gray-300 rounded-xl hover:bg-gray-100"
+                            >
+                              Zoom to selection
+                            </button>
+                            <button
+                              onClick={filterToSelection}
+                              className="px-3 py-1 border border-gray-300 rounded-xl hover:bg-gray-100"
+                            >
+                              Filter to selection
+                            </button>
+                            <button
+                              onClick={() => setBrushRange(null)}
+                              className="px-3 py-1 border border-gray-300 rounded-xl hover:bg-gray-100"
+                            >
+                              Clear
+                            </button>
+                          </>
+                        )}
+                      </div>
+                      <div className="overflow-x-auto">
+                        <Heatmap
+                          rows={heatmapData}
+                          columns={NUM_BUCKETS}
+                          onCellClick={
+                            viewMode === "library" &&
+                            librarySubview === "brands"
+                              ? undefined
+                              : handleHeatmapCellClick
+                          }
+                          onRangeSelect={handleHeatmapRangeSelect}
+                          selectedRange={selectedColumns}
+                          getCellEvents={getHeatmapCellEvents}
+                          className="mb-4"
+                          videoDuration={
+                            viewMode === "per-video" && selectedVideoId
+                              ? videoDurations[selectedVideoId]
+                              : undefined
+                          }
+                          viewMode={viewMode}
+                          measure={heatmapMeasure}
+                          colorScale={heatmapColorScale}
+                          normalize={heatmapNormalize}
+                        />
+                      </div>
+
+                      {/* Intro / middle / outro breakdown (brand view) */}
+                      {viewMode === "library" &&
+                        librarySubview === "brands" &&
+                        brandPositions.length > 0 && (
+                          <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left">
+                              <thead>
+                                <tr className="border-b border-gray-300 text-gray-500">
+                                  <th className="py-2 px-3 font-normal">
+                                    Brand
+                                  </th>
+                                  {segmentByCreator && (
+                                    <th className="py-2 px-3 font-normal">
+                                      Creator
+                                    </th>
+                                  )}
+                                  <th className="py-2 px-3 font-normal">
+                                    Videos
+                                  </th>
+                                  {(
+                                    Object.keys(
+                                      SEGMENT_LABELS
+                                    ) as PositionSegment[]
+                                  ).map((segment) => (
+                                    <th
+                                      key={segment}
+                                      className="py-2 px-3 font-normal"
+                                    >
+                                      {SEGMENT_LABELS[segment]} (
+                                      {POSITION_SEGMENTS[segment].start}–
+                                      {POSITION_SEGMENTS[segment].end}%)
+                                    </th>
+                                  ))}
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {brandPositions.map((row) => (
+                                  <tr
+                                    key={row.key}
+                                    className="border-b border-gray-200"
+                                  >
+                                    <td className="py-2 px-3">{row.brand}</td>
+                                    {segmentByCreator && (
+                                      <td className="py-2 px-3">
+                                        {row.creator}
+                                      </td>
+                                    )}
+                                    <td className="py-2 px-3">
+                                      {row.videoCount}
+                                    </td>
+                                    {(
+                                      Object.keys(
+                                        SEGMENT_LABELS
+                                      ) as PositionSegment[]
+                                    ).map((segment) => {
+                                      const stats = row.segments[segment];
+                                      return (
+                                        <td
+                                          key={segment}
+                                          className="py-2 px-3"
+                                          title={`Appears in the ${segment} of ${stats.videoCount} of ${row.videoCount} videos`}
+                                        >
+                                          {stats.videoCount} (
+                                          {Math.round(
+                                            (stats.videoCount /
+                                              row.videoCount) *
+                                              100
+                                          )}
+                                          %) · avg{" "}
+                                          {stats.avgSeconds.toFixed(1)}s
+                                        </td>
+                                      );
+                                    })}
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Event review (per-video view) */}
+              {viewMode === "per-video" && selectedVideoId && isReviewMode && (
+                <EventReviewPanel
+                  videoId={selectedVideoId}
+                  indexId={creatorIndexId}
+                  videoUrl={
+                    videos.find((v) => v._id === selectedVideoId)?.hls
+                      ?.video_url
+                  }
+                  events={eventsByVideo[selectedVideoId] || []}
+                  onEventReviewed={(reviewed) =>
+                    handleEventSaved(selectedVideoId, reviewed)
+                  }
+                  onError={setError}
+                />
+              )}
 
               {/* Video grid (library view only) */}
               {viewMode === "library" && (
@@ -1477,6 +2658,15 @@ export default function BrandMentionDetectionPage() {
           endTime={modalVideo.end}
           description={modalVideo.description}
           location={modalVideo.location}
+          confidence={modalVideo.confidence}
+          eventEditor={{
+            indexId: creatorIndexId,
+            brands: availableBrands,
+            event: modalVideo.event,
+            onEventSaved: (event) =>
+              handleEventSaved(modalVideo.videoId, event),
+            onError: setError,
+          }}
         />
       )}
     </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import axios from "axios";
 import {
@@ -17,6 +17,9 @@ import VideoModalSimple from "@/components/VideoModalSimple";
 import { VideoData, EmbeddingSearchResult, VideoPage } from "@/types";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import VideoPlayer from "@/components/VideoPlayer";
+import BrandSafetyFilterPanel from "@/components/BrandSafetyFilterPanel";
+import { BrandSafetyFilter, BrandSafetyFlag } from "@/types/brandSafety";
+import { passesBrandSafety } from "@/utils/brandSafety";
 
 // Component to render video tags
 const VideoWithTags: React.FC<{
@@ -279,6 +282,12 @@ export default function CreatorBrandMatch() {
   const [isAnalyzingTags, setIsAnalyzingTags] = useState(false);
   const [isReadyForAnimation, setIsReadyForAnimation] = useState(false);
 
+  // Brand-safety flags of the matched videos; unscreened videos have no entry
+  const [safetyByVideo, setSafetyByVideo] = useState<
+    Record<string, BrandSafetyFlag[]>
+  >({});
+  const [safetyFilter, setSafetyFilter] = useState<BrandSafetyFilter>({});
+
   // Modal state
   const [modalVideo, setModalVideo] = useState<{
     videoId: string;
@@ -297,6 +306,18 @@ export default function CreatorBrandMatch() {
   const showResults =
     similarResults.length > 0 && !isAnalyzing && embeddingsReady;
 
+  // Matches that pass the brand-safety screen
+  const screenedResults = useMemo(
+    () =>
+      similarResults.filter((result) => {
+        const videoId = result.metadata?.tl_video_id;
+        return (
+          !!videoId && passesBrandSafety(safetyByVideo[videoId], safetyFilter)
+        );
+      }),
+    [similarResults, safetyByVideo, safetyFilter]
+  );
+
   // Fetch videos for the source index (for dropdown selection)
   const {
     data: videosData,
@@ -476,6 +497,7 @@ export default function CreatorBrandMatch() {
       const combinedResults = combineSearchResults(textResults, videoResults);
 
       setSimilarResults(combinedResults);
+      await loadSafetyFlags(combinedResults);
     } catch (error) {
       console.error("❌ Error finding matches:", error);
     } finally {
@@ -483,6 +505,25 @@ export default function CreatorBrandMatch() {
     }
   };
 
+  // Load the saved brand-safety flags of the matched videos
+  const loadSafetyFlags = async (results: EmbeddingSearchResult[]) => {
+    const videoIds = results
+      .map((result) => result.metadata?.tl_video_id)
+      .filter((videoId): videoId is string => !!videoId);
+    if (videoIds.length === 0) return;
+
+    try {
+      const response = await axios.post("/api/brand-mentions/safety", {
+        indexId: targetIndexId,
+        videoIds,
+      });
+      setSafetyByVideo(response.data.safety ?? {});
+    } catch (error) {
+      console.warn("⚠️ Failed to load brand-safety flags:", error);
+      setSafetyByVideo({});
+    }
+  };
+
   // Helper function to determine match level
   const getMatchLevel = (
     score: number,
@@ -747,14 +788,35 @@ export default function CreatorBrandMatch() {
         {/* Right Side - Search Results */}
         <div className={rightPanelClasses}>
           {similarResults.length > 0 ? (
-            <div className="flex flex-col h-full">
-              <div className="flex-1 overflow-y-auto px-4 pb-4 scrollbar-none bg-gray-100 rounded-[32px] border border-1 border-gray-300">
-                <SimilarVideoResults
-                  results={similarResults}
-                  indexId={targetIndexId}
-                  sourceType={sourceType}
+            <div className="flex flex-col h-full gap-3">
+              <div className="flex-shrink-0 px-4 py-3 bg-gray-100 rounded-[20px] border border-1 border-gray-300">
+                <h4 className="text-sm font-semibold mb-2">Brand Safety</h4>
+                <BrandSafetyFilterPanel
+                  filter={safetyFilter}
+                  onChange={setSafetyFilter}
+                  screenedCount={
+                    similarResults.filter(
+                      (result) =>
+                        result.metadata?.tl_video_id &&
+                        safetyByVideo[result.metadata.tl_video_id]
+                    ).length
+                  }
+                  totalCount={similarResults.length}
                 />
               </div>
+              <div className="flex-1 overflow-y-auto px-4 pb-4 scrollbar-none bg-gray-100 rounded-[32px] border border-1 border-gray-300">
+                {screenedResults.length > 0 ? (
+                  <SimilarVideoResults
+                    results={screenedResults}
+                    indexId={targetIndexId}
+                    sourceType={sourceType}
+                  />
+                ) : (
+                  <div className="text-center text-gray-600 mt-8">
+                    No matches pass the brand-safety screen.
+                  </div>
+                )}
+              </div>
             </div>
           ) : !isAnalyzing && embeddingsReady ? (
             <div className="text-center text-gray-600 mt-8">
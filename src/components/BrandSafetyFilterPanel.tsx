@@ -0,0 +1,117 @@
+"use client";
+
+import React from "react";
+import clsx from "clsx";
+import {
+  BRAND_SAFETY_CATEGORIES,
+  BRAND_SAFETY_SEVERITIES,
+  BrandSafetyCategory,
+  BrandSafetyFilter,
+  BrandSafetySeverity,
+} from "@/types/brandSafety";
+
+interface BrandSafetyFilterPanelProps {
+  filter: BrandSafetyFilter;
+  onChange: (filter: BrandSafetyFilter) => void;
+  screenedCount?: number; // videos in scope that have a brand-safety screen
+  totalCount?: number;
+}
+
+export const CATEGORY_LABELS: Record<BrandSafetyCategory, string> = {
+  profanity: "Profanity",
+  violence: "Violence",
+  alcohol: "Alcohol",
+  gambling: "Gambling",
+  political: "Political",
+};
+
+/**
+ * Brand-safety screen controls: categories to exclude, the lowest severity
+ * that counts, and whether unscreened videos are kept
+ */
+const BrandSafetyFilterPanel: React.FC<BrandSafetyFilterPanelProps> = ({
+  filter,
+  onChange,
+  screenedCount,
+  totalCount,
+}) => {
+  const excluded = filter.exclude ?? [];
+
+  const toggleCategory = (category: BrandSafetyCategory) => {
+    onChange({
+      ...filter,
+      exclude: excluded.includes(category)
+        ? excluded.filter((c) => c !== category)
+        : [...excluded, category],
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div>
+        <h4 className="text-sm font-medium mb-2">Exclude videos with</h4>
+        <div className="flex flex-wrap gap-2">
+          {BRAND_SAFETY_CATEGORIES.map((category) => (
+            <button
+              key={category}
+              type="button"
+              onClick={() => toggleCategory(category)}
+              className={clsx(
+                "px-2 py-1 text-xs rounded-full",
+                excluded.includes(category)
+                  ? "bg-red-100 text-red-800"
+                  : "bg-gray-200 text-gray-800 hover:bg-gray-300"
+              )}
+            >
+              {CATEGORY_LABELS[category]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Severity at least
+          <select
+            value={filter.minSeverity ?? "low"}
+            onChange={(e) =>
+              onChange({
+                ...filter,
+                minSeverity: e.target.value as BrandSafetySeverity,
+              })
+            }
+            className="px-2 py-1 border border-gray-300 rounded-xl text-xs"
+          >
+            {BRAND_SAFETY_SEVERITIES.map((severity) => (
+              <option key={severity} value={severity}>
+                {severity}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!!filter.screenedOnly}
+            onChange={(e) =>
+              onChange({ ...filter, screenedOnly: e.target.checked })
+            }
+            className="accent-gray-700"
+          />
+          Screened videos only
+        </label>
+      </div>
+
+      {screenedCount !== undefined && totalCount !== undefined && (
+        <p className="text-xs text-gray-500">
+          {screenedCount} of {totalCount} videos screened
+          {screenedCount < totalCount &&
+            " — re-analyze the others to screen them"}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BrandSafetyFilterPanel;
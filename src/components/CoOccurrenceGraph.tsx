@@ -0,0 +1,235 @@
+import React, { useMemo } from "react";
+import clsx from "clsx";
+import {
+  BrandPair,
+  CoOccurrenceMeasure,
+  CoOccurrenceReport,
+} from "@/types/coOccurrence";
+import { pairValue } from "@/utils/coOccurrence";
+import { formatPairValue } from "@/components/CoOccurrenceMatrix";
+
+interface CoOccurrenceGraphProps {
+  report: CoOccurrenceReport;
+  measure: CoOccurrenceMeasure;
+  brands: string[]; // Brands to show as nodes
+  focusBrand?: string | null; // Brand whose links are highlighted; the others are dimmed
+  onBrandSelect?: (brand: string) => void;
+  onPairSelect?: (pair: BrandPair) => void;
+  className?: string;
+}
+
+type Point = { x: number; y: number };
+
+const WIDTH = 720;
+const HEIGHT = 440;
+const PADDING = 48;
+const ITERATIONS = 300;
+
+/**
+ * Force-directed layout: nodes repel each other, links pull their ends together in
+ * proportion to their weight (0-1), and a weak pull keeps the graph centered.
+ * Starts from a circle and runs a fixed number of steps, so a layout is reproducible.
+ */
+function forceLayout(
+  nodes: string[],
+  links: { source: string; target: string; weight: number }[]
+): Map<string, Point> {
+  const positions = new Map<string, Point>(
+    nodes.map((node, index) => {
+      const angle = (2 * Math.PI * index) / nodes.length;
+      return [
+        node,
+        {
+          x: WIDTH / 2 + (WIDTH / 3) * Math.cos(angle),
+          y: HEIGHT / 2 + (HEIGHT / 3) * Math.sin(angle),
+        },
+      ];
+    })
+  );
+  const idealLength = Math.sqrt((WIDTH * HEIGHT) / Math.max(nodes.length, 1));
+
+  for (let step = 0; step < ITERATIONS; step++) {
+    const temperature = (WIDTH / 10) * (1 - step / ITERATIONS);
+    const forces = new Map<string, Point>(
+      nodes.map((node) => [node, { x: 0, y: 0 }])
+    );
+
+    nodes.forEach((first, index) => {
+      nodes.slice(index + 1).forEach((second) => {
+        const p = positions.get(first)!;
+        const q = positions.get(second)!;
+        const dx = p.x - q.x || 0.01;
+        const dy = p.y - q.y || 0.01;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        const repulsion = (idealLength * idealLength) / distance;
+        forces.get(first)!.x += (dx / distance) * repulsion;
+        forces.get(first)!.y += (dy / distance) * repulsion;
+        forces.get(second)!.x -= (dx / distance) * repulsion;
+        forces.get(second)!.y -= (dy / distance) * repulsion;
+      });
+    });
+
+    links.forEach(({ source, target, weight }) => {
+      const p = positions.get(source)!;
+      const q = positions.get(target)!;
+      const dx = p.x - q.x;
+      const dy = p.y - q.y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const attraction =
+        ((distance * distance) / idealLength) * (0.5 + weight);
+      forces.get(source)!.x -= (dx / distance) * attraction;
+      forces.get(source)!.y -= (dy / distance) * attraction;
+      forces.get(target)!.x += (dx / distance) * attraction;
+      forces.get(target)!.y += (dy / distance) * attraction;
+    });
+
+    nodes.forEach((node) => {
+      const position = positions.get(node)!;
+      const force = forces.get(node)!;
+      force.x += (WIDTH / 2 - position.x) * 0.05;
+      force.y += (HEIGHT / 2 - position.y) * 0.05;
+      const magnitude = Math.max(Math.hypot(force.x, force.y), 1);
+      const move = Math.min(magnitude, temperature);
+      position.x = Math.min(
+        WIDTH - PADDING,
+        Math.max(PADDING, position.x + (force.x / magnitude) * move)
+      );
+      position.y = Math.min(
+        HEIGHT - PADDING,
+        Math.max(PADDING, position.y + (force.y / magnitude) * move)
+      );
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Network of brands that appear together
+ *
+ * Node size is the number of videos a brand appears in; link width is the
+ * pair's value for the measure, relative to the strongest link shown.
+ */
+const CoOccurrenceGraph: React.FC<CoOccurrenceGraphProps> = ({
+  report,
+  measure,
+  brands,
+  focusBrand,
+  onBrandSelect,
+  onPairSelect,
+  className,
+}) => {
+  const links = useMemo(() => {
+    const shown = report.pairs.filter(
+      (pair) =>
+        brands.includes(pair.a) &&
+        brands.includes(pair.b) &&
+        pairValue(pair, measure) > 0
+    );
+    const maxValue = Math.max(
+      ...shown.map((pair) => pairValue(pair, measure)),
+      0
+    );
+    return shown.map((pair) => ({
+      pair,
+      source: pair.a,
+      target: pair.b,
+      weight: maxValue > 0 ? pairValue(pair, measure) / maxValue : 0,
+    }));
+  }, [report, measure, brands]);
+
+  const positions = useMemo(
+    () => forceLayout(brands, links),
+    [brands, links]
+  );
+
+  const maxVideos = Math.max(
+    ...report.brands
+      .filter((entry) => brands.includes(entry.brand))
+      .map((entry) => entry.videoCount),
+    1
+  );
+  const videoCounts = new Map(
+    report.brands.map((entry) => [entry.brand, entry.videoCount])
+  );
+  const neighbors = new Set(
+    links
+      .filter(
+        ({ source, target }) => source === focusBrand || target === focusBrand
+      )
+      .flatMap(({ source, target }) => [source, target])
+  );
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={clsx("w-full h-auto bg-white rounded-lg", className)}
+      role="img"
+      aria-label="Brand co-occurrence network"
+    >
+      {links.map(({ pair, source, target, weight }) => {
+        const p = positions.get(source)!;
+        const q = positions.get(target)!;
+        const isFocused =
+          !!focusBrand && (source === focusBrand || target === focusBrand);
+        return (
+          <line
+            key={`${source}-${target}`}
+            x1={p.x}
+            y1={p.y}
+            x2={q.x}
+            y2={q.y}
+            stroke={isFocused ? "rgb(245, 158, 11)" : "rgb(29, 28, 27)"}
+            strokeOpacity={focusBrand && !isFocused ? 0.08 : 0.2 + weight * 0.6}
+            strokeWidth={1 + weight * 6}
+            className={onPairSelect ? "cursor-pointer" : undefined}
+            onClick={() => onPairSelect?.(pair)}
+          >
+            <title>{`${source} + ${target}: ${formatPairValue(
+              pairValue(pair, measure),
+              measure
+            )}`}</title>
+          </line>
+        );
+      })}
+
+      {brands.map((brand) => {
+        const position = positions.get(brand)!;
+        const videoCount = videoCounts.get(brand) ?? 0;
+        const radius = 6 + 14 * Math.sqrt(videoCount / maxVideos);
+        const isDimmed =
+          !!focusBrand && brand !== focusBrand && !neighbors.has(brand);
+        return (
+          <g
+            key={brand}
+            transform={`translate(${position.x}, ${position.y})`}
+            opacity={isDimmed ? 0.25 : 1}
+            className={onBrandSelect ? "cursor-pointer" : undefined}
+            onClick={() => onBrandSelect?.(brand)}
+          >
+            <title>{`${brand}: ${videoCount} video${
+              videoCount === 1 ? "" : "s"
+            }`}</title>
+            <circle
+              r={radius}
+              fill={brand === focusBrand ? "rgb(245, 158, 11)" : "rgb(29, 28, 27)"}
+              fillOpacity={0.85}
+              stroke="white"
+              strokeWidth={2}
+            />
+            <text
+              y={radius + 12}
+              textAnchor="middle"
+              fontSize={11}
+              fill="rgb(55, 65, 81)"
+            >
+              {brand}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default CoOccurrenceGraph;
@@ -0,0 +1,185 @@
+import React from "react";
+import clsx from "clsx";
+import {
+  BrandPair,
+  CoOccurrenceMeasure,
+  CoOccurrenceReport,
+} from "@/types/coOccurrence";
+import { findPair, pairValue } from "@/utils/coOccurrence";
+
+interface CoOccurrenceMatrixProps {
+  report: CoOccurrenceReport;
+  measure: CoOccurrenceMeasure;
+  brands: string[]; // Brands to show, in row and column order
+  focusBrand?: string | null; // Brand whose row and column are highlighted
+  selectedPair?: BrandPair | null;
+  onPairSelect?: (pair: BrandPair) => void;
+  className?: string;
+}
+
+// Format a pair value in the unit of its measure
+export const formatPairValue = (
+  value: number,
+  measure: CoOccurrenceMeasure
+): string => {
+  switch (measure) {
+    case "videos":
+      return `${value} video${value === 1 ? "" : "s"}`;
+    case "window":
+      return `${value} window${value === 1 ? "" : "s"}`;
+    default:
+      return `${value.toFixed(1)}s together`;
+  }
+};
+
+/**
+ * Brand × brand co-occurrence matrix
+ *
+ * Cell color intensity is the pair's value for the measure, relative to the strongest
+ * pair shown. The diagonal shows the number of videos each brand appears in.
+ */
+const CoOccurrenceMatrix: React.FC<CoOccurrenceMatrixProps> = ({
+  report,
+  measure,
+  brands,
+  focusBrand,
+  selectedPair,
+  onPairSelect,
+  className,
+}) => {
+  const videoCounts = new Map(
+    report.brands.map((entry) => [entry.brand, entry.videoCount])
+  );
+  const maxValue = Math.max(
+    ...report.pairs
+      .filter((pair) => brands.includes(pair.a) && brands.includes(pair.b))
+      .map((pair) => pairValue(pair, measure)),
+    0
+  );
+
+  return (
+    <div className={clsx("overflow-x-auto", className)}>
+      <div
+        className="grid w-max"
+        style={{
+          gridTemplateColumns: `160px repeat(${brands.length}, 36px)`,
+        }}
+        role="grid"
+        aria-label="Brand co-occurrence matrix"
+      >
+        {/* Column headers */}
+        <div className="h-28 border-b border-r border-gray-300" />
+        {brands.map((brand) => (
+          <div
+            key={`col-${brand}`}
+            className={clsx(
+              "h-28 flex items-end justify-center pb-1 text-xs border-b border-r border-gray-300",
+              brand === focusBrand ? "bg-amber-50 font-medium" : ""
+            )}
+            role="columnheader"
+            title={brand}
+          >
+            <span className="[writing-mode:vertical-rl] rotate-180 truncate max-h-24">
+              {brand}
+            </span>
+          </div>
+        ))}
+
+        {/* Rows */}
+        {brands.map((rowBrand) => (
+          <React.Fragment key={rowBrand}>
+            <div
+              className={clsx(
+                "pl-3 h-9 flex items-center text-xs text-gray-700 border-b border-r border-gray-300 truncate sticky left-0 z-10",
+                rowBrand === focusBrand ? "bg-amber-50 font-medium" : "bg-white"
+              )}
+              role="rowheader"
+              title={rowBrand}
+            >
+              {rowBrand}
+            </div>
+            {brands.map((colBrand) => {
+              if (rowBrand === colBrand) {
+                const count = videoCounts.get(rowBrand) ?? 0;
+                return (
+                  <div
+                    key={`${rowBrand}-${colBrand}`}
+                    className="h-9 flex items-center justify-center text-[10px] text-gray-400 bg-gray-50 border-b border-r border-gray-300"
+                    role="gridcell"
+                    title={`${rowBrand}: ${count} video${
+                      count === 1 ? "" : "s"
+                    }`}
+                  >
+                    {count}
+                  </div>
+                );
+              }
+
+              const pair = findPair(report, rowBrand, colBrand);
+              const value = pair ? pairValue(pair, measure) : 0;
+              const intensity = maxValue > 0 ? value / maxValue : 0;
+              const isSelected =
+                !!pair &&
+                !!selectedPair &&
+                pair.a === selectedPair.a &&
+                pair.b === selectedPair.b;
+              const isFocused =
+                rowBrand === focusBrand || colBrand === focusBrand;
+
+              return (
+                <div
+                  key={`${rowBrand}-${colBrand}`}
+                  className={clsx(
+                    "h-9 flex items-center justify-center text-[10px] border-b border-r border-gray-300",
+                    pair && value > 0 && onPairSelect
+                      ? "cursor-pointer hover:opacity-80"
+                      : "",
+                    isSelected ? "ring-2 ring-inset ring-amber-500" : "",
+                    isFocused && value > 0 ? "outline outline-1 outline-amber-400" : ""
+                  )}
+                  style={{
+                    backgroundColor:
+                      value > 0
+                        ? `rgba(29, 28, 27, ${0.08 + intensity * 0.82})`
+                        : "rgba(255, 255, 255, 1)",
+                    color: intensity > 0.5 ? "white" : "rgb(55, 65, 81)",
+                  }}
+                  role="gridcell"
+                  title={`${rowBrand} + ${colBrand}: ${formatPairValue(
+                    value,
+                    measure
+                  )}`}
+                  aria-label={`${rowBrand} and ${colBrand}: ${formatPairValue(
+                    value,
+                    measure
+                  )}`}
+                  tabIndex={pair && value > 0 && onPairSelect ? 0 : undefined}
+                  onClick={() => pair && value > 0 && onPairSelect?.(pair)}
+                  onKeyDown={(e) => {
+                    if (
+                      pair &&
+                      value > 0 &&
+                      onPairSelect &&
+                      (e.key === "Enter" || e.key === " ")
+                    ) {
+                      onPairSelect(pair);
+                      e.preventDefault();
+                    }
+                  }}
+                >
+                  {value > 0
+                    ? measure === "overlap"
+                      ? Math.round(value)
+                      : value
+                    : ""}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CoOccurrenceMatrix;
@@ -0,0 +1,432 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import clsx from "clsx";
+import {
+  ProductEvent,
+  ReviewStatus,
+  ReviewableEventField,
+} from "@/types/brandMentions";
+import { reviewStatusOf } from "@/utils/eventReview";
+import VideoPlayer from "./VideoPlayer";
+
+interface EventReviewPanelProps {
+  videoId: string;
+  indexId: string;
+  videoUrl?: string;
+  events: ProductEvent[]; // unmerged events of the video, rejected ones included
+  onEventReviewed: (event: ProductEvent) => void;
+  onError?: (message: string) => void;
+}
+
+type ReviewDraft = Pick<ProductEvent, ReviewableEventField> & { note: string };
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: "bg-gray-100 text-gray-700 border-gray-300",
+  accepted: "bg-green-50 text-green-800 border-green-300",
+  edited: "bg-blue-50 text-blue-800 border-blue-300",
+  rejected: "bg-red-50 text-red-700 border-red-300",
+};
+
+// Helper function to format seconds to MM:SS.s
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remaining = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${minutes.toString().padStart(2, "0")}:${remaining}`;
+};
+
+/**
+ * Review list for one video's detected and manually added events
+ *
+ * Each event can be accepted, rejected or edited (brand, product, start/end, location)
+ * with a reviewer note. The player is used to check timestamps: times seek the player,
+ * and the playhead can be copied into the start or end of an event being edited.
+ */
+const EventReviewPanel: React.FC<EventReviewPanelProps> = ({
+  videoId,
+  indexId,
+  videoUrl,
+  events,
+  onEventReviewed,
+  onError,
+}) => {
+  const playerRef = useRef<{ seekTo: (time: number) => void } | null>(null);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | "all">(
+    "all"
+  );
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ReviewDraft | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const reviewable = useMemo(
+    () =>
+      events
+        .filter((event) => event.event_id)
+        .sort((a, b) => a.timeline_start - b.timeline_start),
+    [events]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<ReviewStatus, number> = {
+      pending: 0,
+      accepted: 0,
+      edited: 0,
+      rejected: 0,
+    };
+    reviewable.forEach((event) => result[reviewStatusOf(event)]++);
+    return result;
+  }, [reviewable]);
+
+  const visibleEvents = reviewable.filter(
+    (event) => statusFilter === "all" || reviewStatusOf(event) === statusFilter
+  );
+
+  function seek(time: number) {
+    playerRef.current?.seekTo(time);
+  }
+
+  function startEditing(event: ProductEvent) {
+    setEditingId(event.event_id!);
+    setDraft({
+      brand: event.brand,
+      product_name: event.product_name,
+      timeline_start: event.timeline_start,
+      timeline_end: event.timeline_end,
+      location: event.location ?? "",
+      note: notes[event.event_id!] ?? event.review?.note ?? "",
+    });
+    seek(event.timeline_start);
+  }
+
+  async function submitReview(
+    event: ProductEvent,
+    action: "accept" | "reject" | "edit" | "reset"
+  ) {
+    const eventId = event.event_id!;
+    const note =
+      action === "edit"
+        ? draft?.note
+        : notes[eventId] ?? event.review?.note ?? undefined;
+
+    setSavingId(eventId);
+    try {
+      const response = await fetch("/api/brand-mentions/review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          indexId,
+          videoId,
+          eventId,
+          action,
+          note,
+          changes:
+            action === "edit" && draft
+              ? {
+                  brand: draft.brand,
+                  product_name: draft.product_name,
+                  timeline_start: draft.timeline_start,
+                  timeline_end: draft.timeline_end,
+                  location: draft.location,
+                }
+              : undefined,
+        }),
+      });
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body?.error || `Review failed with status ${response.status}`);
+      }
+
+      onEventReviewed(body.event);
+      if (action === "edit") {
+        setEditingId(null);
+        setDraft(null);
+      }
+    } catch (error) {
+      console.error("Error reviewing event:", error);
+      onError?.(
+        `Failed to save review: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  return (
+    <div className="mt-6 py-4 px-6 rounded-[20px] outline outline-1 outline-offset-[-1px] outline-gray-300">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="font-semibold py-2">Review Events</h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {(["all", "pending", "accepted", "edited", "rejected"] as const).map(
+            (status) => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={clsx(
+                  "h-7 px-3 rounded-lg border border-1",
+                  statusFilter === status
+                    ? "border-gray-700 bg-[#1D1C1B] text-white"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-100"
+                )}
+              >
+                {status === "all"
+                  ? `All (${reviewable.length})`
+                  : `${status.charAt(0).toUpperCase()}${status.slice(1)} (${
+                      counts[status]
+                    })`}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          {videoUrl ? (
+            <div className="relative w-full aspect-[16/9] overflow-hidden rounded-[20px] lg:sticky lg:top-4">
+              <VideoPlayer
+                videoUrl={videoUrl}
+                videoId={null}
+                indexId=""
+                initialMuted
+                onPlayerReady={(player) => {
+                  playerRef.current = player;
+                }}
+                onTimeUpdate={setCurrentTime}
+              />
+            </div>
+          ) : (
+            <div className="text-sm text-gray-500">
+              No playable video available.
+            </div>
+          )}
+          <div className="text-xs text-gray-500 mt-2">
+            Playhead: {formatTime(currentTime)}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-3 max-h-[640px] overflow-y-auto pr-1">
+          {visibleEvents.length === 0 && (
+            <div className="text-sm text-gray-500">No events to show.</div>
+          )}
+          {visibleEvents.map((event) => {
+            const eventId = event.event_id!;
+            const status = reviewStatusOf(event);
+            const isSaving = savingId === eventId;
+
+            if (editingId === eventId && draft) {
+              return (
+                <div
+                  key={eventId}
+                  className="p-3 rounded-xl border border-gray-700 text-xs flex flex-col gap-2"
+                >
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="flex flex-col gap-1">
+                      Brand
+                      <input
+                        type="text"
+                        value={draft.brand}
+                        onChange={(e) =>
+                          setDraft({ ...draft, brand: e.target.value })
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Product
+                      <input
+                        type="text"
+                        value={draft.product_name}
+                        onChange={(e) =>
+                          setDraft({ ...draft, product_name: e.target.value })
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </label>
+                    {(["timeline_start", "timeline_end"] as const).map(
+                      (field) => (
+                        <label key={field} className="flex flex-col gap-1">
+                          {field === "timeline_start" ? "Start (s)" : "End (s)"}
+                          <div className="flex items-center gap-1">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              value={draft[field]}
+                              onChange={(e) =>
+                                setDraft({
+                                  ...draft,
+                                  [field]: parseFloat(e.target.value) || 0,
+                                })
+                              }
+                              className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                            <button
+                              onClick={() => seek(draft[field])}
+                              className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-100"
+                            >
+                              Seek
+                            </button>
+                            <button
+                              onClick={() =>
+                                setDraft({
+                                  ...draft,
+                                  [field]: Math.round(currentTime * 10) / 10,
+                                })
+                              }
+                              className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-100"
+                            >
+                              Use playhead
+                            </button>
+                          </div>
+                        </label>
+                      )
+                    )}
+                    <label className="flex flex-col gap-1 col-span-2">
+                      Location
+                      <input
+                        type="text"
+                        value={draft.location}
+                        onChange={(e) =>
+                          setDraft({ ...draft, location: e.target.value })
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 col-span-2">
+                      Reviewer note
+                      <input
+                        type="text"
+                        value={draft.note}
+                        onChange={(e) =>
+                          setDraft({ ...draft, note: e.target.value })
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </label>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => submitReview(event, "edit")}
+                      disabled={isSaving}
+                      className="px-2 py-1 rounded-lg bg-[#1D1C1B] text-white disabled:opacity-50"
+                    >
+                      {isSaving ? "Saving..." : "Save"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingId(null);
+                        setDraft(null);
+                      }}
+                      className="px-2 py-1 rounded-lg bg-[#D3D1CF] text-gray-700"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              );
+            }
+
+            return (
+              <div
+                key={eventId}
+                className={clsx(
+                  "p-3 rounded-xl border border-gray-300 text-xs flex flex-col gap-2",
+                  status === "rejected" && "opacity-60"
+                )}
+              >
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <div className="text-sm text-black">
+                      {event.brand}: {event.product_name}
+                    </div>
+                    <button
+                      onClick={() => seek(event.timeline_start)}
+                      className="text-gray-600 underline"
+                    >
+                      {formatTime(event.timeline_start)} –{" "}
+                      {formatTime(event.timeline_end)}
+                    </button>
+                    {event.location && (
+                      <span className="text-gray-600"> · {event.location}</span>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    {event.source === "manual" && (
+                      <span className="px-2 py-0.5 rounded-md border bg-amber-50 text-amber-800 border-amber-300">
+                        manual
+                      </span>
+                    )}
+                    <span
+                      className={clsx(
+                        "px-2 py-0.5 rounded-md border",
+                        STATUS_STYLES[status]
+                      )}
+                    >
+                      {status}
+                    </span>
+                  </div>
+                </div>
+                {event.review?.original && (
+                  <div className="text-gray-500">
+                    {event.source === "manual" ? "Marked as" : "Detected as"}:{" "}
+                    {Object.entries(event.review.original)
+                      .map(([field, value]) => `${field} = ${value}`)
+                      .join(", ")}
+                  </div>
+                )}
+                <input
+                  type="text"
+                  value={notes[eventId] ?? event.review?.note ?? ""}
+                  onChange={(e) =>
+                    setNotes((prev) => ({ ...prev, [eventId]: e.target.value }))
+                  }
+                  placeholder="Reviewer note"
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => submitReview(event, "accept")}
+                    disabled={isSaving}
+                    className="px-2 py-1 rounded-lg border border-green-700 text-green-800 hover:bg-green-50 disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => submitReview(event, "reject")}
+                    disabled={isSaving}
+                    className="px-2 py-1 rounded-lg border border-red-700 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => startEditing(event)}
+                    disabled={isSaving}
+                    className="px-2 py-1 rounded-lg border border-gray-700 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  {status !== "pending" && (
+                    <button
+                      onClick={() => submitReview(event, "reset")}
+                      disabled={isSaving}
+                      className="px-2 py-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EventReviewPanel;
@@ -1,12 +1,21 @@
-import React from "react";
+import React, { useEffect, useId, useRef, useState } from "react";
 import clsx from "clsx";
 import { IBM_Plex_Mono } from "next/font/google";
+import { HeatmapColorScale, HeatmapMeasure } from "@/types/brandMentions";
+import {
+  COLOR_SCALES,
+  colorForValue,
+  EMPTY_CELL_COLOR,
+  hueScaleStops,
+  scaleThresholds,
+} from "@/utils/colorScales";
 
 interface Bucket {
   start: number;
   end: number;
   value: number;
   brands?: string[];
+  manual?: boolean; // includes manually added events
 }
 
 interface HeatmapRow {
@@ -22,31 +31,259 @@ const ibmPlexMono = IBM_Plex_Mono({
   variable: "--font-ibm-plex-mono",
 });
 
+/**
+ * An event listed in a cell's hover tooltip
+ */
+export interface HeatmapCellEvent {
+  key: string;
+  label: string;
+  start: number; // seconds
+  end: number; // seconds
+  thumbnailUrl?: string;
+  manual?: boolean;
+}
+
 interface HeatmapProps {
   rows: HeatmapRow[];
   columns: number;
   onCellClick?: (rowId: string, colIndex: number) => void;
+  onRangeSelect?: (fromCol: number, toCol: number) => void; // Dragging across columns; a drag within one column is a click
+  selectedRange?: [number, number] | null; // Columns to highlight as the current selection
+  getCellEvents?: (rowId: string, colIndex: number) => HeatmapCellEvent[]; // Events listed in a cell's tooltip
   className?: string;
-  colorHue?: number; // Optional hue value for HSL color (default: 0 - neutral for zinc)
+  colorScale?: HeatmapColorScale; // Colour scale of the cells (default: zinc)
+  colorHue?: number; // Optional HSL hue (0-360) for a single-hue scale; overrides colorScale
+  normalize?: "row" | "grid"; // Colour relative to each row's peak, or to the peak of all rows (default: row)
+  showLegend?: boolean; // Legend of the colour scale below the grid (default: true)
   videoDuration?: number; // Optional video duration for accurate bucket duration calculation
   viewMode?: "library" | "per-video"; // View mode to determine tooltip content
+  measure?: HeatmapMeasure; // What bucket values measure, for tooltips (default: seconds)
 }
 
+// Format seconds as M:SS
+const formatClock = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, "0")}`;
+
+// Describe a bucket value in the unit of its measure
+const describeValue = (value: number, measure: HeatmapMeasure): string => {
+  switch (measure) {
+    case "percent":
+      return `On screen ${Math.round(value)}% of the bucket`;
+    case "events":
+      return `${value} event${value === 1 ? "" : "s"}`;
+    case "brands":
+      return `${value} distinct brand${value === 1 ? "" : "s"}`;
+    default:
+      return `On screen ${value.toFixed(1)}s`;
+  }
+};
+
+// Short form of a value for legend thresholds
+const formatThreshold = (value: number, measure: HeatmapMeasure): string => {
+  switch (measure) {
+    case "percent":
+      return `${Math.round(value)}%`;
+    case "events":
+    case "brands":
+      return value < 10 ? `${Math.round(value * 10) / 10}` : `${Math.round(value)}`;
+    default:
+      return `${value.toFixed(1)}s`;
+  }
+};
+
+// Events listed in a tooltip before "+N more"
+const MAX_TOOLTIP_EVENTS = 5;
+
+// Column headers are labelled every this many columns
+const HEADER_LABEL_EVERY = 5;
+
+// Time range of a bucket, when the row's video duration is known
+const bucketRange = (bucket: Bucket, duration?: number): string | null =>
+  duration
+    ? `${formatClock((bucket.start / 100) * duration)}–${formatClock(
+        (bucket.end / 100) * duration
+      )}`
+    : null;
+
 /**
  * Heatmap component for visualizing time-based data intensity
  *
  * Renders a grid with rows representing entities (brands, products, videos)
- * and columns representing time buckets. Cell color intensity indicates value.
+ * and columns representing time buckets. Cell colour indicates value on the chosen
+ * colour scale, explained by the legend; a dot marks cells that include manually
+ * added events.
+ *
+ * Columns follow the rows' buckets, so a zoomed-in timeline only needs re-bucketed rows.
+ * Dragging across columns reports the range through onRangeSelect, and hovering a
+ * cell lists its events with thumbnails when getCellEvents is given.
+ *
+ * The grid follows the ARIA grid pattern: one cell is in the tab order, arrow keys
+ * (Home/End, Ctrl+Home/End) move between cells and show their tooltip, Enter or Space
+ * acts like a click, and Shift+Left/Right selects a range like a drag.
  */
 const Heatmap: React.FC<HeatmapProps> = ({
   rows,
   columns,
   onCellClick,
   className,
-  colorHue = 0, // Default to neutral for zinc colors
+  colorScale = "zinc",
+  colorHue,
+  normalize = "row",
+  showLegend = true,
   videoDuration,
   viewMode = "per-video", // Default to per-video view
+  measure = "seconds",
+  onRangeSelect,
+  selectedRange,
+  getCellEvents,
 }) => {
+  const [brush, setBrush] = useState<{
+    rowId: string;
+    from: number;
+    to: number;
+  } | null>(null);
+  const [hovered, setHovered] = useState<{
+    rowId: string;
+    colIndex: number;
+    left: number;
+    top: number;
+  } | null>(null);
+  const [active, setActive] = useState<{ row: number; col: number }>({
+    row: 0,
+    col: 0,
+  });
+  const [keyAnchor, setKeyAnchor] = useState<number | null>(null);
+  const cellRefs = useRef(new Map<string, HTMLDivElement>());
+  const tooltipId = useId();
+
+  // Finish a drag wherever the mouse is released
+  useEffect(() => {
+    if (!brush) return;
+
+    const handleMouseUp = () => {
+      setBrush(null);
+      if (brush.from !== brush.to) {
+        onRangeSelect?.(
+          Math.min(brush.from, brush.to),
+          Math.max(brush.from, brush.to)
+        );
+      } else if (brush.rowId !== "__TOTAL__") {
+        onCellClick?.(brush.rowId, brush.from);
+      }
+    };
+
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => window.removeEventListener("mouseup", handleMouseUp);
+  }, [brush, onRangeSelect, onCellClick]);
+
+  const highlight: [number, number] | null = brush
+    ? [Math.min(brush.from, brush.to), Math.max(brush.from, brush.to)]
+    : selectedRange ?? null;
+
+  const stops =
+    colorHue !== undefined
+      ? hueScaleStops(colorHue)
+      : COLOR_SCALES[colorScale].stops;
+
+  // Peak of all rows but the total, which is always scaled to its own peak
+  const gridMax = Math.max(
+    ...rows
+      .filter((row) => row.id !== "__TOTAL__")
+      .flatMap((row) => row.buckets.map((b) => b.value)),
+    0
+  );
+
+  // The cell with the tab stop, kept inside the grid when rows change
+  const activeRow = Math.max(0, Math.min(active.row, rows.length - 1));
+  const activeCol = Math.max(0, Math.min(active.col, columns - 1));
+
+  // Label of a column: its start as a time in the per-video view, as a share otherwise
+  const headerLabel = (colIndex: number): string => {
+    const bucket = rows[0]?.buckets[colIndex];
+    const start = bucket ? bucket.start : (colIndex / columns) * 100;
+    if (viewMode === "per-video" && videoDuration) {
+      return formatClock((start / 100) * videoDuration);
+    }
+    return `${Number.isInteger(Math.round(start * 10) / 10) ? Math.round(start) : start.toFixed(1)}%`;
+  };
+
+  // Span of a bucket, as a time range or as a share of the video
+  const rangeLabel = (bucket: Bucket, row: HeatmapRow): string | null =>
+    viewMode === "library"
+      ? `${Math.round(bucket.start)}–${Math.round(bucket.end)}% of the video`
+      : bucketRange(bucket, row.videoDuration || videoDuration);
+
+  const showTooltip = (
+    rowId: string,
+    colIndex: number,
+    target: HTMLElement
+  ) => {
+    const rect = target.getBoundingClientRect();
+    setHovered({ rowId, colIndex, left: rect.left, top: rect.bottom + 4 });
+  };
+
+  const focusCell = (rowIndex: number, colIndex: number) => {
+    setActive({ row: rowIndex, col: colIndex });
+    cellRefs.current.get(`${rowIndex}:${colIndex}`)?.focus();
+  };
+
+  const handleCellKeyDown = (
+    e: React.KeyboardEvent<HTMLDivElement>,
+    rowIndex: number,
+    colIndex: number
+  ) => {
+    const row = rows[rowIndex];
+
+    if (e.key === "Enter" || e.key === " ") {
+      if (onCellClick && row.id !== "__TOTAL__") {
+        onCellClick(row.id, colIndex);
+      }
+      e.preventDefault();
+      return;
+    }
+
+    if (e.key === "Escape") {
+      setHovered(null);
+      return;
+    }
+
+    const lastRow = rows.length - 1;
+    const lastCol = columns - 1;
+    const target: Record<string, [number, number]> = {
+      ArrowLeft: [rowIndex, Math.max(0, colIndex - 1)],
+      ArrowRight: [rowIndex, Math.min(lastCol, colIndex + 1)],
+      ArrowUp: [Math.max(0, rowIndex - 1), colIndex],
+      ArrowDown: [Math.min(lastRow, rowIndex + 1), colIndex],
+      Home: e.ctrlKey ? [0, 0] : [rowIndex, 0],
+      End: e.ctrlKey ? [lastRow, lastCol] : [rowIndex, lastCol],
+    };
+    if (!target[e.key]) return;
+    e.preventDefault();
+
+    const [nextRow, nextCol] = target[e.key];
+    if (e.shiftKey && onRangeSelect && nextRow === rowIndex) {
+      // Extend a selection from where Shift was first held, as a drag would
+      const anchor = keyAnchor ?? colIndex;
+      setKeyAnchor(anchor);
+      onRangeSelect(Math.min(anchor, nextCol), Math.max(anchor, nextCol));
+    } else {
+      setKeyAnchor(null);
+    }
+    focusCell(nextRow, nextCol);
+  };
+
+  const hoveredRow = hovered
+    ? rows.find((row) => row.id === hovered.rowId)
+    : undefined;
+  const hoveredBucket =
+    hovered && hoveredRow ? hoveredRow.buckets[hovered.colIndex] : undefined;
+  const hoveredEvents =
+    hovered && getCellEvents
+      ? getCellEvents(hovered.rowId, hovered.colIndex)
+      : [];
+
   // Function to find which bucket corresponds to a column index
   const findBucketForColumn = (
     buckets: Bucket[],
@@ -63,182 +300,306 @@ const Heatmap: React.FC<HeatmapProps> = ({
     );
   };
 
-  // Function to normalize values per row and get color using zinc colors
-  const getColorForValue = (value: number, maxValue: number): string => {
-    if (maxValue === 0) return "rgba(255, 255, 255, 1)"; // White for zero values
-
-    // Normalize value between 0 and 1
-    const normalizedValue = Math.min(value / maxValue, 1);
-
-    // Map to zinc color scale based on intensity
-    if (normalizedValue <= 0.1) return "rgba(255, 255, 255, 1)";
-    if (normalizedValue <= 0.2) return "rgba(29, 28, 27, 0.1)";
-    if (normalizedValue <= 0.3) return "rgba(29, 28, 27, 0.2)";
-    if (normalizedValue <= 0.4) return "rgba(29, 28, 27, 0.3)";
-    if (normalizedValue <= 0.5) return "rgba(29, 28, 27, 0.4)";
-    if (normalizedValue <= 0.6) return "rgba(29, 28, 27, 0.6)";
-    if (normalizedValue <= 0.7) return "rgba(29, 28, 27, 0.7)";
-    if (normalizedValue <= 0.8) return "rgba(29, 28, 27, 0.8)";
-    if (normalizedValue <= 0.9) return "rgba(29, 28, 27, 0.9)";
-    return "rgba(29, 28, 27, 1)"; // Darkest for highest values
-  };
+  // Legend: the range of each stop in the measure's unit, or as a share of the row's peak
+  const legendMax = normalize === "grid" ? gridMax : 100;
+  const legendLabel = (value: number): string =>
+    normalize === "grid"
+      ? formatThreshold(value, measure)
+      : `${Math.round(value)}%`;
 
   return (
-    <div
-      className={clsx(
-        "w-full overflow-x-auto overflow-y-hidden border border-1 border-gray-300 rounded-xl",
-        ibmPlexMono.className,
-        className
-      )}
-    >
+    <div className={clsx("w-full", className)}>
       <div
-        className="grid"
-        style={{
-          gridTemplateColumns: `160px repeat(${columns}, 28px)`,
-        }}
-        role="grid"
-        aria-label="Heatmap visualization"
+        className={clsx(
+          "w-full overflow-x-auto overflow-y-hidden border border-1 border-gray-300 rounded-xl",
+          ibmPlexMono.className
+        )}
       >
-        {/* Header row with column numbers */}
         <div
-          className="bg-zinc-100 h-7 font-medium text-sm border-b border-r border-gray-300 sticky left-0 z-20"
-          role="columnheader"
+          className="grid"
+          style={{
+            gridTemplateColumns: `160px repeat(${columns}, 28px)`,
+          }}
+          role="grid"
+          aria-label="Heatmap visualization"
+          aria-rowcount={rows.length + 1}
+          aria-colcount={columns + 1}
         >
-          {/* Empty cell for top-left corner */}
-        </div>
+          {/* Header row with column labels */}
+          <div className="contents" role="row" aria-rowindex={1}>
+            <div
+              className="bg-zinc-100 h-7 font-medium text-sm border-b border-r border-gray-300 sticky left-0 z-20"
+              role="columnheader"
+              aria-colindex={1}
+              aria-label={viewMode === "library" ? "Video" : "Brand"}
+            >
+              {/* Empty cell for top-left corner */}
+            </div>
 
-        {/* Column headers */}
-        {Array.from({ length: columns }).map((_, colIndex) => (
-          <div
-            key={`col-${colIndex}`}
-            className="w-7 h-7 flex items-center justify-center text-xs text-center border-b border-r border-gray-300"
-            role="columnheader"
-          >
-            {Math.round((colIndex / columns) * 100)}%
+            {/* Column headers */}
+            {Array.from({ length: columns }).map((_, colIndex) => (
+              <div
+                key={`col-${colIndex}`}
+                className="w-7 h-7 flex items-center text-xs border-b border-r border-gray-300 overflow-visible whitespace-nowrap pl-0.5"
+                role="columnheader"
+                aria-colindex={colIndex + 2}
+                aria-label={headerLabel(colIndex)}
+              >
+                {colIndex % HEADER_LABEL_EVERY === 0
+                  ? headerLabel(colIndex)
+                  : ""}
+              </div>
+            ))}
           </div>
-        ))}
 
-        {/* Data rows */}
-        {rows.map((row) => {
-          // Find max value in this row for normalization
-          const maxValue = Math.max(...row.buckets.map((b) => b.value), 0.1); // Avoid division by zero
+          {/* Data rows */}
+          {rows.map((row, rowIndex) => {
+            // Colour relative to the row's peak, or to the whole grid's
+            const maxValue =
+              normalize === "grid" && row.id !== "__TOTAL__"
+                ? gridMax
+                : Math.max(...row.buckets.map((b) => b.value), 0.1); // Avoid division by zero
+            const rowLabel = row.label || row.id;
 
-          return (
-            <React.Fragment key={row.id}>
-              {/* Row label */}
+            return (
               <div
-                className="pl-3 flex items-center font-normal text-xs text-gray-700 bg-zinc-100 border-b border-r border-gray-300 truncate sticky left-0 bg-white z-10 h-7"
-                role="rowheader"
-                title={row.label || row.id}
+                key={row.id}
+                className="contents"
+                role="row"
+                aria-rowindex={rowIndex + 2}
               >
-                {row.label || row.id}
-              </div>
+                {/* Row label */}
+                <div
+                  className="pl-3 flex items-center font-normal text-xs text-gray-700 bg-zinc-100 border-b border-r border-gray-300 truncate sticky left-0 bg-white z-10 h-7"
+                  role="rowheader"
+                  aria-colindex={1}
+                  title={rowLabel}
+                >
+                  {rowLabel}
+                </div>
 
-              {/* Row cells */}
-              {Array.from({ length: columns }).map((_, colIndex) => {
-                // Direct index mapping instead of using findBucketForColumn
-                const bucket = row.buckets[colIndex];
-                const value = bucket?.value || 0;
-                const backgroundColor = getColorForValue(value, maxValue);
-
-                return (
-                  <div
-                    key={`${row.id}-${colIndex}`}
-                    className={clsx(
-                      "border-b border-r border-gray-300 min-w-0 w-7 h-7",
-                      onCellClick && row.id !== "__TOTAL__"
-                        ? "cursor-pointer hover:opacity-80"
-                        : ""
-                    )}
-                    style={{ backgroundColor, minWidth: "28px", width: "28px" }}
-                    role="gridcell"
-                    onClick={() =>
-                      row.id !== "__TOTAL__" && onCellClick?.(row.id, colIndex)
-                    }
-                    aria-label={`Duration ${Math.round(
-                      value
-                    )}s at position ${colIndex}`}
-                    title={
-                      bucket
-                        ? (() => {
-                            if (viewMode === "library") {
-                              // Library view: show only brand names
-                              if (bucket.brands && bucket.brands.length > 0) {
-                                return `Brands: ${bucket.brands.join(", ")}`;
-                              }
-                              return "No brands detected";
-                            } else {
-                              // Per-video view: show duration and brands
-                              // Calculate the actual playback duration using the same logic as the click handler
-                              let playbackDuration = 0;
-
-                              // Use row-specific video duration if available, otherwise fall back to global videoDuration
-                              const currentVideoDuration =
-                                row.videoDuration || videoDuration;
-
-                              if (currentVideoDuration) {
-                                const bucketDuration =
-                                  ((bucket.end - bucket.start) / 100) *
-                                  currentVideoDuration;
-                                const eventDuration = value; // This is the event duration from the bucket value
-
-                                // Apply the same logic as in the click handler
-                                if (
-                                  eventDuration >
-                                  currentVideoDuration * 0.8
-                                ) {
-                                  // For events that span most of the video, use a 10-second segment
-                                  playbackDuration = 10;
-                                } else if (
-                                  bucketDuration <
-                                  eventDuration * 0.3
-                                ) {
-                                  // For very small buckets compared to event, use bucket boundaries
-                                  playbackDuration = bucketDuration;
-                                } else {
-                                  // Otherwise, use the full event duration
-                                  playbackDuration = eventDuration;
-                                }
-                              } else {
-                                // Fallback: use the event duration
-                                playbackDuration = value;
-                              }
-
-                              const duration = `Duration: ${Math.round(
-                                playbackDuration
-                              )}s`;
-                              if (bucket.brands && bucket.brands.length > 0) {
-                                return `${duration}\nBrands: ${bucket.brands.join(
-                                  ", "
-                                )}`;
-                              }
-                              return duration;
-                            }
-                          })()
-                        : "No data"
-                    }
-                    tabIndex={
-                      onCellClick && row.id !== "__TOTAL__" ? 0 : undefined
-                    }
-                    onKeyDown={(e) => {
-                      if (
-                        onCellClick &&
-                        row.id !== "__TOTAL__" &&
-                        (e.key === "Enter" || e.key === " ")
-                      ) {
-                        onCellClick(row.id, colIndex);
+                {/* Row cells */}
+                {Array.from({ length: columns }).map((_, colIndex) => {
+                  // Direct index mapping instead of using findBucketForColumn
+                  const bucket = row.buckets[colIndex];
+                  const value = bucket?.value || 0;
+                  const backgroundColor = colorForValue(stops, value, maxValue);
+                  const isActive =
+                    rowIndex === activeRow && colIndex === activeCol;
+                  const isHighlighted =
+                    !!highlight &&
+                    colIndex >= highlight[0] &&
+                    colIndex <= highlight[1];
+                  const range = bucket ? rangeLabel(bucket, row) : null;
+
+                  return (
+                    <div
+                      key={`${row.id}-${colIndex}`}
+                      ref={(el) => {
+                        const key = `${rowIndex}:${colIndex}`;
+                        if (el) {
+                          cellRefs.current.set(key, el);
+                        } else {
+                          cellRefs.current.delete(key);
+                        }
+                      }}
+                      className={clsx(
+                        "border-b border-r border-gray-300 min-w-0 w-7 h-7 select-none focus:outline focus:outline-2 focus:outline-offset-[-2px] focus:outline-blue-600",
+                        onCellClick && row.id !== "__TOTAL__"
+                          ? "cursor-pointer hover:opacity-80"
+                          : onRangeSelect
+                          ? "cursor-col-resize"
+                          : ""
+                      )}
+                      style={{
+                        backgroundColor,
+                        minWidth: "28px",
+                        width: "28px",
+                      }}
+                      role="gridcell"
+                      aria-colindex={colIndex + 2}
+                      aria-selected={onRangeSelect ? isHighlighted : undefined}
+                      aria-label={`${rowLabel}${range ? `, ${range}` : ""}: ${describeValue(
+                        value,
+                        measure
+                      )}${
+                        bucket?.manual
+                          ? ", includes manually added events"
+                          : ""
+                      }`}
+                      aria-describedby={
+                        hovered?.rowId === row.id &&
+                        hovered.colIndex === colIndex
+                          ? tooltipId
+                          : undefined
+                      }
+                      tabIndex={isActive ? 0 : -1}
+                      onMouseDown={(e) => {
+                        if (!onRangeSelect || e.button !== 0) return;
                         e.preventDefault();
+                        setBrush({
+                          rowId: row.id,
+                          from: colIndex,
+                          to: colIndex,
+                        });
+                      }}
+                      onMouseEnter={(e) => {
+                        showTooltip(row.id, colIndex, e.currentTarget);
+                        if (brush) {
+                          setBrush({ ...brush, to: colIndex });
+                        }
+                      }}
+                      onMouseLeave={() => setHovered(null)}
+                      onFocus={(e) => {
+                        setActive({ row: rowIndex, col: colIndex });
+                        showTooltip(row.id, colIndex, e.currentTarget);
+                      }}
+                      onBlur={() => setHovered(null)}
+                      onClick={() =>
+                        // With range selection, clicks are reported when the mouse is released
+                        !onRangeSelect &&
+                        row.id !== "__TOTAL__" &&
+                        onCellClick?.(row.id, colIndex)
+                      }
+                      onKeyDown={(e) =>
+                        handleCellKeyDown(e, rowIndex, colIndex)
                       }
-                    }}
-                  >
-                    <div className="w-full h-8"></div>
-                  </div>
-                );
-              })}
-            </React.Fragment>
-          );
-        })}
+                    >
+                      <div className="relative w-full h-8">
+                        {isHighlighted && (
+                          <span
+                            className="absolute inset-0 bg-blue-500/20"
+                            aria-hidden="true"
+                          />
+                        )}
+                        {bucket?.manual && (
+                          <span
+                            className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-amber-500 ring-1 ring-white"
+                            aria-hidden="true"
+                          />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
       </div>
+
+      {/* Colour scale legend */}
+      {showLegend && (
+        <div
+          className={clsx(
+            "flex flex-wrap items-end gap-3 mt-2 ml-3 text-xs text-gray-500",
+            ibmPlexMono.className
+          )}
+        >
+          <span>
+            {normalize === "grid"
+              ? rows.some((row) => row.id === "__TOTAL__")
+                ? "Scale (Total Exposure uses its own peak)"
+                : "Scale"
+              : "Share of each row's peak"}
+          </span>
+          <ul className="flex" aria-label="Colour scale legend">
+            <li
+              className="flex flex-col items-center"
+              aria-label={normalize === "grid" ? "No value" : "0%"}
+            >
+              <span
+                className="w-7 h-3 border border-gray-300"
+                style={{ backgroundColor: EMPTY_CELL_COLOR }}
+              />
+              <span aria-hidden="true">0</span>
+            </li>
+            {scaleThresholds(stops, legendMax).map(({ color, from, to }) => (
+              <li
+                key={color}
+                className="flex flex-col items-center"
+                aria-label={`Above ${legendLabel(from)} up to ${legendLabel(
+                  to
+                )}`}
+              >
+                <span
+                  className="w-7 h-3 border-y border-r border-gray-300"
+                  style={{ backgroundColor: color }}
+                />
+                <span aria-hidden="true">{legendLabel(to)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Cell tooltip */}
+      {hovered && hoveredRow && (
+        <div
+          id={tooltipId}
+          className="fixed z-50 pointer-events-none max-w-xs p-2 rounded-lg bg-white border border-gray-300 shadow-lg text-xs text-gray-800 whitespace-pre-line"
+          style={{ left: hovered.left, top: hovered.top }}
+          role="tooltip"
+        >
+          {hoveredBucket ? (
+            <>
+              <div className="font-medium">
+                {hoveredRow.label || hoveredRow.id}
+                {" · "}
+                {rangeLabel(hoveredBucket, hoveredRow)}
+              </div>
+              <div>{describeValue(hoveredBucket.value, measure)}</div>
+              {hoveredEvents.length > 0 ? (
+                <ul className="mt-2 flex flex-col gap-1.5">
+                  {hoveredEvents.slice(0, MAX_TOOLTIP_EVENTS).map((event) => (
+                    <li key={event.key} className="flex items-center gap-2">
+                      {event.thumbnailUrl ? (
+                        <div
+                          className="w-16 h-9 flex-shrink-0 rounded bg-gray-200 bg-cover bg-center"
+                          style={{
+                            backgroundImage: `url(${event.thumbnailUrl})`,
+                          }}
+                          role="img"
+                          aria-label={`Frame of ${event.label}`}
+                        />
+                      ) : (
+                        <div className="w-16 h-9 flex-shrink-0 rounded bg-gray-200" />
+                      )}
+                      <div className="min-w-0">
+                        <div className="truncate">
+                          {event.label}
+                          {event.manual && (
+                            <span className="ml-1 text-amber-700">
+                              (manual)
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-gray-500">
+                          {formatClock(event.start)}–{formatClock(event.end)}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                  {hoveredEvents.length > MAX_TOOLTIP_EVENTS && (
+                    <li className="text-gray-500">
+                      +{hoveredEvents.length - MAX_TOOLTIP_EVENTS} more
+                    </li>
+                  )}
+                </ul>
+              ) : hoveredBucket.brands && hoveredBucket.brands.length > 0 ? (
+                <div>Brands: {hoveredBucket.brands.join(", ")}</div>
+              ) : (
+                <div>No brands detected</div>
+              )}
+              {hoveredBucket.manual && (
+                <div>Includes manually added events</div>
+              )}
+            </>
+          ) : (
+            "No data"
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,9 +1,21 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import clsx from "clsx";
 import { VideoData } from "@/types";
+import { ProductEvent } from "@/types/brandMentions";
+import { BrandEntry } from "@/types/brandRegistry";
 import Hls from "hls.js";
 import { CloseIcon } from "./icons";
 import VideoPlayer from "./VideoPlayer";
 
+// Lets a reviewer add missed placements and adjust the shown event's timeline
+interface VideoModalEventEditor {
+  indexId: string;
+  brands: string[]; // brands offered in the brand picker, next to the brand registry
+  event?: ProductEvent; // event the modal was opened for
+  onEventSaved: (event: ProductEvent) => void;
+  onError?: (message: string) => void;
+}
+
 interface VideoModalProps {
   videoUrl: string;
   videoId: string;
@@ -23,8 +35,29 @@ interface VideoModalProps {
   indexId?: string;
   confidence?: string;
   score?: number;
+  eventEditor?: VideoModalEventEditor;
+}
+
+type EditorMode = "create" | "retime";
+
+interface EventDraft {
+  brand: string;
+  product_name: string;
+  location: string;
+  note: string;
+  start: number | null;
+  end: number | null;
 }
 
+const EMPTY_DRAFT: EventDraft = {
+  brand: "",
+  product_name: "",
+  location: "",
+  note: "",
+  start: null,
+  end: null,
+};
+
 // Helper function to format seconds to MM:SS
 const formatTime = (seconds: number): string => {
   const minutes = Math.floor(seconds / 60);
@@ -34,6 +67,13 @@ const formatTime = (seconds: number): string => {
     .padStart(2, "0")}`;
 };
 
+// Helper function to format seconds to MM:SS.s for in/out points
+const formatMark = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remaining = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${minutes.toString().padStart(2, "0")}:${remaining}`;
+};
+
 // Helper function to get creator name
 const getCreatorName = (videoData: VideoData | undefined): string | null => {
   if (!videoData || !videoData.user_metadata) return null;
@@ -352,11 +392,20 @@ const VideoModalSimple: React.FC<VideoModalProps> = ({
   indexId,
   confidence,
   score,
+  videoId,
+  eventEditor,
 }) => {
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [isMuted, setIsMuted] = useState<boolean>(true); // Start muted by default
   const [volume, setVolume] = useState<number>(1); // Volume state
   const videoRef = useRef<HTMLVideoElement>(null);
+  const playerRef = useRef<{ seekTo: (time: number) => void } | null>(null);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [editorMode, setEditorMode] = useState<EditorMode | null>(null);
+  const [draft, setDraft] = useState<EventDraft>(EMPTY_DRAFT);
+  const [registryBrands, setRegistryBrands] = useState<string[]>([]);
+  const [isSavingEvent, setIsSavingEvent] = useState<boolean>(false);
+  const editorEvent = eventEditor?.event;
 
   // Initialize isPlaying when modal opens
   useEffect(() => {
@@ -393,6 +442,130 @@ const VideoModalSimple: React.FC<VideoModalProps> = ({
     }
   }, [isOpen, videoUrl]);
 
+  // Close the editor when the modal closes or shows another event
+  useEffect(() => {
+    setEditorMode(null);
+    setDraft(EMPTY_DRAFT);
+  }, [isOpen, editorEvent?.event_id]);
+
+  // Load the brand registry for the brand picker
+  const hasEventEditor = !!eventEditor;
+  useEffect(() => {
+    if (!isOpen || !hasEventEditor) return;
+
+    let cancelled = false;
+    fetch("/api/brand-mentions/brands")
+      .then((response) => (response.ok ? response.json() : { brands: [] }))
+      .then((body: { brands?: BrandEntry[] }) => {
+        if (!cancelled) {
+          setRegistryBrands(
+            (body.brands || []).map((brand) => brand.canonicalName)
+          );
+        }
+      })
+      .catch((error) => {
+        console.warn("Failed to load brand registry:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, hasEventEditor]);
+
+  const brandOptions = useMemo(
+    () =>
+      Array.from(
+        new Set([...(eventEditor?.brands || []), ...registryBrands])
+      ).sort((a, b) => a.localeCompare(b)),
+    [eventEditor?.brands, registryBrands]
+  );
+
+  function openEditor(mode: EditorMode) {
+    setEditorMode(mode);
+    setDraft(
+      mode === "retime" && editorEvent
+        ? {
+            ...EMPTY_DRAFT,
+            brand: editorEvent.brand,
+            product_name: editorEvent.product_name,
+            location: editorEvent.location ?? "",
+            start: editorEvent.timeline_start,
+            end: editorEvent.timeline_end,
+          }
+        : { ...EMPTY_DRAFT, start: currentTime }
+    );
+  }
+
+  const draftError = (() => {
+    if (draft.start === null || draft.end === null) {
+      return "Mark both the in and out points";
+    }
+    if (draft.end <= draft.start) return "The out point must be after the in point";
+    if (editorMode === "create" && (!draft.brand.trim() || !draft.product_name.trim())) {
+      return "Pick a brand and enter a product";
+    }
+    return null;
+  })();
+
+  async function saveEvent() {
+    if (!eventEditor || !editorMode || draftError) return;
+
+    setIsSavingEvent(true);
+    try {
+      const response =
+        editorMode === "create"
+          ? await fetch("/api/brand-mentions/events/manual", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                indexId: eventEditor.indexId,
+                videoId,
+                note: draft.note || undefined,
+                event: {
+                  brand: draft.brand,
+                  product_name: draft.product_name,
+                  timeline_start: draft.start,
+                  timeline_end: draft.end,
+                  location: draft.location || undefined,
+                },
+              }),
+            })
+          : await fetch("/api/brand-mentions/review", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                indexId: eventEditor.indexId,
+                videoId,
+                eventId: editorEvent?.event_id,
+                action: "edit",
+                note: draft.note || undefined,
+                changes: {
+                  timeline_start: draft.start,
+                  timeline_end: draft.end,
+                },
+              }),
+            });
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body?.error || `Save failed with status ${response.status}`);
+      }
+
+      eventEditor.onEventSaved(body.event);
+      setEditorMode(null);
+      setDraft(EMPTY_DRAFT);
+    } catch (error) {
+      console.error("Error saving event:", error);
+      eventEditor.onError?.(
+        `Failed to save event: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setIsSavingEvent(false);
+    }
+  }
+
   const combinedTagPills = useMemo(() => {
     if (!videoDetails) return [];
     const styles = getStyles(videoDetails);
@@ -458,6 +631,13 @@ const VideoModalSimple: React.FC<VideoModalProps> = ({
                   </div>
                 )}
 
+                {/* Manual tag - events added by a reviewer */}
+                {editorEvent?.source === "manual" && (
+                  <div className="inline-block flex-shrink-0 rounded-md px-1 py-0.5 text-xs bg-amber-50 text-amber-800 border border-amber-300">
+                    MANUAL
+                  </div>
+                )}
+
                 {/* Score as plain text - only show for search results */}
                 {score !== undefined && (
                   <span className="text-black text-xs font-normal font-['Milling'] leading-tight">
@@ -496,7 +676,12 @@ const VideoModalSimple: React.FC<VideoModalProps> = ({
               autoplay
               initialMuted
               startTime={startTime}
-              endTime={endTime}
+              // Play the whole video while marking so points outside the event can be reached
+              endTime={editorMode ? undefined : endTime}
+              onTimeUpdate={setCurrentTime}
+              onPlayerReady={(player) => {
+                playerRef.current = player;
+              }}
             />
           </div>
           {location && (
@@ -504,6 +689,130 @@ const VideoModalSimple: React.FC<VideoModalProps> = ({
               📍 {location}
             </div>
           )}
+          {eventEditor && !editorMode && (
+            <div className="flex flex-wrap gap-2 mt-4 text-xs">
+              <button
+                onClick={() => openEditor("create")}
+                className="h-7 px-3 rounded-lg border border-1 border-gray-700 text-gray-700 hover:bg-gray-100"
+              >
+                Add missed placement
+              </button>
+              {editorEvent?.event_id && (
+                <button
+                  onClick={() => openEditor("retime")}
+                  className="h-7 px-3 rounded-lg border border-1 border-gray-700 text-gray-700 hover:bg-gray-100"
+                >
+                  Adjust timeline
+                </button>
+              )}
+            </div>
+          )}
+          {eventEditor && editorMode && (
+            <div className="mt-4 p-3 rounded-xl border border-gray-300 text-xs space-y-2">
+              <div className="font-semibold text-sm">
+                {editorMode === "create"
+                  ? "Add missed placement"
+                  : `Adjust timeline: ${editorEvent?.brand}`}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-gray-600">
+                  Playhead {formatMark(currentTime)}
+                </span>
+                {(["start", "end"] as const).map((point) => (
+                  <div key={point} className="flex items-center gap-1">
+                    <button
+                      onClick={() =>
+                        setDraft((prev) => ({ ...prev, [point]: currentTime }))
+                      }
+                      className="h-7 px-3 rounded-lg border border-1 border-gray-700 text-gray-700 hover:bg-gray-100"
+                    >
+                      {point === "start" ? "Mark in" : "Mark out"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        const time = draft[point];
+                        if (time !== null) playerRef.current?.seekTo(time);
+                      }}
+                      disabled={draft[point] === null}
+                      className="text-gray-600 underline disabled:no-underline disabled:text-gray-400"
+                    >
+                      {draft[point] === null ? "--:--" : formatMark(draft[point]!)}
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {editorMode === "create" && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  <input
+                    type="text"
+                    list={`known-brands-${videoId}`}
+                    value={draft.brand}
+                    onChange={(e) =>
+                      setDraft((prev) => ({ ...prev, brand: e.target.value }))
+                    }
+                    placeholder="Brand"
+                    className="h-8 px-2 rounded-lg border border-gray-300"
+                  />
+                  <datalist id={`known-brands-${videoId}`}>
+                    {brandOptions.map((brand) => (
+                      <option key={brand} value={brand} />
+                    ))}
+                  </datalist>
+                  <input
+                    type="text"
+                    value={draft.product_name}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        product_name: e.target.value,
+                      }))
+                    }
+                    placeholder="Product"
+                    className="h-8 px-2 rounded-lg border border-gray-300"
+                  />
+                  <input
+                    type="text"
+                    value={draft.location}
+                    onChange={(e) =>
+                      setDraft((prev) => ({ ...prev, location: e.target.value }))
+                    }
+                    placeholder="Location (optional)"
+                    className="h-8 px-2 rounded-lg border border-gray-300"
+                  />
+                </div>
+              )}
+              <input
+                type="text"
+                value={draft.note}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, note: e.target.value }))
+                }
+                placeholder="Reviewer note (optional)"
+                className="w-full h-8 px-2 rounded-lg border border-gray-300"
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={saveEvent}
+                  disabled={!!draftError || isSavingEvent}
+                  className={clsx(
+                    "h-7 px-3 rounded-lg border border-1",
+                    draftError || isSavingEvent
+                      ? "border-gray-300 text-gray-400 cursor-not-allowed"
+                      : "border-gray-700 bg-[#1D1C1B] text-white"
+                  )}
+                >
+                  {isSavingEvent ? "Saving..." : "Save"}
+                </button>
+                <button
+                  onClick={() => setEditorMode(null)}
+                  className="h-7 px-3 rounded-lg border border-1 border-gray-300 text-gray-700 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                {draftError && <span className="text-gray-500">{draftError}</span>}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
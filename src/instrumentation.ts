@@ -0,0 +1,10 @@
+/**
+ * Runs once when the Next.js server starts.
+ * Resumes any background analysis jobs left queued or interrupted by a restart.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startAnalysisWorker } = await import('@/utils/analysisJobs');
+    startAnalysisWorker();
+  }
+}
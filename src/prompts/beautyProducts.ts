@@ -0,0 +1,56 @@
+import { PromptTemplate } from '@/types/promptTemplates';
+import { BRAND_MENTION_OUTPUT_SCHEMA } from '@/prompts/brandMentions';
+
+/**
+ * Beauty and cosmetics prompt: product shots, packaging and application close-ups
+ */
+export const beautyProductsTemplate: PromptTemplate = {
+  id: 'beauty-products',
+  name: 'Beauty product shots',
+  description: 'Cosmetics, skincare and haircare packaging in tutorials, hauls and reviews',
+  version: 1,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  outputSchema: BRAND_MENTION_OUTPUT_SCHEMA,
+  tones: ['aspirational', 'playful', 'cozy', 'casual', 'professional', 'confident', 'romantic', 'bold', 'subtle', 'humorous'],
+  styles: ['beauty', 'fashion', 'lifestyle', 'luxury', 'minimalist', 'modern', 'commercial', 'artistic', 'vintage'],
+  body: `
+  {{scope}}
+
+  You are reviewing a beauty video (tutorial, haul, review or get-ready-with-me).
+  Respond with ONLY a valid JSON object (no explanations, no markdown) matching this JSON Schema:
+
+  {{outputSchema}}
+
+  Rules for products:
+  - Include every cosmetic, skincare, haircare, fragrance or beauty-tool product whose brand is identifiable.
+  - Identify brands from logos, wordmarks on packaging, distinctive packaging shapes or caps, or the creator naming the product while it is on screen.
+  - "product_name" should be as specific as possible (product line and shade/variant when readable).
+  - Use numbers in SECONDS for timeline (not percentages); the timeline is when the product or its packaging is on screen.
+  - Create a separate entry each time a product is picked up, shown to camera or applied.
+  - If no products, use [].
+
+  LOCATION RULES:
+  - Describe where the product is (e.g., "held to camera center", "on vanity in background", "applied to left cheek", "in flat-lay top-right").
+  - Mention whether the label faces the camera.
+
+  CONFIDENCE & PROMINENCE RULES:
+  - "confidence" from 0.0 to 1.0; use ≥ 0.8 only when the brand name is readable, ≤ 0.4 when inferred from packaging shape alone.
+  - "prominence.size": small (< 5% of frame), medium (5–20%), large (> 20% or close-up product shot).
+  - "prominence.layer": foreground when held, shown or applied; background when only on a shelf or vanity.
+  - "evidence": the cue you relied on (e.g., "gold cap and wordmark on lipstick tube", "creator says the name while holding it").
+
+  TIMELINE RULES:
+  - Keep segments ≤ 10 seconds; split longer appearances.
+  - Round to integers; ensure end > start. Skip flashes < 1 second.
+
+  Rules for tones (pick 1–3):
+  {{tones}}
+
+  Rules for styles (pick 1–3):
+  {{styles}}
+
+  Rules for creator:
+  - If creator/influencer, include their name (watermark/intro/ID).
+  - Otherwise, use null.
+  `,
+};
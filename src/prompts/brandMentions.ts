@@ -0,0 +1,121 @@
+import { PromptTemplate } from '@/types/promptTemplates';
+
+/**
+ * Response schema shared by the built-in templates
+ */
+export const BRAND_MENTION_OUTPUT_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  required: ['products', 'tones', 'styles', 'creator'],
+  properties: {
+    products: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['brand', 'product_name', 'timeline'],
+        properties: {
+          brand: { type: 'string' },
+          product_name: { type: 'string' },
+          timeline: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2, description: '[start_seconds, end_seconds]' },
+          location: { type: 'string', description: 'detailed location description' },
+          description: { type: 'string', description: 'brief factual description' },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          prominence: {
+            type: 'object',
+            properties: {
+              size: { enum: ['small', 'medium', 'large'] },
+              layer: { enum: ['foreground', 'background'] },
+            },
+          },
+          evidence: { type: 'string', description: 'what is visible that identifies the brand' },
+        },
+      },
+    },
+    tones: { type: 'array', items: { type: 'string' } },
+    styles: { type: 'array', items: { type: 'string' } },
+    creator: { type: ['string', 'null'] },
+  },
+};
+
+export const DEFAULT_TONES = [
+  'aspirational', 'playful', 'gritty', 'cozy', 'ironic', 'energetic', 'professional', 'casual', 'dramatic', 'humorous',
+  'serious', 'romantic', 'adventurous', 'nostalgic', 'futuristic', 'minimalist', 'bold', 'subtle', 'confident', 'mysterious'
+];
+
+export const DEFAULT_STYLES = [
+  'retro', 'modern', 'classic', 'vintage', 'contemporary', 'minimalist', 'maximalist', 'industrial', 'bohemian', 'luxury',
+  'street', 'corporate', 'artistic', 'cinematic', 'documentary', 'commercial', 'lifestyle', 'fashion', 'tech', 'food',
+  'travel', 'fitness', 'beauty', 'gaming'
+];
+
+/**
+ * General-purpose brand/product extraction prompt
+ */
+export const brandMentionsTemplate: PromptTemplate = {
+  id: 'brand-mentions',
+  name: 'Brand mentions (general)',
+  description: 'Visible logos and branded products in any kind of video',
+  version: 1,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  outputSchema: BRAND_MENTION_OUTPUT_SCHEMA,
+  tones: DEFAULT_TONES,
+  styles: DEFAULT_STYLES,
+  body: `
+  {{scope}}
+
+  Respond with ONLY a valid JSON object (no explanations, no markdown) matching this JSON Schema:
+
+  {{outputSchema}}
+
+  Rules for products:
+  - Analyze 0–25%, 25–75%, and 75–100% of the video.
+  - Only include products with visible logos/branding.
+  - Use numbers in SECONDS for timeline (not percentages).
+  - If no products, use [].
+  - Create separate entries for repeated brand appearances.
+  - Timeline = when the logo is clearly visible (tight bounds).
+
+  LOCATION RULES (detailed positioning):
+  - Describe EXACTLY where the brand/logo appears in the frame (e.g., "top-left corner", "center of screen", "bottom-right", "on person's shirt", "on product packaging", "in background", "on vehicle", "on building sign").
+  - Include screen position (left/center/right, top/middle/bottom) and relative size (small/medium/large).
+  - Mention if it's on a person, object, background, or foreground.
+  - Be specific about the visual context (e.g., "logo on athlete's jersey", "brand name on coffee cup", "signage in background").
+
+  CONFIDENCE & PROMINENCE RULES:
+  - "confidence" is a number from 0.0 to 1.0: how sure you are that the brand is correctly identified.
+  - Use ≥ 0.8 only when the logo/wordmark is sharp and unambiguous; use ≤ 0.4 for partial, blurred or distant logos.
+  - "prominence.size": small (< 5% of frame), medium (5–20%), large (> 20% or hero shot).
+  - "prominence.layer": foreground if the branded object is a subject of the shot, otherwise background.
+  - "evidence": the concrete visual cue you relied on (e.g., "white swoosh on left shoe", "red wordmark on can").
+
+  TIGHT TIMELINE RULES (micro-segmentation):
+  - Default max segment length: **≤ 8 seconds**. If visibility continues longer, **split into multiple entries**.
+  - Hard cap: **a segment must be ≤ min(12 seconds, 20% of total video length)**.
+  - Start at the **first second** the logo is clearly visible; end at the **first second** it becomes unclear/occluded/out of frame.
+  - If the logo disappears or is unclear for **≥ 1 second**, start a **new segment**.
+  - Never output a single wide range like **[0, videoDuration]** unless the logo is truly visible **continuously** the whole time (otherwise, split).
+  - Round to integers; ensure **end > start**. If unsure, **err on the shorter side** (do not pad).
+  - Skip ultra-brief flashes **< 1 second**.
+
+  Rules for tones (pick 1–3):
+  {{tones}}
+
+  Rules for styles (pick 1–3):
+  {{styles}}
+
+  Rules for creator:
+  - If creator/influencer, include their name (watermark/intro/ID).
+  - Otherwise, use null.
+
+  REFERENCE EXAMPLE (FORMAT ONLY; DO NOT COPY VALUES):
+  {
+    "products": [
+      { "brand": "Emirates", "product_name": "Sailboat Livery", "timeline": [12, 16], "location": "logo prominently displayed on sail in center of frame", "description": "logo on sail during close pass", "confidence": 0.95, "prominence": { "size": "large", "layer": "foreground" }, "evidence": "red Emirates wordmark across mainsail" },
+      { "brand": "Emirates", "product_name": "Sailboat Livery", "timeline": [44, 48], "location": "brand name visible on boat hull in bottom-right corner", "description": "logo visible mid-race", "confidence": 0.7, "prominence": { "size": "small", "layer": "background" }, "evidence": "partial wordmark on hull" },
+      { "brand": "Emirates", "product_name": "Sailboat Livery", "timeline": [102, 107], "location": "logo on sail clearly visible in center-left of screen", "description": "logo shown in finish segment", "confidence": 0.9, "prominence": { "size": "medium", "layer": "foreground" }, "evidence": "full Emirates logo on sail" }
+    ],
+    "tones": ["energetic", "confident"],
+    "styles": ["documentary", "lifestyle"],
+    "creator": null
+  }
+  `,
+};
@@ -0,0 +1,68 @@
+import { BRAND_SAFETY_CATEGORIES, BRAND_SAFETY_SEVERITIES } from '@/types/brandSafety';
+
+/**
+ * Response schema of the brand-safety pass
+ */
+export const BRAND_SAFETY_OUTPUT_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  required: ['flags'],
+  properties: {
+    flags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['category', 'severity', 'timeline'],
+        properties: {
+          category: { enum: [...BRAND_SAFETY_CATEGORIES] },
+          severity: { enum: [...BRAND_SAFETY_SEVERITIES] },
+          timeline: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2, description: '[start_seconds, end_seconds]' },
+          description: { type: 'string', description: 'brief factual description of what was seen or heard' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Brand-safety screening prompt, run as a second pass after the brand extraction
+ * Not a template: partners rely on the same screen for every video.
+ * @param scope Scope instructions for the video being analyzed
+ */
+export function buildBrandSafetyPrompt(scope: string): string {
+  return `
+  ${scope}
+
+  You are screening this video for brand safety before it is recommended to advertisers.
+  Watch AND listen to the whole video, including speech, lyrics, on-screen text and captions.
+
+  Respond with ONLY a valid JSON object (no explanations, no markdown) matching this JSON Schema:
+
+  ${JSON.stringify(BRAND_SAFETY_OUTPUT_SCHEMA, null, 2)}
+
+  Categories:
+  - profanity: swearing, slurs or obscene gestures, spoken or written.
+  - violence: fighting, weapons used against people, injuries, blood, graphic or threatening content.
+  - alcohol: drinking, alcoholic drinks shown or promoted, intoxication.
+  - gambling: betting, casinos, sportsbooks, loot boxes or odds promotion.
+  - political: political parties, candidates, elections, protests or campaigning on divisive issues.
+
+  Severity:
+  - low: brief, incidental or mild (a bleeped word, a drink in the background).
+  - medium: clearly present but not the focus (repeated swearing, a staged fight scene).
+  - high: central, graphic or promoted (explicit slurs, real violence, a betting promotion, campaigning).
+
+  Rules:
+  - Use numbers in SECONDS for timeline (not percentages); ensure end > start.
+  - Create separate entries for separate occurrences; do not span the whole video unless it is continuous.
+  - Only flag what is actually in the video; do not guess from the topic.
+  - If nothing needs flagging, use [].
+
+  REFERENCE EXAMPLE (FORMAT ONLY; DO NOT COPY VALUES):
+  {
+    "flags": [
+      { "category": "profanity", "severity": "low", "timeline": [34, 36], "description": "host swears once while laughing" },
+      { "category": "alcohol", "severity": "medium", "timeline": [80, 95], "description": "group toasts with beer bottles" }
+    ]
+  }
+  `;
+}
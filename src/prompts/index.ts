@@ -0,0 +1,16 @@
+import { PromptTemplate } from '@/types/promptTemplates';
+import { brandMentionsTemplate } from '@/prompts/brandMentions';
+import { beautyProductsTemplate } from '@/prompts/beautyProducts';
+import { motorsportLiveryTemplate } from '@/prompts/motorsportLivery';
+
+// Template used when an analyze request does not name one
+export const DEFAULT_TEMPLATE_ID = brandMentionsTemplate.id;
+
+/**
+ * Templates shipped with the app; edits from the admin page are saved as newer versions
+ */
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  brandMentionsTemplate,
+  beautyProductsTemplate,
+  motorsportLiveryTemplate,
+];
@@ -0,0 +1,55 @@
+import { PromptTemplate } from '@/types/promptTemplates';
+import { BRAND_MENTION_OUTPUT_SCHEMA } from '@/prompts/brandMentions';
+
+/**
+ * Motorsport prompt: sponsor liveries on cars, bikes and boats plus trackside signage
+ */
+export const motorsportLiveryTemplate: PromptTemplate = {
+  id: 'motorsport-livery',
+  name: 'Motorsport liveries',
+  description: 'Sponsor logos on vehicles, race suits and trackside boards',
+  version: 1,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  outputSchema: BRAND_MENTION_OUTPUT_SCHEMA,
+  tones: ['energetic', 'dramatic', 'adventurous', 'gritty', 'bold', 'confident', 'serious', 'professional'],
+  styles: ['documentary', 'cinematic', 'commercial', 'fitness', 'tech', 'travel', 'lifestyle', 'modern'],
+  body: `
+  {{scope}}
+
+  You are reviewing motorsport footage (racing, onboard cameras, pit lane, paddock or highlights).
+  Respond with ONLY a valid JSON object (no explanations, no markdown) matching this JSON Schema:
+
+  {{outputSchema}}
+
+  Rules for products:
+  - Include every sponsor logo visible on vehicles (cars, bikes, boats), helmets, race suits, pit crew gear, trackside boards, banners and podium backdrops.
+  - "product_name" names the placement (e.g., "Car Livery - Sidepod", "Helmet Visor Strip", "Trackside Board", "Podium Backdrop").
+  - Use numbers in SECONDS for timeline (not percentages).
+  - Create separate entries per placement; the same sponsor on a car and on a trackside board are two entries.
+  - If no products, use [].
+
+  LOCATION RULES:
+  - Describe the vehicle or object and where on it the logo sits (e.g., "rear wing of the red car", "front fairing of bike #46", "barrier boards along the straight").
+  - Include the screen position (left/center/right, top/middle/bottom).
+
+  CONFIDENCE & PROMINENCE RULES:
+  - "confidence" from 0.0 to 1.0; motion blur and distance lower confidence — use ≤ 0.4 when the logo is only legible in a single frame.
+  - "prominence.size": small (< 5% of frame), medium (5–20%), large (> 20% or close-up of the livery).
+  - "prominence.layer": foreground for the vehicle/driver being followed, background for other vehicles and trackside signage.
+  - "evidence": the cue you relied on (e.g., "yellow wordmark on engine cover", "logo on driver's collar in pit interview").
+
+  TIMELINE RULES:
+  - Logos come and go quickly: keep segments ≤ 6 seconds and start a new one whenever the logo leaves the frame for ≥ 1 second.
+  - Round to integers; ensure end > start. Skip flashes < 1 second.
+
+  Rules for tones (pick 1–3):
+  {{tones}}
+
+  Rules for styles (pick 1–3):
+  {{styles}}
+
+  Rules for creator:
+  - If a creator, team channel or broadcaster is identifiable (watermark/intro/ID), include the name.
+  - Otherwise, use null.
+  `,
+};
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { StoredIdSchema } from '@/types/analysisHistory';
+import { ProductEvent, VideoAnalysisMetadata } from '@/types/brandMentions';
+
+/**
+ * A video's current analysis as stored in the local cache
+ */
+export interface CachedAnalysis {
+  videoId: string;
+  indexId: string;
+  events: ProductEvent[];
+  analysis: VideoAnalysisMetadata;
+  analyzedAt?: string; // brand_product_analyzed_at; missing for legacy metadata
+  source?: string; // brand_product_source
+  promptVersion?: string; // brand_product_prompt_version
+  cachedAt: string;
+}
+
+/**
+ * Direction of a cache sync
+ * - pull: backfill the cache from user_metadata where metadata is newer
+ * - push: write cached analyses to user_metadata where the cache is newer
+ */
+export type AnalysisCacheSyncDirection = 'pull' | 'push';
+
+/**
+ * Zod schema for a cache sync request body
+ */
+export const CacheSyncRequestSchema = z.object({
+  indexId: StoredIdSchema,
+  direction: z.enum(['pull', 'push'])
+});
+
+/**
+ * Outcome of syncing one index's cache with user_metadata
+ */
+export interface AnalysisCacheSyncResult {
+  indexId: string;
+  direction: AnalysisCacheSyncDirection;
+  scanned: number;
+  updated: number;
+  skipped: number;
+  failed: { videoId: string; error: string }[];
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+/**
+ * On-screen time of one brand before and after a re-analysis
+ */
+export interface BrandExposureChange {
+  brand: string;
+  previousSec: number;
+  currentSec: number;
+  deltaSec: number;
+}
+
+/**
+ * How a re-analysis changed a video's brand results
+ * Rejected events are left out, as they are from every other brand figure.
+ */
+export interface AnalysisChangeSummary {
+  videoId: string;
+  indexId: string;
+  creator?: string;
+  promptVersion: string;
+  previousAnalyzedAt?: string;
+  analyzedAt: string;
+  brandsAdded: string[];
+  brandsRemoved: string[];
+  exposureChanges: BrandExposureChange[]; // every brand whose screen time moved, added and removed ones included
+  previousExposureSec: number;
+  currentExposureSec: number;
+}
+
+/**
+ * Outcome of sending a change notification to the webhook
+ */
+export interface WebhookDelivery {
+  delivered: boolean;
+  url: string;
+  status?: number;
+  error?: string;
+  attemptedAt: string;
+}
+
+/**
+ * One entry of the activity log
+ */
+export interface ActivityLogEntry {
+  id: string;
+  type: 'analysis_changed';
+  createdAt: string;
+  changes: AnalysisChangeSummary;
+  webhook?: WebhookDelivery;
+  acknowledged: boolean;
+}
+
+/**
+ * Outgoing webhook for change notifications
+ */
+export interface WebhookSettings {
+  enabled: boolean;
+  url: string;
+  secret?: string; // signs each payload as X-Webhook-Signature: sha256=<hex HMAC>
+}
+
+/**
+ * Zod schema for validating WebhookSettings objects
+ */
+export const WebhookSettingsSchema = z.object({
+  enabled: z.boolean(),
+  url: z.string().trim().refine((url) => url === '' || /^https?:\/\//.test(url), 'url must start with http:// or https://'),
+  secret: z.string().optional()
+});
+
+/**
+ * Body of a webhook request
+ */
+export interface WebhookPayload {
+  type: 'analysis_changed' | 'test';
+  sentAt: string;
+  changes?: AnalysisChangeSummary;
+}
+
+/**
+ * A request received by the local test receiver
+ */
+export interface ReceivedWebhook {
+  receivedAt: string;
+  signatureValid: boolean | null; // null when no secret is configured
+  payload: unknown;
+}
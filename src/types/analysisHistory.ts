@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { ParseRepair, ProductEvent, VideoAnalysisMetadata } from '@/types/brandMentions';
+
+/**
+ * One stored analysis run of a video
+ */
+export interface AnalysisVersion {
+  version: number;
+  createdAt: string;
+  promptVersion: string;
+  model: string;
+  events: ProductEvent[];
+  analysis: VideoAnalysisMetadata;
+}
+
+/**
+ * An analysis run whose output could not be parsed
+ */
+export interface AnalysisParseFailure {
+  createdAt: string;
+  promptVersion: string;
+  error: string;
+  repairs: ParseRepair[];
+  rawText: string;
+}
+
+/**
+ * All stored analysis runs of a video and which one is active
+ */
+export interface VideoAnalysisHistory {
+  videoId: string;
+  indexId: string;
+  activeVersion: number | null;
+  versions: AnalysisVersion[];
+  lastParseFailure?: AnalysisParseFailure;
+}
+
+/**
+ * Version listing entry without the full event payload
+ */
+export type AnalysisVersionSummary = Omit<AnalysisVersion, 'events' | 'analysis'> & {
+  eventCount: number;
+  brands: string[];
+  active: boolean;
+};
+
+/**
+ * A matched event whose fields differ between two versions
+ */
+export type ChangedEvent = {
+  from: ProductEvent;
+  to: ProductEvent;
+  changes: (keyof ProductEvent)[];
+};
+
+/**
+ * Event-by-event difference between two analysis versions
+ */
+export interface AnalysisVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  added: ProductEvent[];
+  removed: ProductEvent[];
+  changed: ChangedEvent[];
+  unchanged: number;
+}
+
+/**
+ * Zod schema for index and video IDs, which name files in the local data directory
+ */
+export const StoredIdSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, 'must only contain letters, digits, _ and -');
+
+const VersionNumberSchema = z.coerce.number().int().positive();
+
+/**
+ * Zod schema for the history endpoint's query params
+ */
+export const HistoryQuerySchema = z.object({
+  videoId: StoredIdSchema,
+  indexId: StoredIdSchema,
+  version: VersionNumberSchema.optional()
+});
+
+/**
+ * Zod schema for the history diff endpoint's query params
+ */
+export const HistoryDiffQuerySchema = z.object({
+  videoId: StoredIdSchema,
+  indexId: StoredIdSchema,
+  from: VersionNumberSchema,
+  to: VersionNumberSchema
+});
+
+/**
+ * Zod schema for a rollback request body
+ */
+export const RollbackRequestSchema = z.object({
+  videoId: StoredIdSchema,
+  indexId: StoredIdSchema,
+  version: z.number().int().positive()
+});
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { StoredIdSchema } from '@/types/analysisHistory';
+
+/**
+ * Lifecycle status of a background analysis job
+ */
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Lifecycle status of a single video within a job
+ * partial: analyzed, but some segment windows failed and kept their earlier events
+ */
+export type AnalysisJobItemStatus = 'pending' | 'running' | 'succeeded' | 'partial' | 'failed' | 'cancelled';
+
+/**
+ * A single video to analyze as part of a job
+ */
+export interface AnalysisJobItem {
+  videoId: string;
+  status: AnalysisJobItemStatus;
+  attempts: number;
+  eventCount?: number;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Aggregate progress counters for a job
+ */
+export interface AnalysisJobProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  partial: number;
+  failed: number;
+  percent: number;
+}
+
+/**
+ * A persisted background job that runs brand-mention analysis over a list of videos
+ */
+export interface AnalysisJob {
+  id: string;
+  indexId: string;
+  segmentAnalysis: boolean;
+  templateId?: string; // prompt template; the default template when omitted
+  status: AnalysisJobStatus;
+  items: AnalysisJobItem[];
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  cancelRequested?: boolean;
+}
+
+/**
+ * Job as returned by the jobs API, with computed progress
+ */
+export type AnalysisJobWithProgress = AnalysisJob & {
+  progress: AnalysisJobProgress;
+};
+
+/**
+ * Zod schema for a request to enqueue a job
+ */
+export const EnqueueJobRequestSchema = z.object({
+  indexId: StoredIdSchema,
+  videoIds: z.array(StoredIdSchema).min(1, 'must not be empty'),
+  segmentAnalysis: z.boolean().default(false),
+  templateId: z.string().min(1).optional()
+});
@@ -0,0 +1,54 @@
+import { ProductEvent, ProductEventSource } from '@/types/brandMentions';
+
+/**
+ * File formats brand-mention data can be exported as
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * Sheets of an export; CSV holds one sheet per file
+ */
+export type ExportSheet = 'events' | 'summary';
+
+/**
+ * A filtered video as input to an export
+ */
+export interface ExportVideo {
+  videoId: string;
+  title?: string;
+  creator: string;
+  duration: number; // seconds
+  events: ProductEvent[];
+}
+
+/**
+ * One exported brand mention
+ */
+export interface ExportEventRow {
+  video_id: string;
+  video_title: string;
+  creator: string;
+  brand: string;
+  product_name: string;
+  timeline_start: number;
+  timeline_end: number;
+  duration: number;
+  location: string;
+  description: string;
+  source: ProductEventSource;
+}
+
+/**
+ * One brand of the per-brand summary sheet
+ */
+export interface ExportSummaryRow {
+  brand: string;
+  videos: number;
+  events: number;
+  screen_time_sec: number;
+  percent_of_duration: number;
+  appearances: number;
+  first_appearance_sec: number;
+  avg_first_appearance_sec: number;
+  share_of_voice: number;
+}
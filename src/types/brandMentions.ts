@@ -1,4 +1,54 @@
 import { z } from 'zod';
+import { BrandSafetyFilter, BrandSafetyFilterSchema, BrandSafetyFlag, BrandSafetyFlagArraySchema } from '@/types/brandSafety';
+
+/**
+ * Relative on-screen size of a detected brand
+ */
+export type ProminenceSize = 'small' | 'medium' | 'large';
+
+/**
+ * Whether a detected brand is in the foreground or background of the frame
+ */
+export type ProminenceLayer = 'foreground' | 'background';
+
+/**
+ * How prominently a brand is shown during an event
+ */
+export interface EventProminence {
+  size: ProminenceSize;
+  layer: ProminenceLayer;
+}
+
+/**
+ * Human review state of an event
+ * - pending: not reviewed yet (events without a review)
+ * - accepted: confirmed as detected
+ * - rejected: a false detection; kept so re-analysis does not bring it back
+ * - edited: corrected by a reviewer
+ */
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected' | 'edited';
+
+/**
+ * Event fields a reviewer can correct
+ */
+export type ReviewableEventField = 'brand' | 'product_name' | 'timeline_start' | 'timeline_end' | 'location';
+
+/**
+ * A reviewer's decision on an event
+ */
+export interface EventReview {
+  status: Exclude<ReviewStatus, 'pending'>;
+  note?: string;
+  reviewed_at: string;
+  original?: Partial<Pick<ProductEvent, ReviewableEventField>>; // detected values of the fields a reviewer edited
+}
+
+/**
+ * Where an event comes from
+ * - analyze: detected by the Analyze API
+ * - manual: added by a reviewer for a placement the model missed
+ */
+export type ProductEventSource = 'analyze' | 'manual';
 
 /**
  * Represents a product event detected in a video
@@ -14,9 +64,39 @@ export interface ProductEvent {
   timeline_end: number;
   description?: string;
   location?: string;
-  source: 'analyze';
+  confidence?: number; // 0-1 model confidence that the brand is correctly identified
+  prominence?: EventProminence;
+  evidence?: string; // What is visible that confirms the brand (logo, wordmark, packaging...)
+  merged_count?: number; // Number of raw detections combined into this event by a merge strategy
+  event_id?: string; // Stable ID used to review the event; merged events have none
+  review?: EventReview;
+  source: ProductEventSource;
 }
 
+/**
+ * Zod schema for validating EventProminence objects
+ */
+export const EventProminenceSchema = z.object({
+  size: z.enum(['small', 'medium', 'large']),
+  layer: z.enum(['foreground', 'background'])
+});
+
+/**
+ * Zod schema for validating EventReview objects
+ */
+export const EventReviewSchema = z.object({
+  status: z.enum(['accepted', 'rejected', 'edited']),
+  note: z.string().optional(),
+  reviewed_at: z.string(),
+  original: z.object({
+    brand: z.string().optional(),
+    product_name: z.string().optional(),
+    timeline_start: z.number().optional(),
+    timeline_end: z.number().optional(),
+    location: z.string().optional()
+  }).optional()
+});
+
 /**
  * Zod schema for validating ProductEvent objects
  */
@@ -30,7 +110,13 @@ export const ProductEventSchema = z.object({
   timeline_end: z.number().nonnegative(),
   description: z.string().optional(),
   location: z.string().optional(),
-  source: z.literal('analyze')
+  confidence: z.number().min(0).max(1).optional(),
+  prominence: EventProminenceSchema.optional(),
+  evidence: z.string().optional(),
+  merged_count: z.number().int().positive().optional(),
+  event_id: z.string().optional(),
+  review: EventReviewSchema.optional(),
+  source: z.enum(['analyze', 'manual'])
 });
 
 /**
@@ -38,6 +124,22 @@ export const ProductEventSchema = z.object({
  */
 export const ProductEventArraySchema = z.array(ProductEventSchema);
 
+/**
+ * How same-brand detections are combined when events are read
+ * - raw: keep every micro-segment as detected
+ * - overlap: merge events of the same brand whose timelines overlap
+ * - gap: merge events of the same brand separated by at most `gapSec` seconds
+ */
+export type MergeStrategy = 'raw' | 'overlap' | 'gap';
+
+/**
+ * Options for combining events with a merge strategy
+ */
+export interface MergeOptions {
+  strategy: MergeStrategy;
+  gapSec?: number;
+}
+
 /**
  * Filter for brands and product names
  */
@@ -60,12 +162,71 @@ export type TimeWindowFilter = {
 export interface EventFilters {
   brandAsset?: BrandAssetFilter;
   durationMinSec?: number;
+  minConfidence?: number; // 0-1; events without a confidence score only pass when this is 0/unset
   timeWindow?: TimeWindowFilter;
+  positionWindow?: TimeWindowFilter; // 0-100, part of each video by relative position; converted to seconds per video
   format?: 'vertical' | 'horizontal' | 'any';
   region?: string[];
   creators?: string[];
+  styles?: string[]; // videos with any of these styles pass
+  tones?: string[]; // videos with any of these tones pass
+  reviewStatus?: ReviewStatus[]; // events with any of these statuses pass; rejected events are dropped when unset
+  safety?: BrandSafetyFilter;
 }
 
+/**
+ * Zod schema for validating EventFilters objects
+ */
+export const EventFiltersSchema = z.object({
+  brandAsset: z.object({
+    brands: z.array(z.string()).optional(),
+    products: z.array(z.string()).optional()
+  }).optional(),
+  durationMinSec: z.number().nonnegative().optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  timeWindow: z.object({
+    start: z.number().nonnegative().optional(),
+    end: z.number().nonnegative().optional()
+  }).optional(),
+  positionWindow: z.object({
+    start: z.number().min(0).max(100).optional(),
+    end: z.number().min(0).max(100).optional()
+  }).optional(),
+  format: z.enum(['vertical', 'horizontal', 'any']).optional(),
+  region: z.array(z.string()).optional(),
+  creators: z.array(z.string()).optional(),
+  styles: z.array(z.string()).optional(),
+  tones: z.array(z.string()).optional(),
+  reviewStatus: z.array(z.enum(['pending', 'accepted', 'rejected', 'edited'])).optional(),
+  safety: BrandSafetyFilterSchema.optional()
+});
+
+/**
+ * What a heatmap bucket value measures
+ * - seconds: on-screen seconds within the bucket; each event counts for the part it overlaps, overlapping events once
+ * - percent: share of the bucket (0-100) during which any of the events is on screen
+ * - events: number of events overlapping the bucket
+ * - brands: number of distinct brands overlapping the bucket
+ */
+export type HeatmapMeasure = 'seconds' | 'percent' | 'events' | 'brands';
+
+/**
+ * Colour scales for heatmap cells
+ * - zinc: the app's neutral ladder
+ * - sequential: light to dark blue
+ * - diverging: blue below the middle of the range, red above it
+ * - colorblind: viridis, readable with the common forms of colour blindness
+ */
+export type HeatmapColorScale = 'zinc' | 'sequential' | 'diverging' | 'colorblind';
+
+/**
+ * Part of a timeline shown by a zoomed heatmap, in percent of the duration (0-100)
+ */
+export type HeatmapWindow = {
+  start: number;
+  end: number;
+};
+
 /**
  * Represents a time bucket in the heatmap with a value
  */
@@ -74,6 +235,7 @@ export type HeatmapBucket = {
   end: number;
   value: number;
   brands?: string[]; // Optional: brands mentioned in this bucket
+  manual?: boolean; // Optional: the bucket includes manually added events
 };
 
 /**
@@ -94,12 +256,38 @@ export type LibraryHeatmapRow = {
 };
 
 /**
- * Video analysis metadata for tones, styles, and creator information
+ * Part of a video by relative position: the first 10%, the last 10% and everything between
+ */
+export type PositionSegment = 'intro' | 'middle' | 'outro';
+
+/**
+ * A brand's presence in one part of the videos
+ */
+export type PositionSegmentStats = {
+  videoCount: number; // videos the brand appears in during this part
+  avgSeconds: number; // on-screen seconds in this part, averaged over every video the brand appears in
+};
+
+/**
+ * Represents a row in the brand-centric library view: one brand across videos, by relative position
+ */
+export type BrandPositionRow = {
+  key: string; // the brand, or brand and creator when segmented by creator
+  brand: string;
+  creator?: string;
+  videoCount: number; // videos the brand appears in
+  buckets: HeatmapBucket[];
+  segments: Record<PositionSegment, PositionSegmentStats>;
+};
+
+/**
+ * Video analysis metadata for tones, styles, creator information and brand-safety flags
  */
 export interface VideoAnalysisMetadata {
   tones?: string[];
   styles?: string[];
   creator?: string;
+  safety?: BrandSafetyFlag[]; // unset until the video was screened; empty when nothing was flagged
 }
 
 /**
@@ -108,5 +296,65 @@ export interface VideoAnalysisMetadata {
 export const VideoAnalysisMetadataSchema = z.object({
   tones: z.array(z.string()).optional(),
   styles: z.array(z.string()).optional(),
-  creator: z.string().optional()
+  creator: z.string().optional(),
+  safety: BrandSafetyFlagArraySchema.optional()
 });
+
+/**
+ * Repairs the Analyze output parser can apply to malformed model output
+ */
+export type ParseRepair =
+  | 'stripped_markdown_fences'
+  | 'extracted_json'
+  | 'removed_trailing_commas'
+  | 'closed_truncated_json'
+  | 'dropped_incomplete_item'
+  | 'wrapped_bare_array'
+  | 'wrapped_single_item'
+  | 'ignored_extra_keys'
+  | 'coerced_field_types';
+
+/**
+ * Outcome of extracting the JSON value from Analyze output
+ */
+export type AnalyzeJsonExtraction =
+  | { status: 'ok'; value: unknown; repairs: ParseRepair[] }
+  | { status: 'empty'; repairs: ParseRepair[] }
+  | { status: 'parse_failed'; error: string; rawText: string; repairs: ParseRepair[] };
+
+/**
+ * Outcome of parsing Analyze output
+ * - ok: products were found (possibly after repairs)
+ * - empty: the model returned no text
+ * - parse_failed: the text could not be turned into products; rawText is kept for inspection
+ */
+export type AnalyzeOutputParseResult =
+  | {
+      status: 'ok';
+      items: unknown[];
+      analysis: VideoAnalysisMetadata;
+      repairs: ParseRepair[];
+      ignoredKeys: string[];
+    }
+  | { status: 'empty'; repairs: ParseRepair[] }
+  | { status: 'parse_failed'; error: string; rawText: string; repairs: ParseRepair[] };
+
+/**
+ * Totals reported at the end of a batch events request
+ */
+export interface EventsBatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  timedOut: number;
+  eventCount: number;
+  durationMs: number;
+}
+
+/**
+ * One line of a streamed (NDJSON) batch events response, written as each video completes
+ */
+export type EventsBatchLine =
+  | { type: 'result'; videoId: string; events: ProductEvent[]; analysis: VideoAnalysisMetadata; filteredOut?: boolean }
+  | { type: 'error'; videoId: string; error: string; timedOut: boolean }
+  | ({ type: 'summary' } & EventsBatchSummary);
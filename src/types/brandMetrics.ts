@@ -0,0 +1,51 @@
+import { ProductEvent } from '@/types/brandMentions';
+
+/**
+ * A video's events and duration as input to the metrics
+ */
+export interface MetricsVideo {
+  videoId: string;
+  duration: number; // seconds
+  creator: string;
+  events: ProductEvent[];
+}
+
+/**
+ * Exposure totals shared by brand-wide and per-creator metrics
+ */
+export interface ExposureTotals {
+  screenTimeSec: number; // on-screen time with overlapping detections counted once
+  percentOfDuration: number; // 0-100, screen time over the duration of the videos considered
+  appearanceCount: number; // separate on-screen intervals
+}
+
+/**
+ * A brand's exposure within one creator's videos
+ */
+export interface BrandCreatorMetrics extends ExposureTotals {
+  creator: string;
+  videoCount: number; // creator's videos the brand appears in
+}
+
+/**
+ * Exposure metrics of one brand across the selected videos
+ */
+export interface BrandMetrics extends ExposureTotals {
+  brand: string;
+  videoCount: number; // videos the brand appears in
+  eventCount: number; // raw detections
+  firstAppearanceSec: number; // earliest appearance in any video
+  avgFirstAppearanceSec: number; // mean time to first appearance over the videos the brand appears in
+  shareOfVoice: number; // 0-100, share of all brands' screen time in the videos the brand appears in
+  creators: BrandCreatorMetrics[];
+  creatorAverage: ExposureTotals; // mean over the creators the brand appears with
+}
+
+/**
+ * Brand exposure metrics for a set of videos
+ */
+export interface BrandMetricsReport {
+  videoCount: number;
+  totalDurationSec: number;
+  brands: BrandMetrics[];
+}
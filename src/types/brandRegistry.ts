@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+/**
+ * A canonical brand with the alternative names it is reported under
+ */
+export interface BrandEntry {
+  id: string;
+  canonicalName: string;
+  aliases: string[];
+  parentCompany?: string;
+}
+
+/**
+ * Zod schema for validating BrandEntry objects
+ */
+export const BrandEntrySchema = z.object({
+  id: z.string().min(1),
+  canonicalName: z.string().trim().min(1),
+  aliases: z.array(z.string().trim().min(1)),
+  parentCompany: z.string().trim().min(1).optional()
+});
+
+/**
+ * Schema for creating or updating a brand entry (id is derived when omitted)
+ */
+export const BrandEntryInputSchema = BrandEntrySchema.extend({
+  id: z.string().min(1).optional(),
+  aliases: z.array(z.string().trim().min(1)).default([])
+});
+
+export type BrandEntryInput = z.input<typeof BrandEntryInputSchema>;
+
+/**
+ * Outcome of resolving a raw brand name against the registry
+ */
+export type BrandResolution = {
+  canonicalName: string;
+  entry: BrandEntry | null;
+  match: 'exact' | 'alias' | 'fuzzy' | 'none';
+};
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+/**
+ * Content categories brand partners screen creator videos for
+ */
+export const BRAND_SAFETY_CATEGORIES = ['profanity', 'violence', 'alcohol', 'gambling', 'political'] as const;
+
+export type BrandSafetyCategory = typeof BRAND_SAFETY_CATEGORIES[number];
+
+/**
+ * Severity levels, mildest first
+ */
+export const BRAND_SAFETY_SEVERITIES = ['low', 'medium', 'high'] as const;
+
+export type BrandSafetySeverity = typeof BRAND_SAFETY_SEVERITIES[number];
+
+/**
+ * A stretch of a video flagged by the brand-safety pass
+ */
+export interface BrandSafetyFlag {
+  category: BrandSafetyCategory;
+  severity: BrandSafetySeverity;
+  timeline_start: number;
+  timeline_end: number;
+  description?: string;
+}
+
+/**
+ * Zod schema for validating BrandSafetyFlag objects
+ */
+export const BrandSafetyFlagSchema = z.object({
+  category: z.enum(BRAND_SAFETY_CATEGORIES),
+  severity: z.enum(BRAND_SAFETY_SEVERITIES),
+  timeline_start: z.number().nonnegative(),
+  timeline_end: z.number().nonnegative(),
+  description: z.string().optional()
+});
+
+/**
+ * Zod schema for validating arrays of BrandSafetyFlag objects
+ */
+export const BrandSafetyFlagArraySchema = z.array(BrandSafetyFlagSchema);
+
+/**
+ * Screens videos by their brand-safety flags
+ * - exclude: videos flagged in any of these categories are filtered out
+ * - minSeverity: flags below this severity are ignored; every flag counts when unset
+ * - screenedOnly: videos without a brand-safety screen are filtered out
+ */
+export interface BrandSafetyFilter {
+  exclude?: BrandSafetyCategory[];
+  minSeverity?: BrandSafetySeverity;
+  screenedOnly?: boolean;
+}
+
+/**
+ * Zod schema for validating BrandSafetyFilter objects
+ */
+export const BrandSafetyFilterSchema = z.object({
+  exclude: z.array(z.enum(BRAND_SAFETY_CATEGORIES)).optional(),
+  minSeverity: z.enum(BRAND_SAFETY_SEVERITIES).optional(),
+  screenedOnly: z.boolean().optional()
+});
@@ -0,0 +1,36 @@
+/**
+ * How strongly two brands co-occur
+ * - videos: videos both brands appear in
+ * - window: time windows, across all videos, that both brands appear in
+ * - overlap: seconds both brands are on screen at the same time
+ */
+export type CoOccurrenceMeasure = 'videos' | 'window' | 'overlap';
+
+/**
+ * Co-occurrence of two brands; a is before b alphabetically
+ */
+export interface BrandPair {
+  a: string;
+  b: string;
+  videoCount: number;
+  windowCount: number;
+  overlapSec: number;
+  videoIds: string[]; // videos both brands appear in
+}
+
+/**
+ * A brand and the number of videos it appears in
+ */
+export interface CoOccurrenceBrand {
+  brand: string;
+  videoCount: number;
+}
+
+/**
+ * Brand co-occurrence across a set of videos
+ */
+export interface CoOccurrenceReport {
+  windowSec: number; // length of the time windows behind windowCount
+  brands: CoOccurrenceBrand[]; // sorted by video count, descending
+  pairs: BrandPair[]; // pairs that share at least one video
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+/**
+ * A versioned Analyze prompt template
+ *
+ * The body may use these placeholders:
+ * {{scope}} - video/segment scope instructions
+ * {{outputSchema}} - the template's output schema as JSON
+ * {{tones}}, {{styles}} - the allowed tone and style lists
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  body: string;
+  outputSchema: Record<string, unknown>; // JSON Schema of the response object
+  tones: string[];
+  styles: string[];
+  updatedAt: string;
+}
+
+/**
+ * Template listing entry without the prompt body
+ */
+export type PromptTemplateSummary = Omit<PromptTemplate, 'body' | 'outputSchema'> & {
+  builtIn: boolean;
+  versions: number[];
+};
+
+export const PromptTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'id may only contain lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1, 'name is required'),
+  description: z.string().optional(),
+  version: z.number().int().positive(),
+  body: z.string().trim().min(1, 'body is required'),
+  outputSchema: z.record(z.string(), z.unknown()),
+  tones: z.array(z.string().trim().min(1)),
+  styles: z.array(z.string().trim().min(1)),
+  updatedAt: z.string(),
+});
+
+/**
+ * Fields accepted when saving a new template version
+ */
+export const PromptTemplateInputSchema = PromptTemplateSchema.omit({ version: true, updatedAt: true });
+
+export type PromptTemplateInput = z.infer<typeof PromptTemplateInputSchema>;
@@ -0,0 +1,24 @@
+import { ProductEvent } from '@/types/brandMentions';
+
+/**
+ * A video included in a sponsor report
+ */
+export interface ReportVideo {
+  videoId: string;
+  title?: string;
+  creator: string;
+  duration: number; // seconds
+  events: ProductEvent[];
+  thumbnailUrls?: string[]; // hls.thumbnail_urls, assumed evenly spaced over the video
+}
+
+/**
+ * Everything the sponsor report renderer needs; it does no network calls itself
+ */
+export interface SponsorReportInput {
+  title?: string;
+  brands?: string[]; // report only these brands; all brands when empty
+  generatedAt?: string; // ISO date shown on the cover, defaults to now
+  videos: ReportVideo[];
+  thumbnails?: Record<string, Buffer>; // JPEG data by thumbnail URL
+}
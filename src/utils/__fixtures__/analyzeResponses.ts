@@ -0,0 +1,84 @@
+/**
+ * Canned Analyze API responses for the parsing and normalization tests
+ * Each wraps the model text in the API envelope ({ data: "..." }) like the real endpoint.
+ */
+
+const envelope = (modelText: string): string => JSON.stringify({ data: modelText });
+
+const product = (brand: string, timeline: unknown[]) => ({
+  brand,
+  product_name: `${brand} product`,
+  timeline,
+  location: 'on the table',
+  description: `${brand} is shown`,
+  confidence: 0.9,
+});
+
+const products = (...items: ReturnType<typeof product>[]): string =>
+  envelope(JSON.stringify({ products: items, tones: ['upbeat'], styles: ['vlog'], creator: 'Sam' }));
+
+// Timelines in seconds, inside a 60s video
+export const SECONDS_RESPONSE = products(product('Nike', [5, 12]), product('Pepsi', [30, 45]));
+
+// Percentages that overshoot a 40s video
+export const PERCENT_OVERSHOOT_RESPONSE = products(product('Nike', [10, 20]), product('Pepsi', [60, 90]));
+
+// Seconds that all fall in the intro of a 600s video
+export const INTRO_SECONDS_RESPONSE = products(product('Nike', [10, 40]), product('Pepsi', [70, 95]));
+
+// Milliseconds, for a 60s video
+export const MILLISECONDS_RESPONSE = products(product('Nike', [5000, 12000]), product('Pepsi', [40000, 58000]));
+
+// Frame numbers at 30 fps, for a 60s video
+export const FRAMES_RESPONSE = products(product('Nike', [150, 360]), product('Pepsi', [1200, 1790]));
+
+// "mm:ss" clock times and numeric strings, for a 120s video
+export const CLOCK_RESPONSE = products(product('Nike', ['0:05', '0:12']), product('Pepsi', ['1:30', '105.5s']));
+
+// Bounds outside a 100s video, reversed, zero-length, past the end and unreadable
+export const INVALID_BOUNDS_RESPONSE = products(
+  product('Nike', [-3, 10]),
+  product('Pepsi', [95, 110]),
+  product('Adidas', [40, 20]),
+  product('Coke', [50, 50]),
+  product('Sprite', [100, 100]),
+  product('Fanta', [115, 118]),
+  product('Puma', ['soon', 'later'])
+);
+
+// Model text wrapped in a ```json fence with prose around it
+export const FENCED_RESPONSE = envelope(
+  'Here are the results:\n```json\n{"products": [{"brand": "Nike", "product_name": "Air Max", "timeline": [1, 4]}], "tones": ["calm"], "styles": [], "creator": "Sam"}\n```\nLet me know if you need more.'
+);
+
+// Trailing commas in the products array and an object
+export const TRAILING_COMMAS_RESPONSE = envelope(
+  '{"products": [{"brand": "Nike", "product_name": "Air Max", "timeline": [1, 4],}, {"brand": "Pepsi", "product_name": "Can", "timeline": [6, 9]},], "tones": ["calm",], "styles": [], "creator": null}'
+);
+
+// Cut off in the middle of the second product
+export const TRUNCATED_ARRAY_RESPONSE = envelope(
+  '{"products": [{"brand": "Nike", "product_name": "Air Max", "timeline": [1, 4]}, {"brand": "Pepsi", "product_na'
+);
+
+// Cut off inside a nested object of the only product
+export const TRUNCATED_OBJECT_RESPONSE = envelope(
+  '{"products": [{"brand": "Nike", "product_name": "Air Max", "timeline": [1, 4], "prominence": {"size": "lar'
+);
+
+// Keys the prompt did not ask for
+export const EXTRA_KEYS_RESPONSE = envelope(
+  '{"products": [{"brand": "Nike", "product_name": "Air Max", "timeline": [1, 4]}], "tones": "calm, upbeat", "styles": ["vlog"], "creator": "Sam", "summary": "A vlog", "confidence_overall": 0.8}'
+);
+
+// Legacy output: a bare array of products, not in an envelope
+export const BARE_ARRAY_RESPONSE = '[{"brand": "Nike", "product_name": "Air Max", "timeline": [1, 4]}]';
+
+// No JSON at all
+export const GARBAGE_RESPONSE = envelope('I am sorry, I cannot watch videos right now.');
+
+// JSON that is broken beyond repair
+export const BROKEN_JSON_RESPONSE = envelope('{"products": [{"brand": Nike product_name: }]}');
+
+// Blank model output
+export const EMPTY_RESPONSE = envelope('   ');
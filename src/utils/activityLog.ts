@@ -0,0 +1,92 @@
+import { randomUUID } from 'crypto';
+import { ActivityLogEntry, AnalysisChangeSummary, WebhookDelivery } from '@/types/analysisChanges';
+import { readJsonFile, writeJsonFile } from '@/utils/localStore';
+
+const ACTIVITY_FILE = 'activity-log.json';
+
+// Oldest entries are dropped beyond this
+const MAX_ENTRIES = 500;
+
+type ActivityLogState = {
+  entries: ActivityLogEntry[]; // newest first
+};
+
+// Keep the update chain on globalThis so dev-server module reloads share it
+const globalForActivity = globalThis as unknown as { activityLogUpdates?: Promise<unknown> };
+
+/**
+ * Runs a read-modify-write of the log after every earlier one, so concurrent
+ * analyses never overwrite each other's entries
+ */
+function updateLog<T>(update: (state: ActivityLogState) => T): Promise<T> {
+  const run = (globalForActivity.activityLogUpdates ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const state = await readJsonFile<ActivityLogState>(ACTIVITY_FILE, { entries: [] });
+      const result = update(state);
+      await writeJsonFile(ACTIVITY_FILE, state);
+      return result;
+    });
+  globalForActivity.activityLogUpdates = run;
+  return run;
+}
+
+/**
+ * Adds a re-analysis change to the activity log
+ * @returns The new entry
+ */
+export async function recordAnalysisChange(changes: AnalysisChangeSummary): Promise<ActivityLogEntry> {
+  const entry: ActivityLogEntry = {
+    id: randomUUID(),
+    type: 'analysis_changed',
+    createdAt: new Date().toISOString(),
+    changes,
+    acknowledged: false,
+  };
+
+  return updateLog((state) => {
+    state.entries = [entry, ...state.entries].slice(0, MAX_ENTRIES);
+    return entry;
+  });
+}
+
+/**
+ * Stores the webhook outcome on an entry
+ */
+export async function recordWebhookDelivery(id: string, webhook: WebhookDelivery): Promise<void> {
+  await updateLog((state) => {
+    const entry = state.entries.find((e) => e.id === id);
+    if (entry) entry.webhook = webhook;
+  });
+}
+
+/**
+ * Lists activity log entries, newest first
+ * @param unacknowledgedOnly Only entries nobody has dismissed yet
+ * @param limit Maximum number of entries
+ */
+export async function listActivity(unacknowledgedOnly: boolean = false, limit: number = 50): Promise<ActivityLogEntry[]> {
+  const state = await readJsonFile<ActivityLogState>(ACTIVITY_FILE, { entries: [] });
+  return state.entries
+    .filter((entry) => !unacknowledgedOnly || !entry.acknowledged)
+    .slice(0, limit);
+}
+
+/**
+ * Marks entries as seen
+ * @param ids Entries to acknowledge; all entries when omitted
+ * @returns Number of entries newly acknowledged
+ */
+export async function acknowledgeActivity(ids?: string[]): Promise<number> {
+  const wanted = ids ? new Set(ids) : null;
+  return updateLog((state) => {
+    let count = 0;
+    state.entries.forEach((entry) => {
+      if (!entry.acknowledged && (!wanted || wanted.has(entry.id))) {
+        entry.acknowledged = true;
+        count++;
+      }
+    });
+    return count;
+  });
+}
@@ -0,0 +1,207 @@
+import { CachedAnalysis } from '@/types/analysisCache';
+import { ProductEventArraySchema, VideoAnalysisMetadata } from '@/types/brandMentions';
+import { BrandSafetyFlagArraySchema } from '@/types/brandSafety';
+import { deleteJsonFile, listDataDir, readJsonFile, writeJsonFile } from '@/utils/localStore';
+
+const CACHE_DIR = 'analysis-cache';
+
+// Analyses older than this are stale and re-run on the next read; 0 keeps them forever
+const CACHE_TTL_HOURS = Number(process.env.ANALYSIS_CACHE_TTL_HOURS || 0);
+
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Builds the cache file path for a video, rejecting IDs that could escape the data directory
+ */
+function cacheFileName(indexId: string, videoId: string): string {
+  if (!SAFE_ID.test(indexId) || !SAFE_ID.test(videoId)) {
+    throw new Error('Invalid indexId or videoId');
+  }
+  return `${CACHE_DIR}/${indexId}/${videoId}.json`;
+}
+
+/**
+ * Checks whether an analysis has outlived the cache TTL
+ * @param analyzedAt When the analysis ran (brand_product_analyzed_at)
+ * @returns False when no TTL is configured; true for analyses of unknown age otherwise
+ */
+export function isAnalysisStale(analyzedAt: string | undefined, now: number = Date.now()): boolean {
+  if (!(CACHE_TTL_HOURS > 0)) return false;
+
+  const time = analyzedAt ? Date.parse(analyzedAt) : NaN;
+  if (Number.isNaN(time)) return true;
+
+  return now - time > CACHE_TTL_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Checks whether analysis `a` ran after analysis `b`; unknown times count as oldest
+ */
+export function isNewerAnalysis(a: string | undefined, b: string | undefined): boolean {
+  const timeA = a ? Date.parse(a) : NaN;
+  const timeB = b ? Date.parse(b) : NaN;
+  if (Number.isNaN(timeA)) return false;
+  if (Number.isNaN(timeB)) return true;
+  return timeA > timeB;
+}
+
+/**
+ * Loads a video's cached analysis
+ * @returns The cached analysis, or null when the video is not cached
+ */
+export async function getCachedAnalysis(indexId: string, videoId: string): Promise<CachedAnalysis | null> {
+  return readJsonFile<CachedAnalysis | null>(cacheFileName(indexId, videoId), null);
+}
+
+/**
+ * Stores a video's analysis, replacing any cached one
+ * @returns The stored entry
+ */
+export async function cacheAnalysis(entry: Omit<CachedAnalysis, 'cachedAt'>): Promise<CachedAnalysis> {
+  const cached: CachedAnalysis = { ...entry, cachedAt: new Date().toISOString() };
+  await writeJsonFile(cacheFileName(entry.indexId, entry.videoId), cached);
+  return cached;
+}
+
+/**
+ * Removes a video's cached analysis, if any
+ */
+export async function removeCachedAnalysis(indexId: string, videoId: string): Promise<void> {
+  await deleteJsonFile(cacheFileName(indexId, videoId));
+}
+
+// Keep the per-video edit chains on globalThis so dev-server module reloads share them
+const globalForCache = globalThis as unknown as { analysisEditQueues?: Map<string, Promise<unknown>> };
+
+/**
+ * Runs a load-modify-save of a video's saved events after every earlier one for the same video,
+ * so concurrent reviews and manual events never overwrite each other
+ * @returns What the edit returns
+ */
+export function queueAnalysisEdit<T>(indexId: string, videoId: string, edit: () => Promise<T>): Promise<T> {
+  const key = cacheFileName(indexId, videoId);
+  const queues = globalForCache.analysisEditQueues ??= new Map<string, Promise<unknown>>();
+  const run = (queues.get(key) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(edit);
+
+  queues.set(key, run);
+  // Drop the chain once idle so the map does not grow with every video ever edited
+  run.catch(() => undefined).finally(() => {
+    if (queues.get(key) === run) queues.delete(key);
+  });
+  return run;
+}
+
+/**
+ * Applies video analysis edits (e.g. a corrected creator) to a cached entry, in the video's edit queue
+ * @returns The updated entry, or null when the video is not cached
+ */
+export async function updateCachedAnalysis(
+  indexId: string,
+  videoId: string,
+  analysis: VideoAnalysisMetadata
+): Promise<CachedAnalysis | null> {
+  return queueAnalysisEdit(indexId, videoId, async () => {
+    const cached = await getCachedAnalysis(indexId, videoId);
+    if (!cached) return null;
+
+    cached.analysis = { ...cached.analysis, ...analysis };
+    await writeJsonFile(cacheFileName(indexId, videoId), cached);
+    return cached;
+  });
+}
+
+/**
+ * Lists every cached analysis of an index
+ */
+export async function listCachedAnalyses(indexId: string): Promise<CachedAnalysis[]> {
+  if (!SAFE_ID.test(indexId)) {
+    throw new Error('Invalid indexId');
+  }
+
+  const files = await listDataDir(`${CACHE_DIR}/${indexId}`);
+  const entries = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => readJsonFile<CachedAnalysis | null>(`${CACHE_DIR}/${indexId}/${file}`, null))
+  );
+
+  return entries.filter((entry): entry is CachedAnalysis => entry !== null);
+}
+
+/**
+ * Reads the analysis stored in a video's user_metadata
+ * @returns The analysis, or null when the metadata holds no events
+ * @throws Error when the stored events are malformed
+ */
+export function analysisFromMetadata(
+  videoId: string,
+  indexId: string,
+  userMetadata: Record<string, unknown> | undefined
+): Omit<CachedAnalysis, 'cachedAt'> | null {
+  if (typeof userMetadata?.brand_product_events !== 'string') {
+    return null;
+  }
+
+  let events: unknown;
+  try {
+    events = JSON.parse(userMetadata.brand_product_events);
+  } catch {
+    throw new Error('Failed to parse events from metadata');
+  }
+
+  // Validate events with schema
+  const validationResult = ProductEventArraySchema.safeParse(events);
+  if (!validationResult.success) {
+    throw new Error('Invalid events format in metadata');
+  }
+
+  // Extract analysis data from metadata
+  const analysis: VideoAnalysisMetadata = {};
+
+  if (typeof userMetadata.video_tones === 'string') {
+    try {
+      analysis.tones = JSON.parse(userMetadata.video_tones);
+    } catch {
+      console.warn('⚠️ Failed to parse video_tones from metadata');
+    }
+  }
+
+  if (typeof userMetadata.video_styles === 'string') {
+    try {
+      analysis.styles = JSON.parse(userMetadata.video_styles);
+    } catch {
+      console.warn('⚠️ Failed to parse video_styles from metadata');
+    }
+  }
+
+  if (typeof userMetadata.video_creator === 'string' && userMetadata.video_creator) {
+    analysis.creator = userMetadata.video_creator;
+  }
+
+  if (typeof userMetadata.video_brand_safety === 'string') {
+    try {
+      const safety = BrandSafetyFlagArraySchema.safeParse(JSON.parse(userMetadata.video_brand_safety));
+      if (safety.success) {
+        analysis.safety = safety.data;
+      } else {
+        console.warn('⚠️ Invalid video_brand_safety in metadata');
+      }
+    } catch {
+      console.warn('⚠️ Failed to parse video_brand_safety from metadata');
+    }
+  }
+
+  return {
+    videoId,
+    indexId,
+    events: validationResult.data,
+    analysis,
+    analyzedAt: typeof userMetadata.brand_product_analyzed_at === 'string' ? userMetadata.brand_product_analyzed_at : undefined,
+    source: typeof userMetadata.brand_product_source === 'string' ? userMetadata.brand_product_source : undefined,
+    promptVersion: typeof userMetadata.brand_product_prompt_version === 'string'
+      ? userMetadata.brand_product_prompt_version
+      : undefined,
+  };
+}
@@ -0,0 +1,95 @@
+import { AnalysisCacheSyncDirection, AnalysisCacheSyncResult } from '@/types/analysisCache';
+import {
+  analysisFromMetadata,
+  cacheAnalysis,
+  getCachedAnalysis,
+  isNewerAnalysis,
+  listCachedAnalyses
+} from '@/utils/analysisCache';
+import { pushAnalysisMetadata } from '@/utils/brandAnalysis';
+import { listIndexVideos } from '@/utils/indexVideos';
+
+/**
+ * Copies analyses from user_metadata into the cache where the metadata is newer (or not cached yet)
+ */
+async function pullFromMetadata(indexId: string, result: AnalysisCacheSyncResult): Promise<void> {
+  const videos = await listIndexVideos(indexId);
+  result.scanned = videos.length;
+
+  for (const video of videos) {
+    try {
+      const stored = analysisFromMetadata(video._id, indexId, video.user_metadata);
+      const cached = stored && await getCachedAnalysis(indexId, video._id);
+
+      if (!stored || (cached && !isNewerAnalysis(stored.analyzedAt, cached.analyzedAt))) {
+        result.skipped++;
+        continue;
+      }
+
+      await cacheAnalysis(stored);
+      result.updated++;
+    } catch (error) {
+      result.failed.push({ videoId: video._id, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+}
+
+/**
+ * Writes cached analyses to user_metadata where the cache is newer (or the metadata has none)
+ */
+async function pushToMetadata(indexId: string, result: AnalysisCacheSyncResult): Promise<void> {
+  const videos = await listIndexVideos(indexId);
+  const metadataByVideo = new Map(videos.map((video) => [video._id, video.user_metadata ?? {}]));
+  const cached = await listCachedAnalyses(indexId);
+  result.scanned = cached.length;
+
+  for (const entry of cached) {
+    const metadata = metadataByVideo.get(entry.videoId);
+    const metadataAnalyzedAt = typeof metadata?.brand_product_analyzed_at === 'string'
+      ? metadata.brand_product_analyzed_at
+      : undefined;
+
+    // Videos deleted from the index, and metadata already up to date, are left alone
+    if (!metadata || (metadata.brand_product_events && !isNewerAnalysis(entry.analyzedAt, metadataAnalyzedAt))) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      if (await pushAnalysisMetadata(entry)) {
+        result.updated++;
+      } else {
+        result.failed.push({ videoId: entry.videoId, error: 'Failed to update video metadata' });
+      }
+    } catch (error) {
+      result.failed.push({ videoId: entry.videoId, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+}
+
+/**
+ * Syncs an index's local analysis cache with the videos' user_metadata
+ * @param direction pull backfills the cache from user_metadata; push writes the cache to user_metadata
+ * @returns Counts of scanned, updated and skipped videos, plus per-video failures
+ */
+export async function syncAnalysisCache(
+  indexId: string,
+  direction: AnalysisCacheSyncDirection
+): Promise<AnalysisCacheSyncResult> {
+  const result: AnalysisCacheSyncResult = {
+    indexId,
+    direction,
+    scanned: 0,
+    updated: 0,
+    skipped: 0,
+    failed: [],
+  };
+
+  if (direction === 'pull') {
+    await pullFromMetadata(indexId, result);
+  } else {
+    await pushToMetadata(indexId, result);
+  }
+
+  return result;
+}
@@ -0,0 +1,114 @@
+import { ProductEvent } from '@/types/brandMentions';
+import { AnalysisChangeSummary, BrandExposureChange } from '@/types/analysisChanges';
+import { recordAnalysisChange, recordWebhookDelivery } from '@/utils/activityLog';
+import { exposureIntervals } from '@/utils/brandMetrics';
+import { reviewStatusOf } from '@/utils/eventReview';
+import { sendWebhook } from '@/utils/webhooks';
+
+// Screen time differences below this are noise between runs, not a change
+const EXPOSURE_CHANGE_THRESHOLD_SEC = 0.5;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Screen time per brand, counting overlapping events once as the brand metrics do
+ */
+function exposureByBrand(events: ProductEvent[], duration: number): Map<string, number> {
+  const eventsByBrand = new Map<string, ProductEvent[]>();
+  events
+    .filter((event) => reviewStatusOf(event) !== 'rejected')
+    .forEach((event) => {
+      eventsByBrand.set(event.brand, [...(eventsByBrand.get(event.brand) ?? []), event]);
+    });
+
+  const exposure = new Map<string, number>();
+  eventsByBrand.forEach((brandEvents, brand) => {
+    const seconds = exposureIntervals(brandEvents, duration)
+      .reduce((sum, interval) => sum + interval.end - interval.start, 0);
+    if (seconds > 0) exposure.set(brand, seconds);
+  });
+  return exposure;
+}
+
+/**
+ * Compares a video's brand results before and after a re-analysis
+ * @param previous Events saved before the run
+ * @param current Events saved by the run
+ * @param duration Video duration in seconds, used to clamp events; 0 when unknown
+ */
+export function summarizeAnalysisChanges(
+  previous: ProductEvent[],
+  current: ProductEvent[],
+  duration: number,
+  context: Pick<AnalysisChangeSummary, 'videoId' | 'indexId' | 'creator' | 'promptVersion' | 'previousAnalyzedAt' | 'analyzedAt'>
+): AnalysisChangeSummary {
+  const before = exposureByBrand(previous, duration);
+  const after = exposureByBrand(current, duration);
+  const brands = Array.from(new Set([...before.keys(), ...after.keys()])).sort((a, b) => a.localeCompare(b));
+
+  const exposureChanges: BrandExposureChange[] = brands
+    .map((brand) => {
+      const previousSec = before.get(brand) ?? 0;
+      const currentSec = after.get(brand) ?? 0;
+      return {
+        brand,
+        previousSec: round(previousSec),
+        currentSec: round(currentSec),
+        deltaSec: round(currentSec - previousSec),
+      };
+    })
+    .filter((change) => Math.abs(change.deltaSec) >= EXPOSURE_CHANGE_THRESHOLD_SEC)
+    .sort((a, b) => Math.abs(b.deltaSec) - Math.abs(a.deltaSec));
+
+  const total = (exposure: Map<string, number>) =>
+    round(Array.from(exposure.values()).reduce((sum, seconds) => sum + seconds, 0));
+
+  return {
+    ...context,
+    brandsAdded: brands.filter((brand) => !before.has(brand)),
+    brandsRemoved: brands.filter((brand) => !after.has(brand)),
+    exposureChanges,
+    previousExposureSec: total(before),
+    currentExposureSec: total(after),
+  };
+}
+
+/**
+ * Whether a re-analysis added or removed a brand or moved a brand's screen time
+ */
+export function hasAnalysisChanges(summary: AnalysisChangeSummary): boolean {
+  return summary.brandsAdded.length > 0 || summary.brandsRemoved.length > 0 || summary.exposureChanges.length > 0;
+}
+
+/**
+ * Sends a recorded change to the webhook and stores the delivery outcome on its log entry
+ */
+async function deliverAnalysisChanges(entryId: string, summary: AnalysisChangeSummary): Promise<void> {
+  try {
+    const delivery = await sendWebhook({ type: 'analysis_changed', sentAt: new Date().toISOString(), changes: summary });
+    if (delivery) {
+      await recordWebhookDelivery(entryId, delivery);
+    }
+  } catch (error) {
+    console.warn(`⚠️ Failed to deliver analysis changes for video ${summary.videoId}:`, error);
+  }
+}
+
+/**
+ * Records a change in the activity log and sends it to the webhook in the background
+ * Nothing is recorded when the results did not change. Errors are logged, never thrown,
+ * so notifications cannot fail an analysis that was already saved, and a slow receiver
+ * does not hold up the analysis response; the delivery outcome is added to the entry when known.
+ */
+export async function notifyAnalysisChanges(summary: AnalysisChangeSummary): Promise<void> {
+  if (!hasAnalysisChanges(summary)) {
+    return;
+  }
+
+  try {
+    const entry = await recordAnalysisChange(summary);
+    void deliverAnalysisChanges(entry.id, summary);
+  } catch (error) {
+    console.warn(`⚠️ Failed to report analysis changes for video ${summary.videoId}:`, error);
+  }
+}
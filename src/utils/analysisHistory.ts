@@ -0,0 +1,215 @@
+import { ProductEvent } from '@/types/brandMentions';
+import {
+  AnalysisParseFailure,
+  AnalysisVersion,
+  AnalysisVersionDiff,
+  AnalysisVersionSummary,
+  ChangedEvent,
+  VideoAnalysisHistory
+} from '@/types/analysisHistory';
+import { readJsonFile, writeJsonFile } from '@/utils/localStore';
+
+// Fields compared when deciding whether a matched event changed between versions
+const COMPARED_FIELDS: (keyof ProductEvent)[] = [
+  'brand', 'product_name', 'timeline_start', 'timeline_end', 'location', 'description', 'confidence', 'prominence'
+];
+
+/**
+ * Builds the history file path for a video, rejecting IDs that could escape the data directory
+ */
+function historyFileName(indexId: string, videoId: string): string {
+  const safe = /^[A-Za-z0-9_-]+$/;
+  if (!safe.test(indexId) || !safe.test(videoId)) {
+    throw new Error('Invalid indexId or videoId');
+  }
+  return `analysis-history/${indexId}/${videoId}.json`;
+}
+
+/**
+ * Loads the stored analysis history of a video
+ * @returns The history; empty when the video was never analyzed
+ */
+export async function loadVideoHistory(indexId: string, videoId: string): Promise<VideoAnalysisHistory> {
+  return readJsonFile<VideoAnalysisHistory>(historyFileName(indexId, videoId), {
+    videoId,
+    indexId,
+    activeVersion: null,
+    versions: [],
+  });
+}
+
+// Keep the per-video update chains on globalThis so dev-server module reloads share them
+const globalForHistory = globalThis as unknown as { analysisHistoryUpdates?: Map<string, Promise<unknown>> };
+
+/**
+ * Runs a read-modify-write of a video's history after every earlier one for the same video,
+ * so concurrent runs and rollbacks never overwrite each other's changes
+ * @param update Changes the history in place; returning null leaves the file untouched
+ */
+function updateHistory<T>(
+  indexId: string,
+  videoId: string,
+  update: (history: VideoAnalysisHistory) => T | null
+): Promise<T | null> {
+  const fileName = historyFileName(indexId, videoId);
+  const updates = globalForHistory.analysisHistoryUpdates ??= new Map<string, Promise<unknown>>();
+  const run = (updates.get(fileName) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const history = await loadVideoHistory(indexId, videoId);
+      const result = update(history);
+      if (result !== null) {
+        await writeJsonFile(fileName, history);
+      }
+      return result;
+    });
+
+  updates.set(fileName, run);
+  // Drop the chain once idle so the map does not grow with every video ever analyzed
+  run.catch(() => undefined).finally(() => {
+    if (updates.get(fileName) === run) updates.delete(fileName);
+  });
+  return run;
+}
+
+/**
+ * Stores a new analysis run as the next version and makes it active
+ * @param snapshot Parsed output and provenance of the run
+ * @returns The stored version
+ */
+export async function recordAnalysisVersion(
+  indexId: string,
+  videoId: string,
+  snapshot: Omit<AnalysisVersion, 'version' | 'createdAt'>
+): Promise<AnalysisVersion> {
+  const stored = await updateHistory(indexId, videoId, (history) => {
+    const version: AnalysisVersion = {
+      ...snapshot,
+      version: history.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+      createdAt: new Date().toISOString(),
+    };
+
+    history.versions.push(version);
+    history.activeVersion = version.version;
+    return version;
+  });
+
+  return stored!;
+}
+
+/**
+ * Keeps the raw output of a run that could not be parsed; the active version is not changed
+ */
+export async function recordParseFailure(
+  indexId: string,
+  videoId: string,
+  failure: Omit<AnalysisParseFailure, 'createdAt'>
+): Promise<void> {
+  await updateHistory(indexId, videoId, (history) => {
+    history.lastParseFailure = { ...failure, createdAt: new Date().toISOString() };
+    return true;
+  });
+}
+
+/**
+ * Summarizes every stored version of a video, newest first
+ */
+export function summarizeVersions(history: VideoAnalysisHistory): AnalysisVersionSummary[] {
+  return [...history.versions]
+    .sort((a, b) => b.version - a.version)
+    .map((v) => ({
+      version: v.version,
+      createdAt: v.createdAt,
+      promptVersion: v.promptVersion,
+      model: v.model,
+      eventCount: v.events.length,
+      brands: Array.from(new Set(v.events.map((event) => event.brand))).sort(),
+      active: v.version === history.activeVersion,
+    }));
+}
+
+/**
+ * Finds a version in a video's history
+ */
+export function findVersion(history: VideoAnalysisHistory, version: number): AnalysisVersion | null {
+  return history.versions.find((v) => v.version === version) ?? null;
+}
+
+/**
+ * Marks a stored version as the active one
+ * @returns The activated version, or null if it does not exist
+ */
+export async function setActiveVersion(indexId: string, videoId: string, version: number): Promise<AnalysisVersion | null> {
+  return updateHistory(indexId, videoId, (history) => {
+    const target = findVersion(history, version);
+    if (!target) return null;
+
+    history.activeVersion = version;
+    return target;
+  });
+}
+
+function eventKey(event: ProductEvent): string {
+  return `${event.brand.trim().toLowerCase()}|${event.product_name.trim().toLowerCase()}`;
+}
+
+function overlapSeconds(a: ProductEvent, b: ProductEvent): number {
+  return Math.max(0, Math.min(a.timeline_end, b.timeline_end) - Math.max(a.timeline_start, b.timeline_start));
+}
+
+/**
+ * Compares two versions' events one by one.
+ * Events are paired when they share brand and product and their timelines
+ * overlap (largest overlap first); unpaired events count as added or removed.
+ */
+export function diffEventVersions(
+  from: Pick<AnalysisVersion, 'version' | 'events'>,
+  to: Pick<AnalysisVersion, 'version' | 'events'>
+): AnalysisVersionDiff {
+  const unmatchedTo = new Set(to.events.map((_, i) => i));
+  const removed: ProductEvent[] = [];
+  const changed: ChangedEvent[] = [];
+  let unchanged = 0;
+
+  from.events.forEach((fromEvent) => {
+    let bestIndex = -1;
+    let bestOverlap = -1;
+
+    unmatchedTo.forEach((i) => {
+      const candidate = to.events[i];
+      if (eventKey(candidate) !== eventKey(fromEvent)) return;
+      const overlap = overlapSeconds(fromEvent, candidate);
+      const identical = candidate.timeline_start === fromEvent.timeline_start && candidate.timeline_end === fromEvent.timeline_end;
+      if ((overlap > 0 || identical) && overlap > bestOverlap) {
+        bestIndex = i;
+        bestOverlap = overlap;
+      }
+    });
+
+    if (bestIndex < 0) {
+      removed.push(fromEvent);
+      return;
+    }
+
+    unmatchedTo.delete(bestIndex);
+    const toEvent = to.events[bestIndex];
+    const changes = COMPARED_FIELDS.filter(
+      (field) => JSON.stringify(fromEvent[field]) !== JSON.stringify(toEvent[field])
+    );
+
+    if (changes.length > 0) {
+      changed.push({ from: fromEvent, to: toEvent, changes });
+    } else {
+      unchanged++;
+    }
+  });
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    added: Array.from(unmatchedTo).map((i) => to.events[i]),
+    removed,
+    changed,
+    unchanged,
+  };
+}
@@ -0,0 +1,333 @@
+import { randomUUID } from 'crypto';
+import { AnalysisJob, AnalysisJobProgress, AnalysisJobWithProgress } from '@/types/analysisJobs';
+import { analyzeVideo } from '@/utils/brandAnalysis';
+import { readJsonFile, writeJsonFile } from '@/utils/localStore';
+
+const JOBS_FILE = 'analysis-jobs.json';
+
+// Pause between videos to avoid overwhelming the Analyze API
+const ITEM_DELAY_MS = 1000;
+
+type JobStoreState = {
+  jobs: AnalysisJob[];
+};
+
+type JobRuntime = {
+  state: JobStoreState | null;
+  loading: Promise<JobStoreState> | null;
+  writing: Promise<void>;
+  workerRunning: boolean;
+};
+
+// Keep runtime state on globalThis so dev-server module reloads share one store and one worker
+const globalForJobs = globalThis as unknown as { analysisJobRuntime?: JobRuntime };
+const runtime: JobRuntime = globalForJobs.analysisJobRuntime ?? {
+  state: null,
+  loading: null,
+  writing: Promise.resolve(),
+  workerRunning: false,
+};
+globalForJobs.analysisJobRuntime = runtime;
+
+/**
+ * Loads the job store from disk once, recovering jobs interrupted by a restart
+ */
+async function loadState(): Promise<JobStoreState> {
+  if (runtime.state) {
+    return runtime.state;
+  }
+
+  if (!runtime.loading) {
+    runtime.loading = readJsonFile<JobStoreState>(JOBS_FILE, { jobs: [] }).then((state) => {
+      // Anything still marked running was cut off mid-flight: put it back in the queue
+      state.jobs.forEach((job) => {
+        if (job.status === 'running') {
+          job.status = 'queued';
+        }
+        job.items.forEach((item) => {
+          if (item.status === 'running') {
+            item.status = 'pending';
+          }
+        });
+      });
+      runtime.state = state;
+      return state;
+    }).catch((error) => {
+      // Forget the failed load so the next call reads the file again
+      runtime.loading = null;
+      throw error;
+    });
+  }
+
+  return runtime.loading;
+}
+
+/**
+ * Persists the job store, serializing writes so they never interleave
+ * @throws The write error; later writes still run
+ */
+function persist(): Promise<void> {
+  const write = runtime.writing.then(() => (runtime.state ? writeJsonFile(JOBS_FILE, runtime.state) : undefined));
+  runtime.writing = write.catch((error) => {
+    console.error('❌ Failed to persist analysis jobs:', error);
+  });
+  return write;
+}
+
+/**
+ * Persists worker progress; a failed write is logged and caught up by the next one,
+ * so it never stops the worker
+ */
+function persistProgress(): Promise<void> {
+  return persist().catch(() => undefined);
+}
+
+function touch(job: AnalysisJob): void {
+  job.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Computes progress counters for a job
+ */
+export function getJobProgress(job: AnalysisJob): AnalysisJobProgress {
+  const total = job.items.length;
+  const succeeded = job.items.filter((item) => item.status === 'succeeded').length;
+  const partial = job.items.filter((item) => item.status === 'partial').length;
+  const failed = job.items.filter((item) => item.status === 'failed').length;
+  const completed = succeeded + partial + failed;
+
+  return {
+    total,
+    completed,
+    succeeded,
+    partial,
+    failed,
+    percent: total > 0 ? Math.round((completed / total) * 100) : 100,
+  };
+}
+
+function withProgress(job: AnalysisJob): AnalysisJobWithProgress {
+  return { ...job, items: job.items.map((item) => ({ ...item })), progress: getJobProgress(job) };
+}
+
+/**
+ * Returns true when a job will not be picked up by the worker again
+ */
+export function isJobFinished(job: AnalysisJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Creates a new job for the given videos and wakes the worker
+ * @param indexId Index containing the videos
+ * @param videoIds Videos to analyze
+ * @param segmentAnalysis Whether to run segment-based analysis
+ * @param templateId Prompt template to analyze with
+ * @returns The queued job
+ * @throws When the job could not be stored; it is not queued then
+ */
+export async function enqueueAnalysisJob(
+  indexId: string,
+  videoIds: string[],
+  segmentAnalysis: boolean = false,
+  templateId?: string
+): Promise<AnalysisJobWithProgress> {
+  const state = await loadState();
+  const now = new Date().toISOString();
+
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    indexId,
+    segmentAnalysis,
+    templateId,
+    status: 'queued',
+    items: Array.from(new Set(videoIds)).map((videoId) => ({
+      videoId,
+      status: 'pending',
+      attempts: 0,
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  state.jobs.push(job);
+  try {
+    await persist();
+  } catch (error) {
+    state.jobs = state.jobs.filter((queued) => queued !== job);
+    throw error;
+  }
+  startAnalysisWorker();
+
+  return withProgress(job);
+}
+
+/**
+ * Lists all jobs, newest first
+ */
+export async function listAnalysisJobs(): Promise<AnalysisJobWithProgress[]> {
+  const state = await loadState();
+  return [...state.jobs]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(withProgress);
+}
+
+/**
+ * Gets a single job by ID
+ * @returns The job, or null if it does not exist
+ */
+export async function getAnalysisJob(jobId: string): Promise<AnalysisJobWithProgress | null> {
+  const state = await loadState();
+  const job = state.jobs.find((j) => j.id === jobId);
+  return job ? withProgress(job) : null;
+}
+
+/**
+ * Cancels a job. Queued jobs are cancelled immediately; a running job stops
+ * after the video currently being analyzed.
+ * @returns The updated job, or null if it does not exist
+ */
+export async function cancelAnalysisJob(jobId: string): Promise<AnalysisJobWithProgress | null> {
+  const state = await loadState();
+  const job = state.jobs.find((j) => j.id === jobId);
+  if (!job) return null;
+  if (isJobFinished(job)) return withProgress(job);
+
+  if (job.status === 'running') {
+    job.cancelRequested = true;
+  } else {
+    job.items.forEach((item) => {
+      if (item.status === 'pending') {
+        item.status = 'cancelled';
+      }
+    });
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+  }
+
+  touch(job);
+  await persist();
+  return withProgress(job);
+}
+
+/**
+ * Re-queues the failed, partial and cancelled videos of a finished job
+ * @returns The updated job, or null if it does not exist
+ */
+export async function retryAnalysisJob(jobId: string): Promise<AnalysisJobWithProgress | null> {
+  const state = await loadState();
+  const job = state.jobs.find((j) => j.id === jobId);
+  if (!job) return null;
+  if (job.status !== 'failed' && job.status !== 'cancelled') return withProgress(job);
+
+  job.items.forEach((item) => {
+    if (item.status === 'failed' || item.status === 'partial' || item.status === 'cancelled') {
+      item.status = 'pending';
+      item.error = undefined;
+      item.finishedAt = undefined;
+    }
+  });
+  job.status = 'queued';
+  job.cancelRequested = false;
+  job.finishedAt = undefined;
+
+  touch(job);
+  await persist();
+  startAnalysisWorker();
+
+  return withProgress(job);
+}
+
+/**
+ * Runs every pending video of a job through the analysis pipeline
+ */
+async function processJob(job: AnalysisJob): Promise<void> {
+  job.status = 'running';
+  job.startedAt = job.startedAt || new Date().toISOString();
+  touch(job);
+  await persistProgress();
+
+  for (const item of job.items) {
+    if (job.cancelRequested) break;
+    if (item.status !== 'pending') continue;
+
+    item.status = 'running';
+    item.attempts += 1;
+    item.startedAt = new Date().toISOString();
+    touch(job);
+    await persistProgress();
+
+    try {
+      const result = await analyzeVideo({
+        videoId: item.videoId,
+        indexId: job.indexId,
+        segmentAnalysis: job.segmentAnalysis,
+        templateId: job.templateId,
+      });
+      if (result.status === 'parse_failed') {
+        item.status = 'failed';
+        item.error = `Failed to parse Analyze output: ${result.parseError}`;
+      } else if (result.status === 'partial') {
+        item.status = 'partial';
+        item.eventCount = result.events.length;
+        item.error = `${result.failedWindows?.length ?? 0} segment windows failed; their earlier events were kept`;
+      } else {
+        item.status = 'succeeded';
+        item.eventCount = result.events.length;
+        item.error = undefined;
+      }
+    } catch (error) {
+      console.error(`❌ Job ${job.id}: failed to analyze video ${item.videoId}:`, error);
+      item.status = 'failed';
+      item.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    item.finishedAt = new Date().toISOString();
+    touch(job);
+    await persistProgress();
+
+    await new Promise(resolve => setTimeout(resolve, ITEM_DELAY_MS));
+  }
+
+  if (job.cancelRequested) {
+    job.items.forEach((item) => {
+      if (item.status === 'pending') {
+        item.status = 'cancelled';
+      }
+    });
+    job.status = 'cancelled';
+  } else {
+    // Partial videos fail the job too, so they can be retried
+    job.status = job.items.some((item) => item.status === 'failed' || item.status === 'partial') ? 'failed' : 'completed';
+  }
+
+  job.cancelRequested = false;
+  job.finishedAt = new Date().toISOString();
+  touch(job);
+  await persistProgress();
+}
+
+/**
+ * Starts the background worker if it is not already running.
+ * The worker drains queued jobs oldest-first, one at a time, then stops.
+ */
+export function startAnalysisWorker(): void {
+  if (runtime.workerRunning) return;
+  runtime.workerRunning = true;
+
+  (async () => {
+    try {
+      const state = await loadState();
+
+      let next = state.jobs.find((job) => job.status === 'queued');
+      while (next) {
+        await processJob(next);
+        next = state.jobs.find((job) => job.status === 'queued');
+      }
+    } catch (error) {
+      console.error('❌ Analysis worker stopped unexpectedly:', error);
+    } finally {
+      runtime.workerRunning = false;
+    }
+  })();
+}
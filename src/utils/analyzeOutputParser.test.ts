@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { extractAnalyzeJson, parseAnalyzeOutput } from '@/utils/analyzeOutputParser';
+import {
+  BARE_ARRAY_RESPONSE,
+  BROKEN_JSON_RESPONSE,
+  EMPTY_RESPONSE,
+  EXTRA_KEYS_RESPONSE,
+  FENCED_RESPONSE,
+  GARBAGE_RESPONSE,
+  TRAILING_COMMAS_RESPONSE,
+  TRUNCATED_ARRAY_RESPONSE,
+  TRUNCATED_OBJECT_RESPONSE
+} from '@/utils/__fixtures__/analyzeResponses';
+
+const brands = (items: unknown[]) => items.map((item) => (item as { brand: string }).brand);
+
+describe('parseAnalyzeOutput', () => {
+  it('strips markdown fences and the prose around them', () => {
+    const result = parseAnalyzeOutput(FENCED_RESPONSE);
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(brands(result.items)).toEqual(['Nike']);
+    expect(result.analysis).toEqual({ tones: ['calm'], styles: [], creator: 'Sam' });
+    expect(result.repairs).toContain('stripped_markdown_fences');
+  });
+
+  it('removes trailing commas', () => {
+    const result = parseAnalyzeOutput(TRAILING_COMMAS_RESPONSE);
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(brands(result.items)).toEqual(['Nike', 'Pepsi']);
+    expect(result.analysis.tones).toEqual(['calm']);
+    expect(result.analysis.creator).toBeUndefined();
+    expect(result.repairs).toEqual(['removed_trailing_commas']);
+  });
+
+  it('keeps the complete items of a truncated array', () => {
+    const result = parseAnalyzeOutput(TRUNCATED_ARRAY_RESPONSE);
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(brands(result.items)).toEqual(['Nike']);
+    expect(result.repairs).toEqual(expect.arrayContaining(['closed_truncated_json', 'dropped_incomplete_item']));
+  });
+
+  it('closes a truncated object up to its last complete value', () => {
+    const result = parseAnalyzeOutput(TRUNCATED_OBJECT_RESPONSE);
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.items).toEqual([{ brand: 'Nike', product_name: 'Air Max', timeline: [1, 4] }]);
+    expect(result.repairs).toContain('closed_truncated_json');
+  });
+
+  it('reports and ignores extra keys, and splits comma-separated lists', () => {
+    const result = parseAnalyzeOutput(EXTRA_KEYS_RESPONSE);
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.ignoredKeys).toEqual(['summary', 'confidence_overall']);
+    expect(result.analysis.tones).toEqual(['calm', 'upbeat']);
+    expect(result.repairs).toEqual(expect.arrayContaining(['ignored_extra_keys', 'coerced_field_types']));
+  });
+
+  it('wraps a legacy bare array', () => {
+    const result = parseAnalyzeOutput(BARE_ARRAY_RESPONSE);
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(brands(result.items)).toEqual(['Nike']);
+    expect(result.repairs).toEqual(['wrapped_bare_array']);
+  });
+
+  it('fails on total garbage and keeps the raw text', () => {
+    const result = parseAnalyzeOutput(GARBAGE_RESPONSE);
+    expect(result).toMatchObject({ status: 'parse_failed', rawText: GARBAGE_RESPONSE });
+  });
+
+  it('fails on JSON that cannot be repaired and keeps the raw text', () => {
+    const result = parseAnalyzeOutput(BROKEN_JSON_RESPONSE);
+    expect(result).toMatchObject({ status: 'parse_failed', rawText: BROKEN_JSON_RESPONSE });
+  });
+
+  it('fails on JSON without products and keeps the raw text', () => {
+    const text = JSON.stringify({ data: '{"result": "no brands"}' });
+    expect(parseAnalyzeOutput(text)).toMatchObject({ status: 'parse_failed', rawText: text });
+  });
+
+  it('reports blank output as empty', () => {
+    expect(parseAnalyzeOutput(EMPTY_RESPONSE)).toEqual({ status: 'empty', repairs: [] });
+    expect(parseAnalyzeOutput('')).toEqual({ status: 'empty', repairs: [] });
+  });
+});
+
+describe('extractAnalyzeJson', () => {
+  it('returns the value without a products shape', () => {
+    const result = extractAnalyzeJson(JSON.stringify({ data: '{"flags": []}' }));
+    expect(result).toEqual({ status: 'ok', value: { flags: [] }, repairs: [] });
+  });
+
+  it('fails when output is truncated before any complete value', () => {
+    const text = JSON.stringify({ data: '{"flags": [{"category": "alc' });
+    expect(extractAnalyzeJson(text)).toMatchObject({ status: 'parse_failed', rawText: text });
+  });
+});
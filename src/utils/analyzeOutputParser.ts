@@ -0,0 +1,275 @@
+import { AnalyzeJsonExtraction, AnalyzeOutputParseResult, ParseRepair, VideoAnalysisMetadata } from '@/types/brandMentions';
+
+// Top-level keys the Analyze prompt asks for; anything else is reported and ignored
+const KNOWN_KEYS = ['products', 'tones', 'styles', 'creator'];
+
+// A fenced block (```json ... ```); the closing fence may be missing when output is truncated
+const MARKDOWN_FENCE = /```[a-zA-Z]*\s*\n?([\s\S]*?)(?:```|$)/;
+
+type JsonScan = {
+  end: number; // index after the balanced closing bracket, or -1 when the text is truncated
+  safeCut: number; // index after the last closing bracket seen
+  openAtSafeCut: string[]; // brackets still open at safeCut
+};
+
+/**
+ * Returns the model text from an Analyze API envelope ({ data: "..." }), or the text itself
+ */
+function unwrapEnvelope(text: string): string {
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && typeof parsed.data === 'string') {
+      return parsed.data;
+    }
+  } catch {
+    // Not an envelope; the text is the model output itself
+  }
+  return text;
+}
+
+/**
+ * Walks a JSON value starting at `start`, tracking brackets outside strings
+ */
+function scanJson(text: string, start: number): JsonScan {
+  const open: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeCut = start;
+  let openAtSafeCut: string[] = [];
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      open.push(char);
+    } else if (char === '}' || char === ']') {
+      open.pop();
+      if (open.length === 0) {
+        return { end: i + 1, safeCut: i + 1, openAtSafeCut: [] };
+      }
+      safeCut = i + 1;
+      openAtSafeCut = [...open];
+    }
+  }
+
+  return { end: -1, safeCut, openAtSafeCut };
+}
+
+/**
+ * Removes commas directly before a closing bracket, ignoring commas inside strings
+ */
+function removeTrailingCommas(text: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      result += char;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+function tryParse(text: string): { value: unknown } | null {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a tone/style list, accepting a comma-separated string in place of an array
+ */
+function toStringList(value: unknown, repairs: Set<ParseRepair>): string[] {
+  if (Array.isArray(value)) {
+    const strings = value.filter((v): v is string => typeof v === 'string');
+    if (strings.length < value.length) repairs.add('coerced_field_types');
+    return strings;
+  }
+  if (typeof value === 'string') {
+    repairs.add('coerced_field_types');
+    return value.split(',').map((v) => v.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Maps a parsed JSON value onto product items and video analysis
+ */
+function toOutputShape(
+  value: unknown,
+  repairs: Set<ParseRepair>
+): { items: unknown[]; analysis: VideoAnalysisMetadata; ignoredKeys: string[] } | { error: string } {
+  // Legacy format: a bare array of products
+  if (Array.isArray(value)) {
+    repairs.add('wrapped_bare_array');
+    return { items: value, analysis: {}, ignoredKeys: [] };
+  }
+
+  if (!value || typeof value !== 'object') {
+    return { error: 'Output is not a JSON object or array' };
+  }
+
+  const record = value as Record<string, unknown>;
+
+  if (record.products === undefined) {
+    // A single product object instead of the products wrapper
+    if (typeof record.brand === 'string') {
+      repairs.add('wrapped_single_item');
+      return { items: [record], analysis: {}, ignoredKeys: [] };
+    }
+    return { error: 'Output has no "products" field' };
+  }
+
+  let items: unknown[];
+  if (Array.isArray(record.products)) {
+    items = record.products;
+  } else if (record.products === null) {
+    repairs.add('coerced_field_types');
+    items = [];
+  } else if (typeof record.products === 'object') {
+    repairs.add('coerced_field_types');
+    items = [record.products];
+  } else {
+    return { error: '"products" is not an array' };
+  }
+
+  const ignoredKeys = Object.keys(record).filter((key) => !KNOWN_KEYS.includes(key));
+  if (ignoredKeys.length > 0) repairs.add('ignored_extra_keys');
+
+  const creator = typeof record.creator === 'string' && record.creator.trim() && record.creator.trim().toLowerCase() !== 'null'
+    ? record.creator.trim()
+    : undefined;
+
+  return {
+    items,
+    analysis: {
+      tones: toStringList(record.tones, repairs),
+      styles: toStringList(record.styles, repairs),
+      creator,
+    },
+    ignoredKeys,
+  };
+}
+
+/**
+ * Extracts the JSON value from Analyze API output, whatever the prompt asked for.
+ *
+ * Accepts the API envelope or the bare model text, and repairs markdown fences,
+ * prose around the JSON, trailing commas and output truncated mid-array.
+ * @param responseText Raw Analyze API response text
+ * @returns ok with the value, empty for blank output, or parse_failed with the raw text
+ */
+export function extractAnalyzeJson(responseText: string): AnalyzeJsonExtraction {
+  const repairs = new Set<ParseRepair>();
+  const fail = (error: string): AnalyzeJsonExtraction => ({
+    status: 'parse_failed',
+    error,
+    rawText: responseText,
+    repairs: Array.from(repairs),
+  });
+
+  let text = responseText ? unwrapEnvelope(responseText).trim() : '';
+  if (!text) {
+    return { status: 'empty', repairs: [] };
+  }
+
+  const fenced = MARKDOWN_FENCE.exec(text);
+  if (fenced) {
+    text = fenced[1].trim();
+    repairs.add('stripped_markdown_fences');
+  }
+
+  const start = text.search(/[[{]/);
+  if (start < 0) {
+    return fail('No JSON object or array found in output');
+  }
+
+  const scan = scanJson(text, start);
+  let parsed: { value: unknown } | null;
+
+  if (scan.end >= 0) {
+    if (start > 0 || text.slice(scan.end).trim()) repairs.add('extracted_json');
+
+    const candidate = text.slice(start, scan.end);
+    parsed = tryParse(candidate);
+    if (!parsed) {
+      parsed = tryParse(removeTrailingCommas(candidate));
+      if (parsed) repairs.add('removed_trailing_commas');
+    }
+  } else {
+    // Truncated output: keep everything up to the last complete value and close what is still open
+    if (start > 0) repairs.add('extracted_json');
+    if (scan.safeCut <= start) {
+      return fail('Output is truncated before any complete value');
+    }
+
+    const closers = scan.openAtSafeCut.reverse().map((bracket) => (bracket === '{' ? '}' : ']')).join('');
+    const dropped = text.slice(scan.safeCut).replace(/^[\s,]+/, '');
+    parsed = tryParse(removeTrailingCommas(text.slice(start, scan.safeCut) + closers));
+    if (parsed) {
+      repairs.add('closed_truncated_json');
+      if (dropped) repairs.add('dropped_incomplete_item');
+    }
+  }
+
+  if (!parsed) {
+    return fail('Output is not valid JSON and could not be repaired');
+  }
+
+  return { status: 'ok', value: parsed.value, repairs: Array.from(repairs) };
+}
+
+/**
+ * Parses Analyze API output into product items and video analysis.
+ *
+ * Besides the repairs of extractAnalyzeJson, accepts legacy bare arrays and
+ * extra keys. Every repair applied is listed in the result.
+ * @param responseText Raw Analyze API response text
+ * @returns ok with items and analysis, empty for blank output, or parse_failed with the raw text
+ */
+export function parseAnalyzeOutput(responseText: string): AnalyzeOutputParseResult {
+  const extracted = extractAnalyzeJson(responseText);
+  if (extracted.status !== 'ok') {
+    return extracted;
+  }
+
+  const repairs = new Set<ParseRepair>(extracted.repairs);
+  const shaped = toOutputShape(extracted.value, repairs);
+  if ('error' in shaped) {
+    return { status: 'parse_failed', error: shaped.error, rawText: responseText, repairs: Array.from(repairs) };
+  }
+
+  return {
+    status: 'ok',
+    items: shaped.items,
+    analysis: shaped.analysis,
+    repairs: Array.from(repairs),
+    ignoredKeys: shaped.ignoredKeys,
+  };
+}
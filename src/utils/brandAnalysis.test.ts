@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { toProductEvents } from '@/utils/brandAnalysis';
+
+const confidenceOf = (confidence: unknown) =>
+  toProductEvents([{ brand: 'Nike', product_name: 'Air Max', timeline: [0, 5], confidence }], 'v1')[0].confidence;
+
+describe('toProductEvents confidence', () => {
+  it('keeps 0-1 fractions', () => {
+    expect(confidenceOf(0)).toBe(0);
+    expect(confidenceOf(0.85)).toBe(0.85);
+    expect(confidenceOf(1)).toBe(1);
+  });
+
+  it('reads values from 2 to 100 as percentages', () => {
+    expect(confidenceOf(85)).toBe(0.85);
+    expect(confidenceOf(85.5)).toBeCloseTo(0.855);
+    expect(confidenceOf(100)).toBe(1);
+    expect(confidenceOf('90')).toBe(0.9);
+  });
+
+  it('clamps everything else to 0-1', () => {
+    expect(confidenceOf(1.5)).toBe(1);
+    expect(confidenceOf(150)).toBe(1);
+    expect(confidenceOf(-0.2)).toBe(0);
+    expect(confidenceOf('-5')).toBe(0);
+  });
+
+  it('leaves unreadable values unset', () => {
+    expect(confidenceOf(undefined)).toBeUndefined();
+    expect(confidenceOf('high')).toBeUndefined();
+    expect(confidenceOf(Number.NaN)).toBeUndefined();
+  });
+});
@@ -0,0 +1,833 @@
+import {
+  EventProminence,
+  ParseRepair,
+  ProductEvent,
+  ProductEventArraySchema,
+  ProminenceLayer,
+  ProminenceSize,
+  VideoAnalysisMetadata,
+  VideoAnalysisMetadataSchema
+} from '@/types/brandMentions';
+import {
+  AnalysisWindow,
+  WindowEvents,
+  buildAnalysisWindows,
+  eventsInFailedWindows,
+  mergeWindowAnalyses,
+  shiftWindowEvents,
+  stitchWindowEvents
+} from '@/utils/segmentedAnalysis';
+import { normalizeEventTimelines, parseTimelineValue } from '@/utils/timelineNormalization';
+import { createProductStreamParser } from '@/utils/productStreamParser';
+import { parseAnalyzeOutput } from '@/utils/analyzeOutputParser';
+import { canonicalizeEvents, loadBrandRegistry } from '@/utils/brandRegistry';
+import { recordAnalysisVersion, recordParseFailure } from '@/utils/analysisHistory';
+import { cacheAnalysis, queueAnalysisEdit } from '@/utils/analysisCache';
+import { carryOverReviews } from '@/utils/eventReview';
+import { loadVideoAnalysis } from '@/utils/indexVideos';
+import { notifyAnalysisChanges, summarizeAnalysisChanges } from '@/utils/analysisChanges';
+import { parseBrandSafetyOutput } from '@/utils/brandSafety';
+import {
+  filterAllowedValues,
+  getPromptTemplate,
+  renderPromptTemplate,
+  requiredProductFields,
+  templateRef
+} from '@/utils/promptTemplates';
+import { PromptTemplate } from '@/types/promptTemplates';
+import { CachedAnalysis } from '@/types/analysisCache';
+import { AnalysisChangeSummary } from '@/types/analysisChanges';
+import { BrandSafetyFlag } from '@/types/brandSafety';
+import { DEFAULT_TEMPLATE_ID } from '@/prompts';
+import { buildBrandSafetyPrompt } from '@/prompts/brandSafety';
+
+const API_KEY = process.env.TWELVELABS_API_KEY;
+const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+
+// Set to 'false' to skip the brand-safety pass and save one Analyze call per video
+const BRAND_SAFETY_PASS = process.env.BRAND_SAFETY_PASS !== 'false';
+
+// Model behind the Analyze endpoint
+export const ANALYZE_MODEL = 'pegasus1.2';
+
+/**
+ * Error raised by the analysis pipeline, carrying the HTTP status to respond with
+ */
+export class AnalyzeError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AnalyzeError';
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when Analyze output cannot be parsed; keeps the raw text for inspection
+ */
+export class AnalyzeParseError extends AnalyzeError {
+  rawText: string;
+  repairs: ParseRepair[];
+
+  constructor(message: string, rawText: string, repairs: ParseRepair[]) {
+    super(message, 422);
+    this.name = 'AnalyzeParseError';
+    this.rawText = rawText;
+    this.repairs = repairs;
+  }
+}
+
+export interface AnalyzeVideoOptions {
+  videoId: string;
+  indexId: string;
+  segmentAnalysis?: boolean;
+  templateId?: string; // prompt template; defaults to DEFAULT_TEMPLATE_ID
+  templateVersion?: number; // pinned template version; defaults to the latest
+}
+
+/**
+ * Receives product events as they are detected, before the analysis is finalized
+ */
+export type ProductEventListener = (event: ProductEvent) => void;
+
+/**
+ * completed: events were parsed and saved
+ * partial: some segment windows failed; their saved events were kept and the rest replaced
+ * empty: the model returned no output; nothing was saved
+ * parse_failed: the output could not be parsed; existing events were left untouched
+ */
+export type AnalyzeVideoStatus = 'completed' | 'partial' | 'empty' | 'parse_failed';
+
+export interface AnalyzeVideoResult {
+  status: AnalyzeVideoStatus;
+  events: ProductEvent[];
+  analysis: VideoAnalysisMetadata;
+  promptVersion: string; // template reference, e.g. "brand-mentions@v2"
+  repairs: ParseRepair[]; // repairs applied to malformed Analyze output
+  parseError?: string;
+  rawText?: string; // unparseable output, only set for parse_failed
+  changes?: AnalysisChangeSummary; // difference from the previous analysis; unset on a first analysis
+  failedWindows?: AnalysisWindow[]; // segment windows that failed, only set for partial
+}
+
+/**
+ * Builds the scope instructions at the top of the prompt
+ */
+function buildScopeInstructions(videoDuration: number, window?: AnalysisWindow): string {
+  if (!window) {
+    return `You are analyzing a video about ${videoDuration > 0 ? Math.round(videoDuration) : 'several minutes'} seconds long.
+  Scan the ENTIRE video from start to finish (0%–100%). Do not stop early.`;
+  }
+
+  const start = Math.round(window.start);
+  const end = Math.round(window.end);
+  return `You are analyzing ONE SEGMENT of a video that is ${Math.round(videoDuration)} seconds long.
+  Only consider the segment from ${start}s to ${end}s; ignore everything outside it.
+  Scan the ENTIRE segment from start to finish. Do not stop early.
+  Report every timeline in seconds RELATIVE TO THE SEGMENT START (0 = ${start}s of the video, ${end - start} = ${end}s).`;
+}
+
+/**
+ * Builds the Analyze API prompt from a template
+ * @param template Prompt template to render
+ * @param videoDuration Video duration in seconds (0 when unknown)
+ * @param window Optional segment of the video to restrict the analysis to
+ * @returns Prompt text
+ */
+export function buildAnalyzePrompt(template: PromptTemplate, videoDuration: number, window?: AnalysisWindow): string {
+  return renderPromptTemplate(template, buildScopeInstructions(videoDuration, window));
+}
+
+/**
+ * Parses a model-reported confidence into the 0-1 range
+ * Accepts 0-1 fractions, 2-100 percentages and numeric strings; other numbers are clamped to 0-1
+ */
+function parseConfidence(value: unknown): number | undefined {
+  const numeric = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+    return undefined;
+  }
+  // Percentages run from 2 to 100; 1.5 is a fraction that overshot 1, not 1.5%
+  const fraction = numeric >= 2 && numeric <= 100 ? numeric / 100 : numeric;
+  return Math.min(Math.max(fraction, 0), 1);
+}
+
+const PROMINENCE_SIZES: ProminenceSize[] = ['large', 'medium', 'small'];
+const PROMINENCE_LAYERS: ProminenceLayer[] = ['background', 'foreground'];
+
+/**
+ * Parses a model-reported prominence, falling back to size/layer keywords in the location text
+ */
+function parseProminence(value: unknown, location: string): EventProminence | undefined {
+  const raw = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const reported = [raw.size, raw.layer, value]
+    .filter((part): part is string => typeof part === 'string')
+    .join(' ')
+    .toLowerCase();
+  const described = location.toLowerCase();
+
+  const size = PROMINENCE_SIZES.find((s) => reported.includes(s)) ?? PROMINENCE_SIZES.find((s) => described.includes(s));
+  const layer = PROMINENCE_LAYERS.find((l) => reported.includes(l)) ?? PROMINENCE_LAYERS.find((l) => described.includes(l));
+
+  if (!size && !layer) {
+    return undefined;
+  }
+
+  return { size: size ?? 'medium', layer: layer ?? 'foreground' };
+}
+
+/**
+ * Fetches the duration of a video in seconds
+ * @returns Duration in seconds, or 0 if it could not be determined
+ */
+async function fetchVideoDuration(videoId: string, indexId: string): Promise<number> {
+  try {
+    const videoUrl = `${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos/${videoId}`;
+    const videoResponse = await fetch(videoUrl, {
+      headers: {
+        'x-api-key': API_KEY || '',
+      },
+    });
+
+    if (videoResponse.ok) {
+      const videoData = await videoResponse.json();
+      return videoData.system_metadata?.duration || 0;
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to get video duration:', error);
+  }
+
+  return 0;
+}
+
+type AnalysisOutput = {
+  events: ProductEvent[];
+  analysis: VideoAnalysisMetadata;
+  repairs: ParseRepair[];
+  analyzedWindows?: AnalysisWindow[]; // segmented runs only
+  failedWindows?: AnalysisWindow[]; // segmented runs only; windows whose Analyze call failed
+};
+
+type ParsedAnalysis = {
+  items: unknown[];
+  analysis: VideoAnalysisMetadata;
+  repairs: ParseRepair[];
+};
+
+/**
+ * Calls the Analyze API with a prompt and returns the raw response text
+ * @throws AnalyzeError when the Analyze API responds with an error
+ */
+async function requestAnalysis(videoId: string, prompt: string): Promise<string> {
+  const analyzeUrl = `${TWELVELABS_API_BASE_URL}/analyze`;
+  const analyzeOptions = {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': API_KEY || '',
+    },
+    body: JSON.stringify({
+      prompt,
+      video_id: videoId,
+      stream: false
+    })
+  };
+
+  const analyzeResponse = await fetch(analyzeUrl, analyzeOptions);
+
+  if (!analyzeResponse.ok) {
+    const errorText = await analyzeResponse.text();
+    console.error(`❌ Analyze API error: ${analyzeResponse.status} - ${errorText}`);
+    throw new AnalyzeError(`Failed to analyze video: ${analyzeResponse.statusText}`, analyzeResponse.status);
+  }
+
+  return analyzeResponse.text();
+}
+
+/**
+ * Calls the Analyze API in streaming mode, reporting product items as soon as each one is complete
+ * @param onItems Called with the product items completed by each text chunk
+ * @param onOpen Called when the first bytes of the stream arrive
+ * @returns The full generated text
+ * @throws AnalyzeError when the Analyze API responds with an error
+ */
+async function requestAnalysisStream(
+  videoId: string,
+  prompt: string,
+  onItems: (items: unknown[]) => void,
+  onOpen: () => void
+): Promise<string> {
+  const analyzeResponse = await fetch(`${TWELVELABS_API_BASE_URL}/analyze`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': API_KEY || '',
+    },
+    body: JSON.stringify({
+      prompt,
+      video_id: videoId,
+      stream: true
+    })
+  });
+
+  if (!analyzeResponse.ok) {
+    const errorText = await analyzeResponse.text();
+    console.error(`❌ Analyze API stream error: ${analyzeResponse.status} - ${errorText}`);
+    throw new AnalyzeError(`Failed to analyze video: ${analyzeResponse.statusText}`, analyzeResponse.status);
+  }
+
+  if (!analyzeResponse.body) {
+    throw new Error('Analyze API returned no response body');
+  }
+
+  // The stream is newline-delimited JSON; generated text arrives in text_generation messages
+  const parser = createProductStreamParser();
+  const reader = analyzeResponse.body.getReader();
+  const decoder = new TextDecoder();
+  let rawText = '';
+  let pending = '';
+  let receivedText = false;
+  let opened = false;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let message: { event_type?: string; text?: unknown };
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (message.event_type === 'text_generation' && typeof message.text === 'string') {
+      receivedText = true;
+      const items = parser.push(message.text);
+      if (items.length > 0) onItems(items);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (!opened) {
+      opened = true;
+      onOpen();
+    }
+    const chunk = decoder.decode(value, { stream: true });
+    rawText += chunk;
+    pending += chunk;
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  const rest = decoder.decode();
+  rawText += rest;
+  handleLine(pending + rest);
+
+  // Without text_generation messages the API answered with a regular, non-streamed body
+  return receivedText ? parser.text() : rawText;
+}
+
+/**
+ * Requests an analysis, streaming product items to onItems when given.
+ * Falls back to a regular request only when the stream could not be opened at all;
+ * a rejected request (4xx) or a stream that broke after its first bytes is not run twice.
+ */
+async function runAnalysis(videoId: string, prompt: string, onItems?: (items: unknown[]) => void): Promise<string> {
+  if (!onItems) {
+    return requestAnalysis(videoId, prompt);
+  }
+
+  let opened = false;
+  try {
+    return await requestAnalysisStream(videoId, prompt, onItems, () => {
+      opened = true;
+    });
+  } catch (error) {
+    if (opened || (error instanceof AnalyzeError && error.status < 500)) {
+      throw error;
+    }
+    console.warn(`⚠️ Streaming analysis could not be opened for video ${videoId}, retrying without streaming:`, error);
+    return requestAnalysis(videoId, prompt);
+  }
+}
+
+/**
+ * Parses Analyze API response text into raw product items and video analysis
+ * @returns Parsed items and the repairs applied, or null when the model returned no output
+ * @throws AnalyzeParseError when the output cannot be parsed even after repairs
+ */
+function parseAnalyzeResponse(responseText: string, videoId: string): ParsedAnalysis | null {
+  const result = parseAnalyzeOutput(responseText);
+
+  if (result.status === 'empty') {
+    return null;
+  }
+
+  if (result.status === 'parse_failed') {
+    console.error(`❌ Failed to parse Analyze output for video ${videoId}: ${result.error}`);
+    throw new AnalyzeParseError(result.error, result.rawText, result.repairs);
+  }
+
+  if (result.repairs.length > 0) {
+    console.warn(
+      `⚠️ Repaired Analyze output for video ${videoId}: ${result.repairs.join(', ')}` +
+      (result.ignoredKeys.length > 0 ? ` (ignored keys: ${result.ignoredKeys.join(', ')})` : '')
+    );
+  }
+
+  return { items: result.items, analysis: result.analysis, repairs: result.repairs };
+}
+
+/**
+ * Applies a template's output schema and vocabularies to a parsed response:
+ * drops product items missing required fields and tones/styles outside the allowed lists
+ */
+function conformToTemplate(parsed: ParsedAnalysis, template: PromptTemplate, videoId: string): ParsedAnalysis {
+  const required = requiredProductFields(template);
+  const items = parsed.items.filter((item) => {
+    const record = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+    return required.every((field) => record[field] !== undefined && record[field] !== null);
+  });
+
+  if (items.length < parsed.items.length) {
+    console.warn(`⚠️ Dropped ${parsed.items.length - items.length} items missing required fields for video ${videoId}`);
+  }
+
+  return {
+    ...parsed,
+    items,
+    analysis: {
+      ...parsed.analysis,
+      tones: filterAllowedValues(parsed.analysis.tones, template.tones),
+      styles: filterAllowedValues(parsed.analysis.styles, template.styles),
+    },
+  };
+}
+
+/**
+ * Converts raw Analyze product items to ProductEvent[] format with type safety
+ * Timelines stay in the model's unit; clock times ("1:05") are read as seconds and
+ * unreadable bounds become NaN so normalization drops the event.
+ */
+export function toProductEvents(items: unknown[], videoId: string): ProductEvent[] {
+  return items.map((item) => {
+    // Type guard for item properties
+    const eventItem = item as Record<string, unknown>;
+    const timeline = Array.isArray(eventItem.timeline) ? eventItem.timeline : [];
+    const location = typeof eventItem.location === 'string' ? eventItem.location : '';
+
+    return {
+      video_id: videoId,
+      brand: typeof eventItem.brand === 'string' ? eventItem.brand : 'Unknown Brand',
+      product_name: typeof eventItem.product_name === 'string' ? eventItem.product_name : 'Unknown Product',
+      timeline_start: parseTimelineValue(timeline[0]) ?? NaN,
+      timeline_end: parseTimelineValue(timeline[1]) ?? NaN,
+      description: typeof eventItem.description === 'string' ? eventItem.description : '',
+      location,
+      confidence: parseConfidence(eventItem.confidence),
+      prominence: parseProminence(eventItem.prominence, location),
+      evidence: typeof eventItem.evidence === 'string' ? eventItem.evidence : undefined,
+      source: 'analyze' as const
+    };
+  });
+}
+
+/**
+ * Normalizes event timelines to seconds within [0, duration], logging any repairs
+ */
+function normalizeTimelines(events: ProductEvent[], duration: number, videoId: string): ProductEvent[] {
+  const result = normalizeEventTimelines(events, duration);
+  if (result.unit !== 'seconds' || result.repaired > 0 || result.dropped > 0) {
+    console.warn(
+      `⚠️ Normalized timelines for video ${videoId}: unit=${result.unit}${result.frameRate ? `@${result.frameRate}fps` : ''}, repaired=${result.repaired}, dropped=${result.dropped}`
+    );
+  }
+  return result.events;
+}
+
+/**
+ * Reports streamed product items as provisional events in absolute seconds
+ * Timelines are taken as seconds and clamped to the window; the final events
+ * go through full unit detection once the response is complete.
+ */
+function emitProvisionalEvents(
+  items: unknown[],
+  videoId: string,
+  window: AnalysisWindow,
+  onEvent: ProductEventListener
+): void {
+  const { events } = normalizeEventTimelines(toProductEvents(items, videoId), window.end - window.start, 'seconds');
+  (window.end > 0 ? shiftWindowEvents(events, window) : events).forEach(onEvent);
+}
+
+/**
+ * Runs one Analyze call per window and stitches the results into absolute-time events
+ * Windows that fail are skipped and reported in failedWindows; the analysis only fails if every window fails
+ * @returns Stitched events and merged analysis, or null if no window produced usable output
+ * @throws The last window's error when every window fails
+ */
+async function analyzeWindows(
+  videoId: string,
+  videoDuration: number,
+  windows: AnalysisWindow[],
+  template: PromptTemplate,
+  onEvent?: ProductEventListener
+): Promise<AnalysisOutput | null> {
+  const segments: WindowEvents[] = [];
+  const analyses: VideoAnalysisMetadata[] = [];
+  const repairs = new Set<ParseRepair>();
+  const analyzedWindows: AnalysisWindow[] = [];
+  const failedWindows: AnalysisWindow[] = [];
+  let lastError: unknown = null;
+
+  // Run windows sequentially to stay within Analyze API rate limits
+  for (const window of windows) {
+    try {
+      const responseText = await runAnalysis(
+        videoId,
+        buildAnalyzePrompt(template, videoDuration, window),
+        onEvent && ((items) => emitProvisionalEvents(items, videoId, window, onEvent))
+      );
+      const response = parseAnalyzeResponse(responseText, videoId);
+      analyzedWindows.push(window);
+      if (!response) continue;
+      const parsed = conformToTemplate(response, template, videoId);
+
+      const windowEvents = normalizeTimelines(toProductEvents(parsed.items, videoId), window.end - window.start, videoId);
+      segments.push({ window, events: shiftWindowEvents(windowEvents, window) });
+      analyses.push(parsed.analysis);
+      parsed.repairs.forEach((repair) => repairs.add(repair));
+    } catch (error) {
+      console.warn(`⚠️ Failed to analyze window ${window.start}-${window.end}s of video ${videoId}:`, error);
+      lastError = error;
+      failedWindows.push(window);
+    }
+  }
+
+  if (failedWindows.length === windows.length) {
+    throw lastError;
+  }
+
+  if (segments.length === 0) {
+    return null;
+  }
+
+  return {
+    events: stitchWindowEvents(segments),
+    analysis: mergeWindowAnalyses(analyses),
+    repairs: Array.from(repairs),
+    analyzedWindows,
+    failedWindows
+  };
+}
+
+/**
+ * Saves events and video analysis to the local analysis cache and the video's user_metadata
+ * @param promptVersion Template reference the events were produced with
+ * @returns True if the user_metadata update succeeded
+ */
+export async function saveAnalysisMetadata(
+  videoId: string,
+  indexId: string,
+  events: ProductEvent[],
+  videoAnalysis: VideoAnalysisMetadata,
+  promptVersion: string
+): Promise<boolean> {
+  const entry = {
+    videoId,
+    indexId,
+    events,
+    analysis: videoAnalysis,
+    analyzedAt: new Date().toISOString(),
+    source: 'analyze',
+    promptVersion
+  };
+
+  // The cache is written first so the result survives a rejected metadata update
+  try {
+    await cacheAnalysis(entry);
+  } catch (error) {
+    console.warn(`⚠️ Failed to cache analysis for video ${videoId}:`, error);
+  }
+
+  return pushAnalysisMetadata(entry);
+}
+
+/**
+ * Loads the analysis a new run is about to replace
+ * @returns The saved analysis, or null when there is none or it could not be loaded
+ */
+async function loadPreviousAnalysis(videoId: string, indexId: string): Promise<Omit<CachedAnalysis, 'cachedAt'> | null> {
+  try {
+    return await loadVideoAnalysis(indexId, videoId);
+  } catch (error) {
+    console.warn(`⚠️ Failed to load the saved analysis of video ${videoId}, saving new events only:`, error);
+    return null;
+  }
+}
+
+/**
+ * Carries the reviews and manual events of a video's saved events over to a new set of events
+ * @returns The events to save; the new events as given when nothing was reviewed or added
+ */
+export async function withPreviousReviews(videoId: string, indexId: string, events: ProductEvent[]): Promise<ProductEvent[]> {
+  const previous = await loadPreviousAnalysis(videoId, indexId);
+  return carryOverReviews(previous?.events ?? [], events);
+}
+
+/**
+ * Writes an analysis to the video's user_metadata as-is, keeping its analyzed-at time
+ * @returns True if the update succeeded
+ */
+export async function pushAnalysisMetadata(entry: Omit<CachedAnalysis, 'cachedAt'>): Promise<boolean> {
+  const metadata = {
+    brand_product_events: JSON.stringify(entry.events),
+    brand_product_analyzed_at: entry.analyzedAt,
+    brand_product_source: entry.source,
+    brand_product_prompt_version: entry.promptVersion,
+    video_tones: entry.analysis.tones ? JSON.stringify(entry.analysis.tones) : undefined,
+    video_styles: entry.analysis.styles ? JSON.stringify(entry.analysis.styles) : undefined,
+    video_creator: entry.analysis.creator || undefined,
+    video_brand_safety: entry.analysis.safety ? JSON.stringify(entry.analysis.safety) : undefined
+  };
+
+  // Update video metadata
+  const updateUrl = `${TWELVELABS_API_BASE_URL}/indexes/${entry.indexId}/videos/${entry.videoId}`;
+  const updateOptions = {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': API_KEY || '',
+    },
+    body: JSON.stringify({
+      user_metadata: metadata
+    })
+  };
+
+  const updateResponse = await fetch(updateUrl, updateOptions);
+
+  if (!updateResponse.ok) {
+    const errorText = await updateResponse.text();
+    console.error(`❌ Failed to update metadata: ${updateResponse.status} - ${errorText}`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Runs the Analyze call(s) for a video and returns events with timelines in seconds
+ * @returns Events and analysis, or null when the model returned no output
+ * @throws AnalyzeParseError when the output cannot be parsed
+ */
+async function runVideoAnalysis(
+  videoId: string,
+  videoDuration: number,
+  windows: AnalysisWindow[],
+  template: PromptTemplate,
+  onEvent?: ProductEventListener
+): Promise<AnalysisOutput | null> {
+  if (windows.length > 1) {
+    return analyzeWindows(videoId, videoDuration, windows, template, onEvent);
+  }
+
+  const fullVideo: AnalysisWindow = { index: 0, start: 0, end: videoDuration };
+  const responseText = await runAnalysis(
+    videoId,
+    buildAnalyzePrompt(template, videoDuration),
+    onEvent && ((items) => emitProvisionalEvents(items, videoId, fullVideo, onEvent))
+  );
+  const response = parseAnalyzeResponse(responseText, videoId);
+  if (!response) {
+    return null;
+  }
+
+  const parsed = conformToTemplate(response, template, videoId);
+  return {
+    events: normalizeTimelines(toProductEvents(parsed.items, videoId), videoDuration, videoId),
+    analysis: parsed.analysis,
+    repairs: parsed.repairs
+  };
+}
+
+/**
+ * Runs the brand-safety pass over the whole video
+ * @returns The flags, or undefined when the pass is disabled or failed; a failed pass never fails the analysis
+ */
+async function screenBrandSafety(videoId: string, videoDuration: number): Promise<BrandSafetyFlag[] | undefined> {
+  if (!BRAND_SAFETY_PASS) {
+    return undefined;
+  }
+
+  try {
+    const responseText = await requestAnalysis(videoId, buildBrandSafetyPrompt(buildScopeInstructions(videoDuration)));
+    return parseBrandSafetyOutput(responseText, videoDuration);
+  } catch (error) {
+    console.warn(`⚠️ Brand-safety pass failed for video ${videoId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Runs the Analyze API on a video, parses the detected product events and
+ * stores them in the video's user_metadata and analysis history.
+ * With segmentAnalysis, videos longer than one window are analyzed in
+ * overlapping windows whose results are stitched back together; when some
+ * windows fail the run is partial and the saved events in their range are kept.
+ * A second Analyze call screens the whole video for brand-safety categories.
+ * Output that cannot be parsed is reported as parse_failed and leaves the
+ * stored events untouched; its raw text is kept in the analysis history.
+ * @param options Video, index, prompt template and analysis options
+ * @param onEvent Optional listener; when given the Analyze output is streamed
+ * and each event is reported as soon as it is detected
+ * @returns Status, parsed events, video analysis metadata, repairs applied and the template version used
+ * @throws AnalyzeError when credentials are missing, the template is unknown or the Analyze call fails
+ */
+export async function analyzeVideo(
+  {
+    videoId,
+    indexId,
+    segmentAnalysis = false,
+    templateId = DEFAULT_TEMPLATE_ID,
+    templateVersion
+  }: AnalyzeVideoOptions,
+  onEvent?: ProductEventListener
+): Promise<AnalyzeVideoResult> {
+  // Validate environment variables
+  if (!API_KEY || !TWELVELABS_API_BASE_URL) {
+    throw new AnalyzeError('API credentials not configured', 500);
+  }
+
+  const template = await getPromptTemplate(templateId, templateVersion);
+  if (!template) {
+    throw new AnalyzeError(`Prompt template ${templateId}${templateVersion ? ` v${templateVersion}` : ''} not found`, 404);
+  }
+  const promptVersion = templateRef(template);
+
+  // Video duration drives timeline unit detection and segment windows
+  const videoDuration = await fetchVideoDuration(videoId, indexId);
+  const windows = segmentAnalysis ? buildAnalysisWindows(videoDuration) : [];
+  const registry = await loadBrandRegistry();
+
+  // Streamed events get the same brand canonicalization as the final ones
+  const emit: ProductEventListener | undefined = onEvent &&
+    ((event) => onEvent(canonicalizeEvents([event], registry)[0]));
+
+  let output: AnalysisOutput | null;
+  try {
+    output = await runVideoAnalysis(videoId, videoDuration, windows, template, emit);
+  } catch (error) {
+    if (!(error instanceof AnalyzeParseError)) {
+      throw error;
+    }
+
+    try {
+      await recordParseFailure(indexId, videoId, {
+        promptVersion,
+        error: error.message,
+        repairs: error.repairs,
+        rawText: error.rawText,
+      });
+    } catch (recordError) {
+      console.warn(`⚠️ Failed to record parse failure for video ${videoId}:`, recordError);
+    }
+
+    return {
+      status: 'parse_failed',
+      events: [],
+      analysis: {},
+      promptVersion,
+      repairs: error.repairs,
+      parseError: error.message,
+      rawText: error.rawText
+    };
+  }
+
+  if (!output) {
+    return { status: 'empty', events: [], analysis: {}, promptVersion, repairs: [] };
+  }
+
+  // Resolve brand names against the registry so aliases are saved under one canonical name
+  const detected = canonicalizeEvents(output.events, registry);
+  const failedWindows = output.failedWindows ?? [];
+  const previous = await loadPreviousAnalysis(videoId, indexId);
+
+  // A skipped or failed safety pass keeps the video's previous screen
+  const safety = await screenBrandSafety(videoId, videoDuration) ?? previous?.analysis.safety;
+  let videoAnalysis: VideoAnalysisMetadata = safety ? { ...output.analysis, safety } : output.analysis;
+
+  // Validate with zod schema
+  const validationResult = ProductEventArraySchema.safeParse(detected);
+  if (!validationResult.success) {
+    console.error(`❌ Validation error for video ${videoId}:`, validationResult.error.format());
+    console.warn(`⚠️ Skipping validation for video ${videoId} and proceeding with events`);
+    // Don't return error, just log and continue - validation might be too strict
+  }
+
+  // Validate video analysis metadata
+  const analysisValidationResult = VideoAnalysisMetadataSchema.safeParse(videoAnalysis);
+  if (!analysisValidationResult.success) {
+    console.warn(`⚠️ Video analysis validation failed for video ${videoId}:`, analysisValidationResult.error.format());
+    // Use empty analysis if validation fails
+    videoAnalysis = {};
+  }
+
+  // Reviewed events replace their new detections; the history keeps the run as detected.
+  // The saved events are read again in the edit queue so reviews made during the run are kept,
+  // and so are the events of windows that failed, instead of being deleted with the rest.
+  const { events, savedEvents } = await queueAnalysisEdit(indexId, videoId, async () => {
+    const latest = await loadPreviousAnalysis(videoId, indexId);
+    const kept = failedWindows.length > 0
+      ? eventsInFailedWindows(latest?.events ?? [], failedWindows, output.analyzedWindows ?? [])
+      : [];
+    const runEvents = [...detected, ...kept].sort((a, b) => a.timeline_start - b.timeline_start);
+    const carried = carryOverReviews(latest?.events ?? [], runEvents);
+
+    // Continue anyway on failure to return the events
+    await saveAnalysisMetadata(videoId, indexId, carried, videoAnalysis, promptVersion);
+    return { events: runEvents, savedEvents: carried };
+  });
+
+  // Tell account managers when a re-analysis moved the brand results
+  const changes = previous
+    ? summarizeAnalysisChanges(previous.events, savedEvents, videoDuration, {
+        videoId,
+        indexId,
+        creator: videoAnalysis.creator || previous.analysis.creator,
+        promptVersion,
+        previousAnalyzedAt: previous.analyzedAt,
+        analyzedAt: new Date().toISOString(),
+      })
+    : undefined;
+  if (changes) {
+    await notifyAnalysisChanges(changes);
+  }
+
+  // Keep every run so it can be compared or rolled back later
+  try {
+    await recordAnalysisVersion(indexId, videoId, {
+      promptVersion,
+      model: ANALYZE_MODEL,
+      events,
+      analysis: videoAnalysis,
+    });
+  } catch (error) {
+    console.warn(`⚠️ Failed to record analysis history for video ${videoId}:`, error);
+  }
+
+  if (failedWindows.length > 0) {
+    console.warn(`⚠️ ${failedWindows.length} of ${windows.length} windows failed for video ${videoId}; kept their saved events`);
+  }
+
+  return {
+    status: failedWindows.length > 0 ? 'partial' : 'completed',
+    events: savedEvents,
+    analysis: videoAnalysis,
+    promptVersion,
+    repairs: output.repairs,
+    changes,
+    failedWindows: failedWindows.length > 0 ? failedWindows : undefined
+  };
+}
+
+// Events are stored raw to preserve micro-segmentation; merge strategies are applied at read time (see eventMerging.ts)
@@ -0,0 +1,124 @@
+import { ExportEventRow, ExportFormat, ExportSheet, ExportSummaryRow, ExportVideo } from '@/types/brandExport';
+import { computeBrandMetrics } from '@/utils/brandMetrics';
+import { XlsxCell, buildXlsx } from '@/utils/xlsxWriter';
+
+const EVENT_COLUMNS: (keyof ExportEventRow)[] = [
+  'video_id', 'video_title', 'creator', 'brand', 'product_name',
+  'timeline_start', 'timeline_end', 'duration', 'location', 'description', 'source'
+];
+
+const SUMMARY_COLUMNS: (keyof ExportSummaryRow)[] = [
+  'brand', 'videos', 'events', 'screen_time_sec', 'percent_of_duration',
+  'appearances', 'first_appearance_sec', 'avg_first_appearance_sec', 'share_of_voice'
+];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Flattens the videos' events into export rows, ordered by video and start time
+ */
+export function buildEventRows(videos: ExportVideo[]): ExportEventRow[] {
+  return videos.flatMap((video) => [...video.events]
+    .sort((a, b) => a.timeline_start - b.timeline_start)
+    .map((event) => ({
+      video_id: video.videoId,
+      video_title: video.title ?? '',
+      creator: video.creator,
+      brand: event.brand,
+      product_name: event.product_name,
+      timeline_start: round(event.timeline_start),
+      timeline_end: round(event.timeline_end),
+      duration: round(event.timeline_end - event.timeline_start),
+      location: event.location ?? '',
+      description: event.description ?? '',
+      source: event.source,
+    })));
+}
+
+/**
+ * Builds the per-brand summary from the same metrics as /api/brand-mentions/metrics
+ */
+export function buildSummaryRows(videos: ExportVideo[]): ExportSummaryRow[] {
+  const metrics = computeBrandMetrics(videos.map((video) => ({
+    videoId: video.videoId,
+    duration: video.duration,
+    creator: video.creator,
+    events: video.events,
+  })));
+
+  return metrics.brands.map((brand) => ({
+    brand: brand.brand,
+    videos: brand.videoCount,
+    events: brand.eventCount,
+    screen_time_sec: brand.screenTimeSec,
+    percent_of_duration: brand.percentOfDuration,
+    appearances: brand.appearanceCount,
+    first_appearance_sec: brand.firstAppearanceSec,
+    avg_first_appearance_sec: brand.avgFirstAppearanceSec,
+    share_of_voice: brand.shareOfVoice,
+  }));
+}
+
+function toTable<T extends object>(rows: T[], columns: (keyof T)[]): XlsxCell[][] {
+  return [
+    columns.map(String),
+    ...rows.map((row) => columns.map((column) => row[column] as XlsxCell)),
+  ];
+}
+
+function csvField(value: XlsxCell): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating model-generated text as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes a table as RFC 4180 CSV
+ */
+export function toCsv(table: XlsxCell[][]): string {
+  return table.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Renders filtered videos as an export file
+ * @param sheet Sheet written to CSV files; XLSX and JSON hold both
+ * @returns File contents, content type and file extension
+ */
+export function renderExport(
+  format: ExportFormat,
+  videos: ExportVideo[],
+  sheet: ExportSheet = 'events'
+): { body: string | Buffer; contentType: string; extension: string } {
+  const events = buildEventRows(videos);
+  const summary = buildSummaryRows(videos);
+
+  if (format === 'json') {
+    return {
+      body: JSON.stringify({ events, summary }, null, 2),
+      contentType: 'application/json; charset=utf-8',
+      extension: 'json',
+    };
+  }
+
+  if (format === 'xlsx') {
+    return {
+      body: buildXlsx([
+        { name: 'Events', rows: toTable(events, EVENT_COLUMNS) },
+        { name: 'Brand summary', rows: toTable(summary, SUMMARY_COLUMNS) },
+      ]),
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      extension: 'xlsx',
+    };
+  }
+
+  return {
+    // BOM so spreadsheet apps read the file as UTF-8
+    body: '\uFEFF' + toCsv(sheet === 'summary' ? toTable(summary, SUMMARY_COLUMNS) : toTable(events, EVENT_COLUMNS)),
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+  };
+}
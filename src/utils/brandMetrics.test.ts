@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { ProductEvent } from '@/types/brandMentions';
+import { MetricsVideo } from '@/types/brandMetrics';
+import { computeBrandMetrics, exposureIntervals } from '@/utils/brandMetrics';
+import { filterEvents } from '@/utils/eventFilters';
+
+const event = (videoId: string, brand: string, start: number, end: number): ProductEvent => ({
+  video_id: videoId,
+  brand,
+  product_name: `${brand} product`,
+  timeline_start: start,
+  timeline_end: end,
+  source: 'analyze'
+});
+
+// v1: Nike 0-10 and 5-20 overlap (20s once merged), Pepsi 30-40
+// v2: Nike 10-15 and 45-60, the second clamped to the 50s duration (10s)
+// v3: no brands at all, still part of the durations
+const VIDEOS: MetricsVideo[] = [
+  {
+    videoId: 'v1',
+    duration: 100,
+    creator: 'alice',
+    events: [event('v1', 'Nike', 0, 10), event('v1', 'Nike', 5, 20), event('v1', 'Pepsi', 30, 40)]
+  },
+  {
+    videoId: 'v2',
+    duration: 50,
+    creator: 'bob',
+    events: [event('v2', 'Nike', 10, 15), event('v2', 'Nike', 45, 60)]
+  },
+  { videoId: 'v3', duration: 50, creator: 'alice', events: [] }
+];
+
+describe('exposureIntervals', () => {
+  it('merges overlapping events and clamps to the duration', () => {
+    expect(exposureIntervals(VIDEOS[0].events.filter((e) => e.brand === 'Nike'))).toEqual([{ start: 0, end: 20 }]);
+    expect(exposureIntervals(VIDEOS[1].events, 50)).toEqual([
+      { start: 10, end: 15 },
+      { start: 45, end: 50 }
+    ]);
+  });
+
+  it('merges touching events and drops empty ones', () => {
+    const events = [event('v', 'A', 5, 5), event('v', 'A', 0, 2), event('v', 'A', 2, 4)];
+    expect(exposureIntervals(events)).toEqual([{ start: 0, end: 4 }]);
+  });
+});
+
+describe('computeBrandMetrics', () => {
+  const report = computeBrandMetrics(VIDEOS);
+  const nike = report.brands.find((b) => b.brand === 'Nike')!;
+  const pepsi = report.brands.find((b) => b.brand === 'Pepsi')!;
+
+  it('sums durations over every video in scope', () => {
+    expect(report.videoCount).toBe(3);
+    expect(report.totalDurationSec).toBe(200);
+    expect(report.brands.map((b) => b.brand)).toEqual(['Nike', 'Pepsi']);
+  });
+
+  it('counts overlapping detections once', () => {
+    // 20s in v1 + 10s in v2
+    expect(nike.screenTimeSec).toBe(30);
+    expect(nike.eventCount).toBe(4);
+    expect(nike.appearanceCount).toBe(3);
+    expect(nike.videoCount).toBe(2);
+  });
+
+  it('computes percent of duration against all videos', () => {
+    // 30 / 200 and 10 / 200
+    expect(nike.percentOfDuration).toBe(15);
+    expect(pepsi.percentOfDuration).toBe(5);
+  });
+
+  it('computes first appearances and share of voice', () => {
+    expect(nike.firstAppearanceSec).toBe(0);
+    expect(nike.avgFirstAppearanceSec).toBe(5);
+    // Nike 30s out of 30s (v1) + 10s (v2) of all brands; Pepsi 10s out of 30s in v1
+    expect(nike.shareOfVoice).toBe(75);
+    expect(pepsi.shareOfVoice).toBe(33.33);
+  });
+
+  it('computes per-creator metrics against all of the creator videos', () => {
+    // alice: 20s over v1 + v3 (150s); bob: 10s over v2 (50s)
+    expect(nike.creators).toEqual([
+      { creator: 'alice', videoCount: 1, screenTimeSec: 20, percentOfDuration: 13.33, appearanceCount: 1 },
+      { creator: 'bob', videoCount: 1, screenTimeSec: 10, percentOfDuration: 20, appearanceCount: 2 }
+    ]);
+    expect(nike.creatorAverage.screenTimeSec).toBe(15);
+    expect(nike.creatorAverage.percentOfDuration).toBeCloseTo(16.67, 2);
+    expect(nike.creatorAverage.appearanceCount).toBe(1.5);
+  });
+
+  it('keeps videos without the selected brands in the denominator', () => {
+    const filters = { brandAsset: { brands: ['Pepsi'] } };
+    const scoped = computeBrandMetrics(
+      VIDEOS.map((video) => ({ ...video, events: filterEvents(video.events, filters) }))
+    );
+    expect(scoped.totalDurationSec).toBe(200);
+    expect(scoped.brands).toHaveLength(1);
+    expect(scoped.brands[0]).toMatchObject({ brand: 'Pepsi', screenTimeSec: 10, percentOfDuration: 5, shareOfVoice: 100 });
+  });
+
+  it('returns an empty report without videos', () => {
+    expect(computeBrandMetrics([])).toEqual({ videoCount: 0, totalDurationSec: 0, brands: [] });
+  });
+});
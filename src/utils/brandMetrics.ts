@@ -0,0 +1,155 @@
+import { ProductEvent } from '@/types/brandMentions';
+import {
+  BrandCreatorMetrics,
+  BrandMetrics,
+  BrandMetricsReport,
+  ExposureTotals,
+  MetricsVideo
+} from '@/types/brandMetrics';
+
+type Interval = { start: number; end: number };
+
+type CreatorAccumulator = {
+  videoIds: Set<string>;
+  screenTime: number;
+  appearances: number;
+};
+
+type BrandAccumulator = {
+  eventCount: number;
+  screenTime: number;
+  appearances: number;
+  firstAppearances: number[];
+  coPresentTime: number; // all brands' screen time in the videos this brand appears in
+  creators: Map<string, CreatorAccumulator>;
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const percent = (part: number, whole: number): number => (whole > 0 ? (part / whole) * 100 : 0);
+
+/**
+ * Merges events into non-overlapping on-screen intervals, clamped to the video duration when known
+ */
+export function exposureIntervals(events: ProductEvent[], duration: number = 0): Interval[] {
+  const intervals = events
+    .map((event) => ({
+      start: Math.max(0, event.timeline_start),
+      end: duration > 0 ? Math.min(event.timeline_end, duration) : event.timeline_end,
+    }))
+    .filter((interval) => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: Interval[] = [];
+  intervals.forEach((interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  });
+
+  return merged;
+}
+
+function intervalsLength(intervals: Interval[]): number {
+  return intervals.reduce((sum, interval) => sum + interval.end - interval.start, 0);
+}
+
+/**
+ * Computes per-brand exposure metrics from the videos' events and durations.
+ *
+ * Screen time counts overlapping detections of a brand once. Share of voice is
+ * the brand's screen time over the screen time of all brands in the videos it
+ * appears in. Creator averages are taken over the creators the brand appears with,
+ * each creator's percentage being relative to the duration of all their videos.
+ * @param videos Videos in scope, including those without events (they count towards durations)
+ * @returns Brands sorted by screen time, descending
+ */
+export function computeBrandMetrics(videos: MetricsVideo[]): BrandMetricsReport {
+  const totalDuration = videos.reduce((sum, video) => sum + Math.max(0, video.duration), 0);
+  const creatorDurations = new Map<string, number>();
+  const brands = new Map<string, BrandAccumulator>();
+
+  videos.forEach((video) => {
+    creatorDurations.set(video.creator, (creatorDurations.get(video.creator) ?? 0) + Math.max(0, video.duration));
+
+    const eventsByBrand = new Map<string, ProductEvent[]>();
+    video.events.forEach((event) => {
+      eventsByBrand.set(event.brand, [...(eventsByBrand.get(event.brand) ?? []), event]);
+    });
+
+    const exposures = Array.from(eventsByBrand.entries())
+      .map(([brand, events]) => ({ brand, events, intervals: exposureIntervals(events, video.duration) }))
+      .filter((exposure) => exposure.intervals.length > 0);
+    const allBrandsTime = exposures.reduce((sum, exposure) => sum + intervalsLength(exposure.intervals), 0);
+
+    exposures.forEach(({ brand, events, intervals }) => {
+      const screenTime = intervalsLength(intervals);
+      const brandTotals = brands.get(brand) ?? {
+        eventCount: 0,
+        screenTime: 0,
+        appearances: 0,
+        firstAppearances: [],
+        coPresentTime: 0,
+        creators: new Map<string, CreatorAccumulator>(),
+      };
+
+      brandTotals.eventCount += events.length;
+      brandTotals.screenTime += screenTime;
+      brandTotals.appearances += intervals.length;
+      brandTotals.firstAppearances.push(intervals[0].start);
+      brandTotals.coPresentTime += allBrandsTime;
+
+      const creatorTotals = brandTotals.creators.get(video.creator) ?? { videoIds: new Set<string>(), screenTime: 0, appearances: 0 };
+      creatorTotals.videoIds.add(video.videoId);
+      creatorTotals.screenTime += screenTime;
+      creatorTotals.appearances += intervals.length;
+      brandTotals.creators.set(video.creator, creatorTotals);
+
+      brands.set(brand, brandTotals);
+    });
+  });
+
+  const brandMetrics: BrandMetrics[] = Array.from(brands.entries()).map(([brand, totals]) => {
+    const creators: BrandCreatorMetrics[] = Array.from(totals.creators.entries())
+      .map(([creator, creatorTotals]) => ({
+        creator,
+        videoCount: creatorTotals.videoIds.size,
+        screenTimeSec: round(creatorTotals.screenTime),
+        percentOfDuration: round(percent(creatorTotals.screenTime, creatorDurations.get(creator) ?? 0)),
+        appearanceCount: creatorTotals.appearances,
+      }))
+      .sort((a, b) => b.screenTimeSec - a.screenTimeSec);
+
+    const creatorAverage: ExposureTotals = {
+      screenTimeSec: round(mean(creators.map((c) => c.screenTimeSec))),
+      percentOfDuration: round(mean(creators.map((c) => c.percentOfDuration))),
+      appearanceCount: round(mean(creators.map((c) => c.appearanceCount))),
+    };
+
+    return {
+      brand,
+      videoCount: totals.firstAppearances.length,
+      eventCount: totals.eventCount,
+      screenTimeSec: round(totals.screenTime),
+      percentOfDuration: round(percent(totals.screenTime, totalDuration)),
+      appearanceCount: totals.appearances,
+      firstAppearanceSec: round(Math.min(...totals.firstAppearances)),
+      avgFirstAppearanceSec: round(mean(totals.firstAppearances)),
+      shareOfVoice: round(percent(totals.screenTime, totals.coPresentTime)),
+      creators,
+      creatorAverage,
+    };
+  });
+
+  return {
+    videoCount: videos.length,
+    totalDurationSec: round(totalDuration),
+    brands: brandMetrics.sort((a, b) => b.screenTimeSec - a.screenTimeSec || a.brand.localeCompare(b.brand)),
+  };
+}
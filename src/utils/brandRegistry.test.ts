@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { BrandEntry } from '@/types/brandRegistry';
+import { canonicalizeBrandOverride } from '@/utils/brandRegistry';
+
+const REGISTRY: BrandEntry[] = [
+  { id: 'coca-cola', canonicalName: 'Coca-Cola', aliases: ['Coke'] },
+  { id: 'nike', canonicalName: 'Nike', aliases: [] }
+];
+
+describe('canonicalizeBrandOverride', () => {
+  it('resolves an override saved under an alias', () => {
+    expect(canonicalizeBrandOverride({ brand_override: 'Coke', creator: 'alice' }, REGISTRY))
+      .toEqual({ brand_override: 'Coca-Cola', creator: 'alice' });
+  });
+
+  it('returns the metadata as-is when the override is already canonical or unknown', () => {
+    const canonical = { brand_override: 'Nike' };
+    const unknown = { brand_override: 'Acme' };
+    expect(canonicalizeBrandOverride(canonical, REGISTRY)).toBe(canonical);
+    expect(canonicalizeBrandOverride(unknown, REGISTRY)).toBe(unknown);
+  });
+
+  it('leaves metadata without an override or without a registry untouched', () => {
+    const metadata = { creator: 'alice' };
+    expect(canonicalizeBrandOverride(metadata, REGISTRY)).toBe(metadata);
+    expect(canonicalizeBrandOverride(undefined, REGISTRY)).toBeUndefined();
+    expect(canonicalizeBrandOverride({ brand_override: 'Coke' }, [])).toEqual({ brand_override: 'Coke' });
+  });
+});
@@ -0,0 +1,232 @@
+import { ProductEvent } from '@/types/brandMentions';
+import { BrandEntry, BrandEntryInput, BrandEntryInputSchema, BrandEntrySchema, BrandResolution } from '@/types/brandRegistry';
+import { readJsonFile, writeJsonFile } from '@/utils/localStore';
+
+const REGISTRY_FILE = 'brand-registry.json';
+
+// Minimum similarity (0-1) for a fuzzy match to count
+const FUZZY_THRESHOLD = 0.85;
+// Names shorter than this are only matched exactly to avoid false positives
+const FUZZY_MIN_LENGTH = 4;
+
+// Corporate suffixes ignored when comparing names ("Nike Inc." → "nike")
+const CORPORATE_SUFFIXES = [
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'ltd', 'limited',
+  'llc', 'plc', 'gmbh', 'ag', 'sa', 'group', 'holdings'
+];
+
+/**
+ * Normalizes a brand name for comparison: lowercase, no punctuation or corporate suffixes
+ */
+export function normalizeBrandName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  while (words.length > 1 && CORPORATE_SUFFIXES.includes(words[words.length - 1])) {
+    words.pop();
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Levenshtein-based similarity between two strings (1 = identical)
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+function slugify(name: string): string {
+  return normalizeBrandName(name).replace(/\s+/g, '-') || 'brand';
+}
+
+/**
+ * Loads all registry entries
+ */
+export async function loadBrandRegistry(): Promise<BrandEntry[]> {
+  const entries = await readJsonFile<unknown[]>(REGISTRY_FILE, []);
+  return entries.flatMap((entry) => {
+    const result = BrandEntrySchema.safeParse(entry);
+    if (!result.success) {
+      console.warn('⚠️ Skipping invalid brand registry entry:', entry);
+      return [];
+    }
+    return [result.data];
+  });
+}
+
+// Keep the update chain on globalThis so dev-server module reloads share it
+const globalForRegistry = globalThis as unknown as { brandRegistryUpdates?: Promise<unknown> };
+
+/**
+ * Runs a read-modify-write of the registry after every earlier one, so concurrent
+ * edits on the admin page never overwrite each other
+ */
+function queueRegistryUpdate<T>(update: () => Promise<T>): Promise<T> {
+  const run = (globalForRegistry.brandRegistryUpdates ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(update);
+  globalForRegistry.brandRegistryUpdates = run;
+  return run;
+}
+
+/**
+ * Creates or updates a registry entry
+ * @param input Entry to save; entries are matched by id, or by canonical name when id is omitted
+ * @returns The saved entry, or an error when a name is already claimed by another brand
+ */
+export async function upsertBrandEntry(input: BrandEntryInput): Promise<{ entry: BrandEntry } | { error: string }> {
+  const parsed = BrandEntryInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues.map((issue) => issue.message).join(', ') };
+  }
+
+  return queueRegistryUpdate(async () => {
+    const entries = await loadBrandRegistry();
+    const canonicalKey = normalizeBrandName(parsed.data.canonicalName);
+    const id = parsed.data.id
+      || entries.find((e) => normalizeBrandName(e.canonicalName) === canonicalKey)?.id
+      || slugify(parsed.data.canonicalName);
+
+    const entry: BrandEntry = {
+      id,
+      canonicalName: parsed.data.canonicalName,
+      aliases: Array.from(new Set(parsed.data.aliases.filter((alias) => normalizeBrandName(alias) !== canonicalKey))),
+      parentCompany: parsed.data.parentCompany,
+    };
+
+    // Every name may point at only one brand
+    const names = [entry.canonicalName, ...entry.aliases].map(normalizeBrandName);
+    const conflict = entries.find((other) =>
+      other.id !== id &&
+      [other.canonicalName, ...other.aliases].some((name) => names.includes(normalizeBrandName(name)))
+    );
+    if (conflict) {
+      return { error: `A name is already registered to ${conflict.canonicalName}` };
+    }
+
+    const index = entries.findIndex((e) => e.id === id);
+    if (index >= 0) {
+      entries[index] = entry;
+    } else {
+      entries.push(entry);
+    }
+
+    await writeJsonFile(REGISTRY_FILE, entries.sort((a, b) => a.canonicalName.localeCompare(b.canonicalName)));
+    return { entry };
+  });
+}
+
+/**
+ * Deletes a registry entry
+ * @returns True if an entry was removed
+ */
+export async function deleteBrandEntry(id: string): Promise<boolean> {
+  return queueRegistryUpdate(async () => {
+    const entries = await loadBrandRegistry();
+    const remaining = entries.filter((entry) => entry.id !== id);
+    if (remaining.length === entries.length) return false;
+
+    await writeJsonFile(REGISTRY_FILE, remaining);
+    return true;
+  });
+}
+
+/**
+ * Resolves a raw brand name to its canonical registry name
+ * Tries an exact canonical match, then aliases, then fuzzy similarity
+ * @param name Brand name as reported by the Analyze API or entered by a user
+ * @param registry Registry entries to resolve against
+ * @returns Canonical name and the matching entry; unmatched names are returned trimmed
+ */
+export function resolveBrandName(name: string, registry: BrandEntry[]): BrandResolution {
+  const trimmed = name.trim();
+  const key = normalizeBrandName(trimmed);
+
+  const exact = registry.find((entry) => normalizeBrandName(entry.canonicalName) === key);
+  if (exact) {
+    return { canonicalName: exact.canonicalName, entry: exact, match: 'exact' };
+  }
+
+  const alias = registry.find((entry) => entry.aliases.some((a) => normalizeBrandName(a) === key));
+  if (alias) {
+    return { canonicalName: alias.canonicalName, entry: alias, match: 'alias' };
+  }
+
+  if (key.length >= FUZZY_MIN_LENGTH) {
+    let bestEntry: BrandEntry | null = null;
+    let bestScore = 0;
+    for (const entry of registry) {
+      for (const candidate of [entry.canonicalName, ...entry.aliases]) {
+        const score = similarity(key, normalizeBrandName(candidate));
+        if (score >= FUZZY_THRESHOLD && score > bestScore) {
+          bestEntry = entry;
+          bestScore = score;
+        }
+      }
+    }
+    if (bestEntry) {
+      return { canonicalName: bestEntry.canonicalName, entry: bestEntry, match: 'fuzzy' };
+    }
+  }
+
+  return { canonicalName: trimmed, entry: null, match: 'none' };
+}
+
+/**
+ * Rewrites each event's brand to its canonical registry name
+ * @param events Events to canonicalize
+ * @param registry Registry entries to resolve against
+ * @returns New event list; events are copied only when their brand changes
+ */
+export function canonicalizeEvents(events: ProductEvent[], registry: BrandEntry[]): ProductEvent[] {
+  if (registry.length === 0) {
+    return events;
+  }
+
+  return events.map((event) => {
+    const { canonicalName } = resolveBrandName(event.brand, registry);
+    return canonicalName === event.brand ? event : { ...event, brand: canonicalName };
+  });
+}
+
+/**
+ * Rewrites a video's brand_override to its canonical registry name
+ * Overrides are canonicalized when saved, but ones saved before the registry or the
+ * matching alias existed are resolved here, where the metadata is read.
+ * @param userMetadata Video user_metadata as stored
+ * @param registry Registry entries to resolve against
+ * @returns The metadata; copied only when the override changes
+ */
+export function canonicalizeBrandOverride<T extends Record<string, unknown> | undefined>(
+  userMetadata: T,
+  registry: BrandEntry[]
+): T {
+  const override = userMetadata?.brand_override;
+  if (registry.length === 0 || typeof override !== 'string' || !override.trim()) {
+    return userMetadata;
+  }
+
+  const { canonicalName } = resolveBrandName(override, registry);
+  return canonicalName === override ? userMetadata : { ...userMetadata, brand_override: canonicalName };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { BrandSafetyFlag } from '@/types/brandSafety';
+import { parseBrandSafetyOutput, passesBrandSafety, summarizeBrandSafety } from '@/utils/brandSafety';
+
+const output = (flags: unknown[]) => JSON.stringify({ flags });
+
+const flag = (overrides: Partial<BrandSafetyFlag>): BrandSafetyFlag => ({
+  category: 'alcohol',
+  severity: 'low',
+  timeline_start: 10,
+  timeline_end: 20,
+  ...overrides
+});
+
+describe('parseBrandSafetyOutput', () => {
+  it('reads flags with their category, severity and description', () => {
+    const flags = parseBrandSafetyOutput(
+      output([{ category: 'alcohol', severity: 'medium', timeline: [5, 12], description: ' Beer on the table ' }]),
+      60
+    );
+    expect(flags).toEqual([
+      { category: 'alcohol', severity: 'medium', timeline_start: 5, timeline_end: 12, description: 'Beer on the table' }
+    ]);
+  });
+
+  it('maps alias words to their category and drops unknown categories', () => {
+    const flags = parseBrandSafetyOutput(
+      output([
+        { category: 'Swearing', timeline: [1, 2] },
+        { category: 'weapons shown', timeline: [3, 4] },
+        { category: 'sports betting', timeline: [5, 6] },
+        { category: 'Politics', timeline: [7, 8] },
+        { category: 'spoilers', timeline: [9, 10] }
+      ]),
+      60
+    );
+    expect(flags.map((f) => f.category)).toEqual(['profanity', 'violence', 'gambling', 'political']);
+  });
+
+  it('reads severity words, defaulting to low', () => {
+    const flags = parseBrandSafetyOutput(
+      output([
+        { category: 'violence', severity: 'Severe', timeline: [0, 1] },
+        { category: 'violence', severity: 'moderate', timeline: [0, 1] },
+        { category: 'violence', timeline: [0, 1] }
+      ]),
+      60
+    );
+    expect(flags.map((f) => f.severity)).toEqual(['high', 'medium', 'low']);
+  });
+
+  it('orders swapped timelines and clamps them to the video', () => {
+    const flags = parseBrandSafetyOutput(
+      output([
+        { category: 'alcohol', timeline: [30, 20] },
+        { category: 'alcohol', timeline: [-5, 80] },
+        { category: 'alcohol', timeline: ['15', '25'] }
+      ]),
+      60
+    );
+    expect(flags.map((f) => [f.timeline_start, f.timeline_end])).toEqual([[20, 30], [0, 60], [15, 25]]);
+  });
+
+  it('only clamps at zero when the duration is unknown', () => {
+    const [only] = parseBrandSafetyOutput(output([{ category: 'alcohol', timeline: [-1, 500] }]), 0);
+    expect([only.timeline_start, only.timeline_end]).toEqual([0, 500]);
+  });
+
+  it('drops flags without a readable timeline', () => {
+    const flags = parseBrandSafetyOutput(
+      output([
+        { category: 'alcohol' },
+        { category: 'alcohol', timeline: [5] },
+        { category: 'alcohol', timeline: ['soon', 10] }
+      ]),
+      60
+    );
+    expect(flags).toEqual([]);
+  });
+
+  it('accepts a bare array and fenced output', () => {
+    const item = { category: 'gambling', timeline: [1, 2] };
+    expect(parseBrandSafetyOutput(JSON.stringify([item]), 60)).toHaveLength(1);
+    expect(parseBrandSafetyOutput(`\`\`\`json\n${output([item])}\n\`\`\``, 60)).toHaveLength(1);
+    expect(parseBrandSafetyOutput(output([]), 60)).toEqual([]);
+  });
+
+  it('throws on empty or unusable output', () => {
+    expect(() => parseBrandSafetyOutput('', 60)).toThrow();
+    expect(() => parseBrandSafetyOutput('{"results": []}', 60)).toThrow('Output has no "flags" array');
+  });
+});
+
+describe('summarizeBrandSafety', () => {
+  it('keeps the highest severity per category', () => {
+    expect(summarizeBrandSafety([
+      flag({ severity: 'low' }),
+      flag({ severity: 'high' }),
+      flag({ category: 'gambling', severity: 'medium' })
+    ])).toEqual({ alcohol: 'high', gambling: 'medium' });
+  });
+});
+
+describe('passesBrandSafety', () => {
+  const flags = [flag({ category: 'alcohol', severity: 'low' }), flag({ category: 'violence', severity: 'high' })];
+
+  it('passes everything without a filter', () => {
+    expect(passesBrandSafety(flags, undefined)).toBe(true);
+    expect(passesBrandSafety(undefined, {})).toBe(true);
+  });
+
+  it('excludes videos flagged in an excluded category', () => {
+    expect(passesBrandSafety(flags, { exclude: ['alcohol'] })).toBe(false);
+    expect(passesBrandSafety(flags, { exclude: ['gambling'] })).toBe(true);
+    expect(passesBrandSafety([], { exclude: ['alcohol'] })).toBe(true);
+  });
+
+  it('ignores flags below the minimum severity', () => {
+    expect(passesBrandSafety(flags, { exclude: ['alcohol'], minSeverity: 'medium' })).toBe(true);
+    expect(passesBrandSafety(flags, { exclude: ['violence'], minSeverity: 'high' })).toBe(false);
+  });
+
+  it('passes unscreened videos unless screenedOnly is set', () => {
+    expect(passesBrandSafety(undefined, { exclude: ['alcohol'] })).toBe(true);
+    expect(passesBrandSafety(undefined, { screenedOnly: true })).toBe(false);
+    expect(passesBrandSafety([], { screenedOnly: true })).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  BRAND_SAFETY_CATEGORIES,
+  BRAND_SAFETY_SEVERITIES,
+  BrandSafetyCategory,
+  BrandSafetyFilter,
+  BrandSafetyFlag,
+  BrandSafetySeverity
+} from '@/types/brandSafety';
+import { extractAnalyzeJson } from '@/utils/analyzeOutputParser';
+
+// Words models use for a category instead of its name
+const CATEGORY_ALIASES: Record<string, BrandSafetyCategory> = {
+  swearing: 'profanity',
+  language: 'profanity',
+  violent: 'violence',
+  weapons: 'violence',
+  drinking: 'alcohol',
+  betting: 'gambling',
+  politics: 'political',
+};
+
+/**
+ * Position of a severity in BRAND_SAFETY_SEVERITIES, mildest first
+ */
+export function severityRank(severity: BrandSafetySeverity): number {
+  return BRAND_SAFETY_SEVERITIES.indexOf(severity);
+}
+
+function toCategory(value: unknown): BrandSafetyCategory | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim().toLowerCase();
+  return BRAND_SAFETY_CATEGORIES.find((category) => text.includes(category))
+    ?? Object.entries(CATEGORY_ALIASES).find(([alias]) => text.includes(alias))?.[1];
+}
+
+function toSeverity(value: unknown): BrandSafetySeverity {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (text.includes('high') || text.includes('severe')) return 'high';
+  if (text.includes('medium') || text.includes('moderate')) return 'medium';
+  return 'low';
+}
+
+/**
+ * Parses the output of the brand-safety pass into flags with timelines in seconds
+ * Flags of unknown categories are dropped; timelines are ordered and clamped to the video.
+ * @param duration Video duration in seconds; 0 when unknown
+ * @throws Error when the output is empty or cannot be parsed
+ */
+export function parseBrandSafetyOutput(responseText: string, duration: number): BrandSafetyFlag[] {
+  const extracted = extractAnalyzeJson(responseText);
+  if (extracted.status === 'empty') {
+    throw new Error('The brand-safety pass returned no output');
+  }
+  if (extracted.status === 'parse_failed') {
+    throw new Error(extracted.error);
+  }
+
+  const record = extracted.value && typeof extracted.value === 'object' ? extracted.value as Record<string, unknown> : {};
+  const items = Array.isArray(extracted.value) ? extracted.value : record.flags;
+  if (!Array.isArray(items)) {
+    throw new Error('Output has no "flags" array');
+  }
+
+  const clamp = (seconds: number) => Math.max(0, duration > 0 ? Math.min(seconds, duration) : seconds);
+
+  return items.flatMap((item): BrandSafetyFlag[] => {
+    const raw = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+    const category = toCategory(raw.category);
+    const timeline = Array.isArray(raw.timeline) ? raw.timeline.map(Number) : [];
+    if (!category || timeline.length < 2 || !timeline.slice(0, 2).every(Number.isFinite)) {
+      return [];
+    }
+
+    const [start, end] = timeline[0] <= timeline[1] ? timeline : [timeline[1], timeline[0]];
+    return [{
+      category,
+      severity: toSeverity(raw.severity),
+      timeline_start: clamp(start),
+      timeline_end: clamp(end),
+      description: typeof raw.description === 'string' && raw.description.trim() ? raw.description.trim() : undefined,
+    }];
+  });
+}
+
+/**
+ * Highest severity flagged per category
+ */
+export function summarizeBrandSafety(flags: BrandSafetyFlag[]): Partial<Record<BrandSafetyCategory, BrandSafetySeverity>> {
+  const summary: Partial<Record<BrandSafetyCategory, BrandSafetySeverity>> = {};
+  flags.forEach(({ category, severity }) => {
+    const current = summary[category];
+    if (!current || severityRank(severity) > severityRank(current)) {
+      summary[category] = severity;
+    }
+  });
+  return summary;
+}
+
+/**
+ * Checks a video's brand-safety flags against a brand-safety filter
+ * @param flags The video's flags; undefined when it was never screened
+ */
+export function passesBrandSafety(flags: BrandSafetyFlag[] | undefined, filter: BrandSafetyFilter | undefined): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  if (!flags) {
+    return !filter.screenedOnly;
+  }
+
+  const minRank = filter.minSeverity ? severityRank(filter.minSeverity) : 0;
+  return !flags.some((flag) => filter.exclude?.includes(flag.category) && severityRank(flag.severity) >= minRank);
+}
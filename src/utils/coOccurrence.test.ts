@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ProductEvent } from '@/types/brandMentions';
+import { coOccurringWith, computeCoOccurrence, findPair } from '@/utils/coOccurrence';
+
+const event = (brand: string, start: number, end: number, videoId = 'video-1'): ProductEvent => ({
+  video_id: videoId,
+  brand,
+  product_name: `${brand} product`,
+  timeline_start: start,
+  timeline_end: end,
+  source: 'analyze'
+});
+
+describe('computeCoOccurrence', () => {
+  it('does not count windows that two brands only touch at a boundary', () => {
+    const report = computeCoOccurrence({ 'video-1': [event('Nike', 0, 10), event('Pepsi', 10, 20)] });
+    expect(findPair(report, 'Nike', 'Pepsi')).toMatchObject({ videoCount: 1, windowCount: 0, overlapSec: 0 });
+  });
+
+  it('counts every window an exposure crosses into', () => {
+    const report = computeCoOccurrence({ 'video-1': [event('Nike', 9, 11), event('Pepsi', 0, 20)] });
+    expect(findPair(report, 'Nike', 'Pepsi')).toMatchObject({ windowCount: 2, overlapSec: 2 });
+  });
+
+  it('counts overlap seconds once when detections of a brand overlap', () => {
+    const report = computeCoOccurrence({
+      'video-1': [event('Nike', 0, 10), event('Nike', 5, 15), event('Nike', 5, 15), event('Pepsi', 0, 20)]
+    });
+    expect(findPair(report, 'Nike', 'Pepsi')).toMatchObject({ overlapSec: 15, windowCount: 2 });
+  });
+
+  it('adds up pairs across videos and keeps the brands in alphabetical order', () => {
+    const report = computeCoOccurrence({
+      'video-1': [event('Pepsi', 0, 5), event('Nike', 3, 8)],
+      'video-2': [event('Nike', 0, 4, 'video-2'), event('Pepsi', 2.5, 30, 'video-2')],
+      'video-3': [event('Nike', 0, 4, 'video-3')]
+    });
+    expect(report.pairs).toEqual([
+      { a: 'Nike', b: 'Pepsi', videoCount: 2, windowCount: 2, overlapSec: 3.5, videoIds: ['video-1', 'video-2'] }
+    ]);
+    expect(report.brands).toEqual([{ brand: 'Nike', videoCount: 3 }, { brand: 'Pepsi', videoCount: 2 }]);
+  });
+
+  it('uses the given window length', () => {
+    const events = { 'video-1': [event('Nike', 0, 5), event('Pepsi', 25, 30)] };
+    expect(findPair(computeCoOccurrence(events), 'Nike', 'Pepsi')?.windowCount).toBe(0);
+    expect(findPair(computeCoOccurrence(events, 60), 'Nike', 'Pepsi')?.windowCount).toBe(1);
+  });
+
+  it('rejects a window length that is not positive', () => {
+    expect(() => computeCoOccurrence({}, 0)).toThrow('windowSec must be a positive number');
+    expect(() => computeCoOccurrence({}, Number.NaN)).toThrow();
+  });
+});
+
+describe('coOccurringWith', () => {
+  it('lists the other brand of each pair, strongest first, skipping zero values', () => {
+    const report = computeCoOccurrence({
+      'video-1': [event('Nike', 0, 10), event('Adidas', 5, 10), event('Pepsi', 10, 20)]
+    });
+    expect(coOccurringWith(report, 'Nike', 'overlap').map((entry) => entry.brand)).toEqual(['Adidas']);
+    expect(coOccurringWith(report, 'Nike', 'videos').map((entry) => entry.brand).sort()).toEqual(['Adidas', 'Pepsi']);
+  });
+});
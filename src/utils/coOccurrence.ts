@@ -0,0 +1,134 @@
+import { ProductEvent } from '@/types/brandMentions';
+import { BrandPair, CoOccurrenceMeasure, CoOccurrenceReport } from '@/types/coOccurrence';
+import { exposureIntervals } from '@/utils/brandMetrics';
+
+export const DEFAULT_CO_OCCURRENCE_WINDOW_SEC = 10;
+
+type Interval = { start: number; end: number };
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const pairKey = (a: string, b: string): string => JSON.stringify(a < b ? [a, b] : [b, a]);
+
+// Seconds two sorted, non-overlapping interval lists have in common
+function sharedLength(first: Interval[], second: Interval[]): number {
+  let total = 0;
+  let i = 0;
+  let j = 0;
+  while (i < first.length && j < second.length) {
+    total += Math.max(0, Math.min(first[i].end, second[j].end) - Math.max(first[i].start, second[j].start));
+    if (first[i].end < second[j].end) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return total;
+}
+
+// Indexes of the time windows an interval list touches
+function windowsTouched(intervals: Interval[], windowSec: number): Set<number> {
+  const windows = new Set<number>();
+  intervals.forEach(({ start, end }) => {
+    const last = Math.max(Math.floor(start / windowSec), Math.ceil(end / windowSec) - 1);
+    for (let index = Math.floor(start / windowSec); index <= last; index++) {
+      windows.add(index);
+    }
+  });
+  return windows;
+}
+
+/**
+ * Counts which brands appear together, per pair of brands:
+ * in the same video, in the same time window of a video, and on screen at the same time.
+ * Overlapping detections of a brand are merged first, so overlap seconds are counted once.
+ * @param eventsByVideo Events per video ID
+ * @param windowSec Length of the time windows, in seconds
+ */
+export function computeCoOccurrence(
+  eventsByVideo: Record<string, ProductEvent[]>,
+  windowSec: number = DEFAULT_CO_OCCURRENCE_WINDOW_SEC
+): CoOccurrenceReport {
+  if (!(windowSec > 0)) {
+    throw new Error('windowSec must be a positive number');
+  }
+
+  const brandVideos = new Map<string, number>();
+  const pairs = new Map<string, BrandPair>();
+
+  Object.entries(eventsByVideo).forEach(([videoId, events]) => {
+    const eventsByBrand = new Map<string, ProductEvent[]>();
+    events.forEach((event) => {
+      eventsByBrand.set(event.brand, [...(eventsByBrand.get(event.brand) ?? []), event]);
+    });
+
+    const exposures = Array.from(eventsByBrand.entries())
+      .map(([brand, brandEvents]) => {
+        const intervals = exposureIntervals(brandEvents);
+        return { brand, intervals, windows: windowsTouched(intervals, windowSec) };
+      })
+      .filter((exposure) => exposure.intervals.length > 0);
+
+    exposures.forEach(({ brand }) => brandVideos.set(brand, (brandVideos.get(brand) ?? 0) + 1));
+
+    exposures.forEach((first, index) => {
+      exposures.slice(index + 1).forEach((second) => {
+        const [a, b] = first.brand < second.brand ? [first, second] : [second, first];
+        const key = pairKey(a.brand, b.brand);
+        const pair = pairs.get(key) ?? { a: a.brand, b: b.brand, videoCount: 0, windowCount: 0, overlapSec: 0, videoIds: [] };
+
+        pair.videoCount += 1;
+        pair.windowCount += Array.from(a.windows).filter((window) => b.windows.has(window)).length;
+        pair.overlapSec += sharedLength(a.intervals, b.intervals);
+        pair.videoIds.push(videoId);
+        pairs.set(key, pair);
+      });
+    });
+  });
+
+  return {
+    windowSec,
+    brands: Array.from(brandVideos.entries())
+      .map(([brand, videoCount]) => ({ brand, videoCount }))
+      .sort((x, y) => y.videoCount - x.videoCount || x.brand.localeCompare(y.brand)),
+    pairs: Array.from(pairs.values())
+      .map((pair) => ({ ...pair, overlapSec: round(pair.overlapSec) }))
+      .sort((x, y) => y.videoCount - x.videoCount || y.overlapSec - x.overlapSec),
+  };
+}
+
+/**
+ * Value of a pair for a co-occurrence measure
+ */
+export function pairValue(pair: BrandPair, measure: CoOccurrenceMeasure): number {
+  switch (measure) {
+    case 'videos':
+      return pair.videoCount;
+    case 'window':
+      return pair.windowCount;
+    case 'overlap':
+      return pair.overlapSec;
+  }
+}
+
+/**
+ * Looks up the co-occurrence of two brands, in either order
+ */
+export function findPair(report: CoOccurrenceReport, first: string, second: string): BrandPair | undefined {
+  const [a, b] = first < second ? [first, second] : [second, first];
+  return report.pairs.find((pair) => pair.a === a && pair.b === b);
+}
+
+/**
+ * Brands that co-occur with a brand, strongest first; used for competitive-conflict checks
+ */
+export function coOccurringWith(
+  report: CoOccurrenceReport,
+  brand: string,
+  measure: CoOccurrenceMeasure
+): { brand: string; pair: BrandPair }[] {
+  return report.pairs
+    .filter((pair) => (pair.a === brand || pair.b === brand) && pairValue(pair, measure) > 0)
+    .map((pair) => ({ brand: pair.a === brand ? pair.b : pair.a, pair }))
+    .sort((x, y) => pairValue(y.pair, measure) - pairValue(x.pair, measure));
+}
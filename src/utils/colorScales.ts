@@ -0,0 +1,75 @@
+import { HeatmapColorScale } from '@/types/brandMentions';
+
+// Colour of cells with no value, whatever the scale
+export const EMPTY_CELL_COLOR = 'rgba(255, 255, 255, 1)';
+
+/**
+ * Colour stops of each heatmap scale, lowest values first
+ * The range from zero to the maximum is split evenly between the stops.
+ */
+export const COLOR_SCALES: Record<HeatmapColorScale, { label: string; stops: string[] }> = {
+  zinc: {
+    label: 'Zinc',
+    stops: [
+      'rgba(255, 255, 255, 1)',
+      'rgba(29, 28, 27, 0.1)',
+      'rgba(29, 28, 27, 0.2)',
+      'rgba(29, 28, 27, 0.3)',
+      'rgba(29, 28, 27, 0.4)',
+      'rgba(29, 28, 27, 0.6)',
+      'rgba(29, 28, 27, 0.7)',
+      'rgba(29, 28, 27, 0.8)',
+      'rgba(29, 28, 27, 0.9)',
+      'rgba(29, 28, 27, 1)'
+    ]
+  },
+  // ColorBrewer Blues
+  sequential: {
+    label: 'Sequential',
+    stops: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b']
+  },
+  // ColorBrewer RdBu, blue end first
+  diverging: {
+    label: 'Diverging',
+    stops: ['#2166ac', '#4393c3', '#92c5de', '#d1e5f0', '#f7f7f7', '#fddbc7', '#f4a582', '#d6604d', '#b2182b']
+  },
+  // Viridis, light end first so low values stay light
+  colorblind: {
+    label: 'Colour-blind safe',
+    stops: ['#fde725', '#addc30', '#5ec962', '#28ae80', '#21918c', '#2c728e', '#3b528b', '#472d7b', '#440154']
+  }
+};
+
+/**
+ * Single-hue sequential stops, from a pale to a dark tint of the hue
+ * @param hue HSL hue, 0-360
+ */
+export function hueScaleStops(hue: number): string[] {
+  return [95, 87, 79, 70, 61, 52, 43, 34, 25].map((lightness) => `hsl(${hue}, 70%, ${lightness}%)`);
+}
+
+/**
+ * Colour of a value on a scale; zero and negative values get EMPTY_CELL_COLOR
+ * @param maxValue Value mapped to the last stop
+ */
+export function colorForValue(stops: string[], value: number, maxValue: number): string {
+  if (value <= 0 || maxValue <= 0) {
+    return EMPTY_CELL_COLOR;
+  }
+
+  const index = Math.ceil(Math.min(value / maxValue, 1) * stops.length) - 1;
+  return stops[Math.max(0, index)];
+}
+
+/**
+ * Value range of each stop, for a legend
+ * @param maxValue Value mapped to the last stop
+ * @returns One entry per stop; a stop covers values above from, up to and including to
+ */
+export function scaleThresholds(stops: string[], maxValue: number): { color: string; from: number; to: number }[] {
+  return stops.map((color, index) => ({
+    color,
+    from: (index / stops.length) * maxValue,
+    to: ((index + 1) / stops.length) * maxValue
+  }));
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { EventFilters, ProductEvent } from '@/types/brandMentions';
+import {
+  FilterableVideo,
+  applyEventFilters,
+  filterEvents,
+  matchesVideoFilters,
+  needsVideoMetadata,
+  parseEventFiltersParams
+} from '@/utils/eventFilters';
+
+const event = (overrides: Partial<ProductEvent>): ProductEvent => ({
+  video_id: 'v1',
+  brand: 'Nike',
+  product_name: 'Air Max',
+  timeline_start: 0,
+  timeline_end: 10,
+  source: 'analyze',
+  ...overrides
+});
+
+const EVENTS: ProductEvent[] = [
+  event({ event_id: 'nike-early', timeline_start: 0, timeline_end: 10, confidence: 0.9 }),
+  event({ event_id: 'nike-short', timeline_start: 40, timeline_end: 41, confidence: 0.4 }),
+  event({ event_id: 'pepsi', brand: 'Pepsi', product_name: 'Can', timeline_start: 20, timeline_end: 30 }),
+  event({
+    event_id: 'rejected',
+    brand: 'Pepsi',
+    product_name: 'Can',
+    timeline_start: 50,
+    timeline_end: 60,
+    confidence: 0.8,
+    review: { status: 'rejected', reviewed_at: '2026-01-01T00:00:00.000Z' }
+  }),
+  event({
+    event_id: 'accepted',
+    timeline_start: 70,
+    timeline_end: 80,
+    confidence: 0.95,
+    review: { status: 'accepted', reviewed_at: '2026-01-01T00:00:00.000Z' }
+  })
+];
+
+const VIDEO: FilterableVideo = {
+  creator: 'alice',
+  format: 'vertical',
+  region: 'US',
+  styles: ['vlog'],
+  tones: ['calm', 'upbeat'],
+  safety: [{ category: 'alcohol', severity: 'low', timeline_start: 5, timeline_end: 6 }]
+};
+
+const ids = (events: ProductEvent[] | null) => events?.map((e) => e.event_id) ?? null;
+
+const params = (query: string) => new URLSearchParams(query);
+
+describe('filterEvents', () => {
+  it('drops only rejected events without filters', () => {
+    expect(ids(filterEvents(EVENTS, {}))).toEqual(['nike-early', 'nike-short', 'pepsi', 'accepted']);
+  });
+
+  it('filters by brand and product', () => {
+    expect(ids(filterEvents(EVENTS, { brandAsset: { brands: ['Pepsi'] } }))).toEqual(['pepsi']);
+    expect(ids(filterEvents(EVENTS, { brandAsset: { products: ['Air Max'] } }))).toEqual(['nike-early', 'nike-short', 'accepted']);
+    expect(ids(filterEvents(EVENTS, { brandAsset: { brands: [] } }))).toHaveLength(4);
+  });
+
+  it('filters by minimum duration', () => {
+    expect(ids(filterEvents(EVENTS, { durationMinSec: 5 }))).toEqual(['nike-early', 'pepsi', 'accepted']);
+  });
+
+  it('filters by confidence, dropping unscored events', () => {
+    expect(ids(filterEvents(EVENTS, { minConfidence: 0.5 }))).toEqual(['nike-early', 'accepted']);
+    expect(ids(filterEvents(EVENTS, { minConfidence: 0 }))).toHaveLength(4);
+  });
+
+  it('keeps events overlapping the time window', () => {
+    expect(ids(filterEvents(EVENTS, { timeWindow: { start: 10, end: 40 } }))).toEqual(['nike-early', 'nike-short', 'pepsi']);
+    expect(ids(filterEvents(EVENTS, { timeWindow: { start: 35 } }))).toEqual(['nike-short', 'accepted']);
+    expect(ids(filterEvents(EVENTS, { timeWindow: { end: 5 } }))).toEqual(['nike-early']);
+  });
+
+  it('converts the position window to seconds with each video\'s duration', () => {
+    const filters: EventFilters = { positionWindow: { start: 25, end: 50 } };
+    expect(ids(filterEvents(EVENTS, filters, 100))).toEqual(['nike-short', 'pepsi']);
+    expect(ids(filterEvents(EVENTS, filters, 160))).toEqual(['nike-short', 'accepted']);
+    expect(ids(filterEvents(EVENTS, { positionWindow: { end: 10 } }, 50))).toEqual(['nike-early']);
+  });
+
+  it('keeps no events for a position window when the duration is unknown', () => {
+    expect(filterEvents(EVENTS, { positionWindow: { start: 0, end: 100 } })).toEqual([]);
+    expect(filterEvents(EVENTS, { positionWindow: { start: 0, end: 100 } }, 0)).toEqual([]);
+    expect(filterEvents(EVENTS, { positionWindow: {} })).toHaveLength(4);
+  });
+
+  it('filters by review status, including rejected events only when asked', () => {
+    expect(ids(filterEvents(EVENTS, { reviewStatus: ['accepted'] }))).toEqual(['accepted']);
+    expect(ids(filterEvents(EVENTS, { reviewStatus: ['rejected', 'pending'] }))).toEqual(['nike-early', 'nike-short', 'pepsi', 'rejected']);
+  });
+
+  it('combines filters', () => {
+    const filters: EventFilters = {
+      brandAsset: { brands: ['Nike'] },
+      durationMinSec: 5,
+      minConfidence: 0.5,
+      timeWindow: { start: 0, end: 50 }
+    };
+    expect(ids(filterEvents(EVENTS, filters))).toEqual(['nike-early']);
+  });
+});
+
+describe('matchesVideoFilters', () => {
+  it('passes every video without filters', () => {
+    expect(matchesVideoFilters(VIDEO, {})).toBe(true);
+    expect(matchesVideoFilters({}, {})).toBe(true);
+  });
+
+  it('filters by creator, format and region, excluding unknown values', () => {
+    expect(matchesVideoFilters(VIDEO, { creators: ['alice'] })).toBe(true);
+    expect(matchesVideoFilters(VIDEO, { creators: ['bob'] })).toBe(false);
+    expect(matchesVideoFilters(VIDEO, { format: 'horizontal' })).toBe(false);
+    expect(matchesVideoFilters(VIDEO, { format: 'any' })).toBe(true);
+    expect(matchesVideoFilters({}, { format: 'vertical' })).toBe(false);
+    expect(matchesVideoFilters(VIDEO, { region: ['US', 'CA'] })).toBe(true);
+    expect(matchesVideoFilters({}, { region: ['US'] })).toBe(false);
+  });
+
+  it('matches any of the selected styles and tones', () => {
+    expect(matchesVideoFilters(VIDEO, { tones: ['upbeat', 'dark'] })).toBe(true);
+    expect(matchesVideoFilters(VIDEO, { styles: ['tutorial'] })).toBe(false);
+    expect(matchesVideoFilters({}, { styles: ['vlog'] })).toBe(false);
+  });
+
+  it('applies brand-safety screening', () => {
+    expect(matchesVideoFilters(VIDEO, { safety: { exclude: ['alcohol'] } })).toBe(false);
+    expect(matchesVideoFilters(VIDEO, { safety: { exclude: ['alcohol'], minSeverity: 'medium' } })).toBe(true);
+    expect(matchesVideoFilters({ ...VIDEO, safety: undefined }, { safety: { screenedOnly: true } })).toBe(false);
+    expect(matchesVideoFilters({ ...VIDEO, safety: undefined }, { safety: { exclude: ['alcohol'] } })).toBe(true);
+  });
+
+  it('checks brands only when the video lists them', () => {
+    const filters: EventFilters = { brandAsset: { brands: ['Pepsi'] } };
+    expect(matchesVideoFilters(VIDEO, filters)).toBe(true);
+    expect(matchesVideoFilters({ ...VIDEO, brands: ['Nike'] }, filters)).toBe(false);
+    expect(matchesVideoFilters({ ...VIDEO, brands: ['Nike', 'Pepsi'] }, filters)).toBe(true);
+  });
+});
+
+describe('applyEventFilters', () => {
+  it('returns null when the video does not show a selected brand', () => {
+    const nikeOnly = EVENTS.filter((e) => e.brand === 'Nike');
+    expect(applyEventFilters(VIDEO, nikeOnly, { brandAsset: { brands: ['Pepsi'] } })).toBeNull();
+  });
+
+  it('returns null when the video is filtered out', () => {
+    expect(applyEventFilters(VIDEO, EVENTS, { creators: ['bob'] })).toBeNull();
+  });
+
+  it('returns the remaining events of a matching video', () => {
+    expect(ids(applyEventFilters(VIDEO, EVENTS, { creators: ['alice'], brandAsset: { brands: ['Pepsi'] } }))).toEqual(['pepsi']);
+  });
+
+  it('uses the video\'s duration for the position window', () => {
+    expect(ids(applyEventFilters({ ...VIDEO, duration: 100 }, EVENTS, { positionWindow: { start: 60 } }))).toEqual(['accepted']);
+    expect(applyEventFilters(VIDEO, EVENTS, { positionWindow: { start: 60 } })).toEqual([]);
+  });
+});
+
+describe('needsVideoMetadata', () => {
+  it('is true only for creator, format, region and position window filters', () => {
+    expect(needsVideoMetadata({})).toBe(false);
+    expect(needsVideoMetadata({ brandAsset: { brands: ['Nike'] }, tones: ['calm'], minConfidence: 0.5 })).toBe(false);
+    expect(needsVideoMetadata({ creators: [] })).toBe(false);
+    expect(needsVideoMetadata({ format: 'any' })).toBe(false);
+    expect(needsVideoMetadata({ creators: ['alice'] })).toBe(true);
+    expect(needsVideoMetadata({ format: 'vertical' })).toBe(true);
+    expect(needsVideoMetadata({ region: ['US'] })).toBe(true);
+    expect(needsVideoMetadata({ positionWindow: { start: 10 } })).toBe(true);
+  });
+});
+
+describe('parseEventFiltersParams', () => {
+  it('returns no filters for empty params', () => {
+    expect(parseEventFiltersParams(params(''))).toEqual({ filters: {} });
+    expect(parseEventFiltersParams(params('brands=&start=&format='))).toEqual({ filters: {} });
+  });
+
+  it('reads comma-separated lists, trimming blanks', () => {
+    const result = parseEventFiltersParams(params('brands=Nike, Pepsi,&products=Can&creators=alice&region=US,CA&styles=vlog&tones=calm'));
+    expect(result).toEqual({
+      filters: {
+        brandAsset: { brands: ['Nike', 'Pepsi'], products: ['Can'] },
+        creators: ['alice'],
+        region: ['US', 'CA'],
+        styles: ['vlog'],
+        tones: ['calm']
+      }
+    });
+  });
+
+  it('reads numbers, format and review status', () => {
+    const result = parseEventFiltersParams(params('durationMinSec=2&minConfidence=0.6&start=5&end=30.5&format=vertical&reviewStatus=accepted,edited'));
+    expect(result).toEqual({
+      filters: {
+        durationMinSec: 2,
+        minConfidence: 0.6,
+        timeWindow: { start: 5, end: 30.5 },
+        format: 'vertical',
+        reviewStatus: ['accepted', 'edited']
+      }
+    });
+  });
+
+  it('reads brand-safety params', () => {
+    const result = parseEventFiltersParams(params('safetyExclude=alcohol,gambling&safetyMinSeverity=medium&safetyScreenedOnly=true'));
+    expect(result).toEqual({
+      filters: { safety: { exclude: ['alcohol', 'gambling'], minSeverity: 'medium', screenedOnly: true } }
+    });
+  });
+
+  it('reads the position window', () => {
+    expect(parseEventFiltersParams(params('positionStart=20&positionEnd=40'))).toEqual({
+      filters: { positionWindow: { start: 20, end: 40 } }
+    });
+    expect(parseEventFiltersParams(params('positionEnd=150'))).toHaveProperty('error');
+  });
+
+  it('rejects invalid values', () => {
+    expect(parseEventFiltersParams(params('start=soon'))).toEqual({ error: 'start must be a number' });
+    expect(parseEventFiltersParams(params('minConfidence=2'))).toHaveProperty('error');
+    expect(parseEventFiltersParams(params('durationMinSec=-1'))).toHaveProperty('error');
+    expect(parseEventFiltersParams(params('format=square'))).toHaveProperty('error');
+    expect(parseEventFiltersParams(params('reviewStatus=maybe'))).toHaveProperty('error');
+    expect(parseEventFiltersParams(params('safetyExclude=spoilers'))).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,210 @@
+import { EventFilters, EventFiltersSchema, ProductEvent, ReviewStatus } from '@/types/brandMentions';
+import { BrandSafetyCategory, BrandSafetyFlag, BrandSafetySeverity } from '@/types/brandSafety';
+import { reviewStatusOf } from '@/utils/eventReview';
+import { passesBrandSafety } from '@/utils/brandSafety';
+
+/**
+ * Video-level attributes EventFilters can select on
+ */
+export interface FilterableVideo {
+  creator?: string;
+  format?: 'vertical' | 'horizontal';
+  region?: string;
+  styles?: string[];
+  tones?: string[];
+  brands?: string[]; // brands detected in the video; checked against the brand filter when given
+  safety?: BrandSafetyFlag[]; // unset when the video was never screened
+  duration?: number; // seconds; needed by the position window filter
+}
+
+// Comma-separated query params that map onto EventFilters lists
+const LIST_PARAMS = ['brands', 'products', 'region', 'creators', 'styles', 'tones', 'reviewStatus', 'safetyExclude'] as const;
+
+const hasAny = (selected: string[] | undefined, values: string[] | undefined): boolean =>
+  !selected || selected.length === 0 || (values ?? []).some((value) => selected.includes(value));
+
+/**
+ * Checks a video against the creator, format, region, style, tone, brand and brand-safety filters
+ * Videos whose format or region is unknown are excluded once that filter is set
+ */
+export function matchesVideoFilters(video: FilterableVideo, filters: EventFilters): boolean {
+  if (filters.creators && filters.creators.length > 0) {
+    if (!video.creator || !filters.creators.includes(video.creator)) {
+      return false;
+    }
+  }
+
+  if (filters.format && filters.format !== 'any') {
+    if (video.format !== filters.format) {
+      return false;
+    }
+  }
+
+  if (filters.region && filters.region.length > 0) {
+    if (!video.region || !filters.region.includes(video.region)) {
+      return false;
+    }
+  }
+
+  if (!hasAny(filters.styles, video.styles) || !hasAny(filters.tones, video.tones)) {
+    return false;
+  }
+
+  if (!passesBrandSafety(video.safety, filters.safety)) {
+    return false;
+  }
+
+  // Only videos showing a selected brand pass
+  if (video.brands && !hasAny(filters.brandAsset?.brands, video.brands)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Keeps the events that pass the brand/product, duration, confidence, time window, position window and review filters
+ * Rejected events only pass when reviewStatus includes 'rejected'
+ * @param videoDuration Duration of the events' video in seconds; without it no event passes a position window
+ */
+export function filterEvents(events: ProductEvent[], filters: EventFilters, videoDuration?: number): ProductEvent[] {
+  const { brandAsset, durationMinSec, minConfidence, timeWindow, positionWindow, reviewStatus } = filters;
+  const hasPositionWindow = positionWindow?.start !== undefined || positionWindow?.end !== undefined;
+  const duration = videoDuration ?? 0;
+
+  return events.filter((event) => {
+    const status = reviewStatusOf(event);
+    if (reviewStatus && reviewStatus.length > 0 ? !reviewStatus.includes(status) : status === 'rejected') {
+      return false;
+    }
+
+    if (brandAsset?.brands && brandAsset.brands.length > 0 && !brandAsset.brands.includes(event.brand)) {
+      return false;
+    }
+
+    if (brandAsset?.products && brandAsset.products.length > 0 && !brandAsset.products.includes(event.product_name)) {
+      return false;
+    }
+
+    if (durationMinSec !== undefined && event.timeline_end - event.timeline_start < durationMinSec) {
+      return false;
+    }
+
+    // Unscored legacy events only pass when no minimum is set
+    if (minConfidence !== undefined && minConfidence > 0 && (event.confidence ?? 0) < minConfidence) {
+      return false;
+    }
+
+    // Events overlapping the window pass
+    if (timeWindow?.start !== undefined && event.timeline_end < timeWindow.start) {
+      return false;
+    }
+    if (timeWindow?.end !== undefined && event.timeline_start > timeWindow.end) {
+      return false;
+    }
+
+    // The same share of every video, whatever its length
+    if (hasPositionWindow) {
+      if (duration <= 0) {
+        return false;
+      }
+      if (positionWindow?.start !== undefined && event.timeline_end < (positionWindow.start / 100) * duration) {
+        return false;
+      }
+      if (positionWindow?.end !== undefined && event.timeline_start > (positionWindow.end / 100) * duration) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Applies EventFilters to one video
+ * @returns The video's remaining events, or null when the video itself is filtered out
+ */
+export function applyEventFilters(
+  video: FilterableVideo,
+  events: ProductEvent[],
+  filters: EventFilters
+): ProductEvent[] | null {
+  const brands = Array.from(new Set(events.map((event) => event.brand)));
+  if (!matchesVideoFilters({ ...video, brands }, filters)) {
+    return null;
+  }
+  return filterEvents(events, filters, video.duration);
+}
+
+/**
+ * Checks whether any filter needs video metadata (creator, format, region or duration) to be applied
+ */
+export function needsVideoMetadata(filters: EventFilters): boolean {
+  return Boolean(
+    filters.creators?.length
+    || (filters.format && filters.format !== 'any')
+    || filters.region?.length
+    || filters.positionWindow?.start !== undefined
+    || filters.positionWindow?.end !== undefined
+  );
+}
+
+/**
+ * Reads EventFilters from query params:
+ * brands, products, region, creators, styles, tones, reviewStatus, safetyExclude (comma-separated),
+ * durationMinSec, minConfidence, start, end, positionStart, positionEnd (numbers), format, safetyMinSeverity
+ * and safetyScreenedOnly ('true')
+ * @returns The filters, or an error message for invalid values
+ */
+export function parseEventFiltersParams(params: URLSearchParams): { filters: EventFilters } | { error: string } {
+  const lists: Partial<Record<typeof LIST_PARAMS[number], string[]>> = {};
+  LIST_PARAMS.forEach((name) => {
+    const value = params.get(name);
+    if (value) {
+      lists[name] = value.split(',').map((item) => item.trim()).filter(Boolean);
+    }
+  });
+
+  const numbers: Record<string, number | undefined> = {};
+  for (const name of ['durationMinSec', 'minConfidence', 'start', 'end', 'positionStart', 'positionEnd']) {
+    const value = params.get(name);
+    if (value === null || value === '') continue;
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed)) {
+      return { error: `${name} must be a number` };
+    }
+    numbers[name] = parsed;
+  }
+
+  const candidate: EventFilters = {
+    brandAsset: lists.brands || lists.products ? { brands: lists.brands, products: lists.products } : undefined,
+    durationMinSec: numbers.durationMinSec,
+    minConfidence: numbers.minConfidence,
+    timeWindow: numbers.start !== undefined || numbers.end !== undefined
+      ? { start: numbers.start, end: numbers.end }
+      : undefined,
+    positionWindow: numbers.positionStart !== undefined || numbers.positionEnd !== undefined
+      ? { start: numbers.positionStart, end: numbers.positionEnd }
+      : undefined,
+    format: (params.get('format') || undefined) as EventFilters['format'],
+    region: lists.region,
+    creators: lists.creators,
+    styles: lists.styles,
+    tones: lists.tones,
+    reviewStatus: lists.reviewStatus as ReviewStatus[] | undefined,
+    safety: lists.safetyExclude || params.get('safetyMinSeverity') || params.get('safetyScreenedOnly') === 'true'
+      ? {
+          exclude: lists.safetyExclude as BrandSafetyCategory[] | undefined,
+          minSeverity: (params.get('safetyMinSeverity') || undefined) as BrandSafetySeverity | undefined,
+          screenedOnly: params.get('safetyScreenedOnly') === 'true' || undefined,
+        }
+      : undefined,
+  };
+
+  const result = EventFiltersSchema.safeParse(candidate);
+  if (!result.success) {
+    return { error: `Invalid filters: ${result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}` };
+  }
+
+  return { filters: result.data };
+}
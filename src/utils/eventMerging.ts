@@ -0,0 +1,135 @@
+import { MergeOptions, MergeStrategy, ProductEvent } from '@/types/brandMentions';
+import { isVerified, reviewStatusOf } from '@/utils/eventReview';
+
+// Gap used by the 'gap' strategy when the caller does not specify one
+export const DEFAULT_MERGE_GAP_SEC = 2;
+
+type MergeFn = (events: ProductEvent[], options: MergeOptions) => ProductEvent[];
+
+/**
+ * Combines a run of same-brand events into one event spanning all of them
+ * Descriptive fields come from the longest event in the run. The combined event
+ * cannot be reviewed itself; it counts as verified only when every event in the run is,
+ * and as manual only when every event in the run was added by hand.
+ */
+function combineRun(run: ProductEvent[]): ProductEvent {
+  if (run.length === 1) {
+    return run[0];
+  }
+
+  const longest = run.reduce((best, event) =>
+    event.timeline_end - event.timeline_start > best.timeline_end - best.timeline_start ? event : best
+  );
+  const confidences = run.map((event) => event.confidence).filter((c): c is number => c !== undefined);
+
+  return {
+    ...longest,
+    timeline_start: Math.min(...run.map((event) => event.timeline_start)),
+    timeline_end: Math.max(...run.map((event) => event.timeline_end)),
+    confidence: confidences.length > 0 ? Math.max(...confidences) : longest.confidence,
+    merged_count: run.reduce((sum, event) => sum + (event.merged_count ?? 1), 0),
+    event_id: undefined,
+    review: run.every(isVerified) ? longest.review : undefined,
+    source: run.every((event) => event.source === 'manual') ? 'manual' : 'analyze',
+  };
+}
+
+/**
+ * Builds a merge function that joins consecutive same-brand events while
+ * the next event starts no more than `maxGap` seconds after the run ends
+ */
+function mergeWithinGap(getGap: (options: MergeOptions) => number): MergeFn {
+  return (events, options) => {
+    const maxGap = getGap(options);
+    const byBrand = new Map<string, ProductEvent[]>();
+    // Rejected detections are kept apart so they never widen a merged event
+    const rejected = events.filter((event) => reviewStatusOf(event) === 'rejected');
+
+    events.filter((event) => reviewStatusOf(event) !== 'rejected').forEach((event) => {
+      const key = event.brand.trim().toLowerCase();
+      if (!byBrand.has(key)) byBrand.set(key, []);
+      byBrand.get(key)!.push(event);
+    });
+
+    const merged: ProductEvent[] = [...rejected];
+
+    byBrand.forEach((brandEvents) => {
+      const sorted = [...brandEvents].sort((a, b) => a.timeline_start - b.timeline_start);
+      let run: ProductEvent[] = [sorted[0]];
+      let runEnd = sorted[0].timeline_end;
+
+      sorted.slice(1).forEach((event) => {
+        if (event.timeline_start - runEnd <= maxGap) {
+          run.push(event);
+          runEnd = Math.max(runEnd, event.timeline_end);
+        } else {
+          merged.push(combineRun(run));
+          run = [event];
+          runEnd = event.timeline_end;
+        }
+      });
+
+      merged.push(combineRun(run));
+    });
+
+    return merged.sort((a, b) => a.timeline_start - b.timeline_start);
+  };
+}
+
+/**
+ * Registered merge strategies
+ * Add an entry here (and to MergeStrategy) to make a new strategy selectable
+ */
+const MERGE_STRATEGIES: Record<MergeStrategy, MergeFn> = {
+  raw: (events) => events,
+  overlap: mergeWithinGap(() => 0),
+  gap: mergeWithinGap((options) => options.gapSec ?? DEFAULT_MERGE_GAP_SEC),
+};
+
+/**
+ * Returns true if the value names a registered merge strategy
+ */
+export function isMergeStrategy(value: unknown): value is MergeStrategy {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MERGE_STRATEGIES, value);
+}
+
+/**
+ * Parses merge options from request input
+ * @param strategy Strategy name; defaults to 'raw' when missing
+ * @param gapSec Gap in seconds for the 'gap' strategy (number or numeric string)
+ * @returns Parsed options, or an error message when the input is invalid
+ */
+export function parseMergeOptions(
+  strategy: unknown,
+  gapSec: unknown
+): { options: MergeOptions } | { error: string } {
+  const name = strategy === undefined || strategy === null || strategy === '' ? 'raw' : strategy;
+  if (!isMergeStrategy(name)) {
+    return { error: `merge must be one of: ${Object.keys(MERGE_STRATEGIES).join(', ')}` };
+  }
+
+  if (gapSec === undefined || gapSec === null || gapSec === '') {
+    return { options: { strategy: name } };
+  }
+
+  const gap = typeof gapSec === 'number' ? gapSec : parseFloat(String(gapSec));
+  if (!Number.isFinite(gap) || gap < 0) {
+    return { error: 'gapSec must be a non-negative number' };
+  }
+
+  return { options: { strategy: name, gapSec: gap } };
+}
+
+/**
+ * Applies a merge strategy to a video's events
+ * The input list is not modified, so raw events stay available to the caller
+ * @param events Raw events of a single video
+ * @param options Strategy to apply
+ * @returns Events after merging
+ */
+export function mergeEvents(events: ProductEvent[], options: MergeOptions): ProductEvent[] {
+  if (events.length === 0) {
+    return events;
+  }
+  return MERGE_STRATEGIES[options.strategy](events, options);
+}
@@ -0,0 +1,175 @@
+import { EventReview, ProductEvent, ReviewStatus, ReviewableEventField } from '@/types/brandMentions';
+
+/**
+ * A review decision on one event
+ */
+export type ReviewAction =
+  | { action: 'accept'; note?: string }
+  | { action: 'reject'; note?: string }
+  | { action: 'edit'; note?: string; changes: Partial<Pick<ProductEvent, ReviewableEventField>> }
+  | { action: 'reset' };
+
+const REVIEWABLE_FIELDS: ReviewableEventField[] = ['brand', 'product_name', 'timeline_start', 'timeline_end', 'location'];
+
+/**
+ * Review status of an event; events nobody reviewed are pending
+ */
+export function reviewStatusOf(event: ProductEvent): ReviewStatus {
+  return event.review?.status ?? 'pending';
+}
+
+/**
+ * Whether a reviewer confirmed the event, as detected or after corrections
+ */
+export function isVerified(event: ProductEvent): boolean {
+  const status = reviewStatusOf(event);
+  return status === 'accepted' || status === 'edited';
+}
+
+// 32-bit FNV-1a, enough to tell the events of one video apart
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Gives events without an ID one derived from their content and position,
+ * so the same stored events always get the same IDs
+ */
+export function withEventIds(events: ProductEvent[]): ProductEvent[] {
+  return events.map((event, index) => event.event_id ? event : {
+    ...event,
+    event_id: `ev_${hashString(`${event.video_id}|${event.brand}|${event.product_name}|${event.timeline_start}|${event.timeline_end}|${index}`)}_${index}`,
+  });
+}
+
+function assertValidEvent(event: Pick<ProductEvent, 'brand' | 'product_name' | 'timeline_start' | 'timeline_end'>): void {
+  if (!event.brand || !event.product_name) {
+    throw new Error('brand and product_name cannot be empty');
+  }
+  if (event.timeline_start < 0 || event.timeline_end <= event.timeline_start) {
+    throw new Error('timeline_end must be after timeline_start');
+  }
+}
+
+/**
+ * Applies a review decision to an event
+ * Edits keep the detected value of every changed field so the correction can be traced and undone
+ * @throws Error when an edit leaves the event with an empty brand or product or an invalid timeline
+ */
+export function applyReview(event: ProductEvent, review: ReviewAction, now: Date = new Date()): ProductEvent {
+  if (review.action === 'reset') {
+    const restored: ProductEvent = { ...event, ...event.review?.original };
+    delete restored.review;
+    return restored;
+  }
+
+  const reviewedAt = now.toISOString();
+  const note = review.note?.trim() || undefined;
+
+  if (review.action !== 'edit') {
+    // Accepting or rejecting an edited event keeps its corrections
+    const original = event.review?.original;
+    return {
+      ...event,
+      review: {
+        status: review.action === 'accept' && original ? 'edited' : review.action === 'accept' ? 'accepted' : 'rejected',
+        note,
+        reviewed_at: reviewedAt,
+        original,
+      },
+    };
+  }
+
+  const edited: ProductEvent = { ...event };
+  const original: EventReview['original'] = { ...event.review?.original };
+
+  REVIEWABLE_FIELDS.forEach((field) => {
+    const change = review.changes[field];
+    const value = typeof change === 'string' ? change.trim() : change;
+    if (value === undefined || value === (event[field] ?? '')) return;
+    if (!(field in original)) {
+      // A missing location is kept as '' so a reset clears it again
+      Object.assign(original, { [field]: event[field] ?? '' });
+    }
+    Object.assign(edited, { [field]: value });
+  });
+
+  assertValidEvent(edited);
+
+  return {
+    ...edited,
+    review: {
+      status: Object.keys(original).length > 0 ? 'edited' : 'accepted',
+      note,
+      reviewed_at: reviewedAt,
+      original: Object.keys(original).length > 0 ? original : undefined,
+    },
+  };
+}
+
+/**
+ * Builds an event a reviewer marked on the video for a placement the model missed
+ * A person saw the placement, so the event starts out accepted with full confidence.
+ * @throws Error when the brand or product is empty or the timeline is invalid
+ */
+export function createManualEvent(
+  videoId: string,
+  input: Pick<ProductEvent, 'brand' | 'product_name' | 'timeline_start' | 'timeline_end' | 'location' | 'description'>,
+  note?: string,
+  now: Date = new Date()
+): ProductEvent {
+  const event: ProductEvent = {
+    video_id: videoId,
+    brand: input.brand.trim(),
+    product_name: input.product_name.trim(),
+    timeline_start: input.timeline_start,
+    timeline_end: input.timeline_end,
+    location: input.location?.trim() || undefined,
+    description: input.description?.trim() || undefined,
+    confidence: 1,
+    source: 'manual',
+    review: {
+      status: 'accepted',
+      note: note?.trim() || undefined,
+      reviewed_at: now.toISOString(),
+    },
+  };
+
+  assertValidEvent(event);
+  return event;
+}
+
+// Manual events are matched on brand alone, since a reviewer's product name rarely matches the model's
+function sameDetection(detected: ProductEvent, reviewed: Pick<ProductEvent, 'brand' | 'product_name' | 'timeline_start' | 'timeline_end' | 'source'>): boolean {
+  const key = (event: Pick<ProductEvent, 'brand' | 'product_name'>) => reviewed.source === 'manual'
+    ? event.brand.trim().toLowerCase()
+    : `${event.brand.trim().toLowerCase()}|${event.product_name.trim().toLowerCase()}`;
+  if (key(detected) !== key(reviewed)) return false;
+
+  const overlap = Math.min(detected.timeline_end, reviewed.timeline_end) - Math.max(detected.timeline_start, reviewed.timeline_start);
+  return overlap > 0 || (detected.timeline_start === reviewed.timeline_start && detected.timeline_end === reviewed.timeline_end);
+}
+
+/**
+ * Keeps reviewed and manually added events across a re-analysis or rollback.
+ * Reviewed events from the previous analysis are kept as reviewed, and manual events are
+ * kept whatever their review state. A new detection of the same brand and product (for manual
+ * events, the same brand) overlapping a kept event, as reviewed or as originally detected, is
+ * dropped in its favour; all other new detections are added as pending.
+ * @returns The events to save, each with an ID
+ */
+export function carryOverReviews(previous: ProductEvent[], detected: ProductEvent[]): ProductEvent[] {
+  const reviewed = withEventIds(previous).filter((event) => event.review || event.source === 'manual');
+  const fresh = detected
+    .map((event) => ({ ...event, review: undefined, event_id: undefined }))
+    .filter((event) => !reviewed.some((kept) =>
+      sameDetection(event, kept) || sameDetection(event, { ...kept, ...kept.review?.original })
+    ));
+
+  return withEventIds([...reviewed, ...fresh].sort((a, b) => a.timeline_start - b.timeline_start));
+}
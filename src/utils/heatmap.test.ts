@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { ProductEvent } from '@/types/brandMentions';
+import { exposureIntervals } from '@/utils/brandMetrics';
+import {
+  POSITION_SEGMENTS,
+  aggregateLibrary,
+  aggregateLibraryTotal,
+  aggregatePerVideo,
+  aggregateVideoTotal
+} from '@/utils/heatmap';
+
+const CASES = 200;
+const BRANDS = ['Nike', 'Pepsi', 'Sony'];
+
+// Small seeded PRNG (mulberry32) so failures reproduce
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A random video: events may overlap, run past either end of the video or be reversed
+function randomVideo(next: () => number, videoId: string) {
+  const duration = 10 + next() * 590;
+  const events: ProductEvent[] = Array.from({ length: Math.floor(next() * 15) }, (_, i) => {
+    const start = -10 + next() * (duration + 20);
+    return {
+      video_id: videoId,
+      brand: BRANDS[Math.floor(next() * BRANDS.length)],
+      product_name: `product-${i % 4}`,
+      timeline_start: start,
+      timeline_end: start + (next() * 1.1 - 0.1) * duration * 0.3,
+      source: next() < 0.2 ? 'manual' : 'analyze'
+    };
+  });
+  return { duration, events, numBuckets: 1 + Math.floor(next() * 60) };
+}
+
+const mergedSeconds = (events: ProductEvent[], duration: number): number =>
+  exposureIntervals(events, duration).reduce((sum, { start, end }) => sum + end - start, 0);
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+describe('heatmap seconds conservation', () => {
+  it('adds up each row to its merged on-screen seconds', () => {
+    const next = random(21);
+    for (let i = 0; i < CASES; i++) {
+      const { duration, events, numBuckets } = randomVideo(next, 'v');
+      aggregatePerVideo(events, numBuckets, 'brand', duration).forEach((row) => {
+        const rowEvents = events.filter((event) => event.brand === row.key);
+        expect(row.buckets).toHaveLength(numBuckets);
+        expect(sum(row.buckets.map((bucket) => bucket.value))).toBeCloseTo(mergedSeconds(rowEvents, duration), 6);
+      });
+    }
+  });
+
+  it('adds up the total row to the merged seconds of all events', () => {
+    const next = random(42);
+    for (let i = 0; i < CASES; i++) {
+      const { duration, events, numBuckets } = randomVideo(next, 'v');
+      const total = aggregateVideoTotal(events, numBuckets, duration);
+      expect(sum(total.map((bucket) => bucket.value))).toBeCloseTo(events.length > 0 ? mergedSeconds(events, duration) : 0, 6);
+    }
+  });
+
+  it('matches the percent measure scaled back to seconds', () => {
+    const next = random(7);
+    for (let i = 0; i < CASES; i++) {
+      const { duration, events, numBuckets } = randomVideo(next, 'v');
+      const total = aggregateVideoTotal(events, numBuckets, duration, 'percent');
+      const seconds = total.map((bucket) => (bucket.value / 100) * ((bucket.end - bucket.start) / 100) * duration);
+      total.forEach((bucket) => expect(bucket.value).toBeLessThanOrEqual(100 + 1e-9));
+      expect(sum(seconds)).toBeCloseTo(events.length > 0 ? mergedSeconds(events, duration) : 0, 6);
+    }
+  });
+
+  it('splits the seconds between zoom windows that cover the video', () => {
+    const next = random(99);
+    for (let i = 0; i < CASES; i++) {
+      const { duration, events, numBuckets } = randomVideo(next, 'v');
+      const full = sum(aggregateVideoTotal(events, numBuckets, duration).map((bucket) => bucket.value));
+      const segments = Object.values(POSITION_SEGMENTS).map((window) =>
+        sum(aggregateVideoTotal(events, 1 + Math.floor(next() * 20), duration, 'seconds', window).map((bucket) => bucket.value))
+      );
+      expect(sum(segments)).toBeCloseTo(full, 6);
+    }
+  });
+
+  it('adds up library rows and the library total across videos', () => {
+    const next = random(2024);
+    for (let i = 0; i < CASES / 10; i++) {
+      const videos = Array.from({ length: 1 + Math.floor(next() * 8) }, (_, v) => ({ id: `v${v}`, ...randomVideo(next, `v${v}`) }));
+      const numBuckets = 1 + Math.floor(next() * 60);
+      const rows = aggregateLibrary(
+        Object.fromEntries(videos.map((video) => [video.id, video.duration])),
+        Object.fromEntries(videos.map((video) => [video.id, video.events])),
+        numBuckets
+      );
+
+      const expected = videos.map((video) => mergedSeconds(video.events, video.duration));
+      rows.forEach((row) => {
+        const index = videos.findIndex((video) => video.id === row.video_id);
+        expect(sum(row.buckets.map((bucket) => bucket.value))).toBeCloseTo(expected[index], 6);
+      });
+      const total = aggregateLibraryTotal(rows, numBuckets);
+      expect(sum(total.map((bucket) => bucket.value))).toBeCloseTo(sum(expected), 6);
+    }
+  });
+});
+
+describe('aggregatePerVideo', () => {
+  it('spreads a placement over every bucket it overlaps', () => {
+    const events: ProductEvent[] = [
+      { video_id: 'v', brand: 'Nike', product_name: 'Air Max', timeline_start: 5, timeline_end: 15, source: 'analyze' }
+    ];
+    const [row] = aggregatePerVideo(events, 10, 'brand', 100);
+    expect(row.buckets.map((bucket) => bucket.value)).toEqual([5, 5, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('counts overlapping events once in seconds but each in the event count', () => {
+    const events: ProductEvent[] = [
+      { video_id: 'v', brand: 'Nike', product_name: 'Air Max', timeline_start: 0, timeline_end: 8, source: 'analyze' },
+      { video_id: 'v', brand: 'Nike', product_name: 'Air Max', timeline_start: 4, timeline_end: 10, source: 'analyze' }
+    ];
+    expect(aggregatePerVideo(events, 1, 'brand', 10)[0].buckets[0].value).toBe(10);
+    expect(aggregatePerVideo(events, 1, 'brand', 10, 'percent')[0].buckets[0].value).toBe(100);
+    expect(aggregatePerVideo(events, 1, 'brand', 10, 'events')[0].buckets[0].value).toBe(2);
+  });
+});
@@ -1,22 +1,46 @@
-import { ProductEvent, PerVideoHeatmapRow, LibraryHeatmapRow, HeatmapBucket } from '@/types/brandMentions';
+import {
+  ProductEvent,
+  PerVideoHeatmapRow,
+  LibraryHeatmapRow,
+  HeatmapBucket,
+  HeatmapMeasure,
+  HeatmapWindow,
+  BrandPositionRow,
+  PositionSegment
+} from '@/types/brandMentions';
+
+// The whole timeline, in percent
+export const FULL_WINDOW: HeatmapWindow = { start: 0, end: 100 };
+
+// Parts of a video by relative position, in percent
+export const POSITION_SEGMENTS: Record<PositionSegment, HeatmapWindow> = {
+  intro: { start: 0, end: 10 },
+  middle: { start: 10, end: 90 },
+  outro: { start: 90, end: 100 }
+};
 
 /**
  * Creates an array of time buckets as percentages of total duration
  * @param totalDuration Total duration in seconds
  * @param numBuckets Number of buckets to create
+ * @param window Optional part of the timeline to split, for zooming; the whole timeline by default
  * @returns Array of buckets with start and end percentages (0-100)
  */
-export function bucketizeTimeline(totalDuration: number, numBuckets: number): { start: number; end: number }[] {
+export function bucketizeTimeline(
+  totalDuration: number,
+  numBuckets: number,
+  window: HeatmapWindow = FULL_WINDOW
+): { start: number; end: number }[] {
   if (numBuckets <= 0) {
     throw new Error('Number of buckets must be greater than zero');
   }
 
   const buckets: { start: number; end: number }[] = [];
-  const bucketSize = 100 / numBuckets;
+  const bucketSize = (window.end - window.start) / numBuckets;
 
   for (let i = 0; i < numBuckets; i++) {
-    const start = i * bucketSize;
-    const end = (i + 1) * bucketSize;
+    const start = window.start + i * bucketSize;
+    const end = window.start + (i + 1) * bucketSize;
     buckets.push({ start, end });
   }
 
@@ -40,43 +64,120 @@ function calculateOverlap(
   return Math.max(0, Math.min(eventEnd, bucketEnd) - Math.max(eventStart, bucketStart));
 }
 
+type TimeBucket = { startSec: number; endSec: number };
+
+/**
+ * Splits a video, or the zoomed part of it, into equal time buckets in seconds
+ */
+function buildTimeBuckets(duration: number, numBuckets: number, window?: HeatmapWindow): TimeBucket[] {
+  return bucketizeTimeline(duration, numBuckets, window).map((bucket) => ({
+    startSec: (bucket.start / 100) * duration,
+    endSec: (bucket.end / 100) * duration
+  }));
+}
+
+/**
+ * Length of the union of intervals, so overlapping events are counted once
+ */
+function unionLength(intervals: { start: number; end: number }[]): number {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let current: { start: number; end: number } | null = null;
+
+  for (const { start, end } of sorted) {
+    if (current && start <= current.end) {
+      current.end = Math.max(current.end, end);
+      continue;
+    }
+    if (current) total += current.end - current.start;
+    current = { start, end };
+  }
+
+  return current ? total + current.end - current.start : total;
+}
+
+/**
+ * Computes one bucket from the events overlapping it
+ * Each event contributes only the seconds it overlaps the bucket, so an event
+ * spanning several buckets lights up every one of them. Seconds where events
+ * overlap each other are counted once.
+ */
+function measureBucket(events: ProductEvent[], bucket: TimeBucket, duration: number, measure: HeatmapMeasure): HeatmapBucket {
+  const overlaps = events
+    .map((event) => ({
+      event,
+      start: Math.max(event.timeline_start, bucket.startSec),
+      end: Math.min(event.timeline_end, bucket.endSec)
+    }))
+    .filter(({ start, end }) => end > start);
+  const brands = Array.from(new Set(overlaps.map(({ event }) => event.brand)));
+
+  let value: number;
+  switch (measure) {
+    case 'percent':
+      value = (unionLength(overlaps) / (bucket.endSec - bucket.startSec)) * 100;
+      break;
+    case 'events':
+      value = overlaps.length;
+      break;
+    case 'brands':
+      value = brands.length;
+      break;
+    default:
+      value = unionLength(overlaps);
+  }
+
+  return {
+    start: (bucket.startSec / duration) * 100,
+    end: (bucket.endSec / duration) * 100,
+    value,
+    brands,
+    manual: overlaps.some(({ event }) => event.source === 'manual')
+  };
+}
+
+const rowTotal = (buckets: HeatmapBucket[]): number => buckets.reduce((sum, bucket) => sum + bucket.value, 0);
+
+/**
+ * Duration used to bucket a video: the given one, or the latest event end when unknown
+ */
+function bucketingDuration(events: ProductEvent[], videoDuration?: number): number {
+  return videoDuration || Math.max(0, ...events.map((event) => event.timeline_end));
+}
+
 /**
  * Aggregates product events by brand or product for a single video
+ * With the seconds measure, the bucket values of a row add up to the row's
+ * on-screen seconds (events clamped to the video, overlapping events counted once)
  * @param events Array of product events
  * @param numBuckets Number of buckets to create
  * @param by Group by 'brand' or 'product'
- * @returns Array of heatmap rows with bucket values
+ * @param videoDuration Video duration in seconds; the latest event end when omitted
+ * @param measure What the bucket values measure, seconds by default
+ * @param window Part of the video to bucket when zoomed in; the whole video by default
+ * @returns Array of heatmap rows with bucket values, highest total first
  */
 export function aggregatePerVideo(
   events: ProductEvent[],
   numBuckets: number,
   by: 'brand' | 'product' = 'brand',
-  videoDuration?: number
+  videoDuration?: number,
+  measure: HeatmapMeasure = 'seconds',
+  window?: HeatmapWindow
 ): PerVideoHeatmapRow[] {
   if (!events || events.length === 0) {
     return [];
   }
 
-  // Use provided duration or find from the latest event end time
-  const duration = videoDuration || Math.max(...events.map(event => event.timeline_end));
-
+  const duration = bucketingDuration(events, videoDuration);
   if (duration <= 0) {
     return [];
   }
 
-  // Create time buckets in seconds
-  const bucketDuration = duration / numBuckets;
-
-  const buckets = Array.from({ length: numBuckets }, (_, i) => ({
-    startSec: i * bucketDuration,
-    endSec: (i + 1) * bucketDuration,
-    startPct: (i * bucketDuration / duration) * 100,
-    endPct: ((i + 1) * bucketDuration / duration) * 100
-  }));
+  const buckets = buildTimeBuckets(duration, numBuckets, window);
 
   // Group events by brand or product
   const groupedEvents: Record<string, ProductEvent[]> = {};
-
   events.forEach(event => {
     const key = by === 'brand' ? event.brand : event.product_name;
     if (!groupedEvents[key]) {
@@ -85,77 +186,32 @@ export function aggregatePerVideo(
     groupedEvents[key].push(event);
   });
 
-  // Create heatmap rows
-  const rows: PerVideoHeatmapRow[] = [];
-
-  Object.entries(groupedEvents).forEach(([key, groupEvents]) => {
-
-    // First, assign each event to its best matching bucket to avoid duplicates
-    const eventToBucketMap = new Map<number, number>(); // eventIndex -> bucketIndex
-
-    groupEvents.forEach((event, eventIndex) => {
-      let bestBucketIndex = -1;
-      let bestOverlap = 0;
-
-      buckets.forEach((bucket, bucketIndex) => {
-        const overlap = calculateOverlap(
-          event.timeline_start,
-          event.timeline_end,
-          bucket.startSec,
-          bucket.endSec
-        );
-
-        if (overlap > bestOverlap) {
-          bestOverlap = overlap;
-          bestBucketIndex = bucketIndex;
-        }
-      });
-
-      if (bestBucketIndex >= 0) {
-        eventToBucketMap.set(eventIndex, bestBucketIndex);
-      }
-    });
-
-    // Create buckets with values only from assigned events
-    const heatmapBuckets: HeatmapBucket[] = buckets.map((bucket, bucketIndex) => {
-      let value = 0;
-
-      // Add value only from events assigned to this specific bucket
-      let eventCount = 0;
-      groupEvents.forEach((event, eventIndex) => {
-        if (eventToBucketMap.get(eventIndex) === bucketIndex) {
-          eventCount++;
-          // Use a consistent value to show event presence (normalized by event duration)
-          value += event.timeline_end - event.timeline_start;
-        }
-      });
-
-      // If multiple events are assigned to the same bucket, use the count as intensity
-      if (eventCount > 1) {
-        // This shouldn't happen with better bucket granularity, but handle it gracefully
-        value = eventCount; // Use event count as intensity
-      }
+  const rows: PerVideoHeatmapRow[] = Object.entries(groupedEvents).map(([key, groupEvents]) => ({
+    key,
+    label: key,
+    buckets: buckets.map((bucket) => measureBucket(groupEvents, bucket, duration, measure))
+  }));
 
-      return {
-        start: bucket.startPct,
-        end: bucket.endPct,
-        value
-      };
-    });
+  return rows.sort((a, b) => rowTotal(b.buckets) - rowTotal(a.buckets));
+}
 
-    rows.push({
-      key,
-      label: key,
-      buckets: heatmapBuckets
-    });
-  });
+/**
+ * Total row for the per-video view, measured over all of the video's events together
+ * so percent and brands count overlapping events once
+ */
+export function aggregateVideoTotal(
+  events: ProductEvent[],
+  numBuckets: number,
+  videoDuration?: number,
+  measure: HeatmapMeasure = 'seconds',
+  window?: HeatmapWindow
+): HeatmapBucket[] {
+  const duration = bucketingDuration(events, videoDuration);
+  if (events.length === 0 || duration <= 0) {
+    return [];
+  }
 
-  // Sort rows by total exposure (sum of bucket values) in descending order
-  return rows.sort((a, b) => {
-    const sumA = a.buckets.reduce((sum, bucket) => sum + bucket.value, 0);
-    const sumB = b.buckets.reduce((sum, bucket) => sum + bucket.value, 0);
-    return sumB - sumA;
-  });
+  return buildTimeBuckets(duration, numBuckets, window).map((bucket) => measureBucket(events, bucket, duration, measure));
 }
 
 /**
@@ -164,13 +220,17 @@ export function aggregatePerVideo(
  * @param eventsByVideo Record of events by video ID
  * @param numBuckets Number of buckets to create
  * @param brandFilter Optional array of brands to filter by
- * @returns Array of library heatmap rows
+ * @param measure What the bucket values measure, seconds by default
+ * @param window Share of each video to bucket when zoomed in; whole videos by default
+ * @returns Array of library heatmap rows, highest total first
  */
 export function aggregateLibrary(
   videoDurations: Record<string, number>,
   eventsByVideo: Record<string, ProductEvent[]>,
   numBuckets: number,
-  brandFilter?: string[]
+  brandFilter?: string[],
+  measure: HeatmapMeasure = 'seconds',
+  window?: HeatmapWindow
 ): LibraryHeatmapRow[] {
   const videoIds = Object.keys(eventsByVideo);
 
@@ -178,18 +238,14 @@ export function aggregateLibrary(
     return [];
   }
 
-  // We'll create buckets per video to match per-video view granularity
-
-  // Process each video
   return videoIds.map(videoId => {
     const events = eventsByVideo[videoId] || [];
     const duration = videoDurations[videoId] || 0;
 
     if (duration <= 0 || events.length === 0) {
       // Return empty buckets if no duration or events
-      const emptyBuckets = Array.from({ length: numBuckets }, (_, i) => ({
-        start: (i / numBuckets) * 100,
-        end: ((i + 1) / numBuckets) * 100,
+      const emptyBuckets = bucketizeTimeline(duration, numBuckets, window).map((bucket) => ({
+        ...bucket,
         value: 0,
         brands: [] as string[]
       }));
@@ -204,80 +260,152 @@ export function aggregateLibrary(
       ? events.filter(event => brandFilter.includes(event.brand))
       : events;
 
-    // Create time buckets in seconds (same as per-video view)
-    const bucketDuration = duration / numBuckets;
-
-    // First, assign each event to its best matching bucket (same logic as per-video view)
-    const eventToBucketMap = new Map<number, number>(); // eventIndex -> bucketIndex
+    return {
+      video_id: videoId,
+      buckets: buildTimeBuckets(duration, numBuckets, window).map((bucket) => measureBucket(filteredEvents, bucket, duration, measure))
+    };
+  }).sort((a, b) => rowTotal(b.buckets) - rowTotal(a.buckets));
+}
 
-    filteredEvents.forEach((event, eventIndex) => {
-      let bestBucketIndex = -1;
-      let bestOverlap = 0;
+/**
+ * Total row for the library view; rows are videos, bucket i is the same share of each video
+ * Seconds and events are summed, percent is averaged over the videos and
+ * brands counts the distinct brands across them.
+ */
+export function aggregateLibraryTotal(
+  rows: LibraryHeatmapRow[],
+  numBuckets: number,
+  measure: HeatmapMeasure = 'seconds',
+  window?: HeatmapWindow
+): HeatmapBucket[] {
+  return bucketizeTimeline(0, numBuckets, window).map((range, i) => {
+    const buckets = rows.map((row) => row.buckets[i]).filter((bucket): bucket is HeatmapBucket => !!bucket);
+    const brands = Array.from(new Set(buckets.flatMap((bucket) => bucket.brands ?? [])));
+    const sum = buckets.reduce((total, bucket) => total + bucket.value, 0);
+
+    let value = sum;
+    if (measure === 'percent') {
+      value = buckets.length > 0 ? sum / buckets.length : 0;
+    } else if (measure === 'brands') {
+      value = brands.length;
+    }
 
-      for (let bucketIndex = 0; bucketIndex < numBuckets; bucketIndex++) {
-        const startSec = bucketIndex * bucketDuration;
-        const endSec = (bucketIndex + 1) * bucketDuration;
+    return {
+      ...range,
+      value,
+      brands,
+      manual: buckets.some((bucket) => bucket.manual)
+    };
+  });
+}
 
-        const overlap = calculateOverlap(
-          event.timeline_start,
-          event.timeline_end,
-          startSec,
-          endSec
-        );
+/**
+ * Aggregates product events across videos into one row per brand, by relative position
+ * Bucket i is the same share of every video, so a row shows where in the videos the brand
+ * tends to appear; bucket values are combined over the brand's videos as in aggregateLibraryTotal.
+ * Each row also counts the brand's videos and average on-screen seconds in the intro, middle and outro.
+ * @param videoDurations Record of video durations by video ID; videos without a duration are skipped
+ * @param eventsByVideo Record of events by video ID
+ * @param numBuckets Number of buckets to create
+ * @param brandFilter Optional array of brands to keep
+ * @param measure What the bucket values measure, seconds by default
+ * @param window Share of each video to bucket when zoomed in; whole videos by default
+ * @param creators Creator by video ID; when given, each brand gets one row per creator
+ * @returns Array of brand rows, highest total first
+ */
+export function aggregateBrandPositions(
+  videoDurations: Record<string, number>,
+  eventsByVideo: Record<string, ProductEvent[]>,
+  numBuckets: number,
+  brandFilter?: string[],
+  measure: HeatmapMeasure = 'seconds',
+  window?: HeatmapWindow,
+  creators?: Record<string, string>
+): BrandPositionRow[] {
+  const groups = new Map<string, { brand: string; creator?: string; videos: { duration: number; events: ProductEvent[] }[] }>();
+
+  Object.entries(eventsByVideo).forEach(([videoId, events]) => {
+    const duration = videoDurations[videoId] || 0;
+    if (duration <= 0) return;
 
-        if (overlap > bestOverlap) {
-          bestOverlap = overlap;
-          bestBucketIndex = bucketIndex;
-        }
-      }
+    const eventsByBrand: Record<string, ProductEvent[]> = {};
+    events
+      .filter((event) => !brandFilter || brandFilter.length === 0 || brandFilter.includes(event.brand))
+      .forEach((event) => {
+        (eventsByBrand[event.brand] ??= []).push(event);
+      });
 
-      if (bestBucketIndex >= 0) {
-        eventToBucketMap.set(eventIndex, bestBucketIndex);
-      }
+    Object.entries(eventsByBrand).forEach(([brand, brandEvents]) => {
+      const creator = creators ? creators[videoId] || 'Unknown Creator' : undefined;
+      const key = creator === undefined ? brand : JSON.stringify([brand, creator]);
+      const group = groups.get(key) ?? { brand, creator, videos: [] };
+      group.videos.push({ duration, events: brandEvents });
+      groups.set(key, group);
     });
+  });
 
-    // Now create buckets with values only from assigned events
-    const buckets: HeatmapBucket[] = Array.from({ length: numBuckets }, (_, i) => {
-      const startSec = i * bucketDuration;
-      const endSec = (i + 1) * bucketDuration;
-      const startPct = (startSec / duration) * 100;
-      const endPct = (endSec / duration) * 100;
-
-      let totalOverlap = 0;
-      const brandsInBucket = new Set<string>();
-
-      // Add value only from events assigned to this specific bucket
-      filteredEvents.forEach((event, eventIndex) => {
-        if (eventToBucketMap.get(eventIndex) === i) {
-          const overlap = calculateOverlap(
-            event.timeline_start,
-            event.timeline_end,
-            startSec,
-            endSec
+  const rows: BrandPositionRow[] = Array.from(groups.entries()).map(([key, { brand, creator, videos }]) => {
+    const videoRows: LibraryHeatmapRow[] = videos.map(({ duration, events }, index) => ({
+      video_id: String(index),
+      buckets: buildTimeBuckets(duration, numBuckets, window).map((bucket) => measureBucket(events, bucket, duration, measure))
+    }));
+
+    const segments = Object.fromEntries(
+      (Object.entries(POSITION_SEGMENTS) as [PositionSegment, HeatmapWindow][]).map(([segment, range]) => {
+        const seconds = videos.map(({ duration, events }) => {
+          const startSec = (range.start / 100) * duration;
+          const endSec = (range.end / 100) * duration;
+          return unionLength(
+            events
+              .map((event) => ({ start: Math.max(event.timeline_start, startSec), end: Math.min(event.timeline_end, endSec) }))
+              .filter(({ start, end }) => end > start)
           );
-          totalOverlap += overlap;
-          brandsInBucket.add(event.brand);
-        }
-      });
-
-      return {
-        start: startPct,
-        end: endPct,
-        value: totalOverlap,
-        brands: Array.from(brandsInBucket)
-      };
-    });
+        });
+        return [segment, {
+          videoCount: seconds.filter((value) => value > 0).length,
+          avgSeconds: seconds.reduce((sum, value) => sum + value, 0) / videos.length
+        }];
+      })
+    ) as BrandPositionRow['segments'];
 
     return {
-      video_id: videoId,
-      buckets
+      key,
+      brand,
+      creator,
+      videoCount: videos.length,
+      buckets: aggregateLibraryTotal(videoRows, numBuckets, measure, window),
+      segments
     };
-  }).sort((a, b) => {
-    // Sort by total exposure in descending order
-    const sumA = a.buckets.reduce((sum, bucket) => sum + bucket.value, 0);
-    const sumB = b.buckets.reduce((sum, bucket) => sum + bucket.value, 0);
-    return sumB - sumA;
   });
+
+  return rows.sort((a, b) => rowTotal(b.buckets) - rowTotal(a.buckets) || a.key.localeCompare(b.key));
+}
+
+/**
+ * Lists the events overlapping a time range, the longest overlap first
+ * Used to drill down from a heatmap cell to its events.
+ * @param startSec Range start in seconds
+ * @param endSec Range end in seconds
+ */
+export function eventsInRange(events: ProductEvent[], startSec: number, endSec: number): ProductEvent[] {
+  return events
+    .map((event) => ({ event, overlap: calculateOverlap(event.timeline_start, event.timeline_end, startSec, endSec) }))
+    .filter(({ overlap }) => overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap)
+    .map(({ event }) => event);
+}
+
+/**
+ * Picks the thumbnail nearest to a moment of a video
+ * @param urls Thumbnail URLs, assumed evenly spaced over the video
+ * @returns The thumbnail URL, or undefined when the video has none
+ */
+export function thumbnailAt(urls: string[] | undefined, duration: number, seconds: number): string | undefined {
+  if (!urls || urls.length === 0) return undefined;
+  if (urls.length === 1 || duration <= 0) return urls[0];
+
+  const index = Math.floor((seconds / duration) * urls.length);
+  return urls[Math.max(0, Math.min(urls.length - 1, index))];
 }
 
 /**
@@ -0,0 +1,132 @@
+import { VideoData } from '@/types';
+import { CachedAnalysis } from '@/types/analysisCache';
+import { ProductEvent, VideoAnalysisMetadata } from '@/types/brandMentions';
+import { analysisFromMetadata, getCachedAnalysis } from '@/utils/analysisCache';
+
+const API_KEY = process.env.TWELVELABS_API_KEY;
+const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+
+// Largest page the Twelve Labs list-videos endpoint accepts
+const LIST_PAGE_LIMIT = 50;
+
+/**
+ * A video of an index together with its saved brand-mention analysis
+ */
+export interface IndexVideoAnalysis {
+  video: VideoData;
+  events: ProductEvent[];
+  analysis: VideoAnalysisMetadata;
+}
+
+/**
+ * Lists every video of an index with its metadata, one upstream call per page
+ */
+export async function listIndexVideos(indexId: string): Promise<VideoData[]> {
+  if (!API_KEY || !TWELVELABS_API_BASE_URL) {
+    throw new Error('API credentials not configured');
+  }
+
+  const videos: VideoData[] = [];
+  let totalPages = 1;
+
+  for (let page = 1; page <= totalPages; page++) {
+    const response = await fetch(
+      `${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos?page=${page}&page_limit=${LIST_PAGE_LIMIT}`,
+      {
+        headers: {
+          'Accept': 'application/json',
+          'x-api-key': API_KEY,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to list videos: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json();
+    videos.push(...((body.data as VideoData[]) || []));
+    totalPages = body.page_info?.total_page ?? page;
+  }
+
+  return videos;
+}
+
+/**
+ * Fetches one video's details, including its user_metadata
+ */
+export async function fetchIndexVideo(indexId: string, videoId: string, signal?: AbortSignal): Promise<VideoData> {
+  const response = await fetch(`${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos/${videoId}`, {
+    headers: {
+      'Accept': 'application/json',
+      'x-api-key': API_KEY || '',
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch video details: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Loads a video's saved analysis from the analysis cache, falling back to its user_metadata
+ * Staleness is ignored: this is the analysis currently stored, not necessarily one fit to serve.
+ * @returns The analysis, or null when the video was never analyzed
+ */
+export async function loadVideoAnalysis(indexId: string, videoId: string): Promise<Omit<CachedAnalysis, 'cachedAt'> | null> {
+  const cached = await getCachedAnalysis(indexId, videoId);
+  if (cached) {
+    return cached;
+  }
+
+  const video = await fetchIndexVideo(indexId, videoId);
+  return analysisFromMetadata(videoId, indexId, video.user_metadata);
+}
+
+/**
+ * Loads the saved analyses of an index's videos from the analysis cache,
+ * falling back to each video's user_metadata. Nothing is re-analyzed.
+ * @param videoIds Restrict to these videos; all videos of the index when omitted
+ * @returns Videos that have a saved analysis
+ */
+export async function loadIndexAnalyses(indexId: string, videoIds?: string[]): Promise<IndexVideoAnalysis[]> {
+  const wanted = videoIds && videoIds.length > 0 ? new Set(videoIds) : null;
+  const videos = (await listIndexVideos(indexId)).filter((video) => !wanted || wanted.has(video._id));
+
+  const loaded = await Promise.all(videos.map(async (video) => {
+    try {
+      const saved = await getCachedAnalysis(indexId, video._id)
+        ?? analysisFromMetadata(video._id, indexId, video.user_metadata);
+      return saved ? { video, events: saved.events, analysis: saved.analysis } : null;
+    } catch (error) {
+      console.warn(`⚠️ Skipping video ${video._id} without a readable analysis:`, error);
+      return null;
+    }
+  }));
+
+  return loaded.filter((entry): entry is IndexVideoAnalysis => entry !== null);
+}
+
+/**
+ * Creator name of a video, as shown on the brand-mention-detection page
+ */
+export function videoCreator(video: VideoData, analysis?: VideoAnalysisMetadata): string {
+  const creator = video.user_metadata?.creator
+    || video.user_metadata?.video_creator
+    || video.user_metadata?.creator_id
+    || analysis?.creator
+    || 'Unknown';
+  return String(creator);
+}
+
+/**
+ * Orientation of a video, or undefined when its dimensions are unknown
+ */
+export function videoFormat(video: VideoData): 'vertical' | 'horizontal' | undefined {
+  const { width, height } = video.system_metadata ?? {};
+  if (!width || !height) return undefined;
+  return width >= height ? 'horizontal' : 'vertical';
+}
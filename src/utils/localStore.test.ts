@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { deleteJsonFile, listDataDir, readJsonFile, writeJsonFile } from '@/utils/localStore';
+
+describe('localStore', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-store-'));
+    process.env.DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('returns the fallback for a missing file', async () => {
+    expect(await readJsonFile('missing.json', { items: [] })).toEqual({ items: [] });
+    expect(await listDataDir('missing')).toEqual([]);
+  });
+
+  it('writes into nested directories and reads back', async () => {
+    await writeJsonFile('nested/dir/file.json', { value: 1 });
+    expect(await readJsonFile('nested/dir/file.json', null)).toEqual({ value: 1 });
+  });
+
+  it('deletes a file, ignoring one that is already gone', async () => {
+    await writeJsonFile('file.json', { value: 1 });
+    await deleteJsonFile('file.json');
+    await deleteJsonFile('file.json');
+    expect(await readJsonFile('file.json', null)).toBeNull();
+  });
+
+  it('survives concurrent writes of one file without leaving temp files', async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => writeJsonFile('same.json', { writer: i })));
+
+    const { writer } = await readJsonFile<{ writer: number }>('same.json', { writer: -1 });
+    expect(writer).toBeGreaterThanOrEqual(0);
+    expect(await listDataDir('.')).toEqual(['same.json']);
+  });
+});
@@ -0,0 +1,76 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Directory for server-side JSON stores.
+ * Defaults to `.data` in the project root; override with DATA_DIR.
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+/**
+ * Reads a JSON file from the data directory
+ * @param fileName File name relative to the data directory
+ * @param fallback Value returned when the file does not exist yet
+ * @returns Parsed file contents or the fallback
+ */
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  const filePath = path.join(getDataDir(), fileName);
+
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a JSON file to the data directory
+ * Writes to a temp file first and renames it so readers never see a partial file;
+ * each write gets its own temp file, so concurrent writes of one file never share one
+ * @param fileName File name relative to the data directory
+ * @param data Value to serialize
+ */
+export async function writeJsonFile(fileName: string, data: unknown): Promise<void> {
+  const filePath = path.join(getDataDir(), fileName);
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Deletes a JSON file from the data directory; a missing file is not an error
+ * @param fileName File name relative to the data directory
+ */
+export async function deleteJsonFile(fileName: string): Promise<void> {
+  await fs.rm(path.join(getDataDir(), fileName), { force: true });
+}
+
+/**
+ * Lists the entries of a directory inside the data directory
+ * @param dirName Directory name relative to the data directory
+ * @returns Entry names; empty when the directory does not exist yet
+ */
+export async function listDataDir(dirName: string): Promise<string[]> {
+  try {
+    return await fs.readdir(path.join(getDataDir(), dirName));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
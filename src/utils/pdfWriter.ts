@@ -0,0 +1,248 @@
+import { deflateSync } from 'zlib';
+
+/**
+ * RGB color with components from 0 to 1
+ */
+export type PdfColor = [number, number, number];
+
+/**
+ * A JPEG image that can be placed on pages
+ */
+export interface PdfImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  colorSpace: 'DeviceRGB' | 'DeviceGray';
+}
+
+/**
+ * A page being drawn. Coordinates are in points from the top-left corner.
+ */
+export interface PdfPage {
+  width: number;
+  height: number;
+  ops: string[];
+  images: PdfImage[];
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+  maxWidth?: number; // text is cut with an ellipsis beyond this width
+}
+
+export const A4_LANDSCAPE = { width: 842, height: 595 };
+
+// Standard 14 font widths (1/1000 em) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// WinAnsiEncoding code points of common characters outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+/**
+ * Maps text onto the WinAnsi bytes of the standard fonts; other characters become '?'
+ */
+function encodeText(text: string): number[] {
+  return Array.from(text.replace(/[\r\n\t]+/g, ' ')).map((char) => {
+    const code = char.codePointAt(0) ?? 63;
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 63;
+  });
+}
+
+function bytesWidth(bytes: number[], size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = bytes.reduce((sum, byte) => sum + (byte >= 32 && byte <= 126 ? widths[byte - 32] : DEFAULT_WIDTH), 0);
+  return (units * size) / 1000;
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function textWidth(text: string, size: number, bold: boolean = false): number {
+  return bytesWidth(encodeText(text), size, bold);
+}
+
+/**
+ * PDF literal string of encoded text, with delimiters and non-ASCII bytes escaped
+ */
+function pdfString(bytes: number[]): string {
+  const literal = bytes.map((byte) => {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`;
+    if (byte > 126) return `\\${byte.toString(8).padStart(3, '0')}`;
+    return String.fromCharCode(byte);
+  }).join('');
+  return `(${literal})`;
+}
+
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+const colorOps = (color: PdfColor, operator: 'rg' | 'RG'): string =>
+  `${color.map(num).join(' ')} ${operator}`;
+
+/**
+ * Starts a new page
+ */
+export function createPage(width: number = A4_LANDSCAPE.width, height: number = A4_LANDSCAPE.height): PdfPage {
+  return { width, height, ops: [], images: [] };
+}
+
+/**
+ * Draws a rectangle; a null fill only strokes the outline
+ */
+export function drawRect(page: PdfPage, x: number, y: number, width: number, height: number, fill: PdfColor | null, stroke?: PdfColor): void {
+  const path = `${num(x)} ${num(page.height - y - height)} ${num(width)} ${num(height)} re`;
+  const ops = [fill && colorOps(fill, 'rg'), stroke && `${colorOps(stroke, 'RG')} 0.5 w`, path];
+  page.ops.push(`${ops.filter(Boolean).join(' ')} ${fill && stroke ? 'B' : stroke ? 'S' : 'f'}`);
+}
+
+export function drawLine(page: PdfPage, x1: number, y1: number, x2: number, y2: number, color: PdfColor, lineWidth: number = 0.5): void {
+  page.ops.push(`${colorOps(color, 'RG')} ${num(lineWidth)} w ${num(x1)} ${num(page.height - y1)} m ${num(x2)} ${num(page.height - y2)} l S`);
+}
+
+/**
+ * Draws one line of text; y is the baseline
+ */
+export function drawText(page: PdfPage, text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+  const { size = 10, bold = false, color = [0, 0, 0], align = 'left', maxWidth } = options;
+  let bytes = encodeText(text);
+
+  if (maxWidth !== undefined && bytesWidth(bytes, size, bold) > maxWidth) {
+    const ellipsis = WIN_ANSI_EXTRAS['…'];
+    while (bytes.length > 0 && bytesWidth([...bytes, ellipsis], size, bold) > maxWidth) {
+      bytes = bytes.slice(0, -1);
+    }
+    bytes = [...bytes, ellipsis];
+  }
+
+  const width = bytesWidth(bytes, size, bold);
+  const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+  page.ops.push(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${colorOps(color, 'rg')} ${num(left)} ${num(page.height - y)} Td ${pdfString(bytes)} Tj ET`);
+}
+
+export function drawImage(page: PdfPage, image: PdfImage, x: number, y: number, width: number, height: number): void {
+  let index = page.images.indexOf(image);
+  if (index < 0) {
+    index = page.images.push(image) - 1;
+  }
+  page.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(page.height - y - height)} cm /Im${index} Do Q`);
+}
+
+/**
+ * Reads the dimensions of a baseline or progressive JPEG
+ * @returns The image, or null when the data is not a JPEG that PDF viewers can show as is
+ */
+export function readJpeg(data: Buffer): PdfImage | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+
+    // SOF0-SOF2 carry the frame size and component count
+    if (marker >= 0xc0 && marker <= 0xc2) {
+      const height = data.readUInt16BE(offset + 5);
+      const width = data.readUInt16BE(offset + 7);
+      const components = data[offset + 9];
+      if (!width || !height || (components !== 1 && components !== 3)) return null;
+      return { data, width, height, colorSpace: components === 1 ? 'DeviceGray' : 'DeviceRGB' };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+/**
+ * Writes pages into a PDF document using the Helvetica standard fonts
+ * @returns The document file contents
+ */
+export function buildPdf(pages: PdfPage[], title?: string): Buffer {
+  const objects: Buffer[] = [];
+  const addObject = (body: Buffer | string): number => objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+  const stream = (dictionary: string, data: Buffer): Buffer => Buffer.concat([
+    Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream', 'latin1'),
+  ]);
+
+  // 1: catalog, 2: page tree, 3-4: fonts, 5: info; pages and images follow
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject('');
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  addObject(`<< /Producer (Creator Discovery)${title ? ` /Title ${pdfString(encodeText(title))}` : ''} >>`);
+
+  const imageIds = new Map<PdfImage, number>();
+  const pageIds = pages.map((page) => {
+    const xObjects = page.images.map((image, index) => {
+      let id = imageIds.get(image);
+      if (id === undefined) {
+        id = addObject(stream(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+          image.data
+        ));
+        imageIds.set(image, id);
+      }
+      return `/Im${index} ${id} 0 R`;
+    }).join(' ');
+
+    const contentId = addObject(stream('/Filter /FlateDecode', deflateSync(Buffer.from(page.ops.join('\n'), 'latin1'))));
+    return addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] /Contents ${contentId} 0 R`
+      + ` /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> >>`
+    );
+  });
+  objects[1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = parts[0].length;
+  const offsets = objects.map((body, i) => {
+    const part = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    parts.push(part);
+    const start = offset;
+    offset += part.length;
+    return start;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((start) => `${String(start).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  parts.push(Buffer.from(xref + '\n', 'latin1'));
+
+  return Buffer.concat(parts);
+}
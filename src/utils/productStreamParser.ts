@@ -0,0 +1,93 @@
+/**
+ * Incremental parser for streamed Analyze output
+ */
+export interface ProductStreamParser {
+  /**
+   * Adds a chunk of generated text
+   * @returns Product items completed by this chunk
+   */
+  push(chunk: string): unknown[];
+  /**
+   * All text received so far
+   */
+  text(): string;
+}
+
+const PRODUCTS_ARRAY_START = /"products"\s*:\s*\[/;
+
+/**
+ * Creates a parser that picks complete objects out of the `products` array
+ * while the rest of the response is still being generated.
+ * Only top-level objects of the array are emitted; objects that fail to parse
+ * are skipped and left to the full-response parser.
+ */
+export function createProductStreamParser(): ProductStreamParser {
+  let buffer = '';
+  let position = 0;
+  let arrayFound = false;
+  let arrayClosed = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  const scan = (): unknown[] => {
+    const items: unknown[] = [];
+
+    if (!arrayFound) {
+      const match = PRODUCTS_ARRAY_START.exec(buffer);
+      if (!match) return items;
+      arrayFound = true;
+      position = match.index + match[0].length;
+    }
+
+    for (; position < buffer.length && !arrayClosed; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 0 && char === '{') objectStart = position;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 0) {
+          // Closing bracket of the products array itself
+          arrayClosed = true;
+          break;
+        }
+        depth--;
+        if (depth === 0 && char === '}' && objectStart >= 0) {
+          try {
+            items.push(JSON.parse(buffer.slice(objectStart, position + 1)));
+          } catch {
+            // Malformed object; the full-response parser gets another chance at it
+          }
+          objectStart = -1;
+        }
+      }
+    }
+
+    return items;
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      return arrayClosed ? [] : scan();
+    },
+    text() {
+      return buffer;
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PromptTemplateInput } from '@/types/promptTemplates';
+import { getPromptTemplate, savePromptTemplate } from '@/utils/promptTemplates';
+
+const input = (body: string): PromptTemplateInput => ({
+  id: 'test-template',
+  name: 'Test template',
+  body,
+  outputSchema: { type: 'object' },
+  tones: ['calm'],
+  styles: ['vlog']
+});
+
+describe('savePromptTemplate', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-templates-'));
+    process.env.DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('gives concurrent saves of one template their own versions', async () => {
+    const results = await Promise.all(['first', 'second', 'third'].map((body) => savePromptTemplate(input(body))));
+    const versions = results.map((result) => ('template' in result ? result.template.version : null));
+
+    expect(versions).toEqual([1, 2, 3]);
+    expect((await getPromptTemplate('test-template', 1))?.body).toBe('first');
+    expect((await getPromptTemplate('test-template', 3))?.body).toBe('third');
+  });
+
+  it('rejects invalid input without saving', async () => {
+    expect(await savePromptTemplate({ ...input('body'), id: 'Not Valid' })).toHaveProperty('error');
+    expect(await getPromptTemplate('test-template')).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptTemplateInputSchema,
+  PromptTemplateSchema,
+  PromptTemplateSummary
+} from '@/types/promptTemplates';
+import { BUILT_IN_TEMPLATES } from '@/prompts';
+import { listDataDir, readJsonFile, writeJsonFile } from '@/utils/localStore';
+
+// Saved versions live in prompt-templates/{id}/v{version}.json
+const TEMPLATES_DIR = 'prompt-templates';
+const TEMPLATE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+// Keep the per-template save chains on globalThis so dev-server module reloads share them
+const globalForTemplates = globalThis as unknown as { promptTemplateSaves?: Map<string, Promise<unknown>> };
+
+/**
+ * Runs a save of a template after every earlier one for the same id,
+ * so concurrent saves never pick the same version number
+ */
+function queueTemplateSave<T>(id: string, save: () => Promise<T>): Promise<T> {
+  const saves = globalForTemplates.promptTemplateSaves ??= new Map<string, Promise<unknown>>();
+  const run = (saves.get(id) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(save);
+
+  saves.set(id, run);
+  // Drop the chain once idle so the map does not grow with every template ever saved
+  run.catch(() => undefined).finally(() => {
+    if (saves.get(id) === run) saves.delete(id);
+  });
+  return run;
+}
+
+/**
+ * Returns the version numbers saved for a template, ascending
+ */
+async function storedVersions(id: string): Promise<number[]> {
+  const files = await listDataDir(`${TEMPLATES_DIR}/${id}`);
+  return files
+    .map((file) => file.match(/^v(\d+)\.json$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => parseInt(match[1], 10))
+    .sort((a, b) => a - b);
+}
+
+async function loadStoredTemplate(id: string, version: number): Promise<PromptTemplate | null> {
+  const stored = await readJsonFile<unknown>(`${TEMPLATES_DIR}/${id}/v${version}.json`, null);
+  if (stored === null) return null;
+
+  const result = PromptTemplateSchema.safeParse(stored);
+  if (!result.success) {
+    console.warn(`⚠️ Skipping invalid prompt template ${id} v${version}`);
+    return null;
+  }
+  return result.data;
+}
+
+/**
+ * Returns all known versions of a template, including the built-in one
+ */
+async function templateVersions(id: string): Promise<number[]> {
+  const builtIn = BUILT_IN_TEMPLATES.find((t) => t.id === id);
+  const versions = new Set(await storedVersions(id));
+  if (builtIn) versions.add(builtIn.version);
+  return Array.from(versions).sort((a, b) => a - b);
+}
+
+/**
+ * Loads a prompt template
+ * @param id Template id
+ * @param version Specific version; defaults to the latest
+ * @returns The template, or null if the id or version is unknown
+ */
+export async function getPromptTemplate(id: string, version?: number): Promise<PromptTemplate | null> {
+  if (!TEMPLATE_ID_PATTERN.test(id)) return null;
+
+  const versions = await templateVersions(id);
+  const target = version ?? versions[versions.length - 1];
+  if (target === undefined || !versions.includes(target)) return null;
+
+  const builtIn = BUILT_IN_TEMPLATES.find((t) => t.id === id && t.version === target);
+  return builtIn ?? loadStoredTemplate(id, target);
+}
+
+/**
+ * Lists the latest version of every template
+ */
+export async function listPromptTemplates(): Promise<PromptTemplateSummary[]> {
+  const ids = new Set([
+    ...BUILT_IN_TEMPLATES.map((t) => t.id),
+    ...(await listDataDir(TEMPLATES_DIR)).filter((name) => TEMPLATE_ID_PATTERN.test(name)),
+  ]);
+
+  const summaries: PromptTemplateSummary[] = [];
+  for (const id of Array.from(ids)) {
+    const template = await getPromptTemplate(id);
+    if (!template) continue;
+
+    summaries.push({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      version: template.version,
+      tones: template.tones,
+      styles: template.styles,
+      updatedAt: template.updatedAt,
+      builtIn: BUILT_IN_TEMPLATES.some((t) => t.id === id),
+      versions: await templateVersions(id),
+    });
+  }
+
+  return summaries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Saves a template as a new version; earlier versions are kept unchanged
+ * Saves of the same template run one at a time, so each gets its own version number.
+ * @param input Template fields; a new id creates a new template
+ * @returns The saved template, or an error when the input is invalid
+ */
+export async function savePromptTemplate(input: PromptTemplateInput): Promise<{ template: PromptTemplate } | { error: string }> {
+  const parsed = PromptTemplateInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'input'}: ${issue.message}`).join(', ') };
+  }
+
+  return queueTemplateSave(parsed.data.id, async () => {
+    const versions = await templateVersions(parsed.data.id);
+    const template: PromptTemplate = {
+      ...parsed.data,
+      version: (versions[versions.length - 1] ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await writeJsonFile(`${TEMPLATES_DIR}/${template.id}/v${template.version}.json`, template);
+    return { template };
+  });
+}
+
+/**
+ * Identifier recorded with stored events, e.g. "brand-mentions@v2"
+ */
+export function templateRef(template: Pick<PromptTemplate, 'id' | 'version'>): string {
+  return `${template.id}@v${template.version}`;
+}
+
+/**
+ * Fills a template's placeholders
+ * @param template Template to render
+ * @param scope Video or segment scope instructions
+ * @returns Prompt text for the Analyze API
+ */
+export function renderPromptTemplate(template: PromptTemplate, scope: string): string {
+  const values: Record<string, string> = {
+    scope,
+    outputSchema: JSON.stringify(template.outputSchema, null, 2),
+    tones: template.tones.join(', '),
+    styles: template.styles.join(', '),
+  };
+
+  return template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Fields every product item must have according to the template's output schema
+ */
+export function requiredProductFields(template: PromptTemplate): string[] {
+  const products = (template.outputSchema.properties as Record<string, unknown> | undefined)?.products;
+  const items = (products as Record<string, unknown> | undefined)?.items;
+  const required = (items as Record<string, unknown> | undefined)?.required;
+  return Array.isArray(required) ? required.filter((field): field is string => typeof field === 'string') : [];
+}
+
+/**
+ * Keeps only reported values that appear in the template's allowed list (case-insensitive)
+ * An empty allowed list accepts every value
+ */
+export function filterAllowedValues(values: string[] | undefined, allowed: string[]): string[] | undefined {
+  if (!values || allowed.length === 0) return values;
+
+  const byKey = new Map(allowed.map((value) => [value.toLowerCase(), value]));
+  return Array.from(new Set(
+    values
+      .map((value) => byKey.get(String(value).trim().toLowerCase()))
+      .filter((value): value is string => value !== undefined)
+  ));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { ProductEvent } from '@/types/brandMentions';
+import { AnalysisWindow, eventsInFailedWindows } from '@/utils/segmentedAnalysis';
+
+const event = (id: string, start: number, end: number): ProductEvent => ({
+  event_id: id,
+  video_id: 'v1',
+  brand: 'Nike',
+  product_name: 'Air Max',
+  timeline_start: start,
+  timeline_end: end,
+  source: 'analyze'
+});
+
+const FIRST: AnalysisWindow = { index: 0, start: 0, end: 300 };
+const SECOND: AnalysisWindow = { index: 1, start: 280, end: 580 };
+const THIRD: AnalysisWindow = { index: 2, start: 560, end: 700 };
+
+const ids = (events: ProductEvent[]) => events.map((e) => e.event_id);
+
+describe('eventsInFailedWindows', () => {
+  const previous = [
+    event('intro', 10, 20),
+    event('overlap-first', 285, 295),
+    event('middle', 400, 420),
+    event('overlap-third', 565, 575),
+    event('across', 540, 600),
+    event('outro', 650, 660)
+  ];
+
+  it('keeps the saved events of a failed window', () => {
+    expect(ids(eventsInFailedWindows(previous, [SECOND], [FIRST, THIRD]))).toEqual(['middle', 'across']);
+  });
+
+  it('leaves events inside a window that succeeded to its new detections', () => {
+    expect(ids(eventsInFailedWindows(previous, [FIRST, THIRD], [SECOND]))).toEqual(['intro', 'across', 'outro']);
+  });
+
+  it('keeps nothing when no window failed', () => {
+    expect(eventsInFailedWindows(previous, [], [FIRST, SECOND, THIRD])).toEqual([]);
+  });
+});
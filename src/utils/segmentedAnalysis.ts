@@ -0,0 +1,192 @@
+import { ProductEvent, VideoAnalysisMetadata } from '@/types/brandMentions';
+
+/**
+ * A time window of a video analyzed by a single Analyze call
+ */
+export type AnalysisWindow = {
+  index: number;
+  start: number; // seconds
+  end: number; // seconds
+};
+
+/**
+ * Events detected in one window, already shifted to absolute seconds
+ */
+export type WindowEvents = {
+  window: AnalysisWindow;
+  events: ProductEvent[];
+};
+
+// Videos longer than this are split into windows when segment analysis is requested
+export const SEGMENT_WINDOW_SEC = 300;
+// Overlap between consecutive windows so boundary appearances are seen by both
+export const SEGMENT_OVERLAP_SEC = 20;
+// Max gap between two window detections that still counts as one continuous appearance
+const STITCH_TOLERANCE_SEC = 1;
+
+/**
+ * Splits a video duration into overlapping analysis windows
+ * @param duration Video duration in seconds
+ * @param windowSec Window length in seconds
+ * @param overlapSec Overlap between consecutive windows in seconds
+ * @returns Windows covering [0, duration]; a single window for short videos
+ */
+export function buildAnalysisWindows(
+  duration: number,
+  windowSec: number = SEGMENT_WINDOW_SEC,
+  overlapSec: number = SEGMENT_OVERLAP_SEC
+): AnalysisWindow[] {
+  if (duration <= 0) {
+    return [];
+  }
+
+  if (overlapSec >= windowSec) {
+    throw new Error('Window overlap must be shorter than the window length');
+  }
+
+  if (duration <= windowSec) {
+    return [{ index: 0, start: 0, end: duration }];
+  }
+
+  const windows: AnalysisWindow[] = [];
+  const step = windowSec - overlapSec;
+
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(start + windowSec, duration);
+    windows.push({ index: windows.length, start, end });
+    if (end >= duration) break;
+  }
+
+  return windows;
+}
+
+/**
+ * Shifts window-relative event timelines to absolute seconds and clamps them to the window
+ * @param events Events with timelines relative to the window start
+ * @param window Window the events were detected in
+ * @returns Events with absolute timelines; events that fall entirely outside the window are dropped
+ */
+export function shiftWindowEvents(events: ProductEvent[], window: AnalysisWindow): ProductEvent[] {
+  return events
+    .map((event) => ({
+      ...event,
+      timeline_start: Math.max(window.start, event.timeline_start + window.start),
+      timeline_end: Math.min(window.end, event.timeline_end + window.start),
+    }))
+    .filter((event) => event.timeline_end > event.timeline_start);
+}
+
+function sameAsset(a: ProductEvent, b: ProductEvent): boolean {
+  return (
+    a.brand.trim().toLowerCase() === b.brand.trim().toLowerCase() &&
+    a.product_name.trim().toLowerCase() === b.product_name.trim().toLowerCase()
+  );
+}
+
+function mergeEvents(a: ProductEvent, b: ProductEvent): ProductEvent {
+  const longer = a.timeline_end - a.timeline_start >= b.timeline_end - b.timeline_start ? a : b;
+  const confidences = [a.confidence, b.confidence].filter((c): c is number => c !== undefined);
+
+  return {
+    ...longer,
+    timeline_start: Math.min(a.timeline_start, b.timeline_start),
+    timeline_end: Math.max(a.timeline_end, b.timeline_end),
+    confidence: confidences.length > 0 ? Math.max(...confidences) : undefined,
+  };
+}
+
+/**
+ * Combines per-window results into one event list.
+ * Detections of the same brand/product from adjacent windows that meet inside
+ * the windows' overlap zone are stitched into a single event; detections within
+ * one window are left untouched to preserve micro-segmentation.
+ * @param segments Events per window, in window order, with absolute timelines
+ * @returns Stitched events sorted by start time
+ */
+export function stitchWindowEvents(segments: WindowEvents[]): ProductEvent[] {
+  const result: ProductEvent[] = [];
+  // Indexes into result of the events contributed by the previous window
+  let previousIndexes: number[] = [];
+  let previousWindow: AnalysisWindow | null = null;
+
+  segments.forEach(({ window, events }) => {
+    const currentIndexes: number[] = [];
+
+    events.forEach((event) => {
+      let stitchedInto = -1;
+
+      if (previousWindow) {
+        const zoneStart = window.start - STITCH_TOLERANCE_SEC;
+        const zoneEnd = previousWindow.end + STITCH_TOLERANCE_SEC;
+
+        // Only events that begin inside the overlap zone can continue a previous-window event
+        if (event.timeline_start <= zoneEnd) {
+          stitchedInto = previousIndexes.find((idx) => {
+            const candidate = result[idx];
+            return (
+              sameAsset(candidate, event) &&
+              candidate.timeline_end >= zoneStart &&
+              event.timeline_start <= candidate.timeline_end + STITCH_TOLERANCE_SEC &&
+              candidate.timeline_start <= event.timeline_end + STITCH_TOLERANCE_SEC
+            );
+          }) ?? -1;
+        }
+      }
+
+      if (stitchedInto >= 0) {
+        result[stitchedInto] = mergeEvents(result[stitchedInto], event);
+        currentIndexes.push(stitchedInto);
+      } else {
+        result.push({ ...event });
+        currentIndexes.push(result.length - 1);
+      }
+    });
+
+    previousIndexes = currentIndexes;
+    previousWindow = window;
+  });
+
+  return result.sort((a, b) => a.timeline_start - b.timeline_start);
+}
+
+/**
+ * Saved events in the time range of windows that failed, so a partial re-analysis does not delete them
+ * Events that lie inside a window that succeeded are left to that window's new detections.
+ * @param previous Saved events, in absolute seconds
+ * @param failed Windows whose Analyze call failed
+ * @param succeeded Windows that were analyzed
+ */
+export function eventsInFailedWindows(
+  previous: ProductEvent[],
+  failed: AnalysisWindow[],
+  succeeded: AnalysisWindow[]
+): ProductEvent[] {
+  return previous.filter((event) =>
+    failed.some((window) => event.timeline_end > window.start && event.timeline_start < window.end) &&
+    !succeeded.some((window) => event.timeline_start >= window.start && event.timeline_end <= window.end)
+  );
+}
+
+/**
+ * Merges tones/styles/creator reported by each window into one analysis
+ * Keeps the three most frequently reported tones and styles
+ */
+export function mergeWindowAnalyses(analyses: VideoAnalysisMetadata[]): VideoAnalysisMetadata {
+  const topThree = (lists: (string[] | undefined)[]): string[] | undefined => {
+    const counts = new Map<string, number>();
+    lists.flat().forEach((value) => {
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    });
+    if (counts.size === 0) return undefined;
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([value]) => value);
+  };
+
+  return {
+    tones: topThree(analyses.map((a) => a.tones)),
+    styles: topThree(analyses.map((a) => a.styles)),
+    creator: analyses.find((a) => a.creator)?.creator,
+  };
+}
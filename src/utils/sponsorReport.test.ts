@@ -0,0 +1,134 @@
+import { inflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { ProductEvent } from '@/types/brandMentions';
+import { SponsorReportInput } from '@/types/sponsorReport';
+import { placementThumbnailUrl, renderSponsorReport } from '@/utils/sponsorReport';
+
+const event = (videoId: string, brand: string, start: number, end: number): ProductEvent => ({
+  video_id: videoId,
+  brand,
+  product_name: `${brand} product`,
+  timeline_start: start,
+  timeline_end: end,
+  source: 'analyze'
+});
+
+// Smallest JPEG header readJpeg accepts: SOI, then a 32x16 RGB SOF0 segment
+const JPEG = Buffer.from([
+  0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x10, 0x00, 0x20, 0x03,
+  0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01, 0xff, 0xd9
+]);
+
+const thumbnails = (videoId: string) => [0, 1, 2, 3].map((i) => `https://thumbs.test/${videoId}/${i}.jpg`);
+
+const INPUT: SponsorReportInput = {
+  title: 'Spring campaign',
+  generatedAt: '2026-03-01T12:00:00.000Z',
+  videos: [
+    {
+      videoId: 'v1',
+      title: 'Morning routine',
+      creator: 'alice',
+      duration: 120,
+      events: [event('v1', 'Nike', 5, 20), event('v1', 'Pepsi', 60, 75)],
+      thumbnailUrls: thumbnails('v1')
+    },
+    {
+      videoId: 'v2',
+      creator: 'bob',
+      duration: 60,
+      events: [event('v2', 'Nike', 30, 40)],
+      thumbnailUrls: thumbnails('v2')
+    }
+  ],
+  thumbnails: {
+    'https://thumbs.test/v1/0.jpg': JPEG,
+    'https://thumbs.test/v2/2.jpg': Buffer.from('not a jpeg')
+  }
+};
+
+// Splits a PDF into what the checks below need, failing on anything malformed
+function readPdf(pdf: Buffer) {
+  const text = pdf.toString('latin1');
+  const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)?.[1]);
+  const xref = /^xref\n0 (\d+)\n([\s\S]*?)trailer\n<< ([^\n]*) >>\n/.exec(text.slice(startxref));
+  if (!xref) {
+    throw new Error('No xref table at startxref');
+  }
+  const entries = xref[2].trim().split('\n');
+  const offsets = entries.slice(1).map((entry) => Number(entry.slice(0, 10)));
+  return { text, startxref, count: Number(xref[1]), entries, offsets, trailer: xref[3] };
+}
+
+// Decompressed content streams of all pages
+function pageContents(text: string): string[] {
+  const contents: string[] = [];
+  const pattern = /<< \/Filter \/FlateDecode \/Length (\d+) >>\nstream\n/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const start = match.index + match[0].length;
+    contents.push(inflateSync(Buffer.from(text.slice(start, start + Number(match[1])), 'latin1')).toString('latin1'));
+  }
+  return contents;
+}
+
+describe('renderSponsorReport', () => {
+  const pdf = renderSponsorReport(INPUT);
+  const { text, startxref, count, entries, offsets, trailer } = readPdf(pdf);
+
+  it('starts with the PDF header and ends with %%EOF', () => {
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+    expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+  });
+
+  it('has an xref entry at the position of every object', () => {
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    expect(entries).toHaveLength(count);
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset, offset + `${index + 1} 0 obj\n`.length)).toBe(`${index + 1} 0 obj\n`);
+    });
+    expect(text.match(/^\d+ 0 obj$/gm)).toHaveLength(count - 1);
+  });
+
+  it('declares the object count in the trailer', () => {
+    expect(trailer).toBe(`/Size ${count} /Root 1 0 R /Info 5 0 R`);
+  });
+
+  it('lists every page in the page tree', () => {
+    const pages = /<< \/Type \/Pages \/Kids \[([^\]]*)\] \/Count (\d+) >>/.exec(text);
+    const kids = pages![1].split(' 0 R').map((id) => id.trim()).filter(Boolean);
+    expect(kids).toHaveLength(Number(pages![2]));
+    kids.forEach((id) => {
+      expect(text.slice(offsets[Number(id) - 1])).toMatch(new RegExp(`^${id} 0 obj\\n<< /Type /Page /Parent 2 0 R`));
+    });
+    expect(pageContents(text)).toHaveLength(kids.length);
+  });
+
+  it('draws the title, brands and videos', () => {
+    const contents = pageContents(text).join('\n');
+    expect(text).toContain('/Title (Spring campaign)');
+    ['Spring campaign', 'Nike', 'Pepsi', 'Morning routine', 'v2'].forEach((label) => {
+      expect(contents).toContain(`(${label})`);
+    });
+  });
+
+  it('embeds JPEG thumbnails only', () => {
+    expect(text.match(/\/Subtype \/Image /g)).toHaveLength(1);
+    expect(text).toContain('/Width 32 /Height 16 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode');
+  });
+
+  it('renders a report without videos', () => {
+    const empty = readPdf(renderSponsorReport({ videos: [] }));
+    expect(empty.text.startsWith('%PDF-')).toBe(true);
+    expect(empty.trailer).toBe(`/Size ${empty.count} /Root 1 0 R /Info 5 0 R`);
+  });
+});
+
+describe('placementThumbnailUrl', () => {
+  it('picks the thumbnail nearest to the middle of the placement', () => {
+    const [video] = INPUT.videos;
+    expect(placementThumbnailUrl(video, event('v1', 'Nike', 5, 20))).toBe('https://thumbs.test/v1/0.jpg');
+    expect(placementThumbnailUrl(video, event('v1', 'Pepsi', 60, 75))).toBe('https://thumbs.test/v1/2.jpg');
+    expect(placementThumbnailUrl({ ...video, thumbnailUrls: undefined }, video.events[0])).toBeUndefined();
+  });
+});
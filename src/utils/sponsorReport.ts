@@ -0,0 +1,439 @@
+import { HeatmapBucket, ProductEvent } from '@/types/brandMentions';
+import { ReportVideo, SponsorReportInput } from '@/types/sponsorReport';
+import { computeBrandMetrics } from '@/utils/brandMetrics';
+import { aggregateLibrary, aggregatePerVideo, thumbnailAt } from '@/utils/heatmap';
+import {
+  PdfColor,
+  PdfImage,
+  PdfPage,
+  buildPdf,
+  createPage,
+  drawImage,
+  drawLine,
+  drawRect,
+  drawText,
+  readJpeg
+} from '@/utils/pdfWriter';
+
+type Layout = {
+  pages: PdfPage[];
+  page: PdfPage;
+  y: number; // top of the free space on the current page
+};
+
+type HeatmapRow = {
+  label: string;
+  buckets: HeatmapBucket[];
+  bold?: boolean;
+};
+
+type Column = {
+  title: string;
+  width: number;
+  align?: 'left' | 'right';
+};
+
+// Same bucket count as the heatmaps on the brand-mention-detection page
+const NUM_BUCKETS = 50;
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 24;
+const HEATMAP_LABEL_WIDTH = 150;
+const HEATMAP_ROW_HEIGHT = 12;
+const TABLE_ROW_HEIGHT = 18;
+const THUMBNAIL_WIDTH = 64;
+const THUMBNAIL_HEIGHT = 36;
+
+const BLACK: PdfColor = [0.11, 0.11, 0.11];
+const GRAY: PdfColor = [0.45, 0.45, 0.45];
+const BORDER: PdfColor = [0.82, 0.82, 0.82];
+const ZINC_100: PdfColor = [0.96, 0.96, 0.96];
+
+// Opacity steps of the Heatmap component, applied to rgb(29, 28, 27) over white
+const HEATMAP_STEPS = [0, 0.1, 0.2, 0.3, 0.4, 0.6, 0.7, 0.8, 0.9, 1];
+
+/**
+ * Heatmap cell color for a value relative to the row maximum, matching the Heatmap component
+ */
+function heatmapColor(value: number, maxValue: number): PdfColor {
+  const normalized = maxValue > 0 ? Math.min(value / maxValue, 1) : 0;
+  const step = Math.max(0, Math.min(HEATMAP_STEPS.length - 1, Math.ceil(normalized * 10) - 1));
+  const alpha = HEATMAP_STEPS[step];
+  return [29, 28, 27].map((channel) => (255 - alpha * (255 - channel)) / 255) as PdfColor;
+}
+
+/**
+ * Formats seconds as m:ss, or h:mm:ss for an hour or more
+ */
+function formatTime(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+const videoLabel = (video: ReportVideo): string => video.title || video.videoId;
+
+/**
+ * Picks the thumbnail nearest to the middle of a placement
+ * @returns The thumbnail URL, or undefined when the video has none
+ */
+export function placementThumbnailUrl(video: ReportVideo, event: ProductEvent): string | undefined {
+  return thumbnailAt(video.thumbnailUrls, video.duration, (event.timeline_start + event.timeline_end) / 2);
+}
+
+function newPage(layout: Layout): void {
+  layout.page = createPage();
+  layout.pages.push(layout.page);
+  layout.y = MARGIN;
+}
+
+/**
+ * Moves to a new page when the next block does not fit on the current one
+ */
+function ensureSpace(layout: Layout, height: number): void {
+  if (layout.y + height > layout.page.height - MARGIN - FOOTER_HEIGHT) {
+    newPage(layout);
+  }
+}
+
+function sectionTitle(layout: Layout, title: string): void {
+  ensureSpace(layout, 60);
+  drawText(layout.page, title, MARGIN, layout.y + 18, { size: 18, color: BLACK });
+  layout.y += 34;
+}
+
+function drawCover(layout: Layout, input: SponsorReportInput, videos: ReportVideo[]): void {
+  const { page } = layout;
+  const contentWidth = page.width - 2 * MARGIN;
+  const events = videos.flatMap((video) => video.events);
+  const metrics = computeBrandMetrics(videos);
+  const generatedAt = new Date(input.generatedAt ?? Date.now());
+
+  drawRect(page, 0, 0, page.width, 8, BLACK);
+  drawText(page, input.title || 'Brand Mention Report', MARGIN, 150, { size: 30, bold: true, color: BLACK, maxWidth: contentWidth });
+  drawText(
+    page,
+    input.brands && input.brands.length > 0 ? `Brands: ${input.brands.join(', ')}` : 'All detected brands',
+    MARGIN,
+    182,
+    { size: 14, color: GRAY, maxWidth: contentWidth }
+  );
+  drawText(page, `Generated ${generatedAt.toISOString().slice(0, 10)}`, MARGIN, 204, { size: 11, color: GRAY });
+
+  const stats: [string, string][] = [
+    ['Videos', String(videos.length)],
+    ['Creators', String(new Set(videos.map((video) => video.creator)).size)],
+    ['Placements', String(events.length)],
+    ['Brands', String(metrics.brands.length)],
+    ['Footage', formatTime(metrics.totalDurationSec)],
+  ];
+  const boxWidth = (contentWidth - 16 * (stats.length - 1)) / stats.length;
+  stats.forEach(([label, value], i) => {
+    const x = MARGIN + i * (boxWidth + 16);
+    drawRect(page, x, 250, boxWidth, 70, ZINC_100, BORDER);
+    drawText(page, value, x + 12, 285, { size: 22, bold: true, color: BLACK, maxWidth: boxWidth - 24 });
+    drawText(page, label, x + 12, 306, { size: 10, color: GRAY });
+  });
+
+  const topBrands = metrics.brands.slice(0, 5);
+  if (topBrands.length > 0) {
+    drawText(page, 'Top brands by screen time', MARGIN, 360, { size: 12, bold: true, color: BLACK });
+    topBrands.forEach((brand, i) => {
+      const y = 382 + i * 18;
+      drawText(page, brand.brand, MARGIN, y, { size: 11, color: BLACK, maxWidth: 260 });
+      drawText(page, `${formatTime(brand.screenTimeSec)} on screen`, MARGIN + 280, y, { size: 11, color: GRAY });
+      drawText(page, `${brand.shareOfVoice}% share of voice`, MARGIN + 420, y, { size: 11, color: GRAY });
+    });
+  }
+}
+
+/**
+ * Draws a table, repeating the header row on every page it spans
+ * @param rowHeight Height of each body row
+ * @param drawRow Draws extra content of a row (e.g. images) after its text cells
+ */
+function drawTable(
+  layout: Layout,
+  columns: Column[],
+  rows: string[][],
+  rowHeight: number = TABLE_ROW_HEIGHT,
+  drawRow?: (page: PdfPage, rowIndex: number, top: number) => void
+): void {
+  const width = columns.reduce((sum, column) => sum + column.width, 0);
+
+  const drawCells = (cells: string[], top: number, height: number, bold: boolean) => {
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      const column = columns[i];
+      const textX = column.align === 'right' ? x + column.width - 6 : x + 6;
+      drawText(layout.page, cell, textX, top + height / 2 + 3, {
+        size: 8,
+        bold,
+        color: bold ? BLACK : [0.25, 0.25, 0.25],
+        align: column.align,
+        maxWidth: column.width - 12,
+      });
+      x += column.width;
+    });
+  };
+
+  const drawHeader = () => {
+    drawRect(layout.page, MARGIN, layout.y, width, TABLE_ROW_HEIGHT, ZINC_100);
+    drawCells(columns.map((column) => column.title), layout.y, TABLE_ROW_HEIGHT, true);
+    layout.y += TABLE_ROW_HEIGHT;
+  };
+
+  ensureSpace(layout, TABLE_ROW_HEIGHT + rowHeight);
+  drawHeader();
+
+  rows.forEach((cells, rowIndex) => {
+    if (layout.y + rowHeight > layout.page.height - MARGIN - FOOTER_HEIGHT) {
+      newPage(layout);
+      drawHeader();
+    }
+    drawCells(cells, layout.y, rowHeight, false);
+    drawRow?.(layout.page, rowIndex, layout.y);
+    layout.y += rowHeight;
+    drawLine(layout.page, MARGIN, layout.y, MARGIN + width, layout.y, BORDER);
+  });
+
+  layout.y += 16;
+}
+
+/**
+ * Draws heatmap rows with a time axis; each row is shaded relative to its own maximum
+ * @param axisLabels Labels spread evenly under the header, from start to end
+ */
+function drawHeatmap(layout: Layout, rows: HeatmapRow[], axisLabels: string[]): void {
+  const gridWidth = layout.page.width - 2 * MARGIN - HEATMAP_LABEL_WIDTH;
+  const cellWidth = gridWidth / NUM_BUCKETS;
+  const gridLeft = MARGIN + HEATMAP_LABEL_WIDTH;
+
+  const drawAxis = () => {
+    axisLabels.forEach((label, i) => {
+      const x = gridLeft + (gridWidth * i) / Math.max(1, axisLabels.length - 1);
+      const align = i === 0 ? 'left' : i === axisLabels.length - 1 ? 'right' : 'center';
+      drawText(layout.page, label, x, layout.y + 9, { size: 7, color: GRAY, align });
+    });
+    layout.y += 14;
+  };
+
+  ensureSpace(layout, 14 + HEATMAP_ROW_HEIGHT);
+  drawAxis();
+
+  rows.forEach((row) => {
+    if (layout.y + HEATMAP_ROW_HEIGHT > layout.page.height - MARGIN - FOOTER_HEIGHT) {
+      newPage(layout);
+      drawAxis();
+    }
+
+    const { page, y } = layout;
+    drawRect(page, MARGIN, y, HEATMAP_LABEL_WIDTH, HEATMAP_ROW_HEIGHT, ZINC_100);
+    drawText(page, row.label, MARGIN + 4, y + 8.5, {
+      size: 7,
+      bold: row.bold,
+      color: BLACK,
+      maxWidth: HEATMAP_LABEL_WIDTH - 8,
+    });
+
+    const maxValue = Math.max(...row.buckets.map((bucket) => bucket.value), 0.1);
+    row.buckets.forEach((bucket, i) => {
+      const color = heatmapColor(bucket.value, maxValue);
+      if (color.some((channel) => channel < 1)) {
+        drawRect(page, gridLeft + i * cellWidth, y, cellWidth, HEATMAP_ROW_HEIGHT, color);
+      }
+    });
+
+    drawRect(page, gridLeft, y, gridWidth, HEATMAP_ROW_HEIGHT, null, BORDER);
+    layout.y += HEATMAP_ROW_HEIGHT;
+  });
+
+  layout.y += 16;
+}
+
+/**
+ * Adds a Total Exposure row summing the buckets of all rows, as on the page
+ */
+function withTotalRow(rows: HeatmapRow[]): HeatmapRow[] {
+  if (rows.length === 0) return rows;
+  const buckets = rows[0].buckets.map((bucket, i) => ({
+    start: bucket.start,
+    end: bucket.end,
+    value: rows.reduce((sum, row) => sum + (row.buckets[i]?.value ?? 0), 0),
+  }));
+  return [{ label: 'Total Exposure', buckets, bold: true }, ...rows];
+}
+
+function drawLibraryHeatmap(layout: Layout, videos: ReportVideo[]): void {
+  const durations = Object.fromEntries(videos.map((video) => [video.videoId, video.duration]));
+  const eventsByVideo = Object.fromEntries(videos.map((video) => [video.videoId, video.events]));
+  const byId = new Map(videos.map((video) => [video.videoId, video]));
+
+  const rows = aggregateLibrary(durations, eventsByVideo, NUM_BUCKETS).map((row) => {
+    const video = byId.get(row.video_id);
+    return {
+      label: video ? `${video.creator} · ${videoLabel(video)}` : row.video_id,
+      buckets: row.buckets,
+    };
+  });
+
+  sectionTitle(layout, 'Library Heatmap');
+  drawText(layout.page, 'One row per video; columns are shares of each video\'s duration.', MARGIN, layout.y, { size: 9, color: GRAY });
+  layout.y += 12;
+  drawHeatmap(layout, withTotalRow(rows), ['0%', '25%', '50%', '75%', '100%']);
+}
+
+function drawVideoHeatmaps(layout: Layout, videos: ReportVideo[]): void {
+  sectionTitle(layout, 'Per-Video Heatmaps');
+
+  videos.filter((video) => video.events.length > 0).forEach((video) => {
+    const rows = aggregatePerVideo(video.events, NUM_BUCKETS, 'brand', video.duration || undefined)
+      .map((row) => ({ label: row.label, buckets: row.buckets }));
+    if (rows.length === 0) return;
+
+    const duration = video.duration || Math.max(...video.events.map((event) => event.timeline_end));
+    ensureSpace(layout, 20 + 14 + HEATMAP_ROW_HEIGHT * Math.min(rows.length + 1, 4));
+    drawText(layout.page, videoLabel(video), MARGIN, layout.y + 10, { size: 11, bold: true, color: BLACK, maxWidth: 520 });
+    drawText(layout.page, `${video.creator} · ${formatTime(duration)}`, layout.page.width - MARGIN, layout.y + 10, {
+      size: 9,
+      color: GRAY,
+      align: 'right',
+      maxWidth: 220,
+    });
+    layout.y += 18;
+    drawHeatmap(layout, withTotalRow(rows), [0, 0.25, 0.5, 0.75, 1].map((share) => formatTime(share * duration)));
+  });
+}
+
+function drawPlacements(layout: Layout, videos: ReportVideo[], images: Map<string, PdfImage | null>): void {
+  const placements = videos.flatMap((video) =>
+    [...video.events]
+      .sort((a, b) => a.timeline_start - b.timeline_start)
+      .map((event) => ({ video, event }))
+  );
+
+  sectionTitle(layout, 'Placements');
+
+  const columns: Column[] = [
+    { title: 'Frame', width: THUMBNAIL_WIDTH + 12 },
+    { title: 'Video', width: 150 },
+    { title: 'Creator', width: 100 },
+    { title: 'Brand', width: 100 },
+    { title: 'Product', width: 110 },
+    { title: 'Time', width: 80 },
+    { title: 'Duration', width: 50, align: 'right' },
+    { title: 'Location', width: 72 },
+  ];
+
+  const rows = placements.map(({ video, event }) => [
+    '',
+    videoLabel(video),
+    video.creator,
+    event.brand,
+    event.source === 'manual' ? `${event.product_name} (manual)` : event.product_name,
+    `${formatTime(event.timeline_start)}–${formatTime(event.timeline_end)}`,
+    `${Math.round((event.timeline_end - event.timeline_start) * 10) / 10}s`,
+    event.location ?? '',
+  ]);
+
+  drawTable(layout, columns, rows, THUMBNAIL_HEIGHT + 8, (page, rowIndex, top) => {
+    const { video, event } = placements[rowIndex];
+    const url = placementThumbnailUrl(video, event);
+    const image = url ? images.get(url) : undefined;
+    const x = MARGIN + 6;
+    const y = top + 4;
+
+    if (!image) {
+      drawRect(page, x, y, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, ZINC_100, BORDER);
+      return;
+    }
+
+    // Fit the frame into the cell, keeping its aspect ratio
+    const scale = Math.min(THUMBNAIL_WIDTH / image.width, THUMBNAIL_HEIGHT / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    drawRect(page, x, y, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, BLACK);
+    drawImage(page, image, x + (THUMBNAIL_WIDTH - width) / 2, y + (THUMBNAIL_HEIGHT - height) / 2, width, height);
+  });
+}
+
+/**
+ * Renders a sponsor report PDF: a cover, per-brand exposure totals, the library heatmap,
+ * per-video heatmaps and a placements table with thumbnail frames.
+ * Thumbnails are taken from input.thumbnails, so rendering needs no network access;
+ * placements whose thumbnail is missing or not a JPEG get an empty frame.
+ * @returns The PDF file contents
+ */
+export function renderSponsorReport(input: SponsorReportInput): Buffer {
+  const brands = input.brands && input.brands.length > 0 ? new Set(input.brands) : null;
+  const videos = input.videos.map((video) => ({
+    ...video,
+    events: brands ? video.events.filter((event) => brands.has(event.brand)) : video.events,
+  }));
+
+  const images = new Map<string, PdfImage | null>();
+  Object.entries(input.thumbnails ?? {}).forEach(([url, data]) => images.set(url, readJpeg(data)));
+
+  const cover = createPage();
+  const layout: Layout = { pages: [cover], page: cover, y: MARGIN };
+  drawCover(layout, input, videos);
+
+  newPage(layout);
+  sectionTitle(layout, 'Brand Exposure');
+  const metrics = computeBrandMetrics(videos);
+  if (metrics.brands.length === 0) {
+    drawText(layout.page, 'No brand mentions in the selected videos.', MARGIN, layout.y, { size: 10, color: GRAY });
+    layout.y += 20;
+  } else {
+    drawTable(
+      layout,
+      [
+        { title: 'Brand', width: 150 },
+        { title: 'Videos', width: 60, align: 'right' },
+        { title: 'Placements', width: 70, align: 'right' },
+        { title: 'Screen time', width: 80, align: 'right' },
+        { title: '% of duration', width: 80, align: 'right' },
+        { title: 'Appearances', width: 80, align: 'right' },
+        { title: 'First seen', width: 80, align: 'right' },
+        { title: 'Avg first seen', width: 82, align: 'right' },
+        { title: 'Share of voice', width: 80, align: 'right' },
+      ],
+      metrics.brands.map((brand) => [
+        brand.brand,
+        String(brand.videoCount),
+        String(brand.eventCount),
+        formatTime(brand.screenTimeSec),
+        `${brand.percentOfDuration}%`,
+        String(brand.appearanceCount),
+        formatTime(brand.firstAppearanceSec),
+        formatTime(brand.avgFirstAppearanceSec),
+        `${brand.shareOfVoice}%`,
+      ])
+    );
+  }
+
+  newPage(layout);
+  drawLibraryHeatmap(layout, videos);
+
+  newPage(layout);
+  drawVideoHeatmaps(layout, videos);
+
+  newPage(layout);
+  drawPlacements(layout, videos, images);
+
+  const title = input.title || 'Brand Mention Report';
+  layout.pages.forEach((page, i) => {
+    if (i === 0) return;
+    drawLine(page, MARGIN, page.height - MARGIN - 8, page.width - MARGIN, page.height - MARGIN - 8, BORDER);
+    drawText(page, title, MARGIN, page.height - MARGIN + 4, { size: 8, color: GRAY, maxWidth: 400 });
+    drawText(page, `Page ${i + 1} of ${layout.pages.length}`, page.width - MARGIN, page.height - MARGIN + 4, {
+      size: 8,
+      color: GRAY,
+      align: 'right',
+    });
+  });
+
+  return buildPdf(layout.pages, title);
+}
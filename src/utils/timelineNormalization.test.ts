@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { ProductEvent } from '@/types/brandMentions';
+import { parseAnalyzeOutput } from '@/utils/analyzeOutputParser';
+import { toProductEvents } from '@/utils/brandAnalysis';
+import {
+  detectTimelineScale,
+  normalizeEventTimelines,
+  parseTimelineValue
+} from '@/utils/timelineNormalization';
+import {
+  CLOCK_RESPONSE,
+  FRAMES_RESPONSE,
+  INTRO_SECONDS_RESPONSE,
+  INVALID_BOUNDS_RESPONSE,
+  MILLISECONDS_RESPONSE,
+  PERCENT_OVERSHOOT_RESPONSE,
+  SECONDS_RESPONSE
+} from '@/utils/__fixtures__/analyzeResponses';
+
+// Runs a canned response through the same steps as the analyze route
+function eventsFrom(response: string): ProductEvent[] {
+  const parsed = parseAnalyzeOutput(response);
+  if (parsed.status !== 'ok') {
+    throw new Error(`Fixture did not parse: ${parsed.status}`);
+  }
+  return toProductEvents(parsed.items, 'video-1');
+}
+
+const bounds = (events: ProductEvent[]) =>
+  events.map((event) => [event.brand, event.timeline_start, event.timeline_end]);
+
+describe('parseTimelineValue', () => {
+  it('reads numbers, numeric strings and clock times', () => {
+    expect(parseTimelineValue(12.5)).toBe(12.5);
+    expect(parseTimelineValue('42')).toBe(42);
+    expect(parseTimelineValue('7.5s')).toBe(7.5);
+    expect(parseTimelineValue('1:05')).toBe(65);
+    expect(parseTimelineValue('01:02:03')).toBe(3723);
+    expect(parseTimelineValue('0:07.25')).toBe(7.25);
+  });
+
+  it('rejects unreadable values', () => {
+    expect(parseTimelineValue('soon')).toBeUndefined();
+    expect(parseTimelineValue(null)).toBeUndefined();
+    expect(parseTimelineValue(Number.NaN)).toBeUndefined();
+    expect(parseTimelineValue('1:2:3:4')).toBeUndefined();
+  });
+});
+
+describe('normalizeEventTimelines with canned Analyze responses', () => {
+  it('keeps timelines in seconds', () => {
+    const result = normalizeEventTimelines(eventsFrom(SECONDS_RESPONSE), 60);
+    expect(result.unit).toBe('seconds');
+    expect(bounds(result.events)).toEqual([['Nike', 5, 12], ['Pepsi', 30, 45]]);
+    expect(result.repaired).toBe(0);
+    expect(result.dropped).toBe(0);
+  });
+
+  it('converts percentages that overshoot the video', () => {
+    const result = normalizeEventTimelines(eventsFrom(PERCENT_OVERSHOOT_RESPONSE), 40);
+    expect(result.unit).toBe('percent');
+    expect(bounds(result.events)).toEqual([['Nike', 4, 8], ['Pepsi', 24, 36]]);
+  });
+
+  it('keeps seconds that all fall in the start of a long video', () => {
+    const result = normalizeEventTimelines(eventsFrom(INTRO_SECONDS_RESPONSE), 600);
+    expect(result.unit).toBe('seconds');
+    expect(bounds(result.events)).toEqual([['Nike', 10, 40], ['Pepsi', 70, 95]]);
+  });
+
+  it('converts milliseconds', () => {
+    const result = normalizeEventTimelines(eventsFrom(MILLISECONDS_RESPONSE), 60);
+    expect(result.unit).toBe('milliseconds');
+    expect(bounds(result.events)).toEqual([['Nike', 5, 12], ['Pepsi', 40, 58]]);
+  });
+
+  it('converts frame numbers at the lowest frame rate that fits the video', () => {
+    const result = normalizeEventTimelines(eventsFrom(FRAMES_RESPONSE), 60);
+    expect(result.unit).toBe('frames');
+    expect(result.frameRate).toBe(30);
+    expect(result.events[0]).toMatchObject({ timeline_start: 5, timeline_end: 12 });
+    expect(result.events[1].timeline_start).toBe(40);
+    expect(result.events[1].timeline_end).toBeCloseTo(59.67, 2);
+  });
+
+  it('reads clock times as seconds', () => {
+    const result = normalizeEventTimelines(eventsFrom(CLOCK_RESPONSE), 120);
+    expect(result.unit).toBe('seconds');
+    expect(bounds(result.events)).toEqual([['Nike', 5, 12], ['Pepsi', 90, 105.5]]);
+  });
+
+  it('clamps, swaps, widens and drops invalid bounds', () => {
+    const result = normalizeEventTimelines(eventsFrom(INVALID_BOUNDS_RESPONSE), 100);
+    expect(result.unit).toBe('seconds');
+    expect(bounds(result.events)).toEqual([
+      ['Nike', 0, 10], // clamped at the start
+      ['Pepsi', 95, 100], // clamped at the end
+      ['Adidas', 20, 40], // start > end swapped
+      ['Coke', 50, 51], // zero length widened
+      ['Sprite', 99, 100], // zero length at the end widened backwards
+    ]);
+    expect(result.repaired).toBe(5);
+    // Fanta starts past the end of the video; Puma's timeline is unreadable
+    expect(result.dropped).toBe(2);
+  });
+});
+
+describe('detectTimelineScale', () => {
+  const at = (...timelines: [number, number][]): ProductEvent[] =>
+    timelines.map(([start, end]) => ({
+      video_id: 'video-1',
+      brand: 'Nike',
+      product_name: 'Shoe',
+      timeline_start: start,
+      timeline_end: end,
+      source: 'analyze',
+    }));
+
+  it('falls back to seconds when the duration is unknown', () => {
+    expect(detectTimelineScale(at([5000, 9000]), 0)).toEqual({ unit: 'seconds' });
+  });
+
+  it('treats a slight overshoot above 100 as seconds to clamp', () => {
+    expect(detectTimelineScale(at([90, 110]), 100)).toEqual({ unit: 'seconds' });
+  });
+
+  it('prefers frames over milliseconds when milliseconds would cram events into the start', () => {
+    expect(detectTimelineScale(at([500, 2500]), 60)).toEqual({ unit: 'frames', frameRate: 50 });
+  });
+
+  it('falls back to milliseconds when no frame rate fits', () => {
+    expect(detectTimelineScale(at([1000, 5000]), 60)).toEqual({ unit: 'milliseconds' });
+  });
+
+  it('uses the given unit instead of detecting one', () => {
+    const result = normalizeEventTimelines(at([10, 20]), 40, 'percent');
+    expect(bounds(result.events)).toEqual([['Nike', 4, 8]]);
+  });
+});
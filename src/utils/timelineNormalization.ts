@@ -0,0 +1,214 @@
+import { ProductEvent } from '@/types/brandMentions';
+
+/**
+ * Unit the Analyze model used for an event list's timelines
+ */
+export type TimelineUnit = 'seconds' | 'percent' | 'milliseconds' | 'frames';
+
+/**
+ * A timeline unit, with the frame rate when timelines are frame numbers
+ */
+export type TimelineScale = {
+  unit: TimelineUnit;
+  frameRate?: number;
+};
+
+/**
+ * Result of normalizing an event list's timelines
+ */
+export type TimelineNormalizationResult = {
+  events: ProductEvent[];
+  unit: TimelineUnit;
+  frameRate?: number; // set when the timelines were frame numbers
+  repaired: number; // events whose bounds were fixed (swapped, widened or clamped)
+  dropped: number; // events that could not be placed inside the video
+};
+
+// Length given to zero-length events so they still show up on the heatmap
+const MIN_EVENT_SEC = 1;
+
+// Frame rates tried when timelines look like frame numbers, lowest first
+const FRAME_RATES = [24, 25, 30, 50, 60];
+
+// Frame rate assumed when frames are given without one
+const DEFAULT_FRAME_RATE = 30;
+
+// "mm:ss" or "hh:mm:ss", with optional fractional seconds
+const CLOCK_PATTERN = /^(\d+):(\d{1,2})(?::(\d{1,2}))?(\.\d+)?$/;
+
+/**
+ * Reads a timeline value reported by the model as seconds
+ * Accepts numbers, numeric strings (an "s" suffix is allowed) and "mm:ss" / "hh:mm:ss" clock times.
+ * @returns The value in the model's unit (clock times in seconds), or undefined if unreadable
+ */
+export function parseTimelineValue(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const text = value.trim().toLowerCase();
+  const clock = CLOCK_PATTERN.exec(text);
+  if (clock) {
+    const [, first, second, third, fraction] = clock;
+    const parts = third !== undefined ? [first, second, third] : [first, second];
+    const seconds = parts.reduce((total, part) => total * 60 + Number(part), 0);
+    return seconds + (fraction ? Number(fraction) : 0);
+  }
+
+  const numeric = /^-?\d+(\.\d+)?\s*s?$/.test(text) ? parseFloat(text) : NaN;
+  return Number.isFinite(numeric) ? numeric : undefined;
+}
+
+/**
+ * Detects the unit of event timelines from the video duration
+ *
+ * Values that fit in the video are seconds, as the prompt asks, even when they all
+ * fall in its start (an intro sponsor read). Values that overshoot the video are
+ * percentages when at most 100, and seconds to be clamped when they overshoot it
+ * by at most a quarter. Beyond that they are milliseconds when, read as
+ * such, they span at least half of the video, otherwise frame numbers at the lowest
+ * common frame rate that fits them in the video, otherwise milliseconds if those fit.
+ * Anything else is left as seconds, to be clamped.
+ * @param events Events with raw timelines
+ * @param duration Video duration in seconds
+ * @returns Detected unit and frame rate (seconds when the duration is unknown)
+ */
+export function detectTimelineScale(events: ProductEvent[], duration: number): TimelineScale {
+  const values = events
+    .flatMap((event) => [event.timeline_start, event.timeline_end])
+    .filter(Number.isFinite);
+  if (duration <= 0 || values.length === 0) {
+    return { unit: 'seconds' };
+  }
+
+  const maxValue = Math.max(...values);
+  const tolerance = Math.max(1, duration * 0.02);
+  const fits = (seconds: number) => seconds <= duration + tolerance;
+
+  if (fits(maxValue)) {
+    return { unit: 'seconds' };
+  }
+
+  if (maxValue <= 100) {
+    return { unit: 'percent' };
+  }
+
+  if (maxValue <= duration * 1.25) {
+    return { unit: 'seconds' };
+  }
+
+  const milliseconds = maxValue / 1000;
+  if (fits(milliseconds) && milliseconds >= duration * 0.5) {
+    return { unit: 'milliseconds' };
+  }
+
+  const frameRate = FRAME_RATES.find((rate) => fits(maxValue / rate));
+  if (frameRate) {
+    return { unit: 'frames', frameRate };
+  }
+
+  return fits(milliseconds) ? { unit: 'milliseconds' } : { unit: 'seconds' };
+}
+
+/**
+ * Detects the unit of event timelines; see detectTimelineScale
+ */
+export function detectTimelineUnit(events: ProductEvent[], duration: number): TimelineUnit {
+  return detectTimelineScale(events, duration).unit;
+}
+
+/**
+ * Converts event timelines to seconds, clamps them to [0, duration] and
+ * repairs or drops events with invalid bounds
+ * @param events Events with raw timelines from the Analyze API
+ * @param duration Video (or window) duration in seconds; 0 if unknown
+ * @param scale Timeline unit, or unit and frame rate; detected from the events when omitted
+ * @returns Normalized events with counts of repairs and drops
+ */
+export function normalizeEventTimelines(
+  events: ProductEvent[],
+  duration: number,
+  scale: TimelineUnit | TimelineScale = detectTimelineScale(events, duration)
+): TimelineNormalizationResult {
+  const { unit, frameRate } = typeof scale === 'string' ? { unit: scale, frameRate: undefined } : scale;
+  const rate = unit === 'frames' ? frameRate ?? DEFAULT_FRAME_RATE : undefined;
+  const toSeconds = (value: number): number => {
+    switch (unit) {
+      case 'percent':
+        return (value / 100) * duration;
+      case 'milliseconds':
+        return value / 1000;
+      case 'frames':
+        return value / rate!;
+      default:
+        return value;
+    }
+  };
+  const tolerance = Math.max(1, duration * 0.02);
+
+  let repaired = 0;
+  let dropped = 0;
+  const normalized: ProductEvent[] = [];
+
+  events.forEach((event) => {
+    let start = toSeconds(event.timeline_start);
+    let end = toSeconds(event.timeline_end);
+    let wasRepaired = false;
+
+    if (!Number.isFinite(start) || !Number.isFinite(end)) {
+      dropped++;
+      return;
+    }
+
+    // Reversed bounds: the model swapped start and end
+    if (end < start) {
+      [start, end] = [end, start];
+      wasRepaired = true;
+    }
+
+    if (duration > 0) {
+      // Starts past the end of the video cannot be placed
+      if (start >= duration + tolerance) {
+        dropped++;
+        return;
+      }
+
+      if (start < 0 || end > duration) {
+        start = Math.max(0, start);
+        end = Math.min(duration, end);
+        wasRepaired = true;
+      }
+    } else if (start < 0) {
+      start = 0;
+      wasRepaired = true;
+    }
+
+    // Zero-length events: widen to the minimum length, shifting back if at the end of the video
+    if (end <= start) {
+      end = start + MIN_EVENT_SEC;
+      if (duration > 0 && end > duration) {
+        end = duration;
+        start = Math.max(0, duration - MIN_EVENT_SEC);
+      }
+      wasRepaired = true;
+    }
+
+    if (end <= start) {
+      dropped++;
+      return;
+    }
+
+    if (wasRepaired) repaired++;
+
+    normalized.push({
+      ...event,
+      timeline_start: start,
+      timeline_end: end,
+    });
+  });
+
+  return { events: normalized, unit, frameRate: rate, repaired, dropped };
+}
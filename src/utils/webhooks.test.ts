@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { listReceivedWebhooks, recordReceivedWebhook, saveWebhookSettings, signPayload } from '@/utils/webhooks';
+
+describe('recordReceivedWebhook', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhooks-'));
+    process.env.DATA_DIR = dataDir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps every one of concurrent deliveries', async () => {
+    await Promise.all(Array.from({ length: 10 }, (_, index) => recordReceivedWebhook(JSON.stringify({ index }), null)));
+
+    const received = await listReceivedWebhooks();
+    expect(received).toHaveLength(10);
+    expect(received.map((entry) => (entry.payload as { index: number }).index).sort((a, b) => a - b))
+      .toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('checks the signature when a secret is set', async () => {
+    await saveWebhookSettings({ enabled: true, url: 'http://localhost/receiver', secret: 'shh' });
+    const body = JSON.stringify({ type: 'test' });
+
+    expect((await recordReceivedWebhook(body, signPayload(body, 'shh'))).signatureValid).toBe(true);
+    expect((await recordReceivedWebhook(body, 'sha256=forged')).signatureValid).toBe(false);
+  });
+});
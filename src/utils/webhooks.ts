@@ -0,0 +1,126 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ReceivedWebhook, WebhookDelivery, WebhookPayload, WebhookSettings } from '@/types/analysisChanges';
+import { readJsonFile, writeJsonFile } from '@/utils/localStore';
+
+const SETTINGS_FILE = 'webhook-settings.json';
+const RECEIVED_FILE = 'webhook-received.json';
+
+// Requests kept by the local test receiver
+const MAX_RECEIVED = 50;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Keep the received-log update chain on globalThis so dev-server module reloads share it
+const globalForWebhooks = globalThis as unknown as { receivedWebhookUpdates?: Promise<unknown> };
+
+/**
+ * Loads the webhook settings saved on the admin page, falling back to
+ * CHANGE_WEBHOOK_URL and CHANGE_WEBHOOK_SECRET when none were saved
+ */
+export async function loadWebhookSettings(): Promise<WebhookSettings> {
+  const url = process.env.CHANGE_WEBHOOK_URL || '';
+  return readJsonFile<WebhookSettings>(SETTINGS_FILE, {
+    enabled: url !== '',
+    url,
+    secret: process.env.CHANGE_WEBHOOK_SECRET || undefined,
+  });
+}
+
+/**
+ * Saves the webhook settings
+ */
+export async function saveWebhookSettings(settings: WebhookSettings): Promise<void> {
+  await writeJsonFile(SETTINGS_FILE, settings);
+}
+
+/**
+ * Signs a request body with the webhook secret
+ * @returns The signature header value, `sha256=<hex HMAC>`
+ */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Posts a payload to the configured webhook
+ * Failures are reported in the result rather than thrown, so a broken receiver never fails an analysis.
+ * @returns The delivery outcome, or null when the webhook is disabled
+ */
+export async function sendWebhook(payload: WebhookPayload, settings?: WebhookSettings): Promise<WebhookDelivery | null> {
+  const { enabled, url, secret } = settings ?? await loadWebhookSettings();
+  if (!enabled || !url) {
+    return null;
+  }
+
+  const body = JSON.stringify(payload);
+  const attemptedAt = new Date().toISOString();
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(secret ? { [SIGNATURE_HEADER]: signPayload(body, secret) } : {}),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.warn(`⚠️ Webhook ${url} answered ${response.status}`);
+    }
+    return { delivered: response.ok, url, status: response.status, attemptedAt };
+  } catch (error) {
+    console.warn(`⚠️ Failed to deliver webhook to ${url}:`, error);
+    return {
+      delivered: false,
+      url,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      attemptedAt,
+    };
+  }
+}
+
+/**
+ * Stores a request received by the local test receiver, checking its signature
+ * against the configured secret
+ * @returns The stored request
+ */
+export async function recordReceivedWebhook(body: string, signature: string | null): Promise<ReceivedWebhook> {
+  const { secret } = await loadWebhookSettings();
+
+  let signatureValid: boolean | null = null;
+  if (secret) {
+    const expected = Buffer.from(signPayload(body, secret));
+    const actual = Buffer.from(signature ?? '');
+    signatureValid = expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    payload = body;
+  }
+
+  const received: ReceivedWebhook = { receivedAt: new Date().toISOString(), signatureValid, payload };
+
+  // Appended after every earlier delivery, so concurrent deliveries never drop each other
+  const run = (globalForWebhooks.receivedWebhookUpdates ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const stored = await listReceivedWebhooks();
+      await writeJsonFile(RECEIVED_FILE, [received, ...stored].slice(0, MAX_RECEIVED));
+      return received;
+    });
+  globalForWebhooks.receivedWebhookUpdates = run;
+  return run;
+}
+
+/**
+ * Lists the requests received by the local test receiver, newest first
+ */
+export async function listReceivedWebhooks(): Promise<ReceivedWebhook[]> {
+  return readJsonFile<ReceivedWebhook[]>(RECEIVED_FILE, []);
+}